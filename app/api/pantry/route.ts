@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "../../lib/prisma";
+import { PantrySchema } from "../../../src/core/validation/PantrySchema";
+import type { PantryItem } from "../../../src/core/models/Pantry";
+
+type PantryRecord = {
+  id: string;
+  name: string;
+  foodId: string | null;
+  quantity: number;
+  unit: string;
+  expiresAt: Date | null;
+  updatedAt: Date;
+};
+
+// Rows in the local store's shape (PantryStore), so the client can load them as is
+function toPantryItem(record: PantryRecord): PantryItem {
+  return {
+    id: record.id,
+    name: record.name,
+    ...(record.foodId ? { foodId: record.foodId } : {}),
+    quantity: record.quantity,
+    unit: record.unit,
+    ...(record.expiresAt ? { expiresAt: record.expiresAt.toISOString().slice(0, 10) } : {}),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+export async function GET() {
+  const session = await getServerSession();
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  const items = await prisma.pantryItem.findMany({
+    where: { userId: user.id },
+    orderBy: [{ expiresAt: "asc" }, { name: "asc" }],
+  });
+
+  return NextResponse.json(items.map(toPantryItem));
+}
+
+// Replaces the whole pantry with the local store's items (ids kept, keyed per user)
+export async function PUT(req: Request) {
+  const session = await getServerSession();
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  const body = await req.json();
+  const parsed = PantrySchema.safeParse(body.items);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid pantry" }, { status: 400 });
+  }
+
+  try {
+    await prisma.$transaction([
+      prisma.pantryItem.deleteMany({ where: { userId: user.id } }),
+      prisma.pantryItem.createMany({
+        data: parsed.data.map((item) => ({
+          id: item.id,
+          userId: user.id,
+          name: item.name,
+          foodId: item.foodId,
+          quantity: item.quantity,
+          unit: item.unit,
+          expiresAt: item.expiresAt ? new Date(`${item.expiresAt}T00:00:00Z`) : null,
+        })),
+      }),
+    ]);
+
+    const items = await prisma.pantryItem.findMany({
+      where: { userId: user.id },
+      orderBy: [{ expiresAt: "asc" }, { name: "asc" }],
+    });
+
+    return NextResponse.json(items.map(toPantryItem));
+  } catch {
+    return NextResponse.json({ error: "Could not save pantry" }, { status: 500 });
+  }
+}
@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { prisma } from "../../lib/prisma";
+import { findOwnedProgram } from "../../lib/programs";
+import { getProgramLength } from "../../../src/core/logic/programs";
+import { ProgramSchema } from "../../../src/core/validation/ProgramSchema";
 
 export async function GET() {
   const session = await getServerSession();
@@ -30,11 +33,30 @@ export async function POST(req: Request) {
   }
 
   const body = await req.json();
+
+  // Week of a periodized program (see /api/programs): only the user's own, within its length
+  const programId = body.programId ?? null;
+  const programWeek = body.programWeek ?? null;
+  if (programId !== null || programWeek !== null) {
+    const program = typeof programId === "string" ? await findOwnedProgram(session.user.email, programId) : null;
+    if (!program) {
+      return NextResponse.json({ error: "Program not found" }, { status: 404 });
+    }
+
+    const parsed = ProgramSchema.safeParse(program.programJson);
+    const weeks = parsed.success ? getProgramLength(parsed.data) : 0;
+    if (!Number.isInteger(programWeek) || programWeek < 1 || programWeek > weeks) {
+      return NextResponse.json({ error: "Invalid program week" }, { status: 400 });
+    }
+  }
+
   const plan = await prisma.savedPlan.create({
     data: {
       userId: user.id,
       name: body.name || "My Plan",
       planJson: body.planJson,
+      programId,
+      programWeek,
     },
   });
 
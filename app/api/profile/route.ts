@@ -1,6 +1,13 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { prisma } from "../../lib/prisma";
+import {
+  CurrencySchema,
+  HouseholdPartnersSchema,
+  TrainingScheduleSchema,
+  UserAllergiesSchema,
+  WeeklyBudgetSchema,
+} from "../../../src/core/validation/PlanInputSchema";
 
 export async function GET() {
   const session = await getServerSession();
@@ -37,6 +44,19 @@ export async function PUT(req: Request) {
 
   const body = await req.json();
 
+  // Ignore malformed schedules / allergy / partner lists instead of persisting them
+  const parsedSchedule = TrainingScheduleSchema.safeParse(body.trainingSchedule);
+  const trainingSchedule = parsedSchedule.success ? parsedSchedule.data : undefined;
+  const parsedAllergies = UserAllergiesSchema.safeParse(body.allergies);
+  const allergies = parsedAllergies.success ? parsedAllergies.data : undefined;
+  // null clears the budget (plan generated without one)
+  const parsedBudget = WeeklyBudgetSchema.safeParse(body.weeklyBudget);
+  const weeklyBudget = body.weeklyBudget === null ? null : parsedBudget.success ? parsedBudget.data : undefined;
+  const parsedCurrency = CurrencySchema.safeParse(body.budgetCurrency);
+  const budgetCurrency = body.budgetCurrency === null ? null : parsedCurrency.success ? parsedCurrency.data : undefined;
+  const parsedPartners = HouseholdPartnersSchema.safeParse(body.householdPartners);
+  const householdPartners = parsedPartners.success ? parsedPartners.data : undefined;
+
   const profile = await prisma.userProfile.upsert({
     where: { userId: user.id },
     update: {
@@ -45,8 +65,11 @@ export async function PUT(req: Request) {
       weightKg: body.weightKg,
       heightCm: body.heightCm,
       activityLevel: body.activityLevel,
-      allergies: body.allergies,
-      weeklyBudget: body.weeklyBudget,
+      allergies,
+      trainingSchedule,
+      weeklyBudget,
+      budgetCurrency,
+      householdPartners,
       preferredLang: body.preferredLang,
     },
     create: {
@@ -56,8 +79,11 @@ export async function PUT(req: Request) {
       weightKg: body.weightKg,
       heightCm: body.heightCm,
       activityLevel: body.activityLevel,
-      allergies: body.allergies,
-      weeklyBudget: body.weeklyBudget,
+      allergies,
+      trainingSchedule,
+      weeklyBudget,
+      budgetCurrency,
+      householdPartners,
       preferredLang: body.preferredLang ?? "en",
     },
   });
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "../../../lib/prisma";
+import { findOwnedProgram } from "../../../lib/programs";
+import { ProgramSchema } from "../../../../src/core/validation/ProgramSchema";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession();
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const program = await findOwnedProgram(session.user.email, params.id);
+  if (!program) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(program);
+}
+
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession();
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!(await findOwnedProgram(session.user.email, params.id))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const body = await req.json();
+  const parsed = ProgramSchema.safeParse(body.programJson);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid program" }, { status: 400 });
+  }
+
+  const program = await prisma.program.update({
+    where: { id: params.id },
+    data: {
+      name: parsed.data.name,
+      goal: parsed.data.goal,
+      startDate: new Date(`${parsed.data.startDate}T00:00:00Z`),
+      programJson: body.programJson,
+    },
+  });
+
+  return NextResponse.json(program);
+}
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession();
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!(await findOwnedProgram(session.user.email, params.id))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  // Week plans are kept (programId set to null)
+  await prisma.program.delete({ where: { id: params.id } });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "../../lib/prisma";
+import { ProgramSchema } from "../../../src/core/validation/ProgramSchema";
+
+export async function GET() {
+  const session = await getServerSession();
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  const programs = await prisma.program.findMany({
+    where: { userId: user.id },
+    orderBy: { startDate: "desc" },
+    include: {
+      savedPlans: {
+        select: { id: true, programWeek: true, createdAt: true },
+        orderBy: { programWeek: "asc" },
+      },
+    },
+  });
+
+  return NextResponse.json(programs);
+}
+
+export async function POST(req: Request) {
+  const session = await getServerSession();
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  const body = await req.json();
+  const parsed = ProgramSchema.safeParse(body.programJson);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid program" }, { status: 400 });
+  }
+
+  const program = await prisma.program.create({
+    data: {
+      userId: user.id,
+      name: parsed.data.name,
+      goal: parsed.data.goal,
+      startDate: new Date(`${parsed.data.startDate}T00:00:00Z`),
+      programJson: body.programJson,
+    },
+  });
+
+  return NextResponse.json(program, { status: 201 });
+}
@@ -41,10 +41,16 @@ export async function POST(req: Request) {
   }
 
   const body = await req.json();
+  // Entries belong to a calendar day: "YYYY-MM-DD" is stored as that day's UTC midnight
+  const date = body.date ? new Date(body.date) : new Date();
+  if (Number.isNaN(date.getTime())) {
+    return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+  }
+
   const entry = await prisma.progressEntry.create({
     data: {
       userId: user.id,
-      date: body.date ? new Date(body.date) : new Date(),
+      date,
       weightKg: body.weightKg,
       calories: body.calories,
       protein: body.protein,
@@ -12,11 +12,18 @@ import { detectRepetitionRisk, type WeeklyFeedbackResponse, useWeeklyFeedback }
 import { useShoppingListState } from "../../../src/hooks/useShoppingListState";
 import { isPremiumUser } from "../../../src/core/premium/PremiumFeatures";
 import { getPrepFlowStatus } from "../../../src/core/logic/PrepFlowController";
-import { suggestRecipes, suggestRecipesByMealType, getFullyMatchedRecipes, trackRecipeHabit } from "../../../src/core/logic/suggestRecipes";
+import { suggestRecipes, suggestRecipesByMealType, getFullyMatchedRecipes, trackRecipeHabit, isRecipeAllowed } from "../../../src/core/logic/suggestRecipes";
+import { parseDietaryRestrictions } from "../../../src/core/logic/dietaryRestrictions";
 import { assessDropoffRisk, buildPreventiveInput } from "../../../src/core/logic/predictDropoffRisk";
+import { getPlanDateRange } from "../../../src/core/logic/planCalendar";
+import { groupByAisle } from "../../../src/core/logic/storeLayouts";
 import { recordPreventiveAction, recordRetentionRiskSnapshot } from "../../../src/core/stores/RetentionRiskStore";
 import { AppNav } from "../../components/AppNav";
 import { TodayWidget } from "../../components/TodayWidget";
+import { PantryPanel } from "../../components/PantryPanel";
+import { StoreComparison } from "../../components/StoreComparison";
+import { StoreLayoutPanel } from "../../components/StoreLayoutPanel";
+import { WeeklyBudgetSummary } from "../../components/WeeklyBudgetSummary";
 import PDFExportButton from "../../components/PDFExportButton";
 import ShareCardExportButton from "../../components/ShareCardExportButton";
 import { useAppTranslation } from "../../lib/i18n";
@@ -27,11 +34,22 @@ export default function ShoppingListRoute() {
   const { t } = useAppTranslation();
   const { addToast } = useToast();
   const isPremium = isPremiumUser();
-  const { weeklyPlan, shoppingList, toggleItemPurchased, history, saveAdherenceScore, currentInput, generatePlan, streak } = useShoppingPlan();
+  const {
+    weeklyPlan,
+    shoppingList,
+    toggleItemPurchased,
+    history,
+    saveAdherenceScore,
+    currentInput,
+    generatePlan,
+    streak,
+    storeLayout,
+    marketMode,
+  } = useShoppingPlan();
   const [statusMessage, setStatusMessage] = useState("");
   const [showCheckInModal, setShowCheckInModal] = useState(false);
   const cardRef = useRef<HTMLElement | null>(null);
-  const { hasFeedbackForPlan, submitWeeklyFeedback } = useWeeklyFeedback();
+  const { isFeedbackDue, submitWeeklyFeedback } = useWeeklyFeedback();
   const isHydrated = useShoppingProgressStore((state) => state.isHydrated);
   const purchasedCountStore = useShoppingProgressStore((state) => state.purchasedCount);
   const totalCountStore = useShoppingProgressStore((state) => state.totalCount);
@@ -39,6 +57,7 @@ export default function ShoppingListRoute() {
   const setProgressCounts = useShoppingProgressStore((state) => state.setProgressCounts);
 
   const planDays = weeklyPlan?.days.length || 7;
+  const householdSize = weeklyPlan?.householdSize || 1;
   const {
     aggregatedShoppingList,
     purchasedCount,
@@ -49,6 +68,7 @@ export default function ShoppingListRoute() {
   } = useShoppingListState({
     shoppingList,
     planDays,
+    householdSize,
     toggleItemPurchased,
   });
   const groupedItems = aggregatedShoppingList.reduce<Record<string, AggregatedShoppingItem[]>>((accumulator, item) => {
@@ -83,17 +103,33 @@ export default function ShoppingListRoute() {
   } as const;
 
   const sortedCategories = Object.entries(groupedItems).map(([category, items]) => {
+    // Still to buy first; purchased and pantry-covered items sink to the bottom
     const sorted = [...items].sort((a, b) => {
-      if (a.purchased === b.purchased) return 0;
-      return a.purchased ? 1 : -1;
+      const aDone = Boolean(a.purchased || a.coveredByPantry);
+      const bDone = Boolean(b.purchased || b.coveredByPantry);
+      if (aDone === bDone) return 0;
+      return aDone ? 1 : -1;
     });
 
     return [category, sorted] as [string, AggregatedShoppingItem[]];
   });
 
+  // Market mode: one walk through the store, in the layout's aisle order
+  const aisleWalk = groupByAisle(aggregatedShoppingList, storeLayout).flatMap((group) =>
+    group.items.map((item) => ({
+      item,
+      aisle: {
+        position: group.position,
+        name: group.aisle ? t(`storeLayouts.aisle.${group.aisle.id}`, { defaultValue: group.aisle.name }) : "",
+      },
+    }))
+  );
+
   const purchasedItems = aggregatedShoppingList.filter((item) => item.purchased);
-  const fullyMatchedRecipes = getFullyMatchedRecipes(purchasedItems);
-  const fallbackRecipes = suggestRecipes(purchasedItems);
+  const dietaryRestrictions = parseDietaryRestrictions(currentInput?.restrictions);
+  const fullyMatchedRecipes = getFullyMatchedRecipes(purchasedItems)
+    .filter((recipe) => isRecipeAllowed(recipe, dietaryRestrictions, currentInput?.allergies));
+  const fallbackRecipes = suggestRecipes(purchasedItems, dietaryRestrictions, currentInput?.allergies);
 
   const currentMealType: "breakfast" | "lunch" | "dinner" | "snack" = (() => {
     const hour = new Date().getHours();
@@ -103,7 +139,7 @@ export default function ShoppingListRoute() {
     return "snack";
   })();
 
-  const nextMealSuggestions = suggestRecipesByMealType(purchasedItems, currentMealType, 2);
+  const nextMealSuggestions = suggestRecipesByMealType(purchasedItems, currentMealType, 2, dietaryRestrictions, currentInput?.allergies);
   const rescueSuggestions = (fullyMatchedRecipes.length > 0 ? fullyMatchedRecipes : fallbackRecipes).slice(0, 3);
 
   const dropoffRisk = useMemo(() => assessDropoffRisk({
@@ -182,8 +218,8 @@ export default function ShoppingListRoute() {
       return;
     }
 
-    setShowCheckInModal(!hasFeedbackForPlan(weeklyPlan.id));
-  }, [hasFeedbackForPlan, weeklyPlan]);
+    setShowCheckInModal(isFeedbackDue(weeklyPlan));
+  }, [isFeedbackDue, weeklyPlan]);
 
   const handleWeeklyFeedbackSubmit = async (response: WeeklyFeedbackResponse) => {
     if (!weeklyPlan) {
@@ -191,7 +227,7 @@ export default function ShoppingListRoute() {
     }
 
     const repeatedTooMuch = detectRepetitionRisk(history.slice(0, 2));
-    const { adherence } = await submitWeeklyFeedback(weeklyPlan.id, response, repeatedTooMuch);
+    const { adherence } = await submitWeeklyFeedback(weeklyPlan.id, response, repeatedTooMuch, getPlanDateRange(weeklyPlan));
     saveAdherenceScore(adherence);
     setShowCheckInModal(false);
   };
@@ -260,6 +296,8 @@ export default function ShoppingListRoute() {
 
           <p className="cost-disclaimer">{t("shoppingList.costDisclaimer")}</p>
 
+          <WeeklyBudgetSummary weeklyPlan={weeklyPlan} />
+
           {weeklyPlan.shoppingValidation ? (
             <section className="shopping-confidence" aria-label="Shopping list consistency score">
               <div className="shopping-confidence-head">
@@ -315,8 +353,30 @@ export default function ShoppingListRoute() {
             </section>
           ) : null}
 
+          <PantryPanel />
+
+          <StoreComparison />
+
+          <StoreLayoutPanel />
+
           <div className="categories-grid">
-            {sortedCategories.map(([category, items]) => {
+            {marketMode ? (
+              <div className="category-card market-walk">
+                <h3 className="category-title">🚶 {t("storeLayouts.walkTitle")}</h3>
+                <ul className="items-list">
+                  {aisleWalk.map(({ item, aisle }) => (
+                    <GroceryItemRow
+                      key={getAggregatedItemKey(item)}
+                      item={item}
+                      aisle={aisle}
+                      onTogglePurchased={() => {
+                        toggleAggregatedItemPurchased(item);
+                      }}
+                    />
+                  ))}
+                </ul>
+              </div>
+            ) : sortedCategories.map(([category, items]) => {
               const meta = CATEGORY_META[category as FoodCategory] ?? { emoji: "🛒", label: category };
 
               return (
@@ -16,15 +16,16 @@ import { useShoppingProgressStore } from "../../stores/shoppingProgressStore";
 
 export default function PrepGuidePageClient() {
   const { t } = useAppTranslation();
-  const { weeklyPlan, shoppingList } = useShoppingPlan();
+  const { weeklyPlan, shoppingList, region } = useShoppingPlan();
   const isPremium = isPremiumUser();
   const [statusMessage, setStatusMessage] = useState("");
   const [completedTasks, setCompletedTasks] = useState<Set<number>>(new Set());
 
   const planDays = weeklyPlan?.days.length || 7;
+  const householdSize = weeklyPlan?.householdSize || 1;
   const aggregatedList = useMemo(
-    () => aggregateShoppingList(shoppingList as never[], planDays),
-    [planDays, shoppingList],
+    () => aggregateShoppingList(shoppingList as never[], planDays, householdSize),
+    [planDays, householdSize, shoppingList],
   );
 
   const purchasedCount = aggregatedList.filter((item) => item.purchased).length;
@@ -46,6 +47,10 @@ export default function PrepGuidePageClient() {
 
     tips.push(t("prepGuide.tips.containers", { count: totalMeals }));
 
+    if (prepGuide.workoutMeals && prepGuide.workoutTime) {
+      tips.push(t("prepGuide.tips.workoutMeals", { count: prepGuide.workoutMeals, time: prepGuide.workoutTime }));
+    }
+
     const hasOven = prepGuide.cookingTasks.some((task) => task.method === "oven");
     const hasBoil = prepGuide.cookingTasks.some((task) => task.method === "boil");
 
@@ -117,8 +122,8 @@ export default function PrepGuidePageClient() {
       return;
     }
 
-    const { exportPrepGuideToPdf } = await import("../../../src/utils/exportPrepGuidePdf");
-    exportPrepGuideToPdf(prepGuide, weeklyPlan);
+    const { downloadPrepGuidePdf } = await import("../../../src/utils/exportPrepGuidePdf");
+    downloadPrepGuidePdf(weeklyPlan, {}, region);
     setStatusMessage(t("prepGuide.printButton"));
   };
 
@@ -0,0 +1,341 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSession } from "next-auth/react";
+import { AppNav } from "../../components/AppNav";
+import { useShoppingPlan } from "../../../src/contexts/ShoppingPlanContext";
+import type { FitnessGoal } from "../../../src/core/models/PlanInput";
+import type { Program, ProgramPhaseType, ProgramWeek } from "../../../src/core/models/Program";
+import {
+  createProgram,
+  DEFAULT_TARGET_RATE,
+  getProgramStatus,
+  getProgramWeeks,
+} from "../../../src/core/logic/programs";
+import { calculateNutritionTargets } from "../../../src/core/logic/calculateNutritionTargets";
+
+interface SavedProgram {
+  id: string;
+  programJson: Program;
+  savedPlans: Array<{ id: string; programWeek: number | null; createdAt: string }>;
+}
+
+const PHASE_LABELS: Record<ProgramPhaseType, { label: string; icon: string; color: string }> = {
+  deficit: { label: "Deficit", icon: "🔥", color: "#ef4444" },
+  surplus: { label: "Surplus", icon: "💪", color: "#3b82f6" },
+  maintenance: { label: "Maintenance", icon: "⚖️", color: "#6b7280" },
+  diet_break: { label: "Diet break", icon: "🌴", color: "#22c55e" },
+  refeed: { label: "Refeed", icon: "🍚", color: "#f59e0b" },
+};
+
+function formatWeekDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function weekCalories(week: ProgramWeek): number {
+  return calculateNutritionTargets(week.input).caloriesPerDay;
+}
+
+export default function ProgramPage() {
+  const { data: session } = useSession();
+  const { currentInput, weeklyPlan, generatePlan } = useShoppingPlan();
+  const [saved, setSaved] = useState<SavedProgram | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [pendingWeek, setPendingWeek] = useState<number | null>(null);
+  const [form, setForm] = useState({
+    goal: "cutting" as FitnessGoal,
+    weeks: "12",
+    rate: String(DEFAULT_TARGET_RATE.cutting),
+    startDate: new Date().toISOString().slice(0, 10),
+  });
+
+  const baseInput = currentInput ?? weeklyPlan?.planInput ?? null;
+
+  const fetchProgram = useCallback(async () => {
+    try {
+      const res = await fetch("/api/programs");
+      if (res.ok) {
+        const data = (await res.json()) as SavedProgram[];
+        setSaved(data[0] ?? null);
+      }
+    } catch {
+      // silent
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.user) {
+      fetchProgram();
+    } else {
+      setLoading(false);
+    }
+  }, [session, fetchProgram]);
+
+  // Persist the week's plan once the context has generated it
+  useEffect(() => {
+    if (pendingWeek === null || !weeklyPlan || !saved) return;
+    const program = saved.programJson;
+    setPendingWeek(null);
+
+    fetch("/api/plans", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: `${program.name} - Week ${pendingWeek}`,
+        planJson: weeklyPlan,
+        programId: saved.id,
+        programWeek: pendingWeek,
+      }),
+    })
+      .then(() => fetchProgram())
+      .catch(() => {
+        // silent
+      });
+  }, [pendingWeek, weeklyPlan, saved, fetchProgram]);
+
+  const program = saved?.programJson ?? null;
+  const weeks = useMemo(() => (program ? getProgramWeeks(program) : []), [program]);
+  const status = useMemo(() => (program ? getProgramStatus(program) : null), [program]);
+  const generatedWeeks = new Set(saved?.savedPlans.map((plan) => plan.programWeek) ?? []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!baseInput) return;
+    setSaving(true);
+    try {
+      const programJson = createProgram(baseInput, {
+        goal: form.goal,
+        weeks: parseInt(form.weeks, 10),
+        targetRatePerWeek: parseFloat(form.rate),
+        startDate: form.startDate,
+      });
+      const res = await fetch("/api/programs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ programJson }),
+      });
+      if (res.ok) {
+        fetchProgram();
+      }
+    } catch {
+      // silent
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleGenerateWeek = (week: ProgramWeek) => {
+    generatePlan(week.input);
+    setPendingWeek(week.weekNumber);
+  };
+
+  const currentWeek = status?.currentWeek ?? null;
+  const nextChange = status?.nextChange ?? null;
+
+  return (
+    <div className="np-shell">
+      <AppNav />
+      <main className="np-main" style={{ padding: "1.5rem 1rem", maxWidth: 800, margin: "0 auto" }}>
+        <div style={{ marginBottom: "1.5rem" }}>
+          <h1 style={{ fontSize: "1.5rem", fontWeight: 700 }}>🗓️ Program</h1>
+          <p style={{ color: "#6b7280", fontSize: "0.875rem", marginTop: 4 }}>
+            Multi-week cutting and bulking phases, one plan per week
+          </p>
+        </div>
+
+        {!session?.user && (
+          <div style={cardStyle}>
+            <p style={{ textAlign: "center", color: "#6b7280" }}>
+              🔒 Sign in to follow a multi-week program
+            </p>
+          </div>
+        )}
+
+        {loading && (
+          <div style={{ textAlign: "center", padding: "3rem", color: "#6b7280" }}>Loading...</div>
+        )}
+
+        {/* Create program */}
+        {session?.user && !loading && !program && (
+          baseInput ? (
+            <form onSubmit={handleCreate} style={cardStyle}>
+              <h3 style={{ fontSize: "1rem", fontWeight: 600, marginBottom: "1rem" }}>🎯 New Program</h3>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "0.75rem" }}>
+                <label style={labelStyle}>
+                  Goal
+                  <select
+                    value={form.goal}
+                    onChange={(e) => {
+                      const goal = e.target.value as FitnessGoal;
+                      setForm({ ...form, goal, rate: String(DEFAULT_TARGET_RATE[goal]) });
+                    }}
+                    style={inputStyle}
+                  >
+                    <option value="cutting">Cutting</option>
+                    <option value="bulking">Bulking</option>
+                    <option value="maintenance">Maintenance</option>
+                  </select>
+                </label>
+                <label style={labelStyle}>
+                  Weeks
+                  <input
+                    type="number"
+                    min={1}
+                    max={52}
+                    value={form.weeks}
+                    onChange={(e) => setForm({ ...form, weeks: e.target.value })}
+                    style={inputStyle}
+                  />
+                </label>
+                <label style={labelStyle}>
+                  Target rate (% body weight / week)
+                  <input
+                    type="number"
+                    step="0.05"
+                    min={0}
+                    max={1.5}
+                    value={form.rate}
+                    onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                    style={inputStyle}
+                  />
+                </label>
+                <label style={labelStyle}>
+                  Start date
+                  <input
+                    type="date"
+                    value={form.startDate}
+                    onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                    style={inputStyle}
+                  />
+                </label>
+              </div>
+              <button
+                type="submit"
+                disabled={saving}
+                className="np-btn np-btn-primary"
+                style={{ marginTop: "1rem", width: "100%" }}
+              >
+                {saving ? "Saving..." : "Start Program"}
+              </button>
+            </form>
+          ) : (
+            <div style={{ ...cardStyle, textAlign: "center", padding: "3rem 1.5rem" }}>
+              <p style={{ fontSize: "2rem", marginBottom: "0.5rem" }}>📋</p>
+              <h3 style={{ fontWeight: 600, marginBottom: "0.5rem" }}>Generate a plan first</h3>
+              <p style={{ color: "#6b7280", fontSize: "0.875rem", marginBottom: "1rem" }}>
+                Your program starts from your current profile.
+              </p>
+              <Link href="/app" className="np-btn np-btn-primary">Generate plan</Link>
+            </div>
+          )
+        )}
+
+        {/* Current week + next change */}
+        {program && status && (
+          <div style={{ ...cardStyle, marginBottom: "1.5rem" }}>
+            <h3 style={{ fontSize: "1rem", fontWeight: 600, marginBottom: "0.5rem" }}>{program.name}</h3>
+            {status.state === "upcoming" && (
+              <p style={{ margin: 0, color: "#6b7280" }}>Starts {formatWeekDate(program.startDate)}</p>
+            )}
+            {status.state === "completed" && (
+              <p style={{ margin: 0, color: "#6b7280" }}>🏁 Program completed</p>
+            )}
+            {currentWeek && (
+              <>
+                <p style={{ fontSize: "1.25rem", fontWeight: 700, margin: "0 0 0.25rem" }}>
+                  {PHASE_LABELS[currentWeek.phase].icon} Week {currentWeek.weekNumber} of {weeks.length} · {PHASE_LABELS[currentWeek.phase].label}
+                </p>
+                <p style={{ margin: 0, color: "#6b7280", fontSize: "0.875rem" }}>
+                  {weekCalories(currentWeek)} kcal/day · {currentWeek.projectedWeightKg} kg expected · {status.weeksRemaining} weeks left
+                </p>
+                <button
+                  onClick={() => handleGenerateWeek(currentWeek)}
+                  className="np-btn np-btn-primary"
+                  style={{ marginTop: "0.75rem", fontSize: "0.875rem", padding: "0.5rem 1rem" }}
+                >
+                  {generatedWeeks.has(currentWeek.weekNumber) ? "Regenerate this week's plan" : "Generate this week's plan"}
+                </button>
+              </>
+            )}
+            {nextChange && (
+              <p style={{ margin: "0.75rem 0 0", fontSize: "0.8rem", color: "#374151" }}>
+                Next: {PHASE_LABELS[nextChange.phase].icon} {PHASE_LABELS[nextChange.phase].label} from week {nextChange.weekNumber} ({formatWeekDate(nextChange.startDate)}) · {weekCalories(nextChange)} kcal/day
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Timeline */}
+        {program && weeks.length > 0 && (
+          <div style={cardStyle}>
+            <h3 style={{ fontSize: "1rem", fontWeight: 600, marginBottom: "1rem" }}>📆 Weeks</h3>
+            <table style={{ width: "100%", fontSize: "0.8rem", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ borderBottom: "1px solid #e5e7eb", textAlign: "left" }}>
+                  <th style={thStyle}>Week</th>
+                  <th style={thStyle}>Starts</th>
+                  <th style={thStyle}>Phase</th>
+                  <th style={thStyle}>Kcal/day</th>
+                  <th style={thStyle}>Weight</th>
+                  <th style={thStyle}>Plan</th>
+                </tr>
+              </thead>
+              <tbody>
+                {weeks.map((week) => (
+                  <tr
+                    key={week.weekNumber}
+                    style={{
+                      borderBottom: "1px solid #f3f4f6",
+                      background: week.weekNumber === currentWeek?.weekNumber ? "#f0fdf4" : undefined,
+                    }}
+                  >
+                    <td style={tdStyle}>{week.weekNumber}</td>
+                    <td style={tdStyle}>{formatWeekDate(week.startDate)}</td>
+                    <td style={{ ...tdStyle, color: PHASE_LABELS[week.phase].color, fontWeight: 600 }}>
+                      {PHASE_LABELS[week.phase].icon} {PHASE_LABELS[week.phase].label}
+                    </td>
+                    <td style={tdStyle}>{weekCalories(week)}</td>
+                    <td style={tdStyle}>{week.projectedWeightKg} kg</td>
+                    <td style={tdStyle}>{generatedWeeks.has(week.weekNumber) ? "✅" : "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+const cardStyle: React.CSSProperties = {
+  background: "#ffffff",
+  border: "1px solid #e5e7eb",
+  borderRadius: 12,
+  padding: "1rem",
+  boxShadow: "0 1px 3px rgba(0,0,0,0.04)",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  fontSize: "0.8rem",
+  fontWeight: 500,
+  color: "#374151",
+  gap: 4,
+};
+
+const inputStyle: React.CSSProperties = {
+  border: "1px solid #d1d5db",
+  borderRadius: 8,
+  padding: "0.5rem 0.75rem",
+  fontSize: "0.875rem",
+  outline: "none",
+};
+
+const thStyle: React.CSSProperties = { padding: "0.5rem 0.25rem", fontWeight: 600 };
+const tdStyle: React.CSSProperties = { padding: "0.5rem 0.25rem" };
@@ -9,6 +9,7 @@ import {
   type PreventiveActionLog,
   type RetentionRiskSnapshot,
 } from "../../../src/core/stores/RetentionRiskStore";
+import { addDays, parseISODate, toISODate } from "../../../src/core/logic/planCalendar";
 
 interface ProgressEntry {
   id: string;
@@ -22,6 +23,15 @@ interface ProgressEntry {
   notes: string | null;
 }
 
+// Calendar day of an entry: dated entries are stored at UTC midnight, older ones at the logging time
+function getEntryDay(entry: Pick<ProgressEntry, "date">): string {
+  return /T00:00:00(\.000)?Z$/.test(entry.date) ? entry.date.slice(0, 10) : toISODate(new Date(entry.date));
+}
+
+function formatEntryDay(entry: Pick<ProgressEntry, "date">): string {
+  return parseISODate(getEntryDay(entry)).toLocaleDateString("en", { month: "short", day: "numeric" });
+}
+
 export default function ProgressPage() {
   const { data: session } = useSession();
   const [entries, setEntries] = useState<ProgressEntry[]>([]);
@@ -33,6 +43,7 @@ export default function ProgressPage() {
 
   // Form state
   const [form, setForm] = useState({
+    date: toISODate(new Date()),
     weightKg: "",
     calories: "",
     protein: "",
@@ -73,7 +84,7 @@ export default function ProgressPage() {
     e.preventDefault();
     setSaving(true);
     try {
-      const body: Record<string, unknown> = {};
+      const body: Record<string, unknown> = { date: form.date || toISODate(new Date()) };
       if (form.weightKg) body.weightKg = parseFloat(form.weightKg);
       if (form.calories) body.calories = parseInt(form.calories, 10);
       if (form.protein) body.protein = parseInt(form.protein, 10);
@@ -88,7 +99,7 @@ export default function ProgressPage() {
         body: JSON.stringify(body),
       });
       if (res.ok) {
-        setForm({ weightKg: "", calories: "", protein: "", carbs: "", fat: "", adherence: "", notes: "" });
+        setForm({ date: toISODate(new Date()), weightKg: "", calories: "", protein: "", carbs: "", fat: "", adherence: "", notes: "" });
         setShowForm(false);
         fetchEntries();
       }
@@ -121,20 +132,14 @@ export default function ProgressPage() {
       )
     : null;
 
-  // streak: consecutive days with entries
+  // streak: consecutive calendar days with entries, up to today
   const streak = (() => {
-    if (!entries.length) return 0;
+    const days = new Set(entries.map(getEntryDay));
     let count = 0;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const dayMs = 86400000;
-    for (let i = 0; i < entries.length; i++) {
-      const d = new Date(entries[i].date);
-      d.setHours(0, 0, 0, 0);
-      const expected = new Date(today.getTime() - i * dayMs);
-      expected.setHours(0, 0, 0, 0);
-      if (d.getTime() === expected.getTime()) count++;
-      else break;
+    let day = toISODate(new Date());
+    while (days.has(day)) {
+      count++;
+      day = addDays(day, -1);
     }
     return count;
   })();
@@ -206,6 +211,16 @@ export default function ProgressPage() {
           <form onSubmit={handleSubmit} style={{ ...cardStyle, marginBottom: "1.5rem" }}>
             <h3 style={{ fontSize: "1rem", fontWeight: 600, marginBottom: "1rem" }}>📝 New Entry</h3>
             <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "0.75rem" }}>
+              <label style={labelStyle}>
+                Date
+                <input
+                  type="date"
+                  value={form.date}
+                  max={toISODate(new Date())}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  style={inputStyle}
+                />
+              </label>
               <label style={labelStyle}>
                 Weight (kg)
                 <input
@@ -404,7 +419,7 @@ export default function ProgressPage() {
                 const pPct = total ? ((entry.protein ?? 0) / total) * 100 : 0;
                 const cPct = total ? ((entry.carbs ?? 0) / total) * 100 : 0;
                 const fPct = total ? ((entry.fat ?? 0) / total) * 100 : 0;
-                const dateLabel = new Date(entry.date).toLocaleDateString("en", { month: "short", day: "numeric" });
+                const dateLabel = formatEntryDay(entry);
                 return (
                   <div key={entry.id} style={{ marginBottom: "0.5rem" }}>
                     <div style={{ display: "flex", justifyContent: "space-between", fontSize: "0.75rem", color: "#6b7280", marginBottom: 2 }}>
@@ -447,7 +462,7 @@ export default function ProgressPage() {
                   {entries.slice(0, 10).map((entry) => (
                     <tr key={entry.id} style={{ borderBottom: "1px solid #f3f4f6" }}>
                       <td style={tdStyle}>
-                        {new Date(entry.date).toLocaleDateString("en", { month: "short", day: "numeric" })}
+                        {formatEntryDay(entry)}
                       </td>
                       <td style={tdStyle}>{entry.weightKg ?? "—"}</td>
                       <td style={tdStyle}>{entry.calories ?? "—"}</td>
@@ -4,30 +4,120 @@ import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { useShoppingPlan } from "../../../src/contexts/ShoppingPlanContext";
 import { AppNav } from "../../components/AppNav";
+import { PlanDiffPreview } from "../../components/PlanDiffPreview";
 import {
   getTodayContext,
   getCurrentMealSlot,
-  getMealLabelPt,
+  getMealSlotLabelPt,
   getMealEmoji,
 } from "../../lib/dayContext";
-import type { DayPlan, Meal, MealType } from "../../../src/core/models/WeeklyPlan";
-
-const DAY_MAP: Record<number, string> = {
-  0: "sunday",
-  1: "monday",
-  2: "tuesday",
-  3: "wednesday",
-  4: "thursday",
-  5: "friday",
-  6: "saturday",
-};
+import type {
+  DayPlan,
+  FoodSelectionRationale,
+  MealSlot,
+  MemberPlate,
+  WeeklyPlan,
+} from "../../../src/core/models/WeeklyPlan";
+import { mockFoods } from "../../../src/data/mockFoods";
+import { getDayMealSlots, getSlotMealType } from "../../../src/core/logic/mealSlots";
+import {
+  calculatePlanMicronutrients,
+  MICRONUTRIENT_KEYS,
+  MICRONUTRIENT_UNITS,
+} from "../../../src/core/logic/micronutrients";
+import type { MicronutrientKey } from "../../../src/core/logic/micronutrients";
+import { getRecipeById } from "../../../src/core/logic/recipePlanning";
+import { getLockedMeals, isDayLocked } from "../../../src/core/logic/mealLocks";
+import { diffWeeklyPlans, type PlanDiff } from "../../../src/core/logic/diffWeeklyPlans";
+import { getPlanDateRange, getPlanDayIndex, isSamePlanDay, toISODate } from "../../../src/core/logic/planCalendar";
+import { formatConverted, formatCurrency } from "../../../src/core/logic/regions";
+import {
+  FASTING_DAY_CALORIE_FACTOR,
+  formatFastingRatio,
+  formatTimeOfDay,
+  getEatingWindowMinutes,
+} from "../../../src/core/logic/fasting";
+import { localizeMealName } from "../../../src/app/utils/foodLocalization";
+import { useAppTranslation } from "../../lib/i18n";
 
 const STORAGE_KEY = "nutripilot_eaten_meals";
 
-type EatenState = Record<string, boolean>; // key: "YYYY-MM-DD:mealType"
+const MICRONUTRIENT_LABELS_PT: Record<MicronutrientKey, string> = {
+  fiber: "Fibra",
+  sugar: "Açúcar",
+  saturatedFat: "Gordura saturada",
+  sodium: "Sódio",
+  potassium: "Potássio",
+  calcium: "Cálcio",
+  iron: "Ferro",
+  vitaminD: "Vitamina D",
+};
+
+function getPlateLabel(memberIndex: number): string {
+  if (memberIndex === 0) return "Seu prato";
+  if (memberIndex === 1) return "Prato do parceiro";
+  return `Prato ${memberIndex + 1}`;
+}
+
+function describePlate(plate: Pick<MemberPlate, "portions">): string {
+  return plate.portions
+    .map((portion) => {
+      const food = mockFoods.find((f) => f.id === portion.foodId);
+      const name = food ? food.name.replace(/ \(.*\)/, "") : portion.foodId;
+      return `${name} ${Math.round(portion.gramsNeeded)}g`;
+    })
+    .join(" · ");
+}
+
+function shortFoodName(name: string): string {
+  return name.replace(/ \(.*\)/, "");
+}
+
+// One role of the "Why this meal?" panel: ranking + what the filters left out
+function SelectionRationale({ label, rationale }: { label: string; rationale: FoodSelectionRationale }) {
+  const { t } = useAppTranslation();
+  const chosen = rationale.candidates.find((candidate) => candidate.chosen);
+  const notes = [
+    rationale.excluded.length > 0 &&
+      t("mealWhy.excluded", { foods: rationale.excluded.map(shortFoodName).join(", ") }),
+    rationale.costTierFiltered.length > 0 &&
+      t("mealWhy.costTierFiltered", { count: rationale.costTierFiltered.length }),
+    rationale.rotationLimited.length > 0 &&
+      t("mealWhy.rotationLimited", { foods: rationale.rotationLimited.map(shortFoodName).join(", ") }),
+    rationale.budgetFiltered && rationale.budgetFiltered.length > 0 &&
+      t("mealWhy.budgetFiltered", { count: rationale.budgetFiltered.length }),
+    rationale.varietyLimited && rationale.varietyLimited.length > 0 &&
+      t("mealWhy.varietyLimited", { foods: rationale.varietyLimited.map(shortFoodName).join(", ") }),
+    rationale.preferredGroup && t("mealWhy.preferredGroup", { group: rationale.preferredGroup }),
+    rationale.restrictedCount > 0 && t("mealWhy.restricted", { count: rationale.restrictedCount }),
+  ].filter((note): note is string => Boolean(note));
+
+  return (
+    <div className="today-meal-why-role">
+      <p className="today-meal-why-title">
+        {label}: {chosen ? shortFoodName(chosen.name) : "—"}
+      </p>
+      <ol className="today-meal-recipe-steps">
+        {rationale.candidates.map((candidate) => (
+          <li key={candidate.foodId} className={candidate.chosen ? "chosen" : ""}>
+            {candidate.chosen ? "✓ " : ""}{shortFoodName(candidate.name)} · {candidate.score} pts
+            {" "}({candidate.baseScore}/€{candidate.usageCount > 0 ? `, ${t("mealWhy.usage", { count: candidate.usageCount })}` : ""}
+            {candidate.rotationPenalty > 0 ? `, ${t("mealWhy.penalty", { penalty: candidate.rotationPenalty })}` : ""})
+          </li>
+        ))}
+      </ol>
+      {notes.map((note) => (
+        <p key={note} className="today-meal-why-note">{note}</p>
+      ))}
+    </div>
+  );
+}
+
+type EatenState = Record<string, boolean>; // key: slot id ("breakfast", "snack-2"...), stored per day
 
+// Local calendar date: the plan's days are the user's days, not UTC's
 function todayKey(): string {
-  return new Date().toISOString().slice(0, 10);
+  return toISODate(new Date());
 }
 
 function loadEaten(): EatenState {
@@ -55,44 +145,84 @@ function saveEaten(state: EatenState) {
 }
 
 export default function TodayPage() {
-  const { weeklyPlan, swapMeal } = useShoppingPlan();
+  const {
+    weeklyPlan,
+    swapMeal,
+    toggleMealLock,
+    toggleDayLock,
+    regenerateUnlocked,
+    previewRegenerateUnlocked,
+    markMealCooked,
+    region,
+  } = useShoppingPlan();
+  const { t, language } = useAppTranslation();
   const ctx = useMemo(() => getTodayContext(), []);
-  const currentSlot = useMemo(() => getCurrentMealSlot(), []);
+  const eatingWindow = weeklyPlan?.planInput?.eatingWindow;
+  const currentSlot = useMemo(() => getCurrentMealSlot(eatingWindow), [eatingWindow]);
   const [eaten, setEaten] = useState<EatenState>({});
-  const [swapping, setSwapping] = useState<MealType | null>(null);
+  const [swapping, setSwapping] = useState<string | null>(null);
+  const [regenerating, setRegenerating] = useState(false);
+  // Rebuilt week waiting for confirmation (shown as a diff)
+  const [regeneratePreview, setRegeneratePreview] = useState<{ plan: WeeklyPlan; diff: PlanDiff } | null>(null);
 
   useEffect(() => {
     setEaten(loadEaten());
   }, []);
 
+  // Pins or swaps made meanwhile make the previewed week stale
+  useEffect(() => {
+    setRegeneratePreview(null);
+  }, [weeklyPlan]);
+
   const todayDayIndex: number = useMemo(() => {
     if (!weeklyPlan) return -1;
-    const dayKey = DAY_MAP[new Date().getDay()];
-    return weeklyPlan.days.findIndex((d) => d.day === dayKey);
+    return getPlanDayIndex(weeklyPlan, new Date());
   }, [weeklyPlan]);
 
+  // Dated plan with no day today: it starts later or has already ended
+  const planRange = weeklyPlan ? getPlanDateRange(weeklyPlan) : null;
+
   const todayPlan: DayPlan | null = useMemo(() => {
     if (!weeklyPlan || todayDayIndex < 0) return null;
     return weeklyPlan.days[todayDayIndex] ?? null;
   }, [weeklyPlan, todayDayIndex]);
 
-  const meals: Array<{ slot: MealType; meal: Meal | null }> = useMemo(() => {
+  // Plans saved before micronutrient tracking don't carry the summary
+  const micronutrients = useMemo(() => {
+    if (!weeklyPlan) return null;
+    return weeklyPlan.micronutrients
+      ?? calculatePlanMicronutrients(weeklyPlan.days, { sex: weeklyPlan.planInput?.sex }, weeklyPlan.caloriesTargetPerDay);
+  }, [weeklyPlan]);
+
+  const todayMicronutrients = (todayPlan && micronutrients?.days.find((d) => isSamePlanDay(d, todayPlan))?.totals) ?? null;
+  // Plans saved before cost tracking have no breakdown
+  const todayCosts = (todayPlan && weeklyPlan?.costBreakdown?.days.find((d) => isSamePlanDay(d, todayPlan))) ?? null;
+  const costCurrency = weeklyPlan?.costBreakdown?.currency ?? "EUR";
+  // Budget currency as is; plain EUR costs in the region's currency
+  const formatCost = (value: number) => weeklyPlan?.budget
+    ? formatCurrency(value, costCurrency, region)
+    : formatConverted(value, costCurrency, region);
+  const todayMicronutrientWarnings = todayPlan
+    ? micronutrients?.warnings.filter((w) => isSamePlanDay(w, todayPlan)) ?? []
+    : [];
+
+  // Every slot of the day (3-6 meals, incl. extra snacks / pre-workout)
+  const meals: MealSlot[] = useMemo(() => {
     if (!todayPlan) return [];
-    return [
-      { slot: "breakfast", meal: todayPlan.meals.breakfast },
-      { slot: "lunch", meal: todayPlan.meals.lunch },
-      { slot: "dinner", meal: todayPlan.meals.dinner },
-      { slot: "snack", meal: todayPlan.meals.snack },
-    ].filter((m) => m.meal !== null) as Array<{ slot: MealType; meal: Meal }>;
+    return getDayMealSlots(todayPlan.meals).filter((slot) => slot.meal);
   }, [todayPlan]);
 
-  const toggleEaten = (slot: MealType) => {
+  const nowSlotId = meals.find((slot) => getSlotMealType(slot.type) === currentSlot)?.id;
+
+  // Refeição feita = ingredientes saem da despensa (desmarcar devolve-os)
+  const toggleEaten = (slot: string) => {
     const next = { ...eaten, [slot]: !eaten[slot] };
     setEaten(next);
     saveEaten(next);
+    if (todayDayIndex >= 0) markMealCooked(todayDayIndex, slot, next[slot]);
   };
 
-  const handleSwap = (slot: MealType) => {
+  const handleSwap = (slot: string) => {
     if (todayDayIndex < 0 || swapping) return;
     setSwapping(slot);
     // Small delay so React can update UI before the synchronous swap computation
@@ -102,11 +232,43 @@ export default function TodayPage() {
     }, 50);
   };
 
-  const eatenCount = meals.filter((m) => eaten[m.slot]).length;
+  const handleRegenerate = () => {
+    if (regenerating || !weeklyPlan) return;
+    setRegenerating(true);
+    // Same delay as swaps: the whole week is rebuilt synchronously
+    setTimeout(() => {
+      const plan = previewRegenerateUnlocked();
+      setRegeneratePreview(plan ? { plan, diff: diffWeeklyPlans(weeklyPlan, plan) } : null);
+      setRegenerating(false);
+    }, 50);
+  };
+
+  const confirmRegenerate = () => {
+    if (!regeneratePreview) return;
+    regenerateUnlocked(regeneratePreview.plan);
+    setRegeneratePreview(null);
+  };
+
+  // Intermittent fasting: is the eating window open right now?
+  const windowMinutes = getEatingWindowMinutes(eatingWindow);
+  const nowMinutes = new Date().getHours() * 60 + new Date().getMinutes();
+  const windowStatus = !windowMinutes
+    ? null
+    : nowMinutes < windowMinutes.start
+    ? `Em jejum · a janela abre às ${formatTimeOfDay(windowMinutes.start)}`
+    : nowMinutes > windowMinutes.end
+    ? "Janela fechada · jejum até amanhã"
+    : `Janela aberta · fecha às ${formatTimeOfDay(windowMinutes.end)}`;
+
+  const dayPinned = todayPlan ? isDayLocked(todayPlan) : false;
+  const pinnedCount = weeklyPlan ? getLockedMeals(weeklyPlan.days).length : 0;
+
+  const eatenCount = meals.filter((m) => eaten[m.id]).length;
   const totalProteinEaten = meals
-    .filter((m) => eaten[m.slot])
+    .filter((m) => eaten[m.id])
     .reduce((sum, m) => sum + (m.meal?.protein ?? 0), 0);
-  const proteinTarget = weeklyPlan?.proteinTargetPerDay ?? 0;
+  // 5:2 fasting days only aim for a fraction of the usual target
+  const proteinTarget = (weeklyPlan?.proteinTargetPerDay ?? 0) * (todayPlan?.fastingDay ? FASTING_DAY_CALORIE_FACTOR : 1);
   const proteinPct = proteinTarget > 0 ? Math.min(100, Math.round((totalProteinEaten / proteinTarget) * 100)) : 0;
 
   return (
@@ -139,6 +301,20 @@ export default function TodayPage() {
           </div>
         )}
 
+        {/* Plan doesn't cover today */}
+        {weeklyPlan && todayDayIndex < 0 && planRange && (
+          <div className="today-empty">
+            <p className="today-empty-icon">📅</p>
+            {todayKey() < planRange.startDate ? (
+              <h2>Seu plano começa em {planRange.startDate}</h2>
+            ) : (
+              <h2>Seu plano terminou em {planRange.endDate}</h2>
+            )}
+            <p>Gere um novo plano para ter as refeições de hoje.</p>
+            <Link href="/app" className="btn-primary">Gerar plano</Link>
+          </div>
+        )}
+
         {/* Meals for today */}
         {weeklyPlan && meals.length > 0 && (
           <>
@@ -165,32 +341,168 @@ export default function TodayPage() {
               </p>
             </section>
 
+            {/* Eating window / 5:2 fasting day */}
+            {(todayPlan?.fastingDay || (eatingWindow && windowStatus)) && (
+              <section className="today-fasting">
+                {todayPlan?.fastingDay && (
+                  <span className="today-fasting-title">
+                    🌙 Dia de jejum 5:2 · ~{Math.round(FASTING_DAY_CALORIE_FACTOR * 100)}% das calorias, só almoço e jantar
+                  </span>
+                )}
+                {eatingWindow && windowStatus && (
+                  <>
+                    <span className="today-fasting-title">
+                      ⏱️ Janela alimentar {eatingWindow.start}–{eatingWindow.end} ({formatFastingRatio(eatingWindow)})
+                    </span>
+                    <span className="today-fasting-status">{windowStatus}</span>
+                  </>
+                )}
+              </section>
+            )}
+
+            {/* Fiber & micronutrients */}
+            {todayMicronutrients && (
+              <section className="today-micros">
+                <span className="today-protein-label">Fibra e micronutrientes hoje</span>
+                <div className="today-micros-grid">
+                  {MICRONUTRIENT_KEYS.map((key) => (
+                    <div key={key} className="today-micros-item">
+                      <span className="today-micros-name">{MICRONUTRIENT_LABELS_PT[key]}</span>
+                      <span className="today-micros-value">
+                        {todayMicronutrients[key]}{MICRONUTRIENT_UNITS[key]}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                {todayMicronutrientWarnings.map((warning) => (
+                  <p key={warning.nutrient} className="today-micros-warning">
+                    ⚠️ {MICRONUTRIENT_LABELS_PT[warning.nutrient]}{" "}
+                    {warning.type === "below_reference" ? "abaixo da referência" : "acima do limite"}{" "}
+                    ({warning.amount}{MICRONUTRIENT_UNITS[warning.nutrient]} / {warning.reference}{MICRONUTRIENT_UNITS[warning.nutrient]})
+                  </p>
+                ))}
+                {micronutrients && (
+                  <p className="today-protein-hint">
+                    Média semanal: {micronutrients.dailyAverage.fiber}g de fibra, {Math.round(micronutrients.dailyAverage.sodium)}mg de sódio por dia
+                  </p>
+                )}
+              </section>
+            )}
+
+            {/* Pins: keep meals / the day, rebuild the rest of the week */}
+            <section className="today-pins">
+              <button type="button" className="today-pin-btn" onClick={() => toggleDayLock(todayDayIndex)}>
+                {dayPinned ? "📌 Desafixar o dia" : "📌 Fixar o dia"}
+              </button>
+              <button
+                type="button"
+                className="today-pin-btn"
+                onClick={handleRegenerate}
+                disabled={regenerating}
+              >
+                {regenerating ? "..." : `🔄 Regenerar o resto da semana${pinnedCount > 0 ? ` (${pinnedCount} fixadas)` : ""}`}
+              </button>
+            </section>
+            {regeneratePreview && (
+              <PlanDiffPreview
+                diff={regeneratePreview.diff}
+                onConfirm={confirmRegenerate}
+                onCancel={() => setRegeneratePreview(null)}
+              />
+            )}
+
             {/* Meal cards */}
             <section className="today-meals">
-              {meals.map(({ slot, meal }) => {
+              {meals.map(({ id: slot, type, workoutTiming, meal }) => {
                 if (!meal) return null;
-                const isNow = slot === currentSlot;
+                const isNow = slot === nowSlotId;
                 const isDone = !!eaten[slot];
+                // Leftovers are only reheated: no recipe steps
+                const recipe = meal.recipeId && !meal.leftoverOf ? getRecipeById(meal.recipeId) : undefined;
+                const mealCost = todayCosts?.meals.find((entry) => entry.slotId === slot)?.cost;
                 return (
                   <div
                     key={slot}
                     className={`today-meal-card ${isNow && !isDone ? "now" : ""} ${isDone ? "done" : ""}`}
                   >
                     <div className="today-meal-left">
-                      <span className="today-meal-emoji">{getMealEmoji(slot)}</span>
+                      <span className="today-meal-emoji">{getMealEmoji(type)}</span>
                       <div className="today-meal-info">
                         <span className="today-meal-type">
-                          {getMealLabelPt(slot)}
+                          {getMealSlotLabelPt(slot, type)}
                           {isNow && !isDone && (
                             <span className="today-meal-now-badge">Agora</span>
                           )}
                         </span>
-                        <span className="today-meal-name">{(meal as Meal).name}</span>
-                        <span className="today-meal-protein">{Math.round((meal as Meal).protein)}g proteína</span>
+                        <span className="today-meal-name">{localizeMealName(meal, t, language)}</span>
+                        <span className="today-meal-protein">
+                          {Math.round(meal.protein)}g proteína{mealCost !== undefined ? ` · ~${formatCost(mealCost)}` : ""}
+                        </span>
+                        {workoutTiming && todayPlan?.workoutTime && (
+                          <span className="today-meal-workout">
+                            {workoutTiming === "pre"
+                              ? `⚡ Pré-treino · antes do treino das ${todayPlan.workoutTime} (carboidratos, pouca gordura)`
+                              : `💪 Pós-treino · depois do treino das ${todayPlan.workoutTime} (proteína + carboidratos)`}
+                          </span>
+                        )}
+                        {meal.leftoverOf && (
+                          <span className="today-meal-leftover">♻️ Sobras do jantar de ontem · é só aquecer</span>
+                        )}
+                        {meal.batchServings && meal.batchServings > 1 && (
+                          <span className="today-meal-leftover">
+                            🍲 Cozinha a dobrar ({meal.batchServings}×) · o resto é o almoço de amanhã
+                          </span>
+                        )}
+                        {meal.plates && meal.plates.length > 1 && (
+                          <div className="today-meal-plates">
+                            {meal.plates.map((plate) => (
+                              <div key={plate.memberIndex} className="today-meal-plate">
+                                <span className="today-meal-plate-label">
+                                  {getPlateLabel(plate.memberIndex)} · {Math.round(plate.protein)}g proteína
+                                </span>
+                                <span className="today-meal-plate-foods">{describePlate(plate)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {meal.rationale && (
+                          <details className="today-meal-recipe today-meal-why">
+                            <summary>🤔 {t("mealWhy.title")}</summary>
+                            <p className="today-meal-why-note">
+                              {t("mealWhy.scoring", { tier: t(`mealWhy.costTier.${meal.rationale.costTier}`) })}
+                            </p>
+                            {meal.rationale.protein && (
+                              <SelectionRationale label={t("mealWhy.role.protein")} rationale={meal.rationale.protein} />
+                            )}
+                            {meal.rationale.carb && (
+                              <SelectionRationale label={t("mealWhy.role.carb")} rationale={meal.rationale.carb} />
+                            )}
+                          </details>
+                        )}
+                        {recipe && (
+                          <details className="today-meal-recipe">
+                            <summary>📖 Ver receita · {recipe.prepTime} min</summary>
+                            <p className="today-meal-plate-foods">{describePlate(meal)}</p>
+                            <ol className="today-meal-recipe-steps">
+                              {recipe.instructions.map((step) => (
+                                <li key={step}>{step}</li>
+                              ))}
+                            </ol>
+                          </details>
+                        )}
                       </div>
                     </div>
                     <div className="today-meal-actions">
-                      {!isDone && (
+                      <button
+                        type="button"
+                        className={`today-meal-pin ${meal.locked ? "pinned" : ""}`}
+                        onClick={() => toggleMealLock(todayDayIndex, slot)}
+                        aria-label={meal.locked ? "Desafixar refeição" : "Fixar refeição"}
+                        title={meal.locked ? "Desafixar refeição" : "Fixar refeição"}
+                      >
+                        📌
+                      </button>
+                      {!isDone && !meal.locked && (
                         <button
                           type="button"
                           className="today-meal-swap"
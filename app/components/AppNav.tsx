@@ -4,6 +4,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useAppTranslation } from "../lib/i18n";
 import { LanguageSwitcher } from "./LanguageSwitcher";
+import { RegionSwitcher } from "./RegionSwitcher";
 import { isFeatureEnabled } from "../../src/core/config/featureFlags";
 
 function isRouteActive(pathname: string, href: string): boolean {
@@ -43,6 +44,10 @@ export function AppNav() {
         <Link href={"/app/progress" as any} className={`np-tab ${isRouteActive(pathname, "/app/progress") ? "active" : ""}`}>
           📊 Progress
         </Link>
+        {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
+        <Link href={"/app/program" as any} className={`np-tab ${isRouteActive(pathname, "/app/program") ? "active" : ""}`}>
+          🗓️ Program
+        </Link>
       </nav>
 
       <div className="np-nav-right">
@@ -51,6 +56,7 @@ export function AppNav() {
             {t("nav.premium")}
           </Link>
         ) : null}
+        <RegionSwitcher />
         <LanguageSwitcher />
       </div>
     </header>
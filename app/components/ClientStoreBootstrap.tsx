@@ -1,11 +1,13 @@
 "use client";
 
+import { usePantrySync } from "../hooks/usePantrySync";
 import { useStoreHydration } from "../hooks/useStoreHydration";
 import { useStorePersistence } from "../hooks/useStorePersistence";
 
 export function ClientStoreBootstrap() {
   useStoreHydration();
   useStorePersistence();
+  usePantrySync();
 
   return null;
 }
@@ -13,12 +13,13 @@ type PDFExportProps = {
 
 export default function PDFExport({ onStatus }: PDFExportProps) {
   const { t } = useAppTranslation();
-  const { weeklyPlan, shoppingList } = useShoppingPlan();
+  const { weeklyPlan, shoppingList, region, storeLayout, marketMode } = useShoppingPlan();
 
   const planDays = weeklyPlan?.days.length || 7;
+  const householdSize = weeklyPlan?.householdSize || 1;
   const aggregatedList = useMemo(
-    () => aggregateShoppingList(shoppingList as (FoodItem & { purchased?: boolean })[], planDays),
-    [planDays, shoppingList],
+    () => aggregateShoppingList(shoppingList as (FoodItem & { purchased?: boolean })[], planDays, householdSize),
+    [planDays, householdSize, shoppingList],
   );
 
   const handlePdfExport = async () => {
@@ -32,6 +33,10 @@ export default function PDFExport({ onStatus }: PDFExportProps) {
       costTier: weeklyPlan.costTier,
       totalProtein: weeklyPlan.totalProtein,
       fitnessGoal: weeklyPlan.planInput.fitnessGoal,
+      householdSize,
+      allergies: weeklyPlan.planInput.allergies,
+      region,
+      storeLayout: marketMode ? storeLayout : undefined,
       savingsStatus: weeklyPlan.savingsStatus,
       substitutionsApplied: weeklyPlan.substitutionsApplied?.map((substitution) => ({
         from: substitution.from,
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useShoppingPlan } from "../../src/contexts/ShoppingPlanContext";
+import { isPantryItemExpired } from "../../src/core/logic/pantry";
+import { mockFoods } from "../../src/data/mockFoods";
+import { useAppTranslation } from "../lib/i18n";
+
+const PANTRY_UNITS = ["g", "kg", "ml", "L", "pack", "can", "jar", "bottle", "unit"];
+
+export function PantryPanel() {
+  const { t } = useAppTranslation();
+  const { pantry, shoppingList, addPantryItem, removePantryItem } = useShoppingPlan();
+  const [name, setName] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [unit, setUnit] = useState("kg");
+  const [expiresAt, setExpiresAt] = useState("");
+
+  // Suggest this week's list first, then every known food
+  const suggestions = Array.from(new Set([...shoppingList.map((item) => item.name), ...mockFoods.map((food) => food.name)]));
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const amount = Number.parseFloat(quantity.replace(",", "."));
+    if (!name.trim() || !(amount > 0)) return;
+
+    const food = mockFoods.find((entry) => entry.name.toLowerCase() === name.trim().toLowerCase());
+    addPantryItem({
+      name: food?.name ?? name.trim(),
+      foodId: food?.id,
+      quantity: amount,
+      unit,
+      expiresAt: expiresAt || undefined,
+    });
+    setName("");
+    setQuantity("");
+    setExpiresAt("");
+  };
+
+  return (
+    <section className="pantry-panel" aria-label={t("pantry.title")}>
+      <div className="pantry-panel-head">
+        <p className="pantry-panel-title">🥫 {t("pantry.title")}</p>
+        <span className="pantry-panel-count">{pantry.length}</span>
+      </div>
+      <p className="pantry-panel-subtitle">{t("pantry.subtitle")}</p>
+
+      {pantry.length === 0 ? (
+        <p className="pantry-panel-empty">{t("pantry.empty")}</p>
+      ) : (
+        <ul className="pantry-items">
+          {pantry.map((item) => {
+            const expired = isPantryItemExpired(item);
+            return (
+              <li key={item.id} className={`pantry-item ${expired ? "expired" : ""}`}>
+                <span className="pantry-item-name">{item.name} — {item.quantity} {item.unit}</span>
+                {item.expiresAt ? (
+                  <span className="pantry-item-expiry">
+                    {expired ? t("pantry.expired") : t("pantry.expires", { date: item.expiresAt })}
+                  </span>
+                ) : null}
+                <button
+                  type="button"
+                  className="pantry-item-remove"
+                  onClick={() => removePantryItem(item.id)}
+                  aria-label={t("pantry.remove")}
+                >
+                  ✕
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form className="pantry-form" onSubmit={handleSubmit}>
+        <input
+          className="np-input"
+          list="pantry-food-suggestions"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={t("pantry.namePlaceholder")}
+          aria-label={t("pantry.nameLabel")}
+        />
+        <datalist id="pantry-food-suggestions">
+          {suggestions.map((suggestion) => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+        <input
+          className="np-input"
+          type="number"
+          min="0"
+          step="any"
+          value={quantity}
+          onChange={(event) => setQuantity(event.target.value)}
+          aria-label={t("pantry.quantityLabel")}
+        />
+        <select className="np-input" value={unit} onChange={(event) => setUnit(event.target.value)} aria-label={t("pantry.unitLabel")}>
+          {PANTRY_UNITS.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <input
+          className="np-input"
+          type="date"
+          value={expiresAt}
+          onChange={(event) => setExpiresAt(event.target.value)}
+          aria-label={t("pantry.expiryLabel")}
+        />
+        <button type="submit" className="pantry-form-submit">{t("pantry.add")}</button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import type { PlanDiff } from "../../src/core/logic/diffWeeklyPlans";
+import { getSlotMealType } from "../../src/core/logic/mealSlots";
+import { formatMoney } from "../../src/core/logic/regions";
+import { localizeFoodName, localizeMealName } from "../../src/app/utils/foodLocalization";
+import { useShoppingPlan } from "../../src/contexts/ShoppingPlanContext";
+import { useAppTranslation } from "../lib/i18n";
+
+const MAX_DAYS = 7;
+const MAX_SHOPPING_CHANGES = 6;
+
+function formatSigned(value: number, decimals = 0): string {
+  const rounded = Number(value.toFixed(decimals));
+  if (rounded === 0) return "0";
+  return `${rounded > 0 ? "+" : "−"}${Math.abs(rounded).toFixed(decimals)}`;
+}
+
+interface PlanDiffPreviewProps {
+  diff: PlanDiff;
+  onConfirm?: () => void; // Without it the caller applies the change with its own button
+  onCancel?: () => void;
+  busy?: boolean;
+}
+
+/**
+ * Before/after of a plan change (diffWeeklyPlans): shown before regenerating,
+ * repeating last week or applying a concierge adjustment
+ */
+export function PlanDiffPreview({ diff, onConfirm, onCancel, busy = false }: PlanDiffPreviewProps) {
+  const { t, language } = useAppTranslation();
+  const { region } = useShoppingPlan();
+  const formatCost = (value: number) => formatMoney(value, region, { signed: true });
+  const changedDays = diff.days.filter((day) => day.mealChanges.length > 0);
+  const foodName = (name: string) => localizeFoodName(name, language);
+
+  return (
+    <section className="np-plan-diff" aria-label={t("planDiff.title")}>
+      <p className="np-plan-diff-title">{t("planDiff.title")}</p>
+
+      {diff.identical ? (
+        <p className="np-plan-diff-empty">{t("planDiff.identical")}</p>
+      ) : (
+        <>
+          <ul className="np-plan-diff-summary">
+            <li>{t("planDiff.changedMeals", { count: diff.changedMeals })}</li>
+            <li>
+              {t("planDiff.macroDelta", {
+                calories: formatSigned(diff.macroDelta.calories),
+                protein: formatSigned(diff.macroDelta.protein),
+                carbs: formatSigned(diff.macroDelta.carbs),
+                fats: formatSigned(diff.macroDelta.fats),
+              })}
+            </li>
+            <li>{t("planDiff.costDelta", { cost: formatCost(diff.costDelta) })}</li>
+          </ul>
+
+          {diff.addedFoods.length > 0 && (
+            <p className="np-plan-diff-foods added">
+              <strong>{t("planDiff.addedFoods")}:</strong> {diff.addedFoods.map((food) => foodName(food.name)).join(", ")}
+            </p>
+          )}
+          {diff.removedFoods.length > 0 && (
+            <p className="np-plan-diff-foods removed">
+              <strong>{t("planDiff.removedFoods")}:</strong> {diff.removedFoods.map((food) => foodName(food.name)).join(", ")}
+            </p>
+          )}
+
+          {changedDays.length > 0 && (
+            <div className="np-plan-diff-days">
+              <p className="np-plan-diff-subtitle">{t("planDiff.days")}</p>
+              {changedDays.slice(0, MAX_DAYS).map((day) => (
+                <div key={day.date ?? day.day} className="np-plan-diff-day">
+                  <span className="np-plan-diff-day-label">
+                    {t(`planner.dayOption.${day.day}`)}{day.date ? ` · ${day.date.slice(5)}` : ""}
+                  </span>
+                  <ul>
+                    {day.mealChanges.map((change) => (
+                      <li key={change.slotId}>
+                        <strong>{t(`recipes.mealType.${getSlotMealType(change.type)}`)}:</strong>{" "}
+                        {change.before ? localizeMealName(change.before, t, language) : t("planDiff.slotAdded")}
+                        {" → "}
+                        {change.after ? localizeMealName(change.after, t, language) : t("planDiff.slotRemoved")}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+              {changedDays.length > MAX_DAYS && (
+                <p className="np-plan-diff-more">{t("planDiff.moreChanges", { count: changedDays.length - MAX_DAYS })}</p>
+              )}
+            </div>
+          )}
+
+          {diff.shoppingChanges.length > 0 && (
+            <div className="np-plan-diff-shopping">
+              <p className="np-plan-diff-subtitle">{t("planDiff.shopping")}</p>
+              <ul>
+                {diff.shoppingChanges.slice(0, MAX_SHOPPING_CHANGES).map((change) => (
+                  <li key={change.id}>
+                    {foodName(change.name)}: {change.before} → {change.after} {change.unit}
+                    {change.costDelta !== 0 ? ` (${formatCost(change.costDelta)})` : ""}
+                  </li>
+                ))}
+              </ul>
+              {diff.shoppingChanges.length > MAX_SHOPPING_CHANGES && (
+                <p className="np-plan-diff-more">
+                  {t("planDiff.moreChanges", { count: diff.shoppingChanges.length - MAX_SHOPPING_CHANGES })}
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {(onConfirm || onCancel) && (
+        <div className="np-plan-diff-actions">
+          {onConfirm && (
+            <button type="button" className="np-plan-diff-confirm" onClick={onConfirm} disabled={busy}>
+              {busy ? "..." : t("planDiff.confirm")}
+            </button>
+          )}
+          {onCancel && (
+            <button type="button" className="np-plan-diff-cancel" onClick={onCancel} disabled={busy}>
+              {t("planDiff.cancel")}
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -3,12 +3,24 @@
 import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
 import { useShoppingPlan } from "../../src/contexts/ShoppingPlanContext";
 import { isPremiumUser } from "../../src/core/premium/PremiumFeatures";
 import { OnboardingWizard } from "../../src/app/components/OnboardingWizard";
-import type { FitnessGoal, PlanInput } from "../../src/core/models/PlanInput";
+import type { FitnessGoal, HouseholdPartner, PlanInput, TrainingDay, UserAllergy } from "../../src/core/models/PlanInput";
+import {
+  CurrencySchema,
+  HouseholdPartnersSchema,
+  TrainingScheduleSchema,
+  UserAllergiesSchema,
+  WeeklyBudgetSchema,
+} from "../../src/core/validation/PlanInputSchema";
+import { DietaryRestrictionError } from "../../src/core/logic/dietaryRestrictions";
+import { diffWeeklyPlans, type PlanDiff } from "../../src/core/logic/diffWeeklyPlans";
+import { REGIONS } from "../../src/core/logic/regions";
 import { AppNav } from "./AppNav";
 import { PlannerAuthControls } from "./PlannerAuthControls";
+import { PlanDiffPreview } from "./PlanDiffPreview";
 import { trackEvent } from "../lib/analytics";
 import { useAppTranslation } from "../lib/i18n";
 
@@ -27,10 +39,16 @@ export default function PlannerDashboard() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const { t } = useAppTranslation();
-  const { generatePlan, repeatLastWeek, weeklyPlan, streak } = useShoppingPlan();
+  const { generatePlan, repeatLastWeek, previewRepeatLastWeek, weeklyPlan, streak, region } = useShoppingPlan();
+  const { data: session } = useSession();
   const isPremium = isPremiumUser();
   const [wizardErrors, setWizardErrors] = useState<string[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [savedTrainingSchedule, setSavedTrainingSchedule] = useState<TrainingDay[] | undefined>(undefined);
+  const [savedAllergies, setSavedAllergies] = useState<UserAllergy[] | undefined>(undefined);
+  const [savedBudget, setSavedBudget] = useState<Pick<PlanInput, "weeklyBudget" | "budgetCurrency">>({});
+  const [savedPartners, setSavedPartners] = useState<HouseholdPartner[] | undefined>(undefined);
+  const [repeatDiff, setRepeatDiff] = useState<PlanDiff | null>(null); // Current plan → last week's, before repeating
   const hasTrackedContentCtaRef = useRef(false);
 
   const requestedGoal = searchParams.get("goal");
@@ -53,25 +71,103 @@ export default function PlannerDashboard() {
     });
   }, [ctaSlug, ctaSource, initialFitnessGoal]);
 
+  // Prefill the wizard with the schedule, allergies, budget and partners saved on the user's profile
+  useEffect(() => {
+    if (!session?.user) {
+      return;
+    }
+
+    fetch("/api/profile")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((profile) => {
+        const parsed = TrainingScheduleSchema.safeParse(profile?.trainingSchedule);
+        if (parsed.success) {
+          setSavedTrainingSchedule(parsed.data);
+        }
+        const parsedAllergies = UserAllergiesSchema.safeParse(profile?.allergies);
+        if (parsedAllergies.success) {
+          setSavedAllergies(parsedAllergies.data);
+        }
+        const parsedBudget = WeeklyBudgetSchema.safeParse(profile?.weeklyBudget);
+        if (parsedBudget.success) {
+          const parsedCurrency = CurrencySchema.safeParse(profile?.budgetCurrency);
+          setSavedBudget({
+            weeklyBudget: parsedBudget.data,
+            ...(parsedCurrency.success ? { budgetCurrency: parsedCurrency.data } : {}),
+          });
+        }
+        const parsedPartners = HouseholdPartnersSchema.safeParse(profile?.householdPartners);
+        if (parsedPartners.success) {
+          setSavedPartners(parsedPartners.data);
+        }
+      })
+      .catch(() => {
+        // silent
+      });
+  }, [session]);
+
+  const saveProfilePreferences = (planInput: PlanInput) => {
+    if (!session?.user) {
+      return;
+    }
+
+    fetch("/api/profile", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        trainingSchedule: planInput.trainingSchedule,
+        allergies: planInput.allergies ?? [],
+        weeklyBudget: planInput.weeklyBudget ?? null,
+        budgetCurrency: planInput.budgetCurrency ?? null,
+        householdPartners: planInput.partners ?? [],
+      }),
+    }).catch(() => {
+      // silent
+    });
+  };
+
   const handleWizardComplete = (planInput: PlanInput) => {
     setWizardErrors([]);
     setIsGenerating(true);
 
     try {
       generatePlan(planInput);
+      saveProfilePreferences(planInput);
       trackEvent("plan_generated", {
         fitness_goal: planInput.fitnessGoal,
         meals_per_day: planInput.mealsPerDay,
         has_restrictions: planInput.restrictions.length > 0,
       });
       setTimeout(() => router.push("/app/list"), 900);
-    } catch {
+    } catch (error) {
       setIsGenerating(false);
-      setWizardErrors([t("planner.alertError")]);
+      setWizardErrors([
+        error instanceof DietaryRestrictionError
+          ? t("planner.restrictionError", { restrictions: [...error.restrictions, ...error.allergens].join(", ") })
+          : t("planner.alertError"),
+      ]);
     }
   };
 
+  // With a plan in place, show what repeating changes first
   const handleRepeatLastWeek = () => {
+    const lastWeek = previewRepeatLastWeek();
+
+    if (!lastWeek) {
+      setWizardErrors([t("planner.noRepeatPlan")]);
+      return;
+    }
+
+    if (weeklyPlan) {
+      setRepeatDiff(diffWeeklyPlans(weeklyPlan, lastWeek));
+      return;
+    }
+
+    confirmRepeatLastWeek();
+  };
+
+  const confirmRepeatLastWeek = () => {
+    setRepeatDiff(null);
     const success = repeatLastWeek();
 
     if (!success) {
@@ -144,6 +240,13 @@ export default function PlannerDashboard() {
             >
               🔁 {t("planner.repeatLastWeek")}
             </button>
+            {repeatDiff && (
+              <PlanDiffPreview
+                diff={repeatDiff}
+                onConfirm={confirmRepeatLastWeek}
+                onCancel={() => setRepeatDiff(null)}
+              />
+            )}
           </div>
 
           {!isPremium && (
@@ -175,7 +278,16 @@ export default function PlannerDashboard() {
               </div>
             )}
 
-            <OnboardingWizard onComplete={handleWizardComplete} initialFitnessGoal={initialFitnessGoal} />
+            <OnboardingWizard
+              key={`${savedTrainingSchedule ? "saved-schedule" : "default-schedule"}-${savedAllergies?.length ?? 0}-${savedBudget.weeklyBudget ?? 0}-${savedPartners?.length ?? 0}-${region}`}
+              onComplete={handleWizardComplete}
+              initialFitnessGoal={initialFitnessGoal}
+              initialTrainingSchedule={savedTrainingSchedule}
+              initialAllergies={savedAllergies}
+              initialWeeklyBudget={savedBudget.weeklyBudget}
+              initialBudgetCurrency={savedBudget.budgetCurrency ?? REGIONS[region].currency}
+              initialPartners={savedPartners}
+            />
           </div>
 
           <div className="np-actions">
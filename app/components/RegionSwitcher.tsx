@@ -0,0 +1,30 @@
+"use client";
+
+import { useShoppingPlan } from "../../src/contexts/ShoppingPlanContext";
+import { isRegion, REGION_IDS, REGIONS } from "../../src/core/logic/regions";
+import { useAppTranslation } from "../lib/i18n";
+
+/**
+ * Region the costs are shown for: currency, number format and stores
+ */
+export function RegionSwitcher() {
+  const { t } = useAppTranslation();
+  const { region, setRegion } = useShoppingPlan();
+
+  return (
+    <select
+      className="np-region"
+      value={region}
+      onChange={(event) => {
+        if (isRegion(event.target.value)) setRegion(event.target.value);
+      }}
+      aria-label={t("region.label")}
+    >
+      {REGION_IDS.map((id) => (
+        <option key={id} value={id}>
+          {t(`region.${id}`)} · {REGIONS[id].currency}
+        </option>
+      ))}
+    </select>
+  );
+}
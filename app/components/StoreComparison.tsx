@@ -0,0 +1,98 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import { useShoppingPlan } from "../../src/contexts/ShoppingPlanContext";
+import { compareStores, parseStoreCatalogFile, suggestSplitBasket } from "../../src/core/logic/storeCatalogs";
+import { formatMoney, getRegionCatalogs, REGIONS } from "../../src/core/logic/regions";
+import { useAppTranslation } from "../lib/i18n";
+
+/**
+ * Store the list is priced at, the list's total at each store of the
+ * region and a two-store split when it's worth it (storeCatalogs)
+ */
+export function StoreComparison() {
+  const { t } = useAppTranslation();
+  const { shoppingList, storeCatalogs, selectedStoreId, region, selectStore, importStoreCatalog } = useShoppingPlan();
+  const [importError, setImportError] = useState("");
+
+  const regionCatalogs = getRegionCatalogs(storeCatalogs, region);
+  const comparisons = compareStores(shoppingList, regionCatalogs);
+  const splitBasket = suggestSplitBasket(shoppingList, regionCatalogs);
+  const format = (value: number) => formatMoney(value, region);
+  const categoryLabel = (category: string) => t(`shoppingList.categories.${category}`);
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      importStoreCatalog(parseStoreCatalogFile(file.name, await file.text(), REGIONS[region].currency));
+      setImportError("");
+    } catch (error) {
+      setImportError(t("stores.importError", { message: error instanceof Error ? error.message : "" }));
+    }
+  };
+
+  return (
+    <section className="np-stores" aria-label={t("stores.title")}>
+      <div className="np-stores-head">
+        <p className="np-stores-title">🏪 {t("stores.title")}</p>
+        <select
+          className="np-input"
+          value={selectedStoreId ?? ""}
+          onChange={(event) => selectStore(event.target.value || null)}
+          aria-label={t("stores.selectLabel")}
+        >
+          <option value="">{t("stores.referencePrices")}</option>
+          {regionCatalogs.map((catalog) => (
+            <option key={catalog.id} value={catalog.id}>{catalog.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <ul className="np-stores-list">
+        {comparisons.map((comparison, index) => (
+          <li
+            key={comparison.storeId}
+            className={`np-stores-row ${comparison.storeId === selectedStoreId ? "selected" : ""}`}
+          >
+            <span className="np-stores-name">
+              {comparison.storeName}
+              {index === 0 ? <span className="np-stores-badge">{t("stores.cheapest")}</span> : null}
+            </span>
+            <span className="np-stores-total">{format(comparison.total)}</span>
+            {comparison.unlistedItems.length > 0 ? (
+              <span className="np-stores-unlisted" title={comparison.unlistedItems.join(", ")}>
+                {t("stores.unlisted", { count: comparison.unlistedItems.length })}
+              </span>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+
+      {splitBasket ? (
+        <div className="np-stores-split">
+          <p className="np-stores-split-title">{t("stores.splitTitle", { savings: format(splitBasket.savings) })}</p>
+          <ul>
+            {splitBasket.stores.map((store) => (
+              <li key={store.storeId}>
+                {t("stores.splitStore", {
+                  store: store.storeName,
+                  categories: store.categories.map(categoryLabel).join(", "),
+                  total: format(store.total),
+                })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      <label className="np-stores-import">
+        {t("stores.import")}
+        <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleImport} />
+      </label>
+      <p className="np-stores-note">{importError || t("stores.note")}</p>
+    </section>
+  );
+}
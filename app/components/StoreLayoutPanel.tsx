@@ -0,0 +1,85 @@
+"use client";
+
+import { useShoppingPlan } from "../../src/contexts/ShoppingPlanContext";
+import { BUILT_IN_STORE_LAYOUTS, moveAisle } from "../../src/core/logic/storeLayouts";
+import type { StoreAisle } from "../../src/core/models/StoreLayout";
+import { useAppTranslation } from "../lib/i18n";
+
+/**
+ * Market mode switch, the store layout it walks and the layout's aisle
+ * order, editable (storeLayouts)
+ */
+export function StoreLayoutPanel() {
+  const { t } = useAppTranslation();
+  const {
+    storeLayouts,
+    storeLayout,
+    marketMode,
+    setMarketMode,
+    selectStoreLayout,
+    saveStoreLayout,
+    resetStoreLayout,
+  } = useShoppingPlan();
+
+  const aisleName = (aisle: StoreAisle) => t(`storeLayouts.aisle.${aisle.id}`, { defaultValue: aisle.name });
+  const layoutName = (id: string, name: string) => t(`storeLayouts.layout.${id}`, { defaultValue: name });
+  const preset = BUILT_IN_STORE_LAYOUTS.find((layout) => layout.id === storeLayout.id);
+  const edited = preset !== undefined && preset !== storeLayout;
+
+  return (
+    <section className="np-layout" aria-label={t("storeLayouts.title")}>
+      <div className="np-layout-head">
+        <label className="np-layout-toggle">
+          <input type="checkbox" checked={marketMode} onChange={(event) => setMarketMode(event.target.checked)} />
+          🚶 {t("storeLayouts.marketMode")}
+        </label>
+        <select
+          className="np-input"
+          value={storeLayout.id}
+          onChange={(event) => selectStoreLayout(event.target.value)}
+          aria-label={t("storeLayouts.selectLabel")}
+        >
+          {storeLayouts.map((layout) => (
+            <option key={layout.id} value={layout.id}>{layoutName(layout.id, layout.name)}</option>
+          ))}
+        </select>
+      </div>
+
+      {marketMode ? (
+        <details className="np-layout-aisles">
+          <summary>{t("storeLayouts.editOrder")}</summary>
+          <ol>
+            {storeLayout.aisles.map((aisle, index) => (
+              <li key={aisle.id}>
+                <span>{aisleName(aisle)}</span>
+                <button
+                  type="button"
+                  disabled={index === 0}
+                  onClick={() => saveStoreLayout(moveAisle(storeLayout, aisle.id, -1))}
+                  aria-label={t("storeLayouts.moveUp", { aisle: aisleName(aisle) })}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  disabled={index === storeLayout.aisles.length - 1}
+                  onClick={() => saveStoreLayout(moveAisle(storeLayout, aisle.id, 1))}
+                  aria-label={t("storeLayouts.moveDown", { aisle: aisleName(aisle) })}
+                >
+                  ↓
+                </button>
+              </li>
+            ))}
+          </ol>
+          {edited ? (
+            <button type="button" className="np-layout-reset" onClick={() => resetStoreLayout(storeLayout.id)}>
+              {t("storeLayouts.reset")}
+            </button>
+          ) : null}
+        </details>
+      ) : null}
+
+      <p className="np-layout-note">{t("storeLayouts.note")}</p>
+    </section>
+  );
+}
@@ -3,36 +3,31 @@
 import Link from "next/link";
 import { useMemo } from "react";
 import type { WeeklyPlan } from "../../src/core/models/WeeklyPlan";
-import { getTodayContext, getCurrentMealSlot, getMealLabelPt, getMealEmoji } from "../lib/dayContext";
-
-const DAY_MAP: Record<number, string> = {
-  0: "sunday", 1: "monday", 2: "tuesday", 3: "wednesday",
-  4: "thursday", 5: "friday", 6: "saturday",
-};
+import { getTodayContext, getCurrentMealSlot, getMealSlotLabelPt, getMealEmoji } from "../lib/dayContext";
+import { getDayMealSlots, getSlotMealType } from "../../src/core/logic/mealSlots";
+import { getPlanDayIndex } from "../../src/core/logic/planCalendar";
+import { localizeMealName } from "../../src/app/utils/foodLocalization";
+import { useAppTranslation } from "../lib/i18n";
 
 interface TodayWidgetProps {
   weeklyPlan: WeeklyPlan;
 }
 
 export function TodayWidget({ weeklyPlan }: TodayWidgetProps) {
+  const { t, language } = useAppTranslation();
   const ctx = useMemo(() => getTodayContext(), []);
-  const currentSlot = useMemo(() => getCurrentMealSlot(), []);
+  const eatingWindow = weeklyPlan.planInput?.eatingWindow;
+  const currentSlot = useMemo(() => getCurrentMealSlot(eatingWindow), [eatingWindow]);
 
   const todayPlan = useMemo(() => {
-    const dayKey = DAY_MAP[new Date().getDay()];
-    return weeklyPlan.days.find((d) => d.day === dayKey) ?? null;
+    return weeklyPlan.days[getPlanDayIndex(weeklyPlan, new Date())] ?? null;
   }, [weeklyPlan]);
 
   if (!todayPlan) return null;
 
-  const meals = [
-    { slot: "breakfast" as const, meal: todayPlan.meals.breakfast },
-    { slot: "lunch" as const, meal: todayPlan.meals.lunch },
-    { slot: "dinner" as const, meal: todayPlan.meals.dinner },
-    todayPlan.meals.snack ? { slot: "snack" as const, meal: todayPlan.meals.snack } : null,
-  ].filter(Boolean) as Array<{ slot: "breakfast" | "lunch" | "dinner" | "snack"; meal: NonNullable<typeof todayPlan.meals.breakfast> }>;
+  const meals = getDayMealSlots(todayPlan.meals).filter((slot) => slot.meal);
 
-  const nextMeal = meals.find((m) => m.slot === currentSlot) ?? meals[0];
+  const nextMeal = meals.find((m) => getSlotMealType(m.type) === currentSlot) ?? meals[0];
 
   return (
     <div className="today-widget">
@@ -53,24 +48,24 @@ export function TodayWidget({ weeklyPlan }: TodayWidgetProps) {
       {nextMeal && (
         <div className="today-widget-meal">
           <span className="today-widget-meal-label">
-            {getMealEmoji(nextMeal.slot)} {getMealLabelPt(nextMeal.slot)}
+            {getMealEmoji(nextMeal.type)} {getMealSlotLabelPt(nextMeal.id, nextMeal.type)}
             <span className="today-widget-now">Agora</span>
           </span>
-          <span className="today-widget-meal-name">{nextMeal.meal.name}</span>
+          <span className="today-widget-meal-name">{localizeMealName(nextMeal.meal, t, language)}</span>
           <span className="today-widget-meal-protein">{Math.round(nextMeal.meal.protein)}g proteína</span>
         </div>
       )}
 
       {/* Mini meal row */}
       <div className="today-widget-meals-row">
-        {meals.map(({ slot, meal }) => (
+        {meals.map(({ id, type, meal }) => (
           <div
-            key={slot}
-            className={`today-widget-pill ${slot === currentSlot ? "active" : ""}`}
-            title={meal.name}
+            key={id}
+            className={`today-widget-pill ${id === nextMeal?.id ? "active" : ""}`}
+            title={localizeMealName(meal, t, language)}
           >
-            {getMealEmoji(slot)}
-            <span>{getMealLabelPt(slot).split("-")[0]}</span>
+            {getMealEmoji(type)}
+            <span>{getMealSlotLabelPt(id, type).split("-")[0]}</span>
           </div>
         ))}
       </div>
@@ -0,0 +1,69 @@
+"use client";
+
+import type { WeeklyPlan } from "../../src/core/models/WeeklyPlan";
+import { getSlotMealType } from "../../src/core/logic/mealSlots";
+import { formatConverted, formatCurrency } from "../../src/core/logic/regions";
+import { useShoppingPlan } from "../../src/contexts/ShoppingPlanContext";
+import { useAppTranslation } from "../lib/i18n";
+
+interface WeeklyBudgetSummaryProps {
+  weeklyPlan: WeeklyPlan;
+}
+
+/**
+ * Cost of the food eaten, per day / meal, and, with a weekly budget, whether
+ * the shopping list holds it (WeeklyPlan.costBreakdown / budget)
+ */
+export function WeeklyBudgetSummary({ weeklyPlan }: WeeklyBudgetSummaryProps) {
+  const { t } = useAppTranslation();
+  const { region } = useShoppingPlan();
+  const { costBreakdown, budget } = weeklyPlan;
+
+  // Plans saved before cost tracking
+  if (!costBreakdown) {
+    return null;
+  }
+
+  // A budget keeps its own currency; otherwise the EUR cost is shown in the region's
+  const format = (value: number) => budget
+    ? formatCurrency(value, costBreakdown.currency, region)
+    : formatConverted(value, costBreakdown.currency, region);
+
+  return (
+    <section className={`np-budget ${budget ? `np-budget-${budget.status}` : ""}`} aria-label={t("weeklyBudget.title")}>
+      <p className="np-budget-title">{t("weeklyBudget.title")}</p>
+
+      {budget ? (
+        <p className="np-budget-status">
+          {t(`weeklyBudget.status.${budget.status}`, {
+            total: format(budget.totalCost),
+            budget: format(budget.weeklyBudget),
+            remaining: format(Math.abs(budget.remaining)),
+            minimum: format(budget.minimumProteinCost),
+          })}
+        </p>
+      ) : null}
+      <p className="np-budget-eaten">{t("weeklyBudget.planCost", { total: format(costBreakdown.totalCost) })}</p>
+
+      <details className="np-budget-days">
+        <summary>{t("weeklyBudget.perDay")}</summary>
+        <ul>
+          {costBreakdown.days.map((day) => (
+            <li key={day.date ?? day.day}>
+              <span className="np-budget-day-label">
+                {t(`planner.dayOption.${day.day}`)}{day.date ? ` · ${day.date.slice(5)}` : ""}: {format(day.cost)}
+              </span>
+              <span className="np-budget-meals">
+                {day.meals
+                  .map((meal) => `${t(`recipes.mealType.${getSlotMealType(meal.type)}`)} ${format(meal.cost)}`)
+                  .join(" · ")}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </details>
+
+      <p className="np-budget-note">{t("weeklyBudget.note")}</p>
+    </section>
+  );
+}
@@ -7,7 +7,13 @@ import { trackEvent } from "../lib/analytics";
 import { useAppTranslation } from "../lib/i18n";
 import { useShoppingProgressStore } from "../stores/shoppingProgressStore";
 import { useToast } from "./Toast";
+import { PlanDiffPreview } from "./PlanDiffPreview";
 import type { PlanInput } from "../../src/core/models/PlanInput";
+import type { WeeklyPlan } from "../../src/core/models/WeeklyPlan";
+import { getDayMealList } from "../../src/core/logic/mealSlots";
+import { getPlanDayIndex } from "../../src/core/logic/planCalendar";
+import { diffWeeklyPlans, getShoppingListCost } from "../../src/core/logic/diffWeeklyPlans";
+import { formatMoney } from "../../src/core/logic/regions";
 
 type ConciergeIntent = "daily_replan" | "smart_swap" | "quick_help";
 type DailyReplanIssue = "ate_out" | "skipped_meal" | "missing_ingredients";
@@ -133,7 +139,15 @@ function sanitizePhone(rawPhone: string): string {
 
 export function WhatsAppConcierge() {
   const pathname = usePathname();
-  const { weeklyPlan, shoppingList, currentInput, generatePlan } = useShoppingPlan();
+  const {
+    weeklyPlan,
+    shoppingList,
+    currentInput,
+    region,
+    generatePlan,
+    previewPlan,
+    applyPreviewedPlan,
+  } = useShoppingPlan();
   const { language } = useAppTranslation();
   const { addToast } = useToast();
   const purchasedCountStore = useShoppingProgressStore((state) => state.purchasedCount);
@@ -147,6 +161,7 @@ export function WhatsAppConcierge() {
   const [isApplying, setIsApplying] = useState(false);
   const [isUndoing, setIsUndoing] = useState(false);
   const [lastInputBeforeAdjustment, setLastInputBeforeAdjustment] = useState<PlanInput | null>(null);
+  const [adjustedPreview, setAdjustedPreview] = useState<WeeklyPlan | null>(null);
 
   const phone = sanitizePhone(process.env.NEXT_PUBLIC_WHATSAPP_CONCIERGE_NUMBER ?? "");
 
@@ -163,20 +178,14 @@ export function WhatsAppConcierge() {
       return language === "pt" ? "Plano semanal ainda não gerado." : "Weekly plan not generated yet.";
     }
 
-    const dayMap = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
-    const todayKey = dayMap[new Date().getDay()];
-    const todayPlan = weeklyPlan.days.find((day) => day.day === todayKey);
+    const todayPlan = weeklyPlan.days[getPlanDayIndex(weeklyPlan, new Date())];
 
     if (!todayPlan) {
       return language === "pt" ? "Não encontrei o dia de hoje no plano." : "Could not find today's plan.";
     }
 
-    const meals = [
-      todayPlan.meals.breakfast?.name,
-      todayPlan.meals.lunch?.name,
-      todayPlan.meals.dinner?.name,
-      todayPlan.meals.snack?.name,
-    ].filter(Boolean) as string[];
+    const meals = getDayMealList(todayPlan.meals).map((meal) => meal.name);
+    const todayKey = todayPlan.date ? `${todayPlan.day} ${todayPlan.date}` : todayPlan.day;
 
     if (language === "pt") {
       return `Dia: ${todayKey} | Refeições: ${meals.join(" | ")}`;
@@ -190,28 +199,17 @@ export function WhatsAppConcierge() {
       return [] as string[];
     }
 
-    const dayMap = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
-    const todayKey = dayMap[new Date().getDay()];
-    const todayPlan = weeklyPlan.days.find((day) => day.day === todayKey);
+    const todayPlan = weeklyPlan.days[getPlanDayIndex(weeklyPlan, new Date())];
 
     if (!todayPlan) {
       return [] as string[];
     }
 
-    return [
-      todayPlan.meals.breakfast?.name,
-      todayPlan.meals.lunch?.name,
-      todayPlan.meals.dinner?.name,
-      todayPlan.meals.snack?.name,
-    ].filter(Boolean) as string[];
+    return getDayMealList(todayPlan.meals).map((meal) => meal.name);
   }, [weeklyPlan]);
 
   const isInPrivateApp = pathname?.startsWith("/app") ?? false;
 
-  if (!isInPrivateApp || !phone) {
-    return null;
-  }
-
   useEffect(() => {
     if (view !== "daily_replan") {
       return;
@@ -292,10 +290,11 @@ export function WhatsAppConcierge() {
       }[intent] ?? "I need help with my current plan.",
     };
 
+    const listCost = formatMoney(getShoppingListCost(shoppingList), region);
     const planContext = weeklyPlan
       ? language === "pt"
-        ? `\n\nContexto atual:\n- Meta proteína: ${Math.round(weeklyPlan.proteinTargetPerDay)}g/dia\n- Custo: ${weeklyPlan.costTier}\n- Progresso compras: ${purchasedCount}/${totalCount}\n- Hoje: ${todayMealContext}`
-        : `\n\nCurrent context:\n- Protein target: ${Math.round(weeklyPlan.proteinTargetPerDay)}g/day\n- Cost tier: ${weeklyPlan.costTier}\n- Shopping progress: ${purchasedCount}/${totalCount}\n- Today: ${todayMealContext}`
+        ? `\n\nContexto atual:\n- Meta proteína: ${Math.round(weeklyPlan.proteinTargetPerDay)}g/dia\n- Custo: ${weeklyPlan.costTier} (~${listCost})\n- Progresso compras: ${purchasedCount}/${totalCount}\n- Hoje: ${todayMealContext}`
+        : `\n\nCurrent context:\n- Protein target: ${Math.round(weeklyPlan.proteinTargetPerDay)}g/day\n- Cost tier: ${weeklyPlan.costTier} (~${listCost})\n- Shopping progress: ${purchasedCount}/${totalCount}\n- Today: ${todayMealContext}`
       : language === "pt"
         ? "\n\nAinda não gerei meu plano semanal."
         : "\n\nI have not generated my weekly plan yet.";
@@ -369,6 +368,28 @@ export function WhatsAppConcierge() {
     return rows.filter((row) => row.before !== row.after);
   }, [adjustedPreviewInput, copy.diffCostTier, copy.diffDietStyle, copy.diffGoal, copy.diffMeals, currentInput]);
 
+  // Plan the adjustment would build, only while the replan flow is open (built after
+  // render; a preview that can't be built, e.g. no food left by the restrictions, isn't shown).
+  // The input keeps its partners, so the household eats the adjusted plan too
+  useEffect(() => {
+    if (!isExpanded || view !== "daily_replan" || !adjustedPreviewInput) {
+      setAdjustedPreview(null);
+      return;
+    }
+
+    try {
+      setAdjustedPreview(previewPlan(adjustedPreviewInput));
+    } catch {
+      setAdjustedPreview(null);
+    }
+  }, [adjustedPreviewInput, isExpanded, previewPlan, view]);
+
+  // Meals, macros and shopping list the adjustment would change
+  const adjustedPlanDiff = useMemo(
+    () => (weeklyPlan && adjustedPreview ? diffWeeklyPlans(weeklyPlan, adjustedPreview) : null),
+    [adjustedPreview, weeklyPlan]
+  );
+
   const applyContingencyInApp = async () => {
     if (!currentInput) {
       addToast(copy.applyNoPlan, "warning");
@@ -379,8 +400,12 @@ export function WhatsAppConcierge() {
 
     try {
       setLastInputBeforeAdjustment({ ...currentInput });
-      const adjustedInput = buildAdjustedInput(currentInput, dailyIssue);
-      generatePlan(adjustedInput);
+      // The previewed plan is applied as shown; without one it is built now
+      if (adjustedPreview) {
+        applyPreviewedPlan(adjustedPreview);
+      } else {
+        generatePlan(buildAdjustedInput(currentInput, dailyIssue));
+      }
 
       trackEvent("whatsapp_concierge_apply_in_app", {
         issue: dailyIssue,
@@ -447,6 +472,11 @@ export function WhatsAppConcierge() {
     setDailyNote("");
   };
 
+  // After every hook: they must run on each render
+  if (!isInPrivateApp || !phone) {
+    return null;
+  }
+
   return (
     <div className="np-wa-concierge" aria-live="polite">
       {isExpanded ? (
@@ -523,6 +553,7 @@ export function WhatsAppConcierge() {
                   </ul>
                 )}
               </div>
+              {adjustedPlanDiff && <PlanDiffPreview diff={adjustedPlanDiff} />}
               <div className="np-wa-plan-box">
                 <p className="np-wa-plan-title">{copy.planTitle}</p>
                 {isLoadingSuggestions ? (
@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useShoppingPlan } from "../../src/contexts/ShoppingPlanContext";
+import { loadPantryOwner, savePantryOwner } from "../../src/core/stores/PantryStore";
+import { PantrySchema } from "../../src/core/validation/PantrySchema";
+
+const SAVE_DELAY_MS = 800; // Ticking a run of list items saves once
+
+/**
+ * Signed-in users keep their pantry on their account (/api/pantry): the
+ * account's pantry replaces the local one on sign-in and every later change
+ * is saved back. An empty account is seeded from this device only with a
+ * pantry built signed out or by the same account; another account's local
+ * pantry is cleared first, never copied.
+ */
+export function usePantrySync(): void {
+  const { data: session } = useSession();
+  const { pantry, replacePantry } = useShoppingPlan();
+  const email = session?.user?.email ?? null;
+  // Pantry (JSON) the account holds; null until it is loaded
+  const [syncedPantry, setSyncedPantry] = useState<string | null>(null);
+  const replacePantryRef = useRef(replacePantry);
+
+  useEffect(() => {
+    replacePantryRef.current = replacePantry;
+  }, [replacePantry]);
+
+  useEffect(() => {
+    setSyncedPantry(null);
+    if (!email) {
+      return;
+    }
+
+    const isOtherAccountPantry = (loadPantryOwner() ?? email) !== email;
+    if (isOtherAccountPantry) {
+      replacePantryRef.current([]);
+    }
+
+    let cancelled = false;
+    fetch("/api/pantry")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((items) => {
+        const parsed = PantrySchema.safeParse(items);
+        if (cancelled || !parsed.success) {
+          return;
+        }
+
+        if (parsed.data.length > 0) {
+          replacePantryRef.current(parsed.data);
+        }
+        savePantryOwner(email);
+        setSyncedPantry(JSON.stringify(parsed.data));
+      })
+      .catch(() => {
+        // silent: the local pantry keeps working
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [email]);
+
+  useEffect(() => {
+    const items = JSON.stringify(pantry);
+    if (!email || syncedPantry === null || items === syncedPantry) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      fetch("/api/pantry", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ items: pantry }),
+      })
+        .then((res) => {
+          if (res.ok) {
+            setSyncedPantry(items);
+          }
+        })
+        .catch(() => {
+          // silent: retried on the next change
+        });
+    }, SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [email, pantry, syncedPantry]);
+}
@@ -3,6 +3,9 @@
  * Used in Today page, shopping list widget, and AppNav banner.
  */
 
+import type { EatingWindow } from "../../src/core/models/PlanInput";
+import { getEatingWindowMinutes, getWindowMealType } from "../../src/core/logic/fasting";
+
 export type DayContext = {
   dayKey: string;
   labelPt: string;
@@ -84,8 +87,19 @@ export function getTodayContext(): DayContext {
   return DAY_CONTEXTS[idx];
 }
 
-export function getCurrentMealSlot(): "breakfast" | "lunch" | "dinner" | "snack" {
-  const hour = new Date().getHours();
+/**
+ * Meal that is "now". With an eating window (intermittent fasting) the
+ * window's meals replace the fixed cut-offs; after it closes there is none.
+ */
+export function getCurrentMealSlot(
+  eatingWindow?: EatingWindow,
+  now: Date = new Date()
+): "breakfast" | "lunch" | "dinner" | "snack" | null {
+  if (eatingWindow && getEatingWindowMinutes(eatingWindow)) {
+    return getWindowMealType(eatingWindow, now);
+  }
+
+  const hour = now.getHours();
   if (hour < 10) return "breakfast";
   if (hour < 14) return "lunch";
   if (hour < 20) return "dinner";
@@ -98,16 +112,25 @@ export function getMealLabelPt(slot: string): string {
     lunch: "Almoço",
     dinner: "Jantar",
     snack: "Snack",
+    pre_workout: "Pré-treino",
   };
   return labels[slot] ?? slot;
 }
 
+// Repeated slots ("snack-2") get a number: "Snack 2"
+export function getMealSlotLabelPt(slotId: string, type: string): string {
+  const occurrence = slotId.match(/-(\d+)$/)?.[1];
+  const label = getMealLabelPt(type);
+  return occurrence ? `${label} ${occurrence}` : label;
+}
+
 export function getMealEmoji(slot: string): string {
   const emojis: Record<string, string> = {
     breakfast: "🌅",
     lunch: "☀️",
     dinner: "🌙",
     snack: "🍎",
+    pre_workout: "⚡",
   };
   return emojis[slot] ?? "🍽️";
 }
@@ -2,6 +2,9 @@
 
 import { CostTier } from "../../../src/core/models/CostTier";
 import { FoodItem } from "../../../src/core/models/FoodItem";
+import { UserAllergy } from "../../../src/core/models/PlanInput";
+import type { Region } from "../../../src/core/logic/regions";
+import type { StoreLayout } from "../../../src/core/models/StoreLayout";
 
 interface PdfSubstitution {
   from: string;
@@ -16,6 +19,10 @@ export interface NextPdfExportOptions {
   savingsStatus?: string;
   substitutionsApplied?: PdfSubstitution[];
   fitnessGoal?: string;
+  householdSize?: number;
+  allergies?: UserAllergy[];
+  region?: Region;
+  storeLayout?: StoreLayout;
 }
 
 export type NextPdfExportResult =
@@ -0,0 +1,21 @@
+/**
+ * Programs owned by the signed-in user (api/programs, api/plans).
+ * A program someone else owns is reported as not found.
+ */
+
+import { prisma } from "./prisma";
+
+export async function findOwnedProgram(email: string, id: string) {
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user) return null;
+
+  return prisma.program.findFirst({
+    where: { id, userId: user.id },
+    include: {
+      savedPlans: {
+        select: { id: true, programWeek: true, createdAt: true },
+        orderBy: { programWeek: "asc" },
+      },
+    },
+  });
+}
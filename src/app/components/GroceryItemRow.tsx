@@ -1,18 +1,13 @@
 import { AggregatedShoppingItem } from "../../core/logic/aggregateShoppingList";
+import { formatMoney, REGIONS } from "../../core/logic/regions";
+import { useShoppingPlan } from "../../contexts/ShoppingPlanContext";
 import { useTranslation } from "react-i18next";
 import { localizeCoverageText, localizeFoodText, localizeReasonText } from "../utils/foodLocalization";
 
 interface GroceryItemRowProps {
   item: AggregatedShoppingItem;
   onTogglePurchased: (sourceIds: string[]) => void;
-}
-
-function resolveEuropeanLocale(language: string): string {
-  if (language.startsWith("pt")) {
-    return "pt-PT";
-  }
-
-  return "en-IE";
+  aisle?: { position: number; name: string }; // Market mode: where the item is on the walk
 }
 
 function formatDisplayQuantity(displayText: string, locale: string): string {
@@ -34,27 +29,43 @@ function formatDisplayQuantity(displayText: string, locale: string): string {
   );
 }
 
-export function GroceryItemRow({ item, onTogglePurchased }: GroceryItemRowProps) {
-  const { i18n } = useTranslation();
+// Store package size, in the unit family of the item (kg/g or L/ml)
+function formatPackageSize(grams: number, unit: string): string {
+  const liquid = unit === "L" || unit === "ml";
+  if (grams >= 1000) {
+    return `${grams / 1000} ${liquid ? "L" : "kg"}`;
+  }
+
+  return `${grams} ${liquid ? "ml" : "g"}`;
+}
+
+export function GroceryItemRow({ item, onTogglePurchased, aisle }: GroceryItemRowProps) {
+  const { t, i18n } = useTranslation();
   const language = i18n.language;
-  const locale = resolveEuropeanLocale(language);
+  const { region } = useShoppingPlan();
+  const locale = REGIONS[region].locale;
   const localizedName = localizeFoodText(item.name, language);
   const localizedDisplayText = formatDisplayQuantity(localizeFoodText(item.normalizedDisplayText, language), locale);
   const localizedCoverageText = localizeCoverageText(item.coverageText, language);
   const localizedReasonText = item.reason ? localizeReasonText(localizeFoodText(item.reason, language), language) : undefined;
   const localizedPrice = item.estimatedPrice
-    ? new Intl.NumberFormat(locale, { style: "currency", currency: "EUR" }).format(item.estimatedPrice)
+    ? formatMoney(item.estimatedPrice, region)
     : null;
 
   return (
     <li
-      className={`item ${item.purchased ? "purchased" : ""}`}
+      className={`item ${item.purchased ? "purchased" : ""} ${item.coveredByPantry ? "pantry-covered" : ""}`}
       onClick={() => onTogglePurchased(item.sourceIds)}
     >
       <div className="item-checkbox">
         {item.purchased ? "✓" : "○"}
       </div>
       <div className="item-info">
+        {aisle ? (
+          <span className="item-aisle">
+            🚶 {aisle.position > 0 ? t("storeLayouts.aisleTag", { position: aisle.position, aisle: aisle.name }) : t("storeLayouts.unshelved")}
+          </span>
+        ) : null}
         <span className="item-name">{localizedName} — {localizedDisplayText}</span>
         <span className="item-quantity">
           {localizedCoverageText}
@@ -62,6 +73,18 @@ export function GroceryItemRow({ item, onTogglePurchased }: GroceryItemRowProps)
         {localizedReasonText && (
           <span className="item-reason">{localizedReasonText}</span>
         )}
+        {item.storePackages && item.storePackageGrams ? (
+          <span className="item-store">
+            📦 {item.storePackages} × {formatPackageSize(item.storePackageGrams, item.unit)}
+          </span>
+        ) : null}
+        {item.coveredByPantry ? (
+          <span className="item-pantry">🥫 {t("shoppingList.coveredByPantry")}</span>
+        ) : item.pantryQuantity ? (
+          <span className="item-pantry">
+            🥫 {t("shoppingList.pantryOnHand", { quantity: item.pantryQuantity, unit: item.unit })}
+          </span>
+        ) : null}
       </div>
       {item.estimatedPrice && (
         <div className="item-price">
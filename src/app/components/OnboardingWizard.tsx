@@ -1,23 +1,111 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { trackEvent } from "../../../app/lib/analytics";
-import { CostTier, DietStyle, FitnessGoal, PlanInput, Sex } from "../../core/models/PlanInput";
+import {
+  AllergySeverity,
+  CostTier,
+  Cuisine,
+  Currency,
+  DietStyle,
+  FitnessGoal,
+  FlavorTag,
+  FoodAllergen,
+  HouseholdPartner,
+  PlanInput,
+  PlanMode,
+  Sex,
+  TrainingDay,
+  TrainingSessionType,
+  UserAllergy,
+} from "../../core/models/PlanInput";
+import { DayOfWeek } from "../../core/models/WeeklyPlan";
 import { validatePlanInput } from "../../core/validation/PlanInputSchema";
+import { DEFAULT_TRAINING_SCHEDULE, TRAINING_SESSION_TYPES } from "../../core/logic/TrainingSessions";
+import { FOOD_ALLERGENS } from "../../core/logic/allergens";
+import { DEFAULT_PLAN_DAYS, PLAN_DAYS_RANGE, toISODate } from "../../core/logic/planCalendar";
+import { MAX_FASTING_DAYS } from "../../core/logic/fasting";
+import { CUISINES, FLAVOR_TAGS } from "../../core/logic/cuisines";
+import { BUDGET_CURRENCIES, DEFAULT_BUDGET_CURRENCY } from "../../core/logic/weeklyBudget";
 
 interface OnboardingWizardProps {
   onComplete: (input: PlanInput) => void;
   initialFitnessGoal?: FitnessGoal;
+  initialTrainingSchedule?: TrainingDay[];
+  initialAllergies?: UserAllergy[];
+  initialWeeklyBudget?: number;
+  initialBudgetCurrency?: Currency;
+  initialPartners?: HouseholdPartner[];
 }
 
 const TOTAL_STEPS = 4;
 
+const WEEK_DAYS: DayOfWeek[] = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+function getSessionMap(schedule: TrainingDay[]): Record<DayOfWeek, TrainingSessionType> {
+  const sessions = Object.fromEntries(WEEK_DAYS.map((day) => [day, "rest"])) as Record<DayOfWeek, TrainingSessionType>;
+  schedule.forEach((entry) => {
+    sessions[entry.day] = entry.session;
+  });
+  return sessions;
+}
+
+const ALLERGY_SEVERITIES: AllergySeverity[] = ["mild", "moderate", "severe"];
+type FastingMode = "none" | "window" | "days";
+
+const DEFAULT_EATING_WINDOW = { start: "12:00", end: "20:00" }; // 16:8
+const DEFAULT_FASTING_DAYS: DayOfWeek[] = ["monday", "thursday"];
+
+const PLAN_DAY_OPTIONS = Array.from(
+  { length: PLAN_DAYS_RANGE.max - PLAN_DAYS_RANGE.min + 1 },
+  (_, index) => PLAN_DAYS_RANGE.min + index
+);
+
+function toggleEntry<T>(entries: T[], entry: T): T[] {
+  return entries.includes(entry) ? entries.filter((value) => value !== entry) : [...entries, entry];
+}
+
+function getSeverityMap(allergies: UserAllergy[]): Partial<Record<FoodAllergen, AllergySeverity>> {
+  return Object.fromEntries(allergies.map((entry) => [entry.allergen, entry.severity]));
+}
+
+const MAX_PARTNERS = 5; // The household picker goes up to 6 people
+
+const DEFAULT_PARTNER: HouseholdPartner = {
+  sex: "female",
+  age: 30,
+  weightKg: 62,
+  heightCm: 165,
+  trains: false,
+  fitnessGoal: "maintenance",
+};
+
+const GOAL_LABEL_KEYS: Record<FitnessGoal, string> = {
+  cutting: "planner.goalOption.healthy",
+  maintenance: "planner.goalOption.balanced",
+  bulking: "planner.goalOption.comfort",
+};
+
+function isValidPartner(partner: HouseholdPartner): boolean {
+  return partner.age >= 13 && partner.age <= 100
+    && partner.weightKg >= 30 && partner.weightKg <= 300
+    && partner.heightCm >= 100 && partner.heightCm <= 250;
+}
+
 function getDietStyleFromGoal(goal: FitnessGoal): DietStyle {
   if (goal === "cutting") return "healthy";
   if (goal === "bulking") return "comfort";
   return "balanced";
 }
 
-export function OnboardingWizard({ onComplete, initialFitnessGoal = "maintenance" }: OnboardingWizardProps) {
+export function OnboardingWizard({
+  onComplete,
+  initialFitnessGoal = "maintenance",
+  initialTrainingSchedule,
+  initialAllergies,
+  initialWeeklyBudget,
+  initialBudgetCurrency = DEFAULT_BUDGET_CURRENCY,
+  initialPartners = [],
+}: OnboardingWizardProps) {
   const { t } = useTranslation();
   const [currentStep, setCurrentStep] = useState(1);
 
@@ -26,10 +114,32 @@ export function OnboardingWizard({ onComplete, initialFitnessGoal = "maintenance
   const [weightKg, setWeightKg] = useState<number>(70);
   const [heightCm, setHeightCm] = useState<number>(175);
   const [trains, setTrains] = useState<boolean>(true);
+  const [sessionsByDay, setSessionsByDay] = useState<Record<DayOfWeek, TrainingSessionType>>(() =>
+    getSessionMap(initialTrainingSchedule ?? DEFAULT_TRAINING_SCHEDULE)
+  );
+  // Optional: empty keeps the evenly boosted training days
+  const [workoutTime, setWorkoutTime] = useState<string>("");
   const [fitnessGoal, setFitnessGoal] = useState<FitnessGoal>(initialFitnessGoal);
   const [mealsPerDay, setMealsPerDay] = useState<number>(3);
   const [costTier, setCostTier] = useState<CostTier>("medium");
+  // Optional: empty keeps the cost tier as the only cost control
+  const [weeklyBudget, setWeeklyBudget] = useState<string>(initialWeeklyBudget ? String(initialWeeklyBudget) : "");
+  const [budgetCurrency, setBudgetCurrency] = useState<Currency>(initialBudgetCurrency);
   const [restrictions, setRestrictions] = useState<string>("");
+  const [householdSize, setHouseholdSize] = useState<number>(1);
+  const [partners, setPartners] = useState<HouseholdPartner[]>(initialPartners);
+  const [planMode, setPlanMode] = useState<PlanMode>("foods");
+  const [cuisines, setCuisines] = useState<Cuisine[]>([]);
+  const [flavors, setFlavors] = useState<FlavorTag[]>([]);
+  const [leftovers, setLeftovers] = useState<boolean>(false);
+  const [startDate, setStartDate] = useState<string>(() => toISODate(new Date()));
+  const [planDays, setPlanDays] = useState<number>(DEFAULT_PLAN_DAYS);
+  const [fastingMode, setFastingMode] = useState<FastingMode>("none");
+  const [eatingWindow, setEatingWindow] = useState(DEFAULT_EATING_WINDOW);
+  const [fastingDays, setFastingDays] = useState<DayOfWeek[]>(DEFAULT_FASTING_DAYS);
+  const [severityByAllergen, setSeverityByAllergen] = useState<Partial<Record<FoodAllergen, AllergySeverity>>>(() =>
+    getSeverityMap(initialAllergies ?? [])
+  );
 
   const [stepError, setStepError] = useState<string | null>(null);
   const [formErrors, setFormErrors] = useState<string[]>([]);
@@ -38,6 +148,46 @@ export function OnboardingWizard({ onComplete, initialFitnessGoal = "maintenance
 
   const progress = useMemo(() => Math.round((currentStep / TOTAL_STEPS) * 100), [currentStep]);
 
+  // Either an eating window or 5:2 fasting days (never both)
+  const fastingInput = useMemo<Pick<PlanInput, "eatingWindow" | "fastingDays">>(() => {
+    if (fastingMode === "window") return { eatingWindow };
+    if (fastingMode === "days" && fastingDays.length > 0) return { fastingDays };
+    return {};
+  }, [eatingWindow, fastingDays, fastingMode]);
+
+  const budgetInput: Pick<PlanInput, "weeklyBudget" | "budgetCurrency"> =
+    Number(weeklyBudget) > 0 ? { weeklyBudget: Number(weeklyBudget), budgetCurrency } : {};
+
+  // Partners get their own plates; without them householdSize multiplies the portions
+  const householdInput: Pick<PlanInput, "householdSize" | "partners"> =
+    partners.length > 0 ? { householdSize: partners.length + 1, partners } : { householdSize };
+
+  const updatePartner = (index: number, changes: Partial<HouseholdPartner>) => {
+    setPartners((previous) => previous.map((partner, entry) => (entry === index ? { ...partner, ...changes } : partner)));
+  };
+
+  const toggleFastingDay = (day: DayOfWeek) => {
+    setFastingDays((previous) => {
+      if (previous.includes(day)) return previous.filter((entry) => entry !== day);
+      return previous.length >= MAX_FASTING_DAYS ? previous : [...previous, day];
+    });
+  };
+
+  // Only training days are stored; everything else is rest
+  const trainingSchedule = useMemo<TrainingDay[]>(
+    () => WEEK_DAYS
+      .filter((day) => sessionsByDay[day] !== "rest")
+      .map((day) => ({ day, session: sessionsByDay[day] })),
+    [sessionsByDay]
+  );
+
+  const allergies = useMemo<UserAllergy[]>(
+    () => FOOD_ALLERGENS
+      .filter((allergen) => severityByAllergen[allergen])
+      .map((allergen) => ({ allergen, severity: severityByAllergen[allergen]! })),
+    [severityByAllergen]
+  );
+
   useEffect(() => {
     latestStepRef.current = currentStep;
     trackEvent("onboarding_step_viewed", {
@@ -72,6 +222,7 @@ export function OnboardingWizard({ onComplete, initialFitnessGoal = "maintenance
 
     if (step === 3) {
       if (!mealsPerDay || mealsPerDay < 3 || mealsPerDay > 6) return t("onboarding.errors.meals");
+      if (!partners.every(isValidPartner)) return t("onboarding.errors.partner");
     }
 
     return null;
@@ -112,11 +263,23 @@ export function OnboardingWizard({ onComplete, initialFitnessGoal = "maintenance
       weightKg,
       heightCm,
       trains,
+      ...(trains ? { trainingSchedule } : {}),
+      ...(trains && workoutTime ? { workoutTime } : {}),
       mealsPerDay,
       fitnessGoal,
       dietStyle: getDietStyleFromGoal(fitnessGoal),
       costTier,
+      ...budgetInput,
       restrictions: restrictionsArray,
+      ...householdInput,
+      ...(allergies.length > 0 ? { allergies } : {}),
+      ...(planMode === "recipes" ? { planMode } : {}),
+      ...(cuisines.length > 0 ? { cuisines } : {}),
+      ...(flavors.length > 0 ? { flavors } : {}),
+      ...(leftovers ? { leftovers } : {}),
+      ...(startDate ? { startDate } : {}),
+      planDays,
+      ...fastingInput,
     };
 
     const validation = validatePlanInput(planInput);
@@ -144,11 +307,23 @@ export function OnboardingWizard({ onComplete, initialFitnessGoal = "maintenance
       weightKg,
       heightCm,
       trains,
+      ...(trains ? { trainingSchedule } : {}),
+      ...(trains && workoutTime ? { workoutTime } : {}),
       mealsPerDay: 3,
       fitnessGoal,
       dietStyle: getDietStyleFromGoal(fitnessGoal),
       costTier,
+      ...budgetInput,
       restrictions: restrictionsArray,
+      ...householdInput,
+      ...(allergies.length > 0 ? { allergies } : {}),
+      ...(planMode === "recipes" ? { planMode } : {}),
+      ...(cuisines.length > 0 ? { cuisines } : {}),
+      ...(flavors.length > 0 ? { flavors } : {}),
+      ...(leftovers ? { leftovers } : {}),
+      ...(startDate ? { startDate } : {}),
+      planDays,
+      ...fastingInput,
     };
 
     const validation = validatePlanInput(planInput);
@@ -286,6 +461,48 @@ export function OnboardingWizard({ onComplete, initialFitnessGoal = "maintenance
               </div>
             </div>
 
+            {trains && (
+              <div className="wizard-field-block">
+                <label className="wizard-label">{t("planner.trainingScheduleLabel")}</label>
+                <div className="wizard-schedule-grid">
+                  {WEEK_DAYS.map((day) => (
+                    <div key={day} className="wizard-schedule-day">
+                      <label className="wizard-helper" htmlFor={`wizard-session-${day}`}>{t(`planner.dayOption.${day}`)}</label>
+                      <select
+                        id={`wizard-session-${day}`}
+                        className="wizard-input"
+                        value={sessionsByDay[day]}
+                        onChange={(event) =>
+                          setSessionsByDay((previous) => ({ ...previous, [day]: event.target.value as TrainingSessionType }))
+                        }
+                      >
+                        {TRAINING_SESSION_TYPES.map((session) => (
+                          <option key={session} value={session}>
+                            {t(`planner.sessionOption.${session}`)}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <small className="wizard-helper">{t("planner.trainingScheduleHint")}</small>
+              </div>
+            )}
+
+            {trains && (
+              <div className="wizard-field-block">
+                <label className="wizard-label" htmlFor="wizard-workout-time">{t("planner.workoutTimeLabel")}</label>
+                <input
+                  id="wizard-workout-time"
+                  className="wizard-input"
+                  type="time"
+                  value={workoutTime}
+                  onChange={(event) => setWorkoutTime(event.target.value)}
+                />
+                <small className="wizard-helper">{t("planner.workoutTimeHint")}</small>
+              </div>
+            )}
+
             <p className="wizard-microcopy">{t("onboarding.v2.step2Microcopy")}</p>
             <Hint text={t("onboarding.tooltip.activity")} />
           </section>
@@ -330,6 +547,38 @@ export function OnboardingWizard({ onComplete, initialFitnessGoal = "maintenance
               </div>
             </div>
 
+            <div className="wizard-grid-two">
+              <div>
+                <label className="wizard-label" htmlFor="wizard-weekly-budget">{t("planner.weeklyBudgetLabel")}</label>
+                <input
+                  id="wizard-weekly-budget"
+                  className="wizard-input"
+                  type="number"
+                  min={1}
+                  step={1}
+                  inputMode="decimal"
+                  placeholder={t("planner.weeklyBudgetPlaceholder")}
+                  value={weeklyBudget}
+                  onChange={(event) => setWeeklyBudget(event.target.value)}
+                />
+                <small className="wizard-helper">{t("planner.weeklyBudgetHint")}</small>
+              </div>
+
+              <div>
+                <label className="wizard-label" htmlFor="wizard-budget-currency">{t("planner.budgetCurrencyLabel")}</label>
+                <select
+                  id="wizard-budget-currency"
+                  className="wizard-input"
+                  value={budgetCurrency}
+                  onChange={(event) => setBudgetCurrency(event.target.value as Currency)}
+                >
+                  {BUDGET_CURRENCIES.map((currency) => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
             <div className="wizard-grid-two">
               <div>
                 <label className="wizard-label" htmlFor="wizard-restrictions">{t("planner.restrictionsLabel")}</label>
@@ -344,6 +593,310 @@ export function OnboardingWizard({ onComplete, initialFitnessGoal = "maintenance
                 <small className="wizard-helper">{t("planner.restrictionsHint")}</small>
                 <Hint text={t("onboarding.tooltip.restrictions")} />
               </div>
+
+              <div>
+                <label className="wizard-label" htmlFor="wizard-household">{t("planner.householdLabel")}</label>
+                <select
+                  id="wizard-household"
+                  className="wizard-input"
+                  value={householdInput.householdSize}
+                  disabled={partners.length > 0}
+                  onChange={(event) => setHouseholdSize(Number(event.target.value))}
+                >
+                  {[1, 2, 3, 4, 5, 6].map((count) => (
+                    <option key={count} value={count}>
+                      {t("planner.householdOption", { count })}
+                    </option>
+                  ))}
+                </select>
+                <small className="wizard-helper">
+                  {partners.length > 0 ? t("planner.partnersHouseholdHint") : t("planner.householdHint")}
+                </small>
+              </div>
+            </div>
+
+            <div className="wizard-field-block">
+              <label className="wizard-label">{t("planner.partnersLabel")}</label>
+              {partners.map((partner, index) => (
+                <div key={index} className="wizard-partner">
+                  <div className="wizard-partner-head">
+                    <strong>{t("planner.partnerTitle", { number: index + 1 })}</strong>
+                    <button
+                      type="button"
+                      className="wizard-partner-remove"
+                      onClick={() => setPartners((previous) => previous.filter((_, entry) => entry !== index))}
+                    >
+                      {t("planner.removePartner")}
+                    </button>
+                  </div>
+                  <div className="wizard-grid-two">
+                    <div>
+                      <label className="wizard-label" htmlFor={`wizard-partner-${index}-sex`}>{t("planner.sexLabel")}</label>
+                      <select
+                        id={`wizard-partner-${index}-sex`}
+                        className="wizard-input"
+                        value={partner.sex}
+                        onChange={(event) => updatePartner(index, { sex: event.target.value as Sex })}
+                      >
+                        <option value="male">{t("planner.sexOption.male")}</option>
+                        <option value="female">{t("planner.sexOption.female")}</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="wizard-label" htmlFor={`wizard-partner-${index}-age`}>{t("planner.ageLabel")}</label>
+                      <input
+                        id={`wizard-partner-${index}-age`}
+                        className="wizard-input"
+                        type="number"
+                        min={13}
+                        max={100}
+                        value={partner.age}
+                        onChange={(event) => updatePartner(index, { age: Number(event.target.value) })}
+                      />
+                    </div>
+                    <div>
+                      <label className="wizard-label" htmlFor={`wizard-partner-${index}-weight`}>{t("planner.weightLabel")}</label>
+                      <input
+                        id={`wizard-partner-${index}-weight`}
+                        className="wizard-input"
+                        type="number"
+                        min={30}
+                        max={300}
+                        step={0.5}
+                        value={partner.weightKg}
+                        onChange={(event) => updatePartner(index, { weightKg: Number(event.target.value) })}
+                      />
+                    </div>
+                    <div>
+                      <label className="wizard-label" htmlFor={`wizard-partner-${index}-height`}>{t("planner.heightLabel")}</label>
+                      <input
+                        id={`wizard-partner-${index}-height`}
+                        className="wizard-input"
+                        type="number"
+                        min={100}
+                        max={250}
+                        value={partner.heightCm}
+                        onChange={(event) => updatePartner(index, { heightCm: Number(event.target.value) })}
+                      />
+                    </div>
+                    <div>
+                      <label className="wizard-label" htmlFor={`wizard-partner-${index}-goal`}>{t("planner.goalLabel")}</label>
+                      <select
+                        id={`wizard-partner-${index}-goal`}
+                        className="wizard-input"
+                        value={partner.fitnessGoal ?? "maintenance"}
+                        onChange={(event) => updatePartner(index, { fitnessGoal: event.target.value as FitnessGoal })}
+                      >
+                        {(Object.keys(GOAL_LABEL_KEYS) as FitnessGoal[]).map((goal) => (
+                          <option key={goal} value={goal}>{t(GOAL_LABEL_KEYS[goal])}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="wizard-label" htmlFor={`wizard-partner-${index}-trains`}>{t("planner.trainsLabel")}</label>
+                      <select
+                        id={`wizard-partner-${index}-trains`}
+                        className="wizard-input"
+                        value={partner.trains ? "yes" : "no"}
+                        onChange={(event) => updatePartner(index, { trains: event.target.value === "yes" })}
+                      >
+                        <option value="yes">{t("planner.trainsOption.yes")}</option>
+                        <option value="no">{t("planner.trainsOption.no")}</option>
+                      </select>
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <button
+                type="button"
+                className="wizard-choice"
+                disabled={partners.length >= MAX_PARTNERS}
+                onClick={() => setPartners((previous) => [...previous, DEFAULT_PARTNER])}
+              >
+                ➕ {t("planner.addPartner")}
+              </button>
+              <small className="wizard-helper">{t("planner.partnersHint")}</small>
+            </div>
+
+            <div className="wizard-field-block">
+              <label className="wizard-label" htmlFor="wizard-plan-mode">{t("planner.planModeLabel")}</label>
+              <select
+                id="wizard-plan-mode"
+                className="wizard-input"
+                value={planMode}
+                onChange={(event) => setPlanMode(event.target.value as PlanMode)}
+              >
+                <option value="foods">{t("planner.planModeOption.foods")}</option>
+                <option value="recipes">{t("planner.planModeOption.recipes")}</option>
+              </select>
+              <small className="wizard-helper">{t("planner.planModeHint")}</small>
+            </div>
+
+            <div className="wizard-field-block">
+              <label className="wizard-label">{t("planner.cuisinesLabel")}</label>
+              <div className="wizard-choice-grid">
+                {CUISINES.map((cuisine) => (
+                  <button
+                    key={cuisine}
+                    type="button"
+                    className={`wizard-choice ${cuisines.includes(cuisine) ? "active" : ""}`}
+                    onClick={() => setCuisines((previous) => toggleEntry(previous, cuisine))}
+                  >
+                    {t(`planner.cuisineOption.${cuisine}`)}
+                  </button>
+                ))}
+              </div>
+              <label className="wizard-label">{t("planner.flavorsLabel")}</label>
+              <div className="wizard-choice-grid">
+                {FLAVOR_TAGS.map((flavor) => (
+                  <button
+                    key={flavor}
+                    type="button"
+                    className={`wizard-choice ${flavors.includes(flavor) ? "active" : ""}`}
+                    onClick={() => setFlavors((previous) => toggleEntry(previous, flavor))}
+                  >
+                    {t(`planner.flavorOption.${flavor}`)}
+                  </button>
+                ))}
+              </div>
+              <small className="wizard-helper">{t("planner.cuisinesHint")}</small>
+            </div>
+
+            <div className="wizard-field-block">
+              <label className="wizard-label">{t("planner.leftoversLabel")}</label>
+              <div className="wizard-choice-grid">
+                <button
+                  type="button"
+                  className={`wizard-choice ${leftovers ? "active" : ""}`}
+                  onClick={() => setLeftovers(true)}
+                >
+                  ♻️ {t("planner.leftoversOption.yes")}
+                </button>
+                <button
+                  type="button"
+                  className={`wizard-choice ${!leftovers ? "active" : ""}`}
+                  onClick={() => setLeftovers(false)}
+                >
+                  🍳 {t("planner.leftoversOption.no")}
+                </button>
+              </div>
+              <small className="wizard-helper">{t("planner.leftoversHint")}</small>
+            </div>
+
+            <div className="wizard-grid-two">
+              <div>
+                <label className="wizard-label" htmlFor="wizard-start-date">{t("planner.startDateLabel")}</label>
+                <input
+                  id="wizard-start-date"
+                  className="wizard-input"
+                  type="date"
+                  value={startDate}
+                  onChange={(event) => setStartDate(event.target.value)}
+                />
+              </div>
+
+              <div>
+                <label className="wizard-label" htmlFor="wizard-plan-days">{t("planner.planDaysLabel")}</label>
+                <select
+                  id="wizard-plan-days"
+                  className="wizard-input"
+                  value={planDays}
+                  onChange={(event) => setPlanDays(Number(event.target.value))}
+                >
+                  {PLAN_DAY_OPTIONS.map((count) => (
+                    <option key={count} value={count}>
+                      {t("planner.planDaysOption", { count })}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <small className="wizard-helper">{t("planner.planDaysHint")}</small>
+
+            <div className="wizard-field-block">
+              <label className="wizard-label" htmlFor="wizard-fasting">{t("planner.fastingLabel")}</label>
+              <select
+                id="wizard-fasting"
+                className="wizard-input"
+                value={fastingMode}
+                onChange={(event) => setFastingMode(event.target.value as FastingMode)}
+              >
+                <option value="none">{t("planner.fastingOption.none")}</option>
+                <option value="window">{t("planner.fastingOption.window")}</option>
+                <option value="days">{t("planner.fastingOption.days")}</option>
+              </select>
+              {fastingMode === "window" && (
+                <div className="wizard-grid-two">
+                  <div>
+                    <label className="wizard-label" htmlFor="wizard-window-start">{t("planner.fastingWindowStart")}</label>
+                    <input
+                      id="wizard-window-start"
+                      className="wizard-input"
+                      type="time"
+                      value={eatingWindow.start}
+                      onChange={(event) => setEatingWindow({ ...eatingWindow, start: event.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="wizard-label" htmlFor="wizard-window-end">{t("planner.fastingWindowEnd")}</label>
+                    <input
+                      id="wizard-window-end"
+                      className="wizard-input"
+                      type="time"
+                      value={eatingWindow.end}
+                      onChange={(event) => setEatingWindow({ ...eatingWindow, end: event.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+              {fastingMode === "days" && (
+                <>
+                  <label className="wizard-label">{t("planner.fastingDaysLabel")}</label>
+                  <div className="wizard-choice-grid">
+                    {WEEK_DAYS.map((day) => (
+                      <button
+                        key={day}
+                        type="button"
+                        className={`wizard-choice ${fastingDays.includes(day) ? "active" : ""}`}
+                        onClick={() => toggleFastingDay(day)}
+                      >
+                        {t(`planner.dayOption.${day}`)}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+              <small className="wizard-helper">{t("planner.fastingHint")}</small>
+            </div>
+
+            <div className="wizard-field-block">
+              <label className="wizard-label">{t("planner.allergiesLabel")}</label>
+              <div className="wizard-schedule-grid">
+                {FOOD_ALLERGENS.map((allergen) => (
+                  <div key={allergen} className="wizard-schedule-day">
+                    <label className="wizard-helper" htmlFor={`wizard-allergy-${allergen}`}>{t(`planner.allergenOption.${allergen}`)}</label>
+                    <select
+                      id={`wizard-allergy-${allergen}`}
+                      className="wizard-input"
+                      value={severityByAllergen[allergen] ?? "none"}
+                      onChange={(event) =>
+                        setSeverityByAllergen((previous) => ({
+                          ...previous,
+                          [allergen]: event.target.value === "none" ? undefined : event.target.value as AllergySeverity,
+                        }))
+                      }
+                    >
+                      <option value="none">{t("planner.allergySeverity.none")}</option>
+                      {ALLERGY_SEVERITIES.map((severity) => (
+                        <option key={severity} value={severity}>
+                          {t(`planner.allergySeverity.${severity}`)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <small className="wizard-helper">{t("planner.allergiesHint")}</small>
             </div>
 
             <p className="wizard-microcopy">{t("onboarding.v2.step3Microcopy")}</p>
@@ -369,8 +922,59 @@ export function OnboardingWizard({ onComplete, initialFitnessGoal = "maintenance
               <li><strong>{t("planner.weightLabel")}:</strong> {weightKg}</li>
               <li><strong>{t("planner.heightLabel")}:</strong> {heightCm}</li>
               <li><strong>{t("planner.trainsLabel")}:</strong> {trains ? t("planner.trainsOption.yes") : t("planner.trainsOption.no")}</li>
+              {trains && (
+                <li>
+                  <strong>{t("planner.trainingScheduleLabel")}:</strong>{" "}
+                  {trainingSchedule
+                    .map((entry) => `${t(`planner.dayOption.${entry.day}`)} (${t(`planner.sessionOption.${entry.session}`)})`)
+                    .join(", ")}
+                </li>
+              )}
+              {trains && workoutTime && (
+                <li><strong>{t("planner.workoutTimeLabel")}:</strong> {workoutTime}</li>
+              )}
               <li><strong>{t("planner.mealsLabel")}:</strong> {t("planner.mealsOption", { count: mealsPerDay })}</li>
               <li><strong>{t("planner.costTierLabel")}:</strong> {t(`planner.costTierOption.${costTier}`)}</li>
+              {budgetInput.weeklyBudget && (
+                <li><strong>{t("planner.weeklyBudgetLabel")}:</strong> {budgetInput.weeklyBudget} {budgetCurrency}</li>
+              )}
+              <li><strong>{t("planner.householdLabel")}:</strong> {t("planner.householdOption", { count: householdInput.householdSize })}</li>
+              {partners.length > 0 && (
+                <li>
+                  <strong>{t("planner.partnersLabel")}:</strong>{" "}
+                  {partners
+                    .map((partner) => `${t(`planner.sexOption.${partner.sex}`)}, ${partner.age}, ${partner.weightKg} kg, ${partner.heightCm} cm (${t(GOAL_LABEL_KEYS[partner.fitnessGoal ?? "maintenance"])})`)
+                    .join("; ")}
+                </li>
+              )}
+              <li><strong>{t("planner.planModeLabel")}:</strong> {t(`planner.planModeOption.${planMode}`)}</li>
+              {(cuisines.length > 0 || flavors.length > 0) && (
+                <li>
+                  <strong>{t("planner.cuisinesLabel")}:</strong>{" "}
+                  {[
+                    ...cuisines.map((cuisine) => t(`planner.cuisineOption.${cuisine}`)),
+                    ...flavors.map((flavor) => t(`planner.flavorOption.${flavor}`)),
+                  ].join(", ")}
+                </li>
+              )}
+              <li><strong>{t("planner.leftoversLabel")}:</strong> {leftovers ? t("planner.leftoversOption.yes") : t("planner.leftoversOption.no")}</li>
+              {fastingMode !== "none" && (
+                <li>
+                  <strong>{t("planner.fastingLabel")}:</strong>{" "}
+                  {fastingMode === "window"
+                    ? `${eatingWindow.start}–${eatingWindow.end}`
+                    : fastingDays.map((day) => t(`planner.dayOption.${day}`)).join(", ")}
+                </li>
+              )}
+              <li><strong>{t("planner.startDateLabel")}:</strong> {startDate} ({t("planner.planDaysOption", { count: planDays })})</li>
+              {allergies.length > 0 && (
+                <li>
+                  <strong>{t("planner.allergiesLabel")}:</strong>{" "}
+                  {allergies
+                    .map((entry) => `${t(`planner.allergenOption.${entry.allergen}`)} (${t(`planner.allergySeverity.${entry.severity}`)})`)
+                    .join(", ")}
+                </li>
+              )}
             </ul>
 
             <div className="wizard-coach-summary">
@@ -4,6 +4,7 @@ import { useTranslation } from "react-i18next";
 import { useShoppingPlan } from "../../contexts/ShoppingPlanContext";
 import { PlanInput } from "../../core/models/PlanInput";
 import { isPremiumUser } from "../../core/premium/PremiumFeatures";
+import { DietaryRestrictionError } from "../../core/logic/dietaryRestrictions";
 import { OnboardingWizard } from "../components/OnboardingWizard";
 import "./PlannerPage.css";
 
@@ -34,7 +35,11 @@ export function PlannerPage() {
       navigate("/app/list");
     } catch (error) {
       console.error("Erro ao gerar plano:", error);
-      setWizardErrors([t("planner.alertError", "An unexpected error occurred. Please try again.")]);
+      setWizardErrors([
+        error instanceof DietaryRestrictionError
+          ? t("planner.restrictionError", { restrictions: [...error.restrictions, ...error.allergens].join(", ") })
+          : t("planner.alertError", "An unexpected error occurred. Please try again.")
+      ]);
     }
   };
 
@@ -6,7 +6,7 @@ import { aggregateShoppingList, AggregatedShoppingItem } from "../../core/logic/
 import { CATEGORIES } from "../../core/constants/categories";
 import { FoodItem } from "../../core/models/FoodItem";
 import { generateMealPrepGuide, CookingTask, MealPrepGuide } from "../../core/logic/MealPrepGuide";
-import { exportPrepGuideToPdf } from "../../utils/exportPrepGuidePdf";
+import { downloadPrepGuidePdf } from "../../utils/exportPrepGuidePdf";
 import { canExportPdf } from "../../core/premium/features";
 import { isPremiumUser } from "../../core/premium/PremiumFeatures";
 import { PremiumModal } from "../components/PremiumModal";
@@ -20,15 +20,16 @@ interface ShoppingItem extends FoodItem {
 export function PrepGuidePage() {
   const navigate = useNavigate();
   const { t, i18n } = useTranslation();
-  const { weeklyPlan, shoppingList } = useShoppingPlan();
+  const { weeklyPlan, shoppingList, region } = useShoppingPlan();
   const isPremium = isPremiumUser();
   const [completedTasks, setCompletedTasks] = useState<Set<number>>(new Set());
   const [showPremiumModal, setShowPremiumModal] = useState(false);
   const planDays = weeklyPlan?.days.length || 7;
+  const householdSize = weeklyPlan?.householdSize || 1;
 
   const aggregatedShoppingList = useMemo(
-    () => aggregateShoppingList(shoppingList as ShoppingItem[], planDays),
-    [shoppingList, planDays]
+    () => aggregateShoppingList(shoppingList as ShoppingItem[], planDays, householdSize),
+    [shoppingList, planDays, householdSize]
   );
   const purchasedCount = aggregatedShoppingList.filter((item: AggregatedShoppingItem) => item.purchased).length;
   const totalCount = aggregatedShoppingList.length;
@@ -89,7 +90,7 @@ export function PrepGuidePage() {
     }
 
     if (prepGuide && weeklyPlan) {
-      exportPrepGuideToPdf(prepGuide, weeklyPlan);
+      downloadPrepGuidePdf(weeklyPlan, {}, region);
     }
   };
 
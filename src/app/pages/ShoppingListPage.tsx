@@ -4,6 +4,7 @@ import { useTranslation } from "react-i18next";
 import { useShoppingPlan } from "../../contexts/ShoppingPlanContext";
 import { FoodItem, FoodCategory } from "../../core/models/FoodItem";
 import { aggregateShoppingList, AggregatedShoppingItem } from "../../core/logic/aggregateShoppingList";
+import { getPlanDateRange } from "../../core/logic/planCalendar";
 import { exportShoppingListToPdf } from "../../utils/exportPdf";
 import { canExportPdf, getRemainingOptimizations } from "../../core/premium/features";
 import { PremiumModal } from "../components/PremiumModal";
@@ -23,28 +24,29 @@ export function ShoppingListPage() {
   const navigate = useNavigate();
   const { t } = useTranslation();
   const isPremium = isPremiumUser();
-  const { shoppingList, toggleItemPurchased, weeklyPlan, history, saveAdherenceScore } = useShoppingPlan();
+  const { shoppingList, toggleItemPurchased, weeklyPlan, history, saveAdherenceScore, region } = useShoppingPlan();
   const [showPremiumModal, setShowPremiumModal] = useState(false);
   const [premiumFeature, setPremiumFeature] = useState<"unlimitedFoodRotation" | "weeklyCoachAdjustments" | "recipePacksPrepPdf">("recipePacksPrepPdf");
   const [showShareCard, setShowShareCard] = useState(false);
   const [showCheckInModal, setShowCheckInModal] = useState(false);
-  const { hasFeedbackForPlan, submitWeeklyFeedback } = useWeeklyFeedback();
+  const { isFeedbackDue, submitWeeklyFeedback } = useWeeklyFeedback();
   const planDays = weeklyPlan?.days.length || 7;
+  const householdSize = weeklyPlan?.householdSize || 1;
   const aggregatedShoppingList = useMemo(
-    () => aggregateShoppingList(shoppingList as ShoppingItem[], planDays),
-    [shoppingList, planDays]
+    () => aggregateShoppingList(shoppingList as ShoppingItem[], planDays, householdSize),
+    [shoppingList, planDays, householdSize]
   );
 
   useEffect(() => {
     if (!weeklyPlan) return;
-    setShowCheckInModal(!hasFeedbackForPlan(weeklyPlan.id));
-  }, [weeklyPlan, hasFeedbackForPlan]);
+    setShowCheckInModal(isFeedbackDue(weeklyPlan));
+  }, [weeklyPlan, isFeedbackDue]);
 
   const handleWeeklyFeedbackSubmit = async (response: WeeklyFeedbackResponse) => {
     if (!weeklyPlan) return;
 
     const repeatedTooMuch = detectRepetitionRisk(history.slice(0, 2));
-    const { adherence } = await submitWeeklyFeedback(weeklyPlan.id, response, repeatedTooMuch);
+    const { adherence } = await submitWeeklyFeedback(weeklyPlan.id, response, repeatedTooMuch, getPlanDateRange(weeklyPlan));
     saveAdherenceScore(adherence);
     setShowCheckInModal(false);
   };
@@ -69,6 +71,9 @@ export function ShoppingListPage() {
           savings: sub.savings,
         })),
         fitnessGoal: weeklyPlan.planInput.fitnessGoal || 'maintenance',
+        householdSize,
+        allergies: weeklyPlan.planInput.allergies,
+        region,
       });
     }
   };
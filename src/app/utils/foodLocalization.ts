@@ -1,3 +1,5 @@
+import type { Meal } from "../../core/models/WeeklyPlan";
+
 const PT_FOOD_NAME_MAP: Record<string, string> = {
   "chicken breast (skinless)": "Peito de frango (sem pele)",
   "eggs (large)": "Ovos (grandes)",
@@ -149,6 +151,28 @@ export function localizeFoodName(name: string, language: string): string {
   return mapped || name;
 }
 
+/**
+ * Meal name in the user's language: meals of a cuisine (Meal.cuisine) are named
+ * with its i18n template (mealName.<cuisine>), the others keep their name
+ */
+export function localizeMealName(
+  meal: Pick<Meal, "name" | "cuisine" | "dish">,
+  t: (key: string, options: Record<string, string>) => string,
+  language: string
+): string {
+  if (!meal.cuisine || !meal.dish) {
+    return meal.name;
+  }
+
+  const shortName = (name: string) => localizeFoodName(name, language).replace(/ \(.*\)/, "").toLowerCase();
+  const name = t(`mealName.${meal.cuisine}`, {
+    protein: shortName(meal.dish.protein),
+    carb: shortName(meal.dish.carb),
+    vegetable: shortName(meal.dish.vegetable),
+  });
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
 export function localizeFoodText(text: string, language: string): string {
   if (!text || !language.startsWith("pt")) {
     return text;
@@ -172,7 +196,7 @@ export function localizeCoverageText(text: string, language: string): string {
     return text;
   }
 
-  const coveragePattern = /This covers\s+(\d+)\s+day(s)?\s+of\s+(.+)/i;
+  const coveragePattern = /This covers\s+(\d+)\s+day(s)?\s+of\s+(.+?)(?:\s+for\s+(\d+)\s+people)?$/i;
   const match = text.match(coveragePattern);
 
   if (match) {
@@ -180,7 +204,8 @@ export function localizeCoverageText(text: string, language: string): string {
     const dayLabel = days === 1 ? "dia" : "dias";
     const originalCoverageLabel = match[3].trim().toLowerCase();
     const coverageLabel = COVERAGE_LABEL_PT[originalCoverageLabel] || originalCoverageLabel;
-    return `Cobre ${days} ${dayLabel} de ${coverageLabel}`;
+    const householdLabel = match[4] ? ` para ${match[4]} pessoas` : "";
+    return `Cobre ${days} ${dayLabel} de ${coverageLabel}${householdLabel}`;
   }
 
   return text;
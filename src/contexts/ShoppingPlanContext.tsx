@@ -2,14 +2,54 @@ import { createContext, useContext, useState, useCallback, useEffect, ReactNode
 import { PlanInput } from "../core/models/PlanInput";
 import { WeeklyPlan } from "../core/models/WeeklyPlan";
 import { FoodItem } from "../core/models/FoodItem";
+import { PantryEntry, PantryItem } from "../core/models/Pantry";
+import { StoreCatalog } from "../core/models/StoreCatalog";
 import { Recipe } from "../core/models/Recipe";
-import { generateWeeklyPlan, generateSingleMeal } from "../core/logic/generateWeeklyPlan";
+import { generateWeeklyPlan, generateSingleMeal, trackPlanFoodSelections } from "../core/logic/generateWeeklyPlan";
 import { generateShoppingList } from "../core/logic/generateShoppingList";
+import { getDayMealSlots, replaceSlotMeal } from "../core/logic/mealSlots";
+import { syncLeftoverBatches } from "../core/logic/leftovers";
+import { getLockedMeals, isDayLocked, setDayLocked, setMealLocked } from "../core/logic/mealLocks";
+import { calculatePlanMicronutrients } from "../core/logic/micronutrients";
+import { daysBetween, getPlanDateRange, shiftPlanToDate, toISODate } from "../core/logic/planCalendar";
+import { generateMealPrepSummary } from "../core/logic/MealPrepSummary";
 import { suggestRecipes } from "../core/logic/suggestRecipes";
+import { parseDietaryRestrictions } from "../core/logic/dietaryRestrictions";
+import { withPlanCosts } from "../core/logic/weeklyBudget";
 import { savePlan } from "../core/storage/savePlan";
 import { loadHistory as loadHistoryFromStorage, loadLatestPlan } from "../core/storage/loadHistory";
 import { clearHistory as clearHistoryFromStorage } from "../core/storage/clearHistory";
 import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import {
+  addPantryItem as addPantryItemToStore,
+  loadPantry,
+  recordPantryCooking,
+  recordPantryPurchase,
+  removePantryItem as removePantryItemFromStore,
+  savePantry,
+  updatePantryItem as updatePantryItemInStore,
+} from "../core/stores/PantryStore";
+import {
+  loadSelectedStore,
+  loadSelectedStoreId,
+  loadStoreCatalogs,
+  saveCustomCatalog,
+  saveSelectedStoreId,
+} from "../core/stores/StoreCatalogStore";
+import { loadRegion, saveRegion } from "../core/stores/RegionStore";
+import {
+  loadMarketMode,
+  loadSelectedLayoutId,
+  loadStoreLayouts,
+  removeCustomLayout,
+  saveCustomLayout,
+  saveMarketMode,
+  saveSelectedLayoutId,
+} from "../core/stores/StoreLayoutStore";
+import { BUILT_IN_STORE_LAYOUTS, DEFAULT_STORE_LAYOUT_ID } from "../core/logic/storeLayouts";
+import type { StoreLayout } from "../core/models/StoreLayout";
+import { DEFAULT_REGION, getRegionCatalogs, type Region } from "../core/logic/regions";
+import { getPortionMultiplier } from "../core/logic/householdPortions";
 import { isPlanValidForInput } from "../core/utils/planFingerprint";
 import { detectRepetitionRisk, getLatestWeeklyFeedback, getMostRepeatedFoods } from "../hooks/useWeeklyFeedback";
 import { canUseWeeklyCoachAdjustments } from "../core/premium/PremiumFeatures";
@@ -217,7 +257,8 @@ function applyAdaptiveAdjustments(
  */
 interface StreakData {
   currentStreak: number;
-  lastGenerationDate: string; // ISO date string (YYYY-MM-DD)
+  lastGenerationDate: string; // ISO date string (YYYY-MM-DD): start date of the last plan
+  lastPlanEndDate?: string;   // Last day of that plan (missing on streaks saved before dated plans)
   longestStreak: number;
   totalGenerations: number;
 }
@@ -282,13 +323,13 @@ function areConsecutiveWeeks(date1: string, date2: string): boolean {
 }
 
 /**
- * PASSO 33.4: Check if date is in same week as today
+ * PASSO 33.4: Check if date is in same week as another (today by default)
  */
-function isSameWeek(dateString: string): boolean {
+function isSameWeek(dateString: string, otherDateString?: string): boolean {
   if (!dateString) return false;
   
   const date = new Date(dateString);
-  const today = new Date();
+  const today = otherDateString ? new Date(otherDateString) : new Date();
   
   const getWeekInfo = (d: Date) => {
     const oneJan = new Date(d.getFullYear(), 0, 1);
@@ -305,19 +346,32 @@ function isSameWeek(dateString: string): boolean {
 
 /**
  * PASSO 33.4: Update streak when user generates a plan
+ *
+ * Keyed off the plan's dates, not the day it was generated: a plan starting
+ * inside the previous one (regenerated) leaves the streak as is, one starting
+ * within a week of the previous plan's last day continues it.
  */
-function updateStreak(): StreakData {
-  const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+function updateStreak(plan: WeeklyPlan): StreakData {
+  const planRange = getPlanDateRange(plan);
+  const planStart = planRange?.startDate ?? toISODate(new Date());
   const streakData = loadStreakData();
-  
-  // If already generated today/this week, don't update streak
-  if (isSameWeek(streakData.lastGenerationDate)) {
-    console.log("ℹ️ Plan already generated this week - streak unchanged");
+  const { lastGenerationDate, lastPlanEndDate } = streakData;
+
+  // Same plan period generated again: don't update streak
+  const samePeriod = lastPlanEndDate
+    ? planStart >= lastGenerationDate && planStart <= lastPlanEndDate
+    : isSameWeek(lastGenerationDate, planStart);
+  if (samePeriod) {
+    console.log("ℹ️ Plan already generated for this period - streak unchanged");
     return streakData;
   }
   
-  // Check if this is consecutive with last generation
-  if (areConsecutiveWeeks(streakData.lastGenerationDate, today)) {
+  // Check if this plan follows the last one
+  const gapDays = lastPlanEndDate ? daysBetween(lastPlanEndDate, planStart) : null;
+  const consecutive = gapDays !== null
+    ? gapDays >= 1 && gapDays <= 7
+    : areConsecutiveWeeks(lastGenerationDate, planStart);
+  if (consecutive) {
     // Continue streak
     streakData.currentStreak += 1;
     console.log("🔥 Streak continued:", streakData.currentStreak, "weeks!");
@@ -332,7 +386,8 @@ function updateStreak(): StreakData {
   }
   
   // Update stats
-  streakData.lastGenerationDate = today;
+  streakData.lastGenerationDate = planStart;
+  streakData.lastPlanEndDate = planRange?.endDate ?? planStart;
   streakData.totalGenerations += 1;
   streakData.longestStreak = Math.max(streakData.longestStreak, streakData.currentStreak);
   
@@ -341,23 +396,89 @@ function updateStreak(): StreakData {
   return streakData;
 }
 
+/**
+ * Plan edited in place (swap, partial regeneration): micronutrients, prep
+ * summary and shopping list (+ validation, net of the pantry, at the chosen store) rebuilt from its days,
+ * and its costs / budget outcome against that list
+ */
+function withDerivedPlanData(input: PlanInput, plan: WeeklyPlan): WeeklyPlan {
+  const updatedPlan: WeeklyPlan = {
+    ...plan,
+    micronutrients: calculatePlanMicronutrients(plan.days, input, plan.caloriesTargetPerDay),
+    mealPrepSummary: generateMealPrepSummary(plan),
+  };
+
+  const { items, costTier, totalProtein, efficiencyScore, savingsStatus, substitutionsApplied } =
+    generateShoppingList(input, updatedPlan, { pantry: loadPantry(), store: loadSelectedStore() });
+
+  return withPlanCosts(input, {
+    ...updatedPlan,
+    shoppingList: items,
+    costTier,
+    totalProtein,
+    efficiencyScore,
+    savingsStatus,
+    substitutionsApplied,
+    shoppingValidation: validateShoppingList(input, updatedPlan, items, totalProtein),
+  }, items);
+}
+
+function isWeeklyCoachEnabled(): boolean {
+  return isFeatureEnabled("weeklyCoachAdjustmentsPremiumOnly") ? canUseWeeklyCoachAdjustments() : true;
+}
+
+/**
+ * PASSO 33.2: Input adjusted by last week's adherence (when the weekly coach is available)
+ */
+function withAdaptiveAdjustments(input: PlanInput): PlanInput {
+  return isWeeklyCoachEnabled()
+    ? applyAdaptiveAdjustments(input, loadAdherenceScoreFromStorage(), loadHistoryFromStorage().slice(0, 2))
+    : { ...input };
+}
+
 interface ShoppingPlanContextData {
   // Estado
   currentInput: PlanInput | null;
   weeklyPlan: WeeklyPlan | null;
   shoppingList: FoodItem[];
+  pantry: PantryItem[]; // Stock on hand, netted out of the shopping list
+  storeCatalogs: StoreCatalog[]; // Built-in and imported price catalogs
+  selectedStoreId: string | null; // Store the shopping list is priced at (null: reference prices)
+  region: Region; // Currency, number format and stores on offer
+  storeLayouts: StoreLayout[]; // Built-in and edited aisle layouts
+  storeLayout: StoreLayout; // Layout market mode walks
+  marketMode: boolean; // List (and its PDF) in the layout's walking order
   recipeSuggestions: Recipe[];
   history: WeeklyPlan[];
   streak: number; // PASSO 33.4
   
   // Funções
-  generatePlan: (input: PlanInput) => void;
+  generatePlan: (input: PlanInput) => void; // input.partners share the meals with their own portions
+  previewPlan: (input: PlanInput) => WeeklyPlan; // Plan generatePlan would build, nothing saved
+  applyPreviewedPlan: (preview: WeeklyPlan) => void; // Commits a previewPlan result as shown
   repeatLastWeek: () => boolean; // PASSO 33.1: Returns true if successful
+  previewRepeatLastWeek: () => WeeklyPlan | null; // Plan repeatLastWeek would load (null without one)
   saveAdherenceScore: (score: { score: number; timestamp: string; level: "high" | "good" | "low" }) => void; // PASSO 33.2
   getLastAdherenceScore: () => { score: number; timestamp: string; level: "high" | "good" | "low" } | null; // PASSO 33.2
   getStreakData: () => StreakData; // PASSO 33.4
-  swapMeal: (dayIndex: number, mealType: "breakfast" | "lunch" | "dinner" | "snack") => void;
-  toggleItemPurchased: (id: string) => void;
+  swapMeal: (dayIndex: number, slotId: string) => void;
+  toggleMealLock: (dayIndex: number, slotId: string) => void; // Pin / unpin one meal
+  toggleDayLock: (dayIndex: number) => void; // Pin every meal of the day (unpin if all pinned)
+  regenerateUnlocked: (preview?: WeeklyPlan) => void; // Rebuild every unpinned meal of the week (or apply its preview)
+  previewRegenerateUnlocked: () => WeeklyPlan | null; // Rebuilt week, not applied (diffWeeklyPlans before confirming)
+  toggleItemPurchased: (id: string) => void; // Purchased items go into the pantry
+  markMealCooked: (dayIndex: number, slotId: string, cooked: boolean) => void; // Cooked meals leave the pantry
+  addPantryItem: (entry: PantryEntry) => void; // Manual edits re-net the current list
+  updatePantryItem: (id: string, changes: Partial<PantryEntry>) => void;
+  removePantryItem: (id: string) => void;
+  replacePantry: (items: PantryItem[]) => void; // Pantry synced from the user's account replaces the local one
+  selectStore: (id: string | null) => void; // Re-prices the current list
+  importStoreCatalog: (catalog: StoreCatalog) => void; // Added (or replacing the same id) and selected
+  setRegion: (region: Region) => void; // Switches to the region's first store if the selected one is elsewhere
+  setMarketMode: (enabled: boolean) => void;
+  selectStoreLayout: (id: string) => void;
+  saveStoreLayout: (layout: StoreLayout) => void; // Edited layout (same id as a preset: replaces it)
+  resetStoreLayout: (id: string) => void; // Drops the edits (presets go back to their order)
   loadHistory: () => void;
   clearHistory: () => void;
   resetPlan: () => void;
@@ -373,6 +494,13 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
   const [currentInput, setCurrentInput] = useState<PlanInput | null>(null);
   const [weeklyPlan, setWeeklyPlan] = useState<WeeklyPlan | null>(null);
   const [shoppingList, setShoppingList] = useState<FoodItem[]>([]);
+  const [pantry, setPantry] = useState<PantryItem[]>([]);
+  const [storeCatalogs, setStoreCatalogs] = useState<StoreCatalog[]>(() => loadStoreCatalogs());
+  const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null);
+  const [region, setRegionState] = useState<Region>(DEFAULT_REGION);
+  const [storeLayouts, setStoreLayouts] = useState<StoreLayout[]>(BUILT_IN_STORE_LAYOUTS);
+  const [selectedLayoutId, setSelectedLayoutId] = useState<string>(DEFAULT_STORE_LAYOUT_ID);
+  const [marketMode, setMarketModeState] = useState(false);
   const [recipeSuggestions, setRecipeSuggestions] = useState<Recipe[]>([]);
   const [history, setHistory] = useState<WeeklyPlan[]>([]);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -384,6 +512,16 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
     setStreak(streakData.currentStreak);
   }, []);
 
+  useEffect(() => {
+    setPantry(loadPantry());
+    setStoreCatalogs(loadStoreCatalogs());
+    setSelectedStoreId(loadSelectedStoreId());
+    setRegionState(loadRegion());
+    setStoreLayouts(loadStoreLayouts());
+    setSelectedLayoutId(loadSelectedLayoutId());
+    setMarketModeState(loadMarketMode());
+  }, []);
+
   useEffect(() => {
     if (typeof window === "undefined") {
       return;
@@ -466,7 +604,11 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
           setShoppingList(listWithPurchasedState);
           
           // Gera sugestões baseadas na lista salva
-          const suggestions = suggestRecipes(latestPlan.shoppingList);
+          const suggestions = suggestRecipes(
+            latestPlan.shoppingList,
+            parseDietaryRestrictions(latestPlan.planInput?.restrictions),
+            latestPlan.planInput?.allergies
+          );
           setRecipeSuggestions(suggestions);
           
           console.log("✅ Estado restaurado do LocalStorage");
@@ -481,29 +623,78 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
     }
   }, [isInitialized]);
 
+  /**
+   * Plano novo passa a ser o atual: compras limpas, escolhas de alimentos
+   * aprendidas, sugestões de receitas, histórico, último plano (Repeat Last
+   * Week) e streak salvos
+   */
+  const commitPlan = useCallback((adjustedInput: PlanInput, completePlan: WeeklyPlan) => {
+    // Clear purchased items when generating a new plan
+    clearPurchasedItems();
+
+    // PASSO 26: Only the kept plan's food picks are learned (retries and previews aren't)
+    trackPlanFoodSelections(completePlan);
+
+    // PASSO 26: Track excluded foods as disliked preferences
+    if (adjustedInput.excludedFoods && adjustedInput.excludedFoods.length > 0) {
+      adjustedInput.excludedFoods.forEach(foodName => {
+        userPreferencesStore.addDislikedFood(foodName);
+      });
+      console.log("👎 Alimentos excluídos salvos como disliked:", adjustedInput.excludedFoods);
+    }
+
+    // Salva o input atual (com ajustes aplicados)
+    setCurrentInput(adjustedInput);
+
+    // Gera sugestões de receitas baseadas na lista
+    const suggestions = suggestRecipes(
+      completePlan.shoppingList,
+      parseDietaryRestrictions(adjustedInput.restrictions),
+      adjustedInput.allergies
+    );
+    console.log("🍳 Sugestões geradas:", suggestions.length, "receitas");
+
+    // Atualiza o estado ANTES de salvar
+    setWeeklyPlan(completePlan);
+    setShoppingList(completePlan.shoppingList);
+    setRecipeSuggestions(suggestions);
+
+    // Salva no histórico (LocalStorage)
+    const saved = savePlan(completePlan);
+    console.log("💾 Plano salvo no LocalStorage:", saved);
+
+    // PASSO 33.1: Salva como último plano para Repeat Last Week
+    saveLastWeeklyPlan(completePlan, adjustedInput);
+
+    // PASSO 33.4: Update streak when plan is generated
+    const updatedStreakData = updateStreak(completePlan);
+    setStreak(updatedStreakData.currentStreak);
+    
+    if (updatedStreakData.currentStreak > 1) {
+      console.log("🔥 Streak updated:", updatedStreakData.currentStreak, "weeks!");
+    }
+
+    // Recarrega o histórico
+    const updatedHistory = loadHistoryFromStorage();
+    setHistory(updatedHistory);
+    console.log("📚 Histórico atualizado:", updatedHistory.length, "planos");
+  }, []);
+
   /**
    * Gera um plano completo baseado no input do usuário
    * Cria plano semanal, lista de compras, sugestões e salva no histórico
    * 
    * PASSO 33.2: Applies adaptive adjustments based on last week's adherence
+   * Household: input.partners eat the same meals with their own portions
    */
   const generatePlan = useCallback((input: PlanInput) => {
     try {
       console.log("🚀 Gerando plano com input:", input);
 
-      // Clear purchased items when generating a new plan
-      clearPurchasedItems();
-
       // PASSO 33.2: Load last adherence score and apply adaptive adjustments
       const lastAdherence = loadAdherenceScoreFromStorage();
-      const recentPlans = loadHistoryFromStorage().slice(0, 2);
-      const weeklyCoachEnabled = isFeatureEnabled("weeklyCoachAdjustmentsPremiumOnly")
-        ? canUseWeeklyCoachAdjustments()
-        : true;
-
-      const adjustedInput = weeklyCoachEnabled
-        ? applyAdaptiveAdjustments(input, lastAdherence, recentPlans)
-        : { ...input };
+      const weeklyCoachEnabled = isWeeklyCoachEnabled();
+      const adjustedInput = withAdaptiveAdjustments(input);
 
       if (!weeklyCoachEnabled) {
         console.log("🔒 Weekly Coach Adjustments are Premium-only");
@@ -513,27 +704,25 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
         console.log("🎯 Adaptive adjustments applied for easier adherence");
       }
 
-      // PASSO 26: Track excluded foods as disliked preferences
-      if (adjustedInput.excludedFoods && adjustedInput.excludedFoods.length > 0) {
-        adjustedInput.excludedFoods.forEach(foodName => {
-          userPreferencesStore.addDislikedFood(foodName);
-        });
-        console.log("👎 Alimentos excluídos salvos como disliked:", adjustedInput.excludedFoods);
-      }
-
-      // Salva o input atual (com ajustes aplicados)
-      setCurrentInput(adjustedInput);
-
       // Gera o plano semanal com retry se confidenceScore < 72
       const MAX_RETRIES = 3;
-      let plan = generateWeeklyPlan(adjustedInput);
-      let shoppingResult = generateShoppingList(adjustedInput, plan);
+      const pantryItems = loadPantry();
+      const store = loadSelectedStore();
+      let plan = generateWeeklyPlan(adjustedInput, { pantry: pantryItems, store, trackPreferences: false });
+      let shoppingResult = generateShoppingList(adjustedInput, plan, { pantry: pantryItems, store });
       let shoppingValidation = validateShoppingList(adjustedInput, plan, shoppingResult.items, shoppingResult.totalProtein);
 
+      // Generation is seeded by the week: each retry draws from its own seed
+      const baseSeed = plan.seed;
       for (let attempt = 1; attempt < MAX_RETRIES && shoppingValidation.confidenceScore < 72; attempt++) {
         console.log(`🔄 Retry ${attempt}: confidenceScore=${shoppingValidation.confidenceScore} < 72, regenerating...`);
-        const retryPlan = generateWeeklyPlan(adjustedInput);
-        const retryResult = generateShoppingList(adjustedInput, retryPlan);
+        const retryPlan = generateWeeklyPlan(adjustedInput, {
+          seed: `${baseSeed}-retry-${attempt}`,
+          pantry: pantryItems,
+          store,
+          trackPreferences: false
+        });
+        const retryResult = generateShoppingList(adjustedInput, retryPlan, { pantry: pantryItems, store });
         const retryValidation = validateShoppingList(adjustedInput, retryPlan, retryResult.items, retryResult.totalProtein);
         if (retryValidation.confidenceScore > shoppingValidation.confidenceScore) {
           plan = retryPlan;
@@ -578,41 +767,38 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
         shoppingValidation,
       };
 
-      // Gera sugestões de receitas baseadas na lista
-      const suggestions = suggestRecipes(items);
-      console.log("🍳 Sugestões geradas:", suggestions.length, "receitas");
-
-      // Atualiza o estado ANTES de salvar
-      setWeeklyPlan(completePlan);
-      setShoppingList(items);
-      setRecipeSuggestions(suggestions);
-
-      // Salva no histórico (LocalStorage)
-      const saved = savePlan(completePlan);
-      console.log("💾 Plano salvo no LocalStorage:", saved);
-
-      // PASSO 33.1: Salva como último plano para Repeat Last Week
-      saveLastWeeklyPlan(completePlan, adjustedInput);
-
-      // PASSO 33.4: Update streak when plan is generated
-      const updatedStreakData = updateStreak();
-      setStreak(updatedStreakData.currentStreak);
-      
-      if (updatedStreakData.currentStreak > 1) {
-        console.log("🔥 Streak updated:", updatedStreakData.currentStreak, "weeks!");
-      }
-
-      // Recarrega o histórico
-      const updatedHistory = loadHistoryFromStorage();
-      setHistory(updatedHistory);
-      console.log("📚 Histórico atualizado:", updatedHistory.length, "planos");
-
+      commitPlan(adjustedInput, completePlan);
     } catch (error) {
       console.error("❌ Erro ao gerar plano:", error);
       throw error;
     }
+  }, [commitPlan]);
+
+  /**
+   * Plan generatePlan would build for this input (same adaptive adjustments,
+   * deterministic generation), without saving anything nor learning its
+   * food picks: shown as a diff against the current plan before an
+   * adjustment is applied
+   */
+  const previewPlan = useCallback((input: PlanInput): WeeklyPlan => {
+    const adjustedInput = withAdaptiveAdjustments(input);
+    return withDerivedPlanData(
+      adjustedInput,
+      generateWeeklyPlan(adjustedInput, {
+        pantry: loadPantry(),
+        store: loadSelectedStore(),
+        trackPreferences: false
+      })
+    );
   }, []);
 
+  /**
+   * Plan previewPlan built, applied as shown
+   */
+  const applyPreviewedPlan = useCallback((preview: WeeklyPlan) => {
+    commitPlan(preview.planInput, preview);
+  }, [commitPlan]);
+
   /**
    * PASSO 33.2: Save adherence score for adaptive adjustments
    */
@@ -656,8 +842,14 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
 
   /**
    * Marca/desmarca um item da lista como comprado
+   * O que é comprado entra na despensa (desmarcar volta a retirá-lo)
    */
   const toggleItemPurchased = useCallback((id: string) => {
+    const item = shoppingList.find(entry => entry.id === id);
+    if (item) {
+      setPantry(recordPantryPurchase(item, !loadPurchasedItems().has(id)));
+    }
+
     setShoppingList(prevList => {
       const persistedPurchasedIds = loadPurchasedItems();
 
@@ -677,6 +869,102 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
       
       return updatedList;
     });
+  }, [shoppingList]);
+
+  /**
+   * Meal cooked (or unmarked): its household portions leave (or return to) the pantry
+   */
+  const markMealCooked = useCallback((dayIndex: number, slotId: string, cooked: boolean) => {
+    const day = weeklyPlan?.days[dayIndex];
+    const slot = day && getDayMealSlots(day.meals).find((entry) => entry.id === slotId);
+    if (!weeklyPlan || !slot) return;
+
+    setPantry(recordPantryCooking(slot.meal, getPortionMultiplier(weeklyPlan, currentInput ?? undefined), cooked));
+  }, [weeklyPlan, currentInput]);
+
+  /**
+   * Current list rebuilt from the stored pantry and store, purchases kept
+   */
+  const refreshShoppingList = useCallback(() => {
+    if (!weeklyPlan || !currentInput) return;
+
+    const completePlan = withDerivedPlanData(currentInput, weeklyPlan);
+    const purchasedIds = loadPurchasedItems();
+    setWeeklyPlan(completePlan);
+    setShoppingList(completePlan.shoppingList.map((item) => ({
+      ...item,
+      purchased: purchasedIds.has(item.id),
+    })) as FoodItem[]);
+  }, [weeklyPlan, currentInput]);
+
+  /**
+   * Pantry edited by hand: the current list is netted again against it.
+   * Purchases don't re-net (the list already shows what was bought).
+   */
+  const applyPantryEdit = useCallback((items: PantryItem[]) => {
+    setPantry(items);
+    refreshShoppingList();
+  }, [refreshShoppingList]);
+
+  const addPantryItem = useCallback((entry: PantryEntry) => {
+    applyPantryEdit(addPantryItemToStore(entry));
+  }, [applyPantryEdit]);
+
+  const updatePantryItem = useCallback((id: string, changes: Partial<PantryEntry>) => {
+    applyPantryEdit(updatePantryItemInStore(id, changes));
+  }, [applyPantryEdit]);
+
+  const removePantryItem = useCallback((id: string) => {
+    applyPantryEdit(removePantryItemFromStore(id));
+  }, [applyPantryEdit]);
+
+  const replacePantry = useCallback((items: PantryItem[]) => {
+    applyPantryEdit(savePantry(items));
+  }, [applyPantryEdit]);
+
+  const selectStore = useCallback((id: string | null) => {
+    saveSelectedStoreId(id);
+    setSelectedStoreId(id);
+    refreshShoppingList();
+  }, [refreshShoppingList]);
+
+  const importStoreCatalog = useCallback((catalog: StoreCatalog) => {
+    saveCustomCatalog(catalog);
+    setStoreCatalogs(loadStoreCatalogs());
+    selectStore(catalog.id);
+  }, [selectStore]);
+
+  const setRegion = useCallback((next: Region) => {
+    saveRegion(next);
+    setRegionState(next);
+
+    const regionCatalogs = getRegionCatalogs(storeCatalogs, next);
+    if (selectedStoreId && !regionCatalogs.some((catalog) => catalog.id === selectedStoreId)) {
+      selectStore(regionCatalogs[0]?.id ?? null);
+    }
+  }, [storeCatalogs, selectedStoreId, selectStore]);
+
+  // A layout that no longer exists falls back to the first preset
+  const storeLayout = storeLayouts.find((layout) => layout.id === selectedLayoutId) ?? storeLayouts[0];
+
+  const setMarketMode = useCallback((enabled: boolean) => {
+    saveMarketMode(enabled);
+    setMarketModeState(enabled);
+  }, []);
+
+  const selectStoreLayout = useCallback((id: string) => {
+    saveSelectedLayoutId(id);
+    setSelectedLayoutId(id);
+  }, []);
+
+  const saveStoreLayout = useCallback((layout: StoreLayout) => {
+    saveCustomLayout(layout);
+    setStoreLayouts(loadStoreLayouts());
+  }, []);
+
+  const resetStoreLayout = useCallback((id: string) => {
+    removeCustomLayout(id);
+    setStoreLayouts(loadStoreLayouts());
   }, []);
 
   /**
@@ -716,41 +1004,101 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
    * Swap a single meal on a specific day with a freshly generated alternative.
    * Regenerates the shopping list after the swap so the list stays in sync.
    */
-  const swapMeal = useCallback((dayIndex: number, mealType: "breakfast" | "lunch" | "dinner" | "snack") => {
+  const swapMeal = useCallback((dayIndex: number, slotId: string) => {
     if (!weeklyPlan || !currentInput) return;
 
     const day = weeklyPlan.days[dayIndex];
     if (!day) return;
 
-    const newMeal = generateSingleMeal(currentInput, mealType, day.trainingDay ?? false);
+    const newMeal = generateSingleMeal(
+      currentInput,
+      slotId,
+      day.sessionType ?? day.trainingDay ?? false,
+      weeklyPlan.householdMembers,
+      day.day
+    );
 
-    const updatedDays = weeklyPlan.days.map((d, i) => {
+    // A swapped dinner no longer feeds the next day's leftover lunch (and vice versa)
+    const updatedDays = syncLeftoverBatches(weeklyPlan.days.map((d, i) => {
       if (i !== dayIndex) return d;
-      return { ...d, meals: { ...d.meals, [mealType]: newMeal } };
-    });
+      return { ...d, meals: replaceSlotMeal(d.meals, slotId, newMeal) };
+    }));
 
-    const updatedPlan = { ...weeklyPlan, days: updatedDays };
-
-    const { items, costTier, totalProtein, efficiencyScore, savingsStatus, substitutionsApplied } =
-      generateShoppingList(currentInput, updatedPlan);
-    const shoppingValidation = validateShoppingList(currentInput, updatedPlan, items, totalProtein);
-
-    const completePlan: WeeklyPlan = {
-      ...updatedPlan,
-      shoppingList: items,
-      costTier,
-      totalProtein,
-      efficiencyScore,
-      savingsStatus,
-      substitutionsApplied,
-      shoppingValidation,
-    };
+    const completePlan = withDerivedPlanData(currentInput, { ...weeklyPlan, days: updatedDays });
 
     setWeeklyPlan(completePlan);
-    setShoppingList(items);
-    console.log(`🔄 Swapped ${mealType} on day ${dayIndex}`);
+    setShoppingList(completePlan.shoppingList);
+    console.log(`🔄 Swapped ${slotId} on day ${dayIndex}`);
+  }, [weeklyPlan, currentInput]);
+
+  /**
+   * Pin / unpin meals: pinned meals survive regenerateUnlocked
+   */
+  const toggleMealLock = useCallback((dayIndex: number, slotId: string) => {
+    const day = weeklyPlan?.days[dayIndex];
+    const slot = day && getDayMealSlots(day.meals).find((entry) => entry.id === slotId);
+    if (!weeklyPlan || !slot) return;
+
+    setWeeklyPlan({ ...weeklyPlan, days: setMealLocked(weeklyPlan.days, dayIndex, slotId, !slot.meal.locked) });
+  }, [weeklyPlan]);
+
+  const toggleDayLock = useCallback((dayIndex: number) => {
+    const day = weeklyPlan?.days[dayIndex];
+    if (!weeklyPlan || !day) return;
+
+    setWeeklyPlan({ ...weeklyPlan, days: setDayLocked(weeklyPlan.days, dayIndex, !isDayLocked(day)) });
+  }, [weeklyPlan]);
+
+  /**
+   * Rebuild every unpinned meal of the week around the pinned ones.
+   * Same plan (id, adherence), new seed so the unpinned slots actually change.
+   * Nothing is saved or learned until the preview is applied.
+   */
+  const previewRegenerateUnlocked = useCallback((): WeeklyPlan | null => {
+    if (!weeklyPlan || !currentInput) return null;
+
+    const regenerated = generateWeeklyPlan(
+      weeklyPlan.householdMembers?.map((member) => member.planInput) ?? currentInput,
+      {
+        seed: `regenerate-${Date.now()}`,
+        lockedMeals: getLockedMeals(weeklyPlan.days),
+        // Same days as the plan being rebuilt (pins are matched by date)
+        startDate: weeklyPlan.startDate,
+        pantry: loadPantry(),
+        store: loadSelectedStore(),
+        trackPreferences: false
+      }
+    );
+
+    return withDerivedPlanData(currentInput, {
+      ...regenerated,
+      id: weeklyPlan.id,
+      createdAt: weeklyPlan.createdAt,
+      adherenceScore: weeklyPlan.adherenceScore,
+    });
   }, [weeklyPlan, currentInput]);
 
+  // A previewed week is applied as shown; without one a new week is drawn
+  const regenerateUnlocked = useCallback((preview?: WeeklyPlan) => {
+    if (!weeklyPlan || !currentInput) return;
+
+    const completePlan = preview ?? previewRegenerateUnlocked();
+    if (!completePlan) return;
+
+    trackPlanFoodSelections(completePlan);
+    setWeeklyPlan(completePlan);
+    setShoppingList(completePlan.shoppingList);
+    console.log(`🔄 Regenerated unpinned meals (${getLockedMeals(weeklyPlan.days).length} pinned)`);
+  }, [weeklyPlan, currentInput, previewRegenerateUnlocked]);
+
+  /**
+   * Plan repeatLastWeek would load: last week's meals on the current dates
+   */
+  const previewRepeatLastWeek = useCallback((): WeeklyPlan | null => {
+    const lastPlan = loadLastWeeklyPlan();
+    return lastPlan ? shiftPlanToDate(lastPlan.plan) : null;
+  }, []);
+
   /**
    * PASSO 33.1: Repeat Last Week - Carrega e aplica o último plano gerado
    * Returns true if successful, false if no previous plan exists
@@ -764,7 +1112,9 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
         return false;
       }
 
-      const { plan, input } = lastPlan;
+      const { input } = lastPlan;
+      // Same meals, moved to the current dates
+      const plan = shiftPlanToDate(lastPlan.plan);
       
       // Clear purchased items when repeating
       clearPurchasedItems();
@@ -775,7 +1125,11 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
       setShoppingList(plan.shoppingList || []);
       
       // Gera sugestões baseadas na lista
-      const suggestions = suggestRecipes(plan.shoppingList || []);
+      const suggestions = suggestRecipes(
+        plan.shoppingList || [],
+        parseDietaryRestrictions(input.restrictions),
+        input.allergies
+      );
       setRecipeSuggestions(suggestions);
       
       console.log("🔁 Repeated last week's plan successfully");
@@ -804,16 +1158,42 @@ export function ShoppingPlanProvider({ children }: ShoppingPlanProviderProps) {
         currentInput,
         weeklyPlan,
         shoppingList,
+        pantry,
+        storeCatalogs,
+        selectedStoreId,
+        region,
+        storeLayouts,
+        storeLayout,
+        marketMode,
         recipeSuggestions,
         history,
         streak, // PASSO 33.4
         generatePlan,
+        previewPlan,
+        applyPreviewedPlan,
         repeatLastWeek, // PASSO 33.1
+        previewRepeatLastWeek,
         saveAdherenceScore, // PASSO 33.2
         getLastAdherenceScore, // PASSO 33.2
         getStreakData, // PASSO 33.4
         swapMeal,
+        toggleMealLock,
+        toggleDayLock,
+        regenerateUnlocked,
+        previewRegenerateUnlocked,
         toggleItemPurchased,
+        markMealCooked,
+        addPantryItem,
+        updatePantryItem,
+        removePantryItem,
+        replacePantry,
+        selectStore,
+        importStoreCatalog,
+        setRegion,
+        setMarketMode,
+        selectStoreLayout,
+        saveStoreLayout,
+        resetStoreLayout,
         loadHistory,
         clearHistory,
         resetPlan
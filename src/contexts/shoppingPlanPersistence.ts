@@ -54,6 +54,7 @@ const adherenceSmoothingSchema = z.object({
 const streakDataSchema = z.object({
   currentStreak: z.number().int().min(0),
   lastGenerationDate: z.string(),
+  lastPlanEndDate: z.string().optional(),
   longestStreak: z.number().int().min(0),
   totalGenerations: z.number().int().min(0),
 });
@@ -276,14 +277,14 @@ export function loadAdherenceSmoothingState(): { smoothedScore: number; lowStrea
   });
 }
 
-export function saveStreakDataState(data: { currentStreak: number; lastGenerationDate: string; longestStreak: number; totalGenerations: number }): void {
+export function saveStreakDataState(data: { currentStreak: number; lastGenerationDate: string; lastPlanEndDate?: string; longestStreak: number; totalGenerations: number }): void {
   writeEnvelope(PERSISTENCE_KEYS.streakData, data);
   if (isBrowserStorageAvailable()) {
     LEGACY_PERSISTENCE_KEYS.streakData.forEach((legacyKey) => window.localStorage.removeItem(legacyKey));
   }
 }
 
-export function loadStreakDataState(): { currentStreak: number; lastGenerationDate: string; longestStreak: number; totalGenerations: number } {
+export function loadStreakDataState(): { currentStreak: number; lastGenerationDate: string; lastPlanEndDate?: string; longestStreak: number; totalGenerations: number } {
   return readState({
     key: PERSISTENCE_KEYS.streakData,
     legacyKeys: LEGACY_PERSISTENCE_KEYS.streakData,
@@ -14,11 +14,16 @@ import { CATEGORIES } from "../constants/categories";
 import { FoodItem, FoodCategory } from "../models/FoodItem";
 import { formatQuantity } from "../utils/formatQuantity";
 import { CostTier } from "../models/CostTier";
+import { DEFAULT_REGION, formatMoney, type Region } from "../logic/regions";
+import { groupByAisle } from "../logic/storeLayouts";
+import { StoreLayout } from "../models/StoreLayout";
 
 interface ExportOptions {
   proteinTarget: number;
   costTier: CostTier;
   personName?: string;
+  region?: Region; // Currency and number format of the prices
+  storeLayout?: StoreLayout; // Market mode: one section per aisle, in walking order
 }
 
 /**
@@ -62,7 +67,7 @@ export function exportShoppingListPdf(
   shoppingList: FoodItem[],
   options: ExportOptions
 ): void {
-  const { proteinTarget, costTier, personName } = options;
+  const { proteinTarget, costTier, personName, region = DEFAULT_REGION, storeLayout } = options;
 
   const costTierLabelMap = {
     low: "Low cost",
@@ -114,16 +119,21 @@ export function exportShoppingListPdf(
   doc.setTextColor(0, 0, 0);
   yPosition += 25;
 
-  // === ITEMS BY CATEGORY ===
+  // === ITEMS BY CATEGORY (or by aisle, market mode) ===
   const groupedItems = groupByCategory(shoppingList);
-  const categories = Object.keys(groupedItems) as FoodCategory[];
-
-  categories.forEach((category) => {
-    const items = groupedItems[category];
+  const sections = storeLayout
+    ? groupByAisle(shoppingList, storeLayout).map((group) => ({
+      title: group.aisle ? `${group.position}. ${group.aisle.name}` : `${CATEGORY_INFO[CATEGORIES.others].emoji} Other`,
+      items: group.items
+    }))
+    : (Object.keys(groupedItems) as FoodCategory[]).map((category) => ({
+      title: `${CATEGORY_INFO[category].emoji} ${CATEGORY_INFO[category].label}`,
+      items: groupedItems[category]
+    }));
+
+  sections.forEach(({ title, items }) => {
     if (!items || items.length === 0) return;
 
-    const { emoji, label } = CATEGORY_INFO[category];
-
     // Check if we need a new page
     if (yPosition > 250) {
       doc.addPage();
@@ -133,7 +143,7 @@ export function exportShoppingListPdf(
     // Category header
     doc.setFontSize(14);
     doc.setFont("helvetica", "bold");
-    doc.text(`${emoji} ${label}`, margin, yPosition);
+    doc.text(title, margin, yPosition);
     yPosition += 8;
 
     // Items
@@ -167,7 +177,7 @@ export function exportShoppingListPdf(
       // Price
       if (item.estimatedPrice) {
         doc.setTextColor(76, 175, 80); // Green
-        doc.text(`€${item.estimatedPrice.toFixed(2)}`, pageWidth - margin - 25, yPosition);
+        doc.text(formatMoney(item.estimatedPrice, region), pageWidth - margin - 25, yPosition);
       }
 
       // Reason (italic, smalher)
@@ -0,0 +1,245 @@
+/**
+ * DailyMacroSolver.ts
+ * Picks the grams of every ingredient of a day together so the day's totals
+ * hit calories and macros (PortionCalculator portions each meal on its own,
+ * protein → carbs → fats, so rounding and side macros drift across the day).
+ *
+ * Strategy:
+ * 1. Start from the greedy per-meal portions (keeps each meal's structure)
+ * 2. Bounded least squares (coordinate descent) on relative calorie/macro
+ *    error, with a small pull back to the starting grams
+ * 3. Round to market units (whole eggs, bread slices, 5-10g steps) and
+ *    repair the rounding with ±1 unit moves
+ *
+ * Every portion stays within realistic min/max sizes for its category.
+ *
+ * References:
+ * - Atwater factors: 4 kcal/g protein & carbs, 9 kcal/g fat
+ */
+
+import { FoodItem } from "../models/FoodItem";
+import { FoodPortion, DayMacroResidual } from "../models/WeeklyPlan";
+import { CATEGORIES } from "../constants/categories";
+import { MacroTargetPerMeal } from "./PortionCalculator";
+
+export interface MacroTolerance {
+  calories: number; // Allowed relative error on calories (0.05 = ±5%)
+  macros: number;   // Allowed relative error on protein / carbs / fats
+}
+
+export const DEFAULT_MACRO_TOLERANCE: MacroTolerance = {
+  calories: 0.05,
+  macros: 0.1
+};
+
+export interface SolverIngredient {
+  food: FoodItem;
+  grams: number;
+}
+
+export interface PortionBounds {
+  min: number;  // grams
+  max: number;  // grams
+  step: number; // grams per market unit (1 egg, 1 slice, 5g of oil...)
+}
+
+export interface DaySolution {
+  meals: SolverIngredient[][];
+  residual: DayMacroResidual;
+}
+
+// Realistic single-portion sizes per category (grams)
+const CATEGORY_BOUNDS: Partial<Record<string, PortionBounds>> = {
+  [CATEGORIES.protein]: { min: 60, max: 300, step: 10 },
+  [CATEGORIES.grains]: { min: 30, max: 350, step: 10 },
+  [CATEGORIES.carbs]: { min: 30, max: 350, step: 10 },
+  [CATEGORIES.legumes]: { min: 60, max: 300, step: 10 },
+  [CATEGORIES.vegetables]: { min: 100, max: 300, step: 10 },
+  [CATEGORIES.fruits]: { min: 80, max: 250, step: 10 },
+  [CATEGORIES.dairy]: { min: 100, max: 400, step: 10 },
+  [CATEGORIES.fats]: { min: 5, max: 50, step: 5 },
+  [CATEGORIES.snacks]: { min: 20, max: 120, step: 5 },
+  [CATEGORIES.supplements]: { min: 20, max: 60, step: 5 }
+};
+
+const DEFAULT_BOUNDS: PortionBounds = { min: 10, max: 300, step: 10 };
+
+// Foods bought and eaten by the piece: grams per piece
+const COUNTABLE_FOODS: Array<{ keyword: string; grams: number; max: number }> = [
+  { keyword: "eggs (large)", grams: 50, max: 300 },
+  { keyword: "bread", grams: 35, max: 140 },
+  { keyword: "tortilla", grams: 40, max: 160 },
+  { keyword: "protein bar", grams: 60, max: 120 },
+  { keyword: "rice cakes", grams: 9, max: 108 }
+];
+
+const ITERATIONS = 300;
+// Pull towards the starting grams, relative to the macro error weights
+const ANCHOR_WEIGHT = 0.001;
+const CALORIE_WEIGHT = 2;
+
+/**
+ * Min/max portion and market unit for a food
+ */
+export function getPortionBounds(food: FoodItem): PortionBounds {
+  const name = food.name.toLowerCase();
+  const countable = COUNTABLE_FOODS.find(entry => name.includes(entry.keyword));
+  if (countable) {
+    return { min: countable.grams, max: countable.max, step: countable.grams };
+  }
+
+  return CATEGORY_BOUNDS[food.category] ?? DEFAULT_BOUNDS;
+}
+
+/**
+ * kcal / protein / carbs / fats per gram of food
+ */
+function perGram(food: FoodItem): [number, number, number, number] {
+  const protein = (food.macros?.protein ?? 0) / 100;
+  const carbs = (food.macros?.carbs ?? 0) / 100;
+  const fats = (food.macros?.fat ?? 0) / 100;
+  return [protein * 4 + carbs * 4 + fats * 9, protein, carbs, fats];
+}
+
+/**
+ * Calories of a macro target (Atwater)
+ */
+export function caloriesForMacros(target: MacroTargetPerMeal): number {
+  return target.protein * 4 + target.carbs * 4 + target.fats * 9;
+}
+
+/**
+ * Totals of a set of ingredients
+ */
+export function sumIngredientMacros(ingredients: SolverIngredient[]): MacroTargetPerMeal & { calories: number } {
+  return ingredients.reduce((total, { food, grams }) => {
+    const [kcal, protein, carbs, fats] = perGram(food);
+    return {
+      calories: total.calories + kcal * grams,
+      protein: total.protein + protein * grams,
+      carbs: total.carbs + carbs * grams,
+      fats: total.fats + fats * grams
+    };
+  }, { calories: 0, protein: 0, carbs: 0, fats: 0 });
+}
+
+/**
+ * Solve the grams of every ingredient of a day together.
+ *
+ * @param meals - Ingredients per meal with their greedy starting grams
+ * @param target - The day's macro target (calories derived via Atwater)
+ * @param tolerance - Allowed relative error, used for residual.withinTolerance
+ * @returns Same meals/foods with solved grams + the residual error
+ */
+export function solveDayPortions(
+  meals: SolverIngredient[][],
+  target: MacroTargetPerMeal,
+  tolerance: MacroTolerance = DEFAULT_MACRO_TOLERANCE
+): DaySolution {
+  const flat = meals.flat();
+  const targets = [caloriesForMacros(target), target.protein, target.carbs, target.fats];
+  // Relative errors: each residual is scaled by its target
+  const weights = targets.map((value, index) =>
+    value > 0 ? (index === 0 ? CALORIE_WEIGHT : 1) / (value * value) : 0
+  );
+
+  const coefficients = flat.map(({ food }) => perGram(food));
+  const bounds = flat.map(({ food }) => getPortionBounds(food));
+  const anchors = flat.map(({ grams }, index) => clamp(grams, bounds[index]));
+  const grams = [...anchors];
+
+  const totals = targets.map((_, k) => flat.reduce((sum, _ingredient, i) => sum + coefficients[i][k] * grams[i], 0));
+
+  const objective = (): number =>
+    totals.reduce((sum, total, k) => sum + weights[k] * (total - targets[k]) ** 2, 0) +
+    grams.reduce((sum, value, i) => sum + ANCHOR_WEIGHT * ((value - anchors[i]) / Math.max(anchors[i], 1)) ** 2, 0);
+
+  const move = (i: number, value: number) => {
+    const delta = value - grams[i];
+    totals.forEach((_, k) => { totals[k] += coefficients[i][k] * delta; });
+    grams[i] = value;
+  };
+
+  // 2. Coordinate descent: exact 1-D minimum per ingredient, clamped to its bounds
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    flat.forEach((_, i) => {
+      const anchorWeight = ANCHOR_WEIGHT / Math.max(anchors[i], 1) ** 2;
+      let curvature = anchorWeight;
+      let slope = anchorWeight * (grams[i] - anchors[i]);
+
+      coefficients[i].forEach((coefficient, k) => {
+        curvature += weights[k] * coefficient * coefficient;
+        slope += weights[k] * coefficient * (totals[k] - targets[k]);
+      });
+
+      if (curvature > 0) {
+        move(i, clamp(grams[i] - slope / curvature, { ...bounds[i], step: 0 }));
+      }
+    });
+  }
+
+  // 3. Market units, then repair the rounding one unit at a time
+  flat.forEach((_, i) => move(i, clamp(grams[i], bounds[i])));
+
+  for (let pass = 0; pass < 3; pass++) {
+    let improved = false;
+    flat.forEach((_, i) => {
+      [bounds[i].step, -bounds[i].step].forEach(delta => {
+        const candidate = grams[i] + delta;
+        if (candidate < bounds[i].min || candidate > bounds[i].max) return;
+
+        const before = objective();
+        const previous = grams[i];
+        move(i, candidate);
+        if (objective() < before - 1e-9) {
+          improved = true;
+        } else {
+          move(i, previous);
+        }
+      });
+    });
+    if (!improved) break;
+  }
+
+  let cursor = 0;
+  const solvedMeals = meals.map(meal => meal.map(ingredient => ({ ...ingredient, grams: grams[cursor++] })));
+
+  return {
+    meals: solvedMeals,
+    residual: buildResidual(sumIngredientMacros(solvedMeals.flat()), target, tolerance)
+  };
+}
+
+/**
+ * Actual minus target, rounded, and whether it fits the tolerance
+ */
+export function buildResidual(
+  totals: MacroTargetPerMeal & { calories: number },
+  target: MacroTargetPerMeal,
+  tolerance: MacroTolerance = DEFAULT_MACRO_TOLERANCE
+): DayMacroResidual {
+  const targetCalories = caloriesForMacros(target);
+  const withinCalories = Math.abs(totals.calories - targetCalories) <= targetCalories * tolerance.calories;
+  const macroKeys = Object.keys(target) as Array<keyof MacroTargetPerMeal>;
+  const withinMacros = macroKeys.every(key => Math.abs(totals[key] - target[key]) <= target[key] * tolerance.macros);
+
+  return {
+    calories: Math.round(totals.calories - targetCalories),
+    protein: Math.round(totals.protein - target.protein),
+    carbs: Math.round(totals.carbs - target.carbs),
+    fats: Math.round(totals.fats - target.fats),
+    withinTolerance: withinCalories && withinMacros
+  };
+}
+
+/**
+ * Solved ingredients back to plan portions
+ */
+export function toFoodPortions(ingredients: SolverIngredient[]): FoodPortion[] {
+  return ingredients.map(({ food, grams }) => ({ foodId: food.id, gramsNeeded: grams }));
+}
+
+function clamp(value: number, bounds: PortionBounds): number {
+  const stepped = bounds.step > 0 ? Math.round(value / bounds.step) * bounds.step : value;
+  return Math.min(bounds.max, Math.max(bounds.min, stepped));
+}
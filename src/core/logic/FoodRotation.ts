@@ -17,7 +17,10 @@ export const DEFAULT_FOOD_ROTATION_RULES: FoodRotationRules = {
   minUniqueVegetablesPerWeek: 5,
 };
 
-function hashString(value: string): number {
+/**
+ * FNV-1a hash: stable across runs, used to turn seeds into deterministic choices
+ */
+export function hashString(value: string): number {
   let hash = 2166136261;
   for (let i = 0; i < value.length; i++) {
     hash ^= value.charCodeAt(i);
@@ -24,6 +24,28 @@
  * - Avoids disliked foods (excluded automatically)
  * - Learns from user behavior over time
  * 
+ * Dietary restrictions:
+ * - Foods violating the user's restrictions (diet/allergen tags) are never selected
+ * - Allergies: foods containing the allergen are never selected (severe: traces too)
+ * - DietaryRestrictionError when no compatible protein/carb source is left
+ *
+ * Category filters (MealBuilderInput.categoryFilter):
+ * - Narrow the carb source to some categories and leave out the side
+ *   vegetable / added fat (e.g. pre-workout: grains or fruit, no fat, no fiber)
+ *
+ * Snacks (buildSnack):
+ * - Protein + fruit/snack carb (+ nuts/seeds) from the snacks, dairy, fruits
+ *   and fats categories, rotating like the main meals
+ *
+ * Weekly budget (MealBuilderInput.budget):
+ * - Protein / carb candidates whose portion would cost more than their share
+ *   of the meal's allowance are left out (see weeklyBudget.ts)
+ *
+ * Rationale (BuiltMeal.rationale):
+ * - For the protein and carb source: the top ranked candidates with their
+ *   calculateFoodScore, usage and rotation penalty, plus the foods left out
+ *   by exclusions, cost tier, weekly rotation limits and restrictions
+ * 
  * References:
  * - Meal composition: ISSN Position Stand on Nutrient Timing
  * - Food selection: Protein-per-cost optimization (PASSO 3)
@@ -31,12 +53,14 @@
  * - Personalization: Preference learning improves adherence (Am J Clin Nutr 2019)
  */
 
-import { FoodItem } from "../models/FoodItem";
+import { Cuisine, FoodCategory, FoodItem } from "../models/FoodItem";
+import { FoodSelectionRationale, MealDish, MealRationale } from "../models/WeeklyPlan";
 import { CATEGORIES } from "../../core/constants/categories";
 import { CostTier } from "../models/CostTier";
 import { 
   calculateMealPortions, 
   MacroTargetPerMeal,
+  FoodPortion,
   calculateTotalMacros
 } from "./PortionCalculator";
 import { VarietyTracker } from "./VarietyConstraints";
@@ -48,6 +72,15 @@ import {
   classifyCarbRotationGroup,
   getRotationNoise
 } from "./FoodRotation";
+import {
+  DietaryRestriction,
+  DietaryRestrictionError,
+  filterFoodsByRestrictions
+} from "./dietaryRestrictions";
+import { filterFoodsByAllergies } from "./allergens";
+import { UserAllergy } from "../models/PlanInput";
+import { boostByCuisine, CuisinePreferences, getCuisineScore, getMealCuisine, hasCuisinePreferences } from "./cuisines";
+import { filterAffordableFoods, MealBudget } from "./weeklyBudget";
 
 export interface MealIngredient {
   foodId: string;
@@ -55,16 +88,43 @@ export interface MealIngredient {
   grams: number;
 }
 
+/**
+ * Food sources chosen for a meal.
+ * Kept so the same dish can be re-portioned for another household member.
+ */
+export interface MealSkeleton {
+  proteinSource: FoodItem;
+  carbSource: FoodItem;
+  fatSource: FoodItem | null;
+  vegetable: FoodItem | null;
+  fixedPortions: FoodPortion[]; // Added as-is for every eater (e.g. breakfast fruit)
+}
+
 export interface BuiltMeal {
   name: string;
+  cuisine?: Cuisine;   // See getMealCuisine
+  dish?: MealDish;
   ingredients: MealIngredient[];
   macros: {
     protein: number;
     carbs: number;
     fats: number;
   };
+  skeleton?: MealSkeleton;
+  rationale?: MealRationale;
+}
+
+/**
+ * Food categories a meal may use. Missing fields keep the default selection.
+ */
+export interface MealCategoryFilter {
+  carbCategories?: FoodCategory[]; // Carb source categories (default: grains, starchy vegetables, legumes)
+  includeVegetable?: boolean;      // Side vegetable (default true)
+  includeFat?: boolean;            // Added fat source (default true)
 }
 
+const DEFAULT_CARB_CATEGORIES: FoodCategory[] = [CATEGORIES.grains, CATEGORIES.vegetables, CATEGORIES.legumes];
+
 export interface MealBuilderInput {
   macroTargetsPerMeal: MacroTargetPerMeal;
   availableFoods: FoodItem[];
@@ -74,6 +134,28 @@ export interface MealBuilderInput {
   rotationEngine?: RotationEngine; // PASSO 32: Track rotation penalties
   foodRotation?: FoodRotationEngine; // Food Rotation Engine: max 2x and group alternation
   rotationSeed?: string; // deterministic variation per user/week
+  restrictions?: DietaryRestriction[]; // Parsed PlanInput.restrictions
+  allergies?: UserAllergy[]; // PlanInput.allergies (hard filter)
+  categoryFilter?: MealCategoryFilter; // Workout meals: carb categories, no vegetable / fat
+  cuisinePreferences?: CuisinePreferences; // PlanInput.cuisines / flavors (boosts matching foods)
+  budget?: MealBudget; // PlanInput.weeklyBudget share of this meal (BudgetTracker)
+}
+
+/**
+ * Foods allowed by the user's dietary restrictions and allergies
+ */
+function filterAllowedFoods(input: MealBuilderInput): FoodItem[] {
+  return filterFoodsByAllergies(
+    filterFoodsByRestrictions(input.availableFoods, input.restrictions),
+    input.allergies
+  );
+}
+
+/**
+ * Allowed foods whose portion fits the meal's budget (all of them without a budget)
+ */
+function filterBudgetFoods(input: MealBuilderInput): FoodItem[] {
+  return filterAffordableFoods(filterAllowedFoods(input), input.budget, input.macroTargetsPerMeal);
 }
 
 /**
@@ -196,6 +278,74 @@ function sortByPreference(foods: FoodItem[]): FoodItem[] {
   });
 }
 
+// Meal roles (main meals): protein-dense proteins, carb-dominant carb sources
+function isMealProteinSource(food: FoodItem): boolean {
+  return food.category === CATEGORIES.protein && !!food.macros && food.macros.protein > 10; // At least 10g protein per 100g
+}
+
+function isMealCarbSource(food: FoodItem, carbCategories: FoodCategory[]): boolean {
+  return carbCategories.includes(food.category) &&
+    !!food.macros &&
+    food.macros.carbs > 15 && // At least 15g carbs per 100g
+    food.macros.carbs > food.macros.protein; // More carbs than protein
+}
+
+// Candidates kept in a meal's rationale
+const RATIONALE_CANDIDATES = 5;
+
+/**
+ * Why `chosen` was picked for a role: the top of the final ranking (scored
+ * with calculateFoodScore) and what every filter took out of the role's foods.
+ * Must run before the choice is recorded in the trackers.
+ */
+function explainSelection(
+  input: MealBuilderInput,
+  isRoleFood: (food: FoodItem) => boolean,
+  ranked: FoodItem[],
+  chosen: FoodItem,
+  isProtein: boolean
+): FoodSelectionRationale {
+  const { excludedFoods = [], costTier, varietyTracker, rotationEngine, foodRotation } = input;
+  const roleFoods = filterAllowedFoods(input).filter(isRoleFood);
+  const includedFoods = filterExcludedFoods(roleFoods, excludedFoods);
+  const tierFoods = filterByCostTier(includedFoods, costTier);
+  const affordableFoods = filterAffordableFoods(roleFoods, input.budget, input.macroTargetsPerMeal);
+
+  const top = ranked.slice(0, RATIONALE_CANDIDATES);
+  const candidates = top.includes(chosen) ? top : [...top.slice(0, RATIONALE_CANDIDATES - 1), chosen];
+  const names = (foods: FoodItem[]) => foods.map(food => food.name);
+
+  return {
+    candidates: candidates.map(food => {
+      const usageCount = varietyTracker?.getFoodUsageCount(food.name) ?? 0;
+      return {
+        foodId: food.id,
+        name: food.name,
+        score: roundScore(calculateFoodScore(food, costTier, varietyTracker, isProtein, rotationEngine)),
+        baseScore: roundScore(isProtein ? getProteinPerCost(food) : getCarbsPerCost(food)),
+        usageCount,
+        rotationPenalty: rotationEngine && varietyTracker ? rotationEngine.calculateRotationPenalty(usageCount) : 0,
+        chosen: food === chosen
+      };
+    }),
+    excluded: names(roleFoods.filter(food => !includedFoods.includes(food))),
+    costTierFiltered: names(includedFoods.filter(food => !tierFoods.includes(food))),
+    rotationLimited: names(tierFoods.filter(food => foodRotation && !foodRotation.canUseFood(food.name))),
+    ...(input.budget ? { budgetFiltered: names(tierFoods.filter(food => !affordableFoods.includes(food))) } : {}),
+    ...(isProtein && varietyTracker
+      ? { varietyLimited: names(tierFoods.filter(food => !varietyTracker.canUseProteinSource(food))) }
+      : {}),
+    ...(foodRotation
+      ? { preferredGroup: isProtein ? foodRotation.getPreferredProteinGroup() : foodRotation.getPreferredCarbGroup() }
+      : {}),
+    restrictedCount: input.availableFoods.filter(isRoleFood).length - roleFoods.length
+  };
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
 /**
  * Select best protein source based on cost tier
  * 
@@ -205,6 +355,7 @@ function sortByPreference(foods: FoodItem[]): FoodItem[] {
  * Low tier: Highest protein per euro (tuna, eggs, chicken)
  * Medium tier: Balance of protein content and quality
  * High tier: Highest protein content (salmon, premium meats)
+ * Cuisine preferences: matching proteins move up among the best candidates
  */
 function selectProteinSource(
   availableFoods: FoodItem[],
@@ -213,14 +364,11 @@ function selectProteinSource(
   varietyTracker?: VarietyTracker,
   rotationEngine?: RotationEngine,
   foodRotation?: FoodRotationEngine,
-  rotationSeed: string = "default"
+  rotationSeed: string = "default",
+  cuisinePreferences?: CuisinePreferences,
+  onRanked?: (ranked: FoodItem[]) => void // Final ranking, for the meal's rationale
 ): FoodItem | null {
-  let proteinFoods = filterExcludedFoods(availableFoods, excludedFoods)
-    .filter(f => 
-      f.category === CATEGORIES.protein && 
-      f.macros && 
-      f.macros.protein > 10 // At least 10g protein per 100g
-    );
+  let proteinFoods = filterExcludedFoods(availableFoods, excludedFoods).filter(isMealProteinSource);
   
   // PASSO 24: Filter by cost tier
   proteinFoods = filterByCostTier(proteinFoods, costTier);
@@ -277,9 +425,10 @@ function selectProteinSource(
     });
   }
   
-  // Take top 3 candidates and prioritize by user preference
-  const topCandidates = sorted.slice(0, 3);
-  return sortByPreference(topCandidates)[0];
+  // Take top 3 candidates (cuisine matches first) and prioritize by user preference
+  const ranked = boostByCuisine(sorted, cuisinePreferences);
+  onRanked?.(ranked);
+  return sortByPreference(ranked.slice(0, 3))[0];
 }
 
 /**
@@ -291,6 +440,8 @@ function selectProteinSource(
  * Low tier: Highest carbs per euro (rice, pasta, oats)
  * Medium tier: Balance of carbs and quality
  * High tier: Highest quality carbs (quinoa, sweet potato)
+ * Cuisine preferences: carbs of the user's cuisines move up, above all the
+ * ones sharing a cuisine with the chosen protein
  */
 function selectCarbSource(
   availableFoods: FoodItem[],
@@ -299,15 +450,13 @@ function selectCarbSource(
   varietyTracker?: VarietyTracker,
   rotationEngine?: RotationEngine,
   foodRotation?: FoodRotationEngine,
-  rotationSeed: string = "default"
+  rotationSeed: string = "default",
+  carbCategories: FoodCategory[] = DEFAULT_CARB_CATEGORIES,
+  cuisinePreferences?: CuisinePreferences,
+  companions: FoodItem[] = [],
+  onRanked?: (ranked: FoodItem[]) => void // Final ranking, for the meal's rationale
 ): FoodItem | null {
-  let carbFoods = filterExcludedFoods(availableFoods, excludedFoods)
-    .filter(f => 
-      (f.category === CATEGORIES.grains || f.category === CATEGORIES.vegetables || f.category === CATEGORIES.legumes) &&
-      f.macros && 
-      f.macros.carbs > 15 && // At least 15g carbs per 100g
-      f.macros.carbs > f.macros.protein // More carbs than protein
-    );
+  let carbFoods = filterExcludedFoods(availableFoods, excludedFoods).filter(f => isMealCarbSource(f, carbCategories));
   
   // PASSO 24: Filter by cost tier
   carbFoods = filterByCostTier(carbFoods, costTier);
@@ -351,7 +500,10 @@ function selectCarbSource(
       ).sort((a, b) => 
         varietyTracker.getFoodUsageCount(a.name) - varietyTracker.getFoodUsageCount(b.name)
       )[0];
-      if (premium) return premium;
+      if (premium) {
+        onRanked?.([premium, ...carbFoods.filter(f => f !== premium)]);
+        return premium;
+      }
     }
     sorted = carbFoods.sort((a, b) => 
       (b.macros?.carbs || 0) - (a.macros?.carbs || 0)
@@ -365,9 +517,10 @@ function selectCarbSource(
     });
   }
   
-  // Take top 3 candidates and prioritize by user preference
-  const topCandidates = sorted.slice(0, 3);
-  return sortByPreference(topCandidates)[0];
+  // Take top 3 candidates (cuisine matches first) and prioritize by user preference
+  const ranked = boostByCuisine(sorted, cuisinePreferences, companions);
+  onRanked?.(ranked);
+  return sortByPreference(ranked.slice(0, 3))[0];
 }
 
 /**
@@ -375,13 +528,17 @@ function selectCarbSource(
  * 
  * PASSO 23: Prioritizes variety - tries to use vegetables not yet used
  * PASSO 24: Filters by cost tier availability
+ * Cuisine preferences: vegetables matching the user's cuisines (and the
+ * meal's protein / carb) are tried first and beat the broccoli default
  */
 function selectVegetable(
   availableFoods: FoodItem[],
   costTier: CostTier,
   excludedFoods: string[] = [],
   varietyTracker?: VarietyTracker,
-  foodRotation?: FoodRotationEngine
+  foodRotation?: FoodRotationEngine,
+  cuisinePreferences?: CuisinePreferences,
+  companions: FoodItem[] = []
 ): FoodItem | null {
   let vegetables = filterExcludedFoods(availableFoods, excludedFoods)
     .filter(f => 
@@ -409,6 +566,7 @@ function selectVegetable(
       vegetables = neverUsedVegetables;
     }
   }
+  vegetables = boostByCuisine(vegetables, cuisinePreferences, companions, vegetables.length);
   
   // PASSO 23: Try to use a new vegetable first (for variety)
   if (varietyTracker) {
@@ -425,6 +583,9 @@ function selectVegetable(
   
   // If top preference has positive score, use it
   if (preferenceScore > 0) return topPreferred;
+
+  // Then the best cuisine match
+  if (cuisinePreferences && getCuisineScore(topPreferred, cuisinePreferences, companions) > 0) return topPreferred;
   
   // Otherwise, fall back to nutritionist-recommended vegetables
   const preferred = vegetables.find(f => 
@@ -439,12 +600,15 @@ function selectVegetable(
  * Select fat source (oil, nuts, etc.)
  * 
  * PASSO 24: Filters by cost tier availability
+ * Cuisine preferences: a matching fat (sesame oil for Asian meals...) beats the olive oil default
  */
 function selectFatSource(
   availableFoods: FoodItem[],
   costTier: CostTier,
   excludedFoods: string[] = [],
-  foodRotation?: FoodRotationEngine
+  foodRotation?: FoodRotationEngine,
+  cuisinePreferences?: CuisinePreferences,
+  companions: FoodItem[] = []
 ): FoodItem | null {
   let fatFoods = filterExcludedFoods(availableFoods, excludedFoods)
     .filter(f => 
@@ -465,7 +629,7 @@ function selectFatSource(
   if (fatFoods.length === 0) return null;
   
   // PASSO 26: Prioritize by user preference
-  const sortedByPreference = sortByPreference(fatFoods);
+  const sortedByPreference = sortByPreference(boostByCuisine(fatFoods, cuisinePreferences, companions, fatFoods.length));
   
   // Prefer olive oil (heart-healthy) if no strong preference
   const topPreferred = sortedByPreference[0];
@@ -473,6 +637,9 @@ function selectFatSource(
   
   // If top preference has positive score, use it
   if (preferenceScore > 0) return topPreferred;
+
+  // Then the best cuisine match
+  if (cuisinePreferences && getCuisineScore(topPreferred, cuisinePreferences, companions) > 0) return topPreferred;
   
   // Otherwise, fall back to nutritionist-recommended oil
   const preferred = fatFoods.find(f => 
@@ -523,28 +690,63 @@ function generateMealName(
 export function buildMeal(input: MealBuilderInput): BuiltMeal {
   const {
     macroTargetsPerMeal,
-    availableFoods,
     excludedFoods = [],
     costTier,
     varietyTracker,
     rotationEngine,
     foodRotation,
-    rotationSeed = "default"
+    rotationSeed = "default",
+    restrictions = [],
+    allergies = [],
+    categoryFilter = {},
+    cuisinePreferences
   } = input;
+  const availableFoods = filterBudgetFoods(input);
   
-  // 1. Select food sources (with variety and cost tier constraints)
-  const proteinSource = selectProteinSource(availableFoods, costTier, excludedFoods, varietyTracker, rotationEngine, foodRotation, rotationSeed);
-  const carbSource = selectCarbSource(availableFoods, costTier, excludedFoods, varietyTracker, rotationEngine, foodRotation, rotationSeed);
-  const vegetable = selectVegetable(availableFoods, costTier, excludedFoods, varietyTracker, foodRotation);
-  const fatSource = selectFatSource(availableFoods, costTier, excludedFoods, foodRotation);
+  // 1. Select food sources (with variety and cost tier constraints; cuisine matches with the foods already picked)
+  let proteinRanking: FoodItem[] = [];
+  let carbRanking: FoodItem[] = [];
+  const proteinSource = selectProteinSource(availableFoods, costTier, excludedFoods, varietyTracker, rotationEngine, foodRotation, rotationSeed, cuisinePreferences, ranked => { proteinRanking = ranked; });
+  const withProtein = proteinSource ? [proteinSource] : [];
+  // Filtered carb categories fall back to the defaults when none of them is allowed (restrictions, exclusions)
+  const filteredCarb = categoryFilter.carbCategories
+    ? selectCarbSource(availableFoods, costTier, excludedFoods, varietyTracker, rotationEngine, foodRotation, rotationSeed, categoryFilter.carbCategories, cuisinePreferences, withProtein, ranked => { carbRanking = ranked; })
+    : null;
+  const carbCategories = filteredCarb ? categoryFilter.carbCategories! : DEFAULT_CARB_CATEGORIES;
+  const carbSource = filteredCarb
+    ?? selectCarbSource(availableFoods, costTier, excludedFoods, varietyTracker, rotationEngine, foodRotation, rotationSeed, undefined, cuisinePreferences, withProtein, ranked => { carbRanking = ranked; });
+  const mainFoods = [...withProtein, ...(carbSource ? [carbSource] : [])];
+  const vegetable = categoryFilter.includeVegetable === false
+    ? null
+    : selectVegetable(availableFoods, costTier, excludedFoods, varietyTracker, foodRotation, cuisinePreferences, mainFoods);
+  const fatSource = categoryFilter.includeFat === false
+    ? null
+    : selectFatSource(availableFoods, costTier, excludedFoods, foodRotation, cuisinePreferences, mainFoods);
   
   // 2. Validate we have at least protein and carbs
+  if ((!proteinSource || !carbSource) && (restrictions.length > 0 || allergies.length > 0)) {
+    const blockedBy = [...restrictions, ...allergies.map(allergy => `${allergy.allergen} allergy`)];
+    throw new DietaryRestrictionError(
+      `Cannot build meal: no ${!proteinSource ? "protein source" : "carb source"} compatible with ${blockedBy.join(", ")} ` +
+      `for ${macroTargetsPerMeal.protein}g protein / ${macroTargetsPerMeal.carbs}g carbs`,
+      restrictions,
+      allergies.map(allergy => allergy.allergen)
+    );
+  }
+
   if (!proteinSource || !carbSource) {
     throw new Error(
       `Cannot build meal: Missing ${!proteinSource ? "protein source" : "carb source"}`
     );
   }
   
+  // Explained before the choice is recorded (usage counts and limits as they were when picking)
+  const rationale: MealRationale = {
+    costTier,
+    protein: explainSelection(input, isMealProteinSource, proteinRanking, proteinSource, true),
+    carb: explainSelection(input, food => isMealCarbSource(food, carbCategories), carbRanking, carbSource, false)
+  };
+
   // 3. Record variety usage (PASSO 23) + PASSO 31 food usage tracking
   if (varietyTracker) {
     varietyTracker.recordProteinSource(proteinSource);
@@ -592,8 +794,11 @@ export function buildMeal(input: MealBuilderInput): BuiltMeal {
   // 6. Calculate total macros
   const totalMacros = calculateTotalMacros(portions);
   
-  // 7. Generate meal name
+  // 7. Generate meal name (+ the cuisine's name template parts, see getMealCuisine)
   const name = generateMealName(proteinSource, carbSource, vegetable);
+  const cuisine = vegetable && hasCuisinePreferences(cuisinePreferences)
+    ? getMealCuisine([proteinSource, carbSource, vegetable, ...(fatSource ? [fatSource] : [])], cuisinePreferences?.cuisines)
+    : undefined;
   
   // 8. Record meal name usage (PASSO 23)
   if (varietyTracker) {
@@ -602,12 +807,21 @@ export function buildMeal(input: MealBuilderInput): BuiltMeal {
   
   return {
     name,
+    ...(cuisine && vegetable ? { cuisine, dish: { protein: proteinSource.name, carb: carbSource.name, vegetable: vegetable.name } } : {}),
     ingredients,
     macros: {
       protein: totalMacros.protein,
       carbs: totalMacros.carbs,
       fats: totalMacros.fats
-    }
+    },
+    skeleton: {
+      proteinSource,
+      carbSource,
+      fatSource,
+      vegetable,
+      fixedPortions: []
+    },
+    rationale
   };
 }
 
@@ -621,21 +835,19 @@ export function buildMeal(input: MealBuilderInput): BuiltMeal {
  * PASSO 24: Filters breakfast foods by cost tier
  */
 export function buildBreakfast(input: MealBuilderInput): BuiltMeal {
-  const { availableFoods, excludedFoods = [], costTier, macroTargetsPerMeal, foodRotation } = input;
+  const { excludedFoods = [], costTier, macroTargetsPerMeal, foodRotation } = input;
+  const availableFoods = filterBudgetFoods(input);
   
   // PASSO 24: Filter by cost tier first
   const tierFoods = filterByCostTier(availableFoods, costTier);
   
   // Breakfast strategy: Oats + Dairy + Fruit
-  const oats = filterExcludedFoods(tierFoods, excludedFoods)
-    .find(f => f.name.toLowerCase().includes("oat"));
-  
-  const dairy = filterExcludedFoods(tierFoods, excludedFoods)
-    .find(f => 
-      f.category === CATEGORIES.dairy && 
-      f.macros && 
-      f.macros.protein > 5
-    );
+  const isOats = (f: FoodItem) => f.name.toLowerCase().includes("oat");
+  const isBreakfastDairy = (f: FoodItem) => f.category === CATEGORIES.dairy && !!f.macros && f.macros.protein > 5;
+  const oatOptions = filterExcludedFoods(tierFoods, excludedFoods).filter(isOats);
+  const dairyOptions = filterExcludedFoods(tierFoods, excludedFoods).filter(isBreakfastDairy);
+  const oats = oatOptions[0];
+  const dairy = dairyOptions[0];
   
   const fruit = filterExcludedFoods(tierFoods, excludedFoods)
     .find(f => f.category === CATEGORIES.fruits);
@@ -661,9 +873,10 @@ export function buildBreakfast(input: MealBuilderInput): BuiltMeal {
   );
 
   // Add fruit as supplementary (fixed 100g for micronutrients)
+  const fixedPortions: FoodPortion[] = [];
   if (fruit && fruit.macros) {
     const fruitFactor = 100 / 100;
-    portions.push({
+    fixedPortions.push({
       foodId: fruit.id,
       foodName: fruit.name,
       gramsNeeded: 100,
@@ -674,6 +887,7 @@ export function buildBreakfast(input: MealBuilderInput): BuiltMeal {
       },
     });
   }
+  portions.push(...fixedPortions);
 
   const ingredients: MealIngredient[] = portions.map(p => ({
     foodId: p.foodId,
@@ -688,6 +902,13 @@ export function buildBreakfast(input: MealBuilderInput): BuiltMeal {
     .map(n => n!.replace(/ \(.*\)/, ""))
     .join(" + ");
 
+  // First dairy / oats in the list (no ranking at breakfast)
+  const rationale: MealRationale = {
+    costTier,
+    protein: explainSelection(input, isBreakfastDairy, dairyOptions, dairy, true),
+    carb: explainSelection(input, isOats, oatOptions, oats, false)
+  };
+
   if (foodRotation) {
     foodRotation.recordFood(oats);
     foodRotation.recordFood(dairy);
@@ -703,6 +924,156 @@ export function buildBreakfast(input: MealBuilderInput): BuiltMeal {
       protein: totalMacros.protein,
       carbs: totalMacros.carbs,
       fats: totalMacros.fats,
+    },
+    skeleton: {
+      proteinSource: dairy,
+      carbSource: oats,
+      fatSource: null,
+      vegetable: null,
+      fixedPortions
+    },
+    rationale
+  };
+}
+
+// Snack pools: protein-rich dairy / snack items, fruit or light snack carbs, whole-food fats (no oils)
+const SNACK_FAT_MIN_GRAMS = 5;
+
+function isSnackProtein(food: FoodItem): boolean {
+  const macros = food.macros;
+  if (!macros || macros.protein < 10 || macros.protein <= macros.carbs) return false;
+  // Lean dairy only: cheeses are too fatty to carry a snack's protein
+  return (food.category === CATEGORIES.dairy && macros.fat < 15) || food.category === CATEGORIES.snacks;
+}
+
+function isSnackCarb(food: FoodItem): boolean {
+  const macros = food.macros;
+  if (!macros) return false;
+  if (food.category === CATEGORIES.fruits) return macros.carbs >= 10;
+  return food.category === CATEGORIES.snacks && macros.carbs >= 15 && macros.carbs > macros.protein && macros.fat < 20;
+}
+
+function isSnackFat(food: FoodItem): boolean {
+  const macros = food.macros;
+  // Nuts, seeds and nut butters (oils and butter have no protein)
+  return !!macros && macros.fat >= 30 && macros.protein >= 5 &&
+    (food.category === CATEGORIES.fats || food.category === CATEGORIES.snacks);
+}
+
+/**
+ * Pick a snack food under the weekly rotation limit (FoodRotation: 2x/week).
+ * Foods already bought this week come first (VarietyTracker usage), so a tub
+ * of yogurt or a bag of nuts lasts two snacks instead of adding a shopping
+ * item per snack; seeded noise between equals, then the user's preference
+ * among the top 3.
+ */
+function selectSnackFood(
+  candidates: FoodItem[],
+  input: MealBuilderInput,
+  noiseKey: string,
+  onRanked?: (ranked: FoodItem[]) => void
+): FoodItem | null {
+  const { varietyTracker, foodRotation, rotationSeed = "default" } = input;
+  if (candidates.length === 0) return null;
+
+  const underLimit = candidates.filter(f => !foodRotation || foodRotation.canUseFood(f.name));
+  const pool = underLimit.length > 0 ? underLimit : candidates;
+  const rank = (food: FoodItem) => ((varietyTracker?.getFoodUsageCount(food.name) ?? 0) > 0 ? 0 : 1);
+  const sorted = [...pool].sort((a, b) =>
+    (rank(a) - rank(b)) || (getRotationNoise(a.name, `${rotationSeed}-${noiseKey}`) - getRotationNoise(b.name, `${rotationSeed}-${noiseKey}`))
+  );
+
+  onRanked?.(sorted);
+  return sortByPreference(sorted.slice(0, 3))[0];
+}
+
+/**
+ * Build a snack / in-between meal from the snacks, dairy, fruits and fats
+ * categories: a protein item (yogurt, skyr, jerky, protein bar...), a carb
+ * (fruit, rice cakes...) and, when the slot has room for fat, nuts or seeds.
+ *
+ * - Restrictions, allergies, cost tier and excludedFoods filter every pool
+ * - Foods rotate through VarietyTracker / FoodRotation like the main meals
+ * - Portioned for the slot target; the day solver then sizes it with the
+ *   rest of the day so the daily totals still hit the targets
+ * - categoryFilter.includeFat === false leaves the nuts out (pre-workout)
+ *
+ * Falls back to a light MealBuilder meal when no snack protein or carb is left.
+ */
+export function buildSnack(input: MealBuilderInput): BuiltMeal {
+  const { excludedFoods = [], costTier, macroTargetsPerMeal, varietyTracker, foodRotation, categoryFilter = {} } = input;
+  const snackFoods = filterByCostTier(filterExcludedFoods(filterBudgetFoods(input), excludedFoods), costTier);
+
+  let proteinRanking: FoodItem[] = [];
+  let carbRanking: FoodItem[] = [];
+  const isSupplementProtein = (f: FoodItem) => f.category === CATEGORIES.supplements && (f.macros?.protein ?? 0) >= 10;
+  const snackProtein = selectSnackFood(snackFoods.filter(isSnackProtein), input, "snack-protein", ranked => { proteinRanking = ranked; });
+  // Plant / powder proteins when no dairy or snack item is allowed
+  const proteinSource = snackProtein
+    ?? selectSnackFood(snackFoods.filter(isSupplementProtein), input, "snack-protein", ranked => { proteinRanking = ranked; });
+  const carbSource = selectSnackFood(snackFoods.filter(isSnackCarb), input, "snack-carb", ranked => { carbRanking = ranked; });
+  const fatSource = categoryFilter.includeFat !== false && macroTargetsPerMeal.fats >= SNACK_FAT_MIN_GRAMS
+    ? selectSnackFood(snackFoods.filter(isSnackFat), input, "snack-fat")
+    : null;
+
+  if (!proteinSource || !carbSource) {
+    return buildMeal({
+      ...input,
+      categoryFilter: { carbCategories: [CATEGORIES.fruits, CATEGORIES.grains], includeVegetable: false, includeFat: false }
+    });
+  }
+
+  const rationale: MealRationale = {
+    costTier,
+    protein: explainSelection(input, snackProtein ? isSnackProtein : isSupplementProtein, proteinRanking, proteinSource, true),
+    carb: explainSelection(input, isSnackCarb, carbRanking, carbSource, false)
+  };
+
+  const foods = [proteinSource, carbSource, ...(fatSource ? [fatSource] : [])];
+  foods.forEach(food => {
+    varietyTracker?.recordFoodUsage(food.name);
+    foodRotation?.recordFood(food);
+  });
+
+  const skeleton: MealSkeleton = { proteinSource, carbSource, fatSource, vegetable: null, fixedPortions: [] };
+  const { ingredients, macros } = portionMealForTarget(skeleton, macroTargetsPerMeal);
+  const name = ingredients.map(ingredient => ingredient.foodName).join(" + ");
+  varietyTracker?.recordMealName(name);
+
+  return { name, ingredients, macros, skeleton, rationale };
+}
+
+/**
+ * Re-portion an already built meal for a different macro target.
+ *
+ * Used for households with distinct profiles: everyone eats the same dish
+ * (same foods, no new variety/rotation records), only the grams change.
+ */
+export function portionMealForTarget(
+  skeleton: MealSkeleton,
+  macroTarget: MacroTargetPerMeal
+): Pick<BuiltMeal, "ingredients" | "macros"> {
+  const portions = calculateMealPortions(
+    macroTarget,
+    skeleton.proteinSource,
+    skeleton.carbSource,
+    skeleton.fatSource,
+    skeleton.vegetable
+  );
+  portions.push(...skeleton.fixedPortions);
+
+  const totalMacros = calculateTotalMacros(portions);
+
+  return {
+    ingredients: portions.map(portion => ({
+      foodId: portion.foodId,
+      foodName: portion.foodName,
+      grams: portion.gramsNeeded
+    })),
+    macros: {
+      protein: totalMacros.protein,
+      carbs: totalMacros.carbs,
+      fats: totalMacros.fats
     }
   };
 }
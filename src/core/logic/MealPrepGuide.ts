@@ -10,6 +10,10 @@
  * - Organizes tasks in optimal cooking order
  * - Estimates total prep time
  * - Sunday meal prep optimization
+ * - Leftover meals (cook once, eat twice) are cooked with their source
+ *   batch: grams included, not counted as another meal to cook
+ * - Workout meals (PlanInput.workoutTime) get a packing tip with the
+ *   session time, so pre/post-workout containers travel to the gym
  * 
  * Psychology:
  * - Clear instructions reduce cooking anxiety
@@ -24,6 +28,9 @@
 import { WeeklyPlan } from "../models/WeeklyPlan";
 import { CATEGORIES } from "../../core/constants/categories";
 import { mockFoods } from "../../data/mockFoods";
+import { getHouseholdHeadcount, getHouseholdPortions, getPortionMultiplier } from "./householdPortions";
+import { getDayMealList, getDayMealSlots } from "./mealSlots";
+import { isLeftoverMeal } from "./leftovers";
 
 export type CookingMethod = 
   | "oven" 
@@ -52,7 +59,7 @@ export interface PrepIngredientSummary {
   totalGrams: number;               // 1500
   category: string;                 // "proteins"
   cookingMethod: CookingMethod;     // "oven"
-  mealCount: number;                // 10 (appears in 10 meals)
+  mealCount: number;                // 10 (cooked for 10 meals; leftovers ride on their batch)
 }
 
 export interface MealPrepGuide {
@@ -62,7 +69,11 @@ export interface MealPrepGuide {
   ingredientSummary: PrepIngredientSummary[];
   tips: string[];                   // Cooking tips and time-saving advice
   difficulty: "easy" | "medium" | "advanced";
-  servingsProduced: number;         // Total meals prepared
+  servingsProduced: number;         // Total meals prepared (all household members)
+  householdSize?: number;           // People the batches are cooked for
+  leftoverMeals?: number;           // Meals eaten from a previous batch (no cooking)
+  workoutMeals?: number;            // Pre/post-workout meals in the plan (training days with a workout time)
+  workoutTime?: string;             // "HH:MM" session time those meals are timed around
 }
 
 /**
@@ -266,34 +277,35 @@ function getDefaultCookingInstruction(
 /**
  * Aggregate ingredients from weekly plan
  */
-function aggregateIngredients(weeklyPlan: WeeklyPlan): PrepIngredientSummary[] {
+function aggregateIngredients(weeklyPlan: WeeklyPlan, portionMultiplier: number = 1): PrepIngredientSummary[] {
   const ingredientMap = new Map<string, PrepIngredientSummary>();
   
   weeklyPlan.days.forEach(day => {
-    const meals = [day.meals.breakfast, day.meals.lunch, day.meals.dinner];
-    if (day.meals.snack) meals.push(day.meals.snack);
+    const meals = getDayMealList(day.meals);
     
     meals.forEach(meal => {
       if (!meal) return;
       
-      meal.portions.forEach(portion => {
+      getHouseholdPortions(meal).forEach(portion => {
         const food = mockFoods.find(f => f.id === portion.foodId);
         if (!food) return;
         
         const cookingInfo = COOKING_INSTRUCTIONS[food.name];
         const method = cookingInfo?.method || "raw";
         
+        const householdGrams = portion.gramsNeeded * portionMultiplier;
+        const cookedMeals = isLeftoverMeal(meal) ? 0 : 1;
         const existing = ingredientMap.get(food.name);
         if (existing) {
-          existing.totalGrams += portion.gramsNeeded;
-          existing.mealCount += 1;
+          existing.totalGrams += householdGrams;
+          existing.mealCount += cookedMeals;
         } else {
           ingredientMap.set(food.name, {
             ingredient: food.name,
-            totalGrams: portion.gramsNeeded,
+            totalGrams: householdGrams,
             category: food.category,
             cookingMethod: method,
-            mealCount: 1
+            mealCount: cookedMeals
           });
         }
       });
@@ -437,11 +449,26 @@ function calculateTotalPrepTime(tasks: CookingTask[]): {
 /**
  * Generate helpful meal prep tips
  */
-function generatePrepTips(tasks: CookingTask[], totalMeals: number): string[] {
+function generatePrepTips(
+  tasks: CookingTask[],
+  totalMeals: number,
+  leftoverMeals: number = 0,
+  workout?: { meals: number; time: string }
+): string[] {
   const tips: string[] = [];
   
   // Container tip
   tips.push(`You'll need ${totalMeals} meal containers - glass containers work best for reheating`);
+
+  // Leftovers tip
+  if (leftoverMeals > 0) {
+    tips.push(`Cook dinners in double batches - ${leftoverMeals} lunches are next-day leftovers, no cooking needed`);
+  }
+
+  // Workout meals tip
+  if (workout && workout.meals > 0) {
+    tips.push(`Mark the ${workout.meals} workout meals: pre-workout before your ${workout.time} session, post-workout right after it`);
+  }
   
   // Parallel cooking tip
   const ovenTasks = tasks.filter(t => t.method === "oven");
@@ -501,8 +528,9 @@ function calculateDifficulty(tasks: CookingTask[]): "easy" | "medium" | "advance
  * Main entry point for PASSO 36
  */
 export function generateMealPrepGuide(weeklyPlan: WeeklyPlan): MealPrepGuide {
-  // 1. Aggregate all ingredients
-  const ingredientSummary = aggregateIngredients(weeklyPlan);
+  // 1. Aggregate all ingredients (scaled to the household)
+  const householdSize = getHouseholdHeadcount(weeklyPlan);
+  const ingredientSummary = aggregateIngredients(weeklyPlan, getPortionMultiplier(weeklyPlan));
   
   // 2. Filter to cookable items (exclude raw items that need no prep)
   const cookableItems = ingredientSummary.filter(item => {
@@ -524,13 +552,26 @@ export function generateMealPrepGuide(weeklyPlan: WeeklyPlan): MealPrepGuide {
   
   // 6. Count total servings
   const totalMeals = weeklyPlan.days.reduce((sum, day) => {
-    let dailyMeals = 3; // breakfast, lunch, dinner
-    if (day.meals.snack) dailyMeals += 1;
-    return sum + dailyMeals;
+    const dailyMeals = getDayMealList(day.meals).length; // mealsPerDay slots
+    return sum + dailyMeals * householdSize;
   }, 0);
   
   // 7. Generate tips
-  const tips = generatePrepTips(sortedTasks, totalMeals);
+  const leftoverMeals = weeklyPlan.days.reduce(
+    (sum, day) => sum + getDayMealList(day.meals).filter(isLeftoverMeal).length,
+    0
+  );
+  const workoutMeals = weeklyPlan.days.reduce(
+    (sum, day) => sum + getDayMealSlots(day.meals).filter(slot => slot.workoutTiming).length,
+    0
+  );
+  const workoutTime = weeklyPlan.days.find(day => day.workoutTime)?.workoutTime;
+  const tips = generatePrepTips(
+    sortedTasks,
+    totalMeals,
+    leftoverMeals,
+    workoutTime ? { meals: workoutMeals, time: workoutTime } : undefined
+  );
   
   // 8. Determine difficulty
   const difficulty = calculateDifficulty(sortedTasks);
@@ -542,7 +583,10 @@ export function generateMealPrepGuide(weeklyPlan: WeeklyPlan): MealPrepGuide {
     ingredientSummary: cookableItems,
     tips,
     difficulty,
-    servingsProduced: totalMeals
+    servingsProduced: totalMeals,
+    householdSize,
+    leftoverMeals,
+    ...(workoutTime && workoutMeals > 0 ? { workoutMeals, workoutTime } : {})
   };
 }
 
@@ -6,6 +6,7 @@
  * - Groups by cookable batches (proteins, grains, vegetables)
  * - Provides Sunday prep list with cooking instructions
  * - Makes the app truly useful for weekly meal prep
+ * - Scales batches to the household (identical eaters or per-member plates)
  * 
  * Scientific basis:
  * - Meal prep improves diet adherence (Obesity Research 2015)
@@ -17,11 +18,13 @@ import { WeeklyPlan } from "../models/WeeklyPlan";
 import { CATEGORIES } from "../../core/constants/categories";
 import { FoodItem } from "../models/FoodItem";
 import { mockFoods } from "../../data/mockFoods";
+import { getHouseholdHeadcount, getHouseholdPortions, getPortionMultiplier } from "./householdPortions";
+import { getDayMealList } from "./mealSlots";
 
 export interface PrepIngredient {
   foodId: string;
   foodName: string;
-  totalGrams: number;           // Total grams needed for the week
+  totalGrams: number;           // Total grams needed for the week (whole household)
   category: string;             // proteins, grains, vegetables, etc.
   mealCount: number;            // How many meals use this ingredient
   isCooked: boolean;            // Needs cooking vs. ready-to-eat
@@ -44,6 +47,7 @@ export interface MealPrepSummary {
   grainBatches: string[];       // e.g., "1kg brown rice"
   vegetableBatches: string[];   // e.g., "800g broccoli"
   tips: string[];               // Meal prep tips
+  householdSize?: number;       // People the batches are cooked for
 }
 
 /**
@@ -51,7 +55,8 @@ export interface MealPrepSummary {
  */
 export function generateMealPrepSummary(weeklyPlan: WeeklyPlan): MealPrepSummary {
   // 1. Aggregate all ingredients across the week
-  const ingredients = aggregateIngredients(weeklyPlan);
+  const householdSize = getHouseholdHeadcount(weeklyPlan);
+  const ingredients = aggregateIngredients(weeklyPlan, getPortionMultiplier(weeklyPlan));
   
   // 2. Categorize ingredients by type
   const proteinIngredients = ingredients.filter(i => i.category === CATEGORIES.protein);
@@ -70,7 +75,7 @@ export function generateMealPrepSummary(weeklyPlan: WeeklyPlan): MealPrepSummary
   const vegetableBatches = generateBatchSummaries(vegetableIngredients);
   
   // 6. Generate meal prep tips
-  const tips = generateMealPrepTips(ingredients);
+  const tips = generateMealPrepTips(ingredients, householdSize);
   
   return {
     sundayPrepList,
@@ -79,37 +84,38 @@ export function generateMealPrepSummary(weeklyPlan: WeeklyPlan): MealPrepSummary
     proteinBatches,
     grainBatches,
     vegetableBatches,
-    tips
+    tips,
+    householdSize
   };
 }
 
 /**
  * Aggregate all ingredients from weekly plan with total grams
  */
-function aggregateIngredients(weeklyPlan: WeeklyPlan): PrepIngredient[] {
+function aggregateIngredients(weeklyPlan: WeeklyPlan, portionMultiplier: number = 1): PrepIngredient[] {
   const ingredientMap = new Map<string, PrepIngredient>();
   
   // Iterate through all days and meals
   weeklyPlan.days.forEach(day => {
-    const meals = [day.meals.breakfast, day.meals.lunch, day.meals.dinner];
-    if (day.meals.snack) meals.push(day.meals.snack);
+    const meals = getDayMealList(day.meals);
     
     meals.forEach(meal => {
       if (!meal) return;
       
-      meal.portions.forEach(portion => {
+      getHouseholdPortions(meal).forEach(portion => {
         const food = mockFoods.find(f => f.id === portion.foodId);
         if (!food) return;
         
+        const householdGrams = portion.gramsNeeded * portionMultiplier;
         const existing = ingredientMap.get(portion.foodId);
         if (existing) {
-          existing.totalGrams += portion.gramsNeeded;
+          existing.totalGrams += householdGrams;
           existing.mealCount += 1;
         } else {
           ingredientMap.set(portion.foodId, {
             foodId: portion.foodId,
             foodName: food.name,
-            totalGrams: portion.gramsNeeded,
+            totalGrams: householdGrams,
             category: food.category,
             mealCount: 1,
             isCooked: needsCooking(food)
@@ -334,8 +340,13 @@ function generateBatchSummaries(ingredients: PrepIngredient[]): string[] {
 /**
  * Generate helpful meal prep tips
  */
-function generateMealPrepTips(ingredients: PrepIngredient[]): string[] {
+function generateMealPrepTips(ingredients: PrepIngredient[], householdSize: number = 1): string[] {
   const tips: string[] = [];
+
+  // Tip 0: Household batches
+  if (householdSize > 1) {
+    tips.push(`Batches are sized for ${householdSize} people - portion each meal into ${householdSize} containers.`);
+  }
   
   // Tip 1: Cook proteins together
   const proteins = ingredients.filter(i => i.category === CATEGORIES.protein && i.isCooked);
@@ -5,6 +5,9 @@
  * Instead of fixed portions (200g chicken), we calculate:
  * - Target protein = 40g → chicken (31g/100g) → 129g chicken needed
  * 
+ * These greedy per-meal portions are the starting point; DailyMacroSolver
+ * then re-solves the whole day's grams so daily totals hit the targets.
+ * 
  * References:
  * - Macro-based portioning: USDA FoodData Central
  * - Meal prep calculations: ISSN Position Stand
@@ -17,6 +17,9 @@
 import { FoodItem } from "../models/FoodItem";
 import { CATEGORIES } from "../../core/constants/categories";
 import { mockFoods } from "../../data/mockFoods";
+import { DietaryRestriction, isFoodAllowed } from "./dietaryRestrictions";
+import { isFoodSafeForAllergies } from "./allergens";
+import { UserAllergy } from "../models/PlanInput";
 
 export type SavingsStatus = "within_savings" | "adjusted_to_savings" | "over_savings_minimum";
 
@@ -110,18 +113,23 @@ function calculateProteinPerCost(item: FoodItem): number {
 /**
  * Find the best substitute for a given food item
  * Returns the substitute with highest protein-per-cost score
+ * (never one that violates the user's dietary restrictions or allergies)
  */
 function findBestSubstitute(
   itemName: string,
-  allFoods: FoodItem[]
+  allFoods: FoodItem[],
+  restrictions: DietaryRestriction[] = [],
+  allergies: UserAllergy[] = []
 ): FoodItem | null {
   const alternatives = SUBSTITUTION_GRAPH[itemName];
   if (!alternatives || alternatives.length === 0) return null;
   
-  // Find alternatives that exist in mockFoods
+  // Find alternatives that exist in mockFoods and respect restrictions/allergies
   const validSubstitutes = alternatives
     .map(altName => allFoods.find(f => f.name === altName))
-    .filter((f): f is FoodItem => f !== undefined);
+    .filter((f): f is FoodItem =>
+      f !== undefined && isFoodAllowed(f, restrictions) && isFoodSafeForAllergies(f, allergies)
+    );
   
   if (validSubstitutes.length === 0) return null;
   
@@ -137,7 +145,9 @@ export function optimizeSavings(
   items: FoodItem[],
   totalCost: number,
   savingsTarget: number,
-  excludedFoods: string[] = []
+  excludedFoods: string[] = [],
+  restrictions: DietaryRestriction[] = [],
+  allergies: UserAllergy[] = []
 ): OptimizationResult {
   // Calculate initial metrics
   const initialProtein = items.reduce((sum, item) => {
@@ -199,7 +209,7 @@ export function optimizeSavings(
     }
     
     // Check if this item has substitutes
-    const substitute = findBestSubstitute(item.name, mockFoods);
+    const substitute = findBestSubstitute(item.name, mockFoods, restrictions, allergies);
     
     if (!substitute) {
       continue; // No substitute available
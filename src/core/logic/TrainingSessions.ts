@@ -0,0 +1,94 @@
+/**
+ * Training schedule & session macro adjustments
+ *
+ * Replaces the fixed Mon/Wed/Thu/Sat split (+15% carbs, +10% kcal) with
+ * user-defined training days, each with its own session type:
+ * - strength: +15% carbs, +10% kcal (previous default)
+ * - endurance: +30% carbs, +15% kcal (glycogen demand)
+ * - active_recovery: +5% carbs, +3% kcal (light movement)
+ * - rest: baseline targets
+ *
+ * Protein stays constant; fats absorb the remaining calorie difference.
+ *
+ * Fonte: Nutrient timing for performance (ISSN Position Stand 2017)
+ */
+
+import { PlanInput, TrainingDay, TrainingSessionType } from "../models/PlanInput";
+import { DayOfWeek } from "../models/WeeklyPlan";
+import { MacroTargetPerMeal } from "./PortionCalculator";
+
+export interface SessionMacroAdjustment {
+  carbsMultiplier: number;
+  caloriesMultiplier: number;
+}
+
+export const TRAINING_SESSION_ADJUSTMENTS: Record<TrainingSessionType, SessionMacroAdjustment> = {
+  strength: { carbsMultiplier: 1.15, caloriesMultiplier: 1.1 },
+  endurance: { carbsMultiplier: 1.3, caloriesMultiplier: 1.15 },
+  active_recovery: { carbsMultiplier: 1.05, caloriesMultiplier: 1.03 },
+  rest: { carbsMultiplier: 1, caloriesMultiplier: 1 }
+};
+
+export const TRAINING_SESSION_TYPES: TrainingSessionType[] = ["strength", "endurance", "active_recovery", "rest"];
+
+/**
+ * Default 4-day split used when the user trains but did not pick days
+ */
+export const DEFAULT_TRAINING_SCHEDULE: TrainingDay[] = [
+  { day: "monday", session: "strength" },
+  { day: "wednesday", session: "strength" },
+  { day: "thursday", session: "strength" },
+  { day: "saturday", session: "strength" }
+];
+
+/**
+ * Resolve the training schedule for an input (non-rest days only)
+ */
+export function resolveTrainingSchedule(input: Pick<PlanInput, "trains" | "trainingSchedule">): TrainingDay[] {
+  if (!input.trains) {
+    return [];
+  }
+
+  if (input.trainingSchedule) {
+    return input.trainingSchedule.filter(entry => entry.session !== "rest");
+  }
+
+  return DEFAULT_TRAINING_SCHEDULE;
+}
+
+/**
+ * Session type for a given day (rest when not scheduled)
+ */
+export function getSessionForDay(
+  input: Pick<PlanInput, "trains" | "trainingSchedule">,
+  day: DayOfWeek
+): TrainingSessionType {
+  return resolveTrainingSchedule(input).find(entry => entry.day === day)?.session ?? "rest";
+}
+
+/**
+ * Apply a session's macro adjustment to a per-meal target
+ */
+export function applyTrainingSessionAdjustment(
+  baseTarget: MacroTargetPerMeal,
+  session: TrainingSessionType
+): MacroTargetPerMeal {
+  if (session === "rest") {
+    return baseTarget;
+  }
+
+  const { carbsMultiplier, caloriesMultiplier } = TRAINING_SESSION_ADJUSTMENTS[session];
+  const restMealCalories = (baseTarget.protein * 4) + (baseTarget.carbs * 4) + (baseTarget.fats * 9);
+  const sessionMealCaloriesTarget = Math.round(restMealCalories * caloriesMultiplier);
+  const sessionCarbs = Math.round(baseTarget.carbs * carbsMultiplier);
+  const sessionFats = Math.max(
+    0,
+    Math.round((sessionMealCaloriesTarget - (baseTarget.protein * 4) - (sessionCarbs * 4)) / 9),
+  );
+
+  return {
+    protein: baseTarget.protein, // Stays constant
+    carbs: sessionCarbs,
+    fats: sessionFats
+  };
+}
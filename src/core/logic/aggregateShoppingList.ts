@@ -52,7 +52,12 @@ function categoryCoverageLabel(category: FoodCategory): string {
   }
 }
 
-function buildCoverageText(category: FoodCategory, reasons: string[], planDays: number): string {
+function buildCoverageText(
+  category: FoodCategory,
+  reasons: string[],
+  planDays: number,
+  householdSize: number
+): string {
   let coveredDays = 0;
 
   reasons.forEach((reason) => {
@@ -73,12 +78,15 @@ function buildCoverageText(category: FoodCategory, reasons: string[], planDays:
   const dayLabel = boundedDays === 1 ? "day" : "days";
   const coverageLabel = categoryCoverageLabel(category);
 
-  return `This covers ${boundedDays} ${dayLabel} of ${coverageLabel}`;
+  const householdLabel = householdSize > 1 ? ` for ${householdSize} people` : "";
+
+  return `This covers ${boundedDays} ${dayLabel} of ${coverageLabel}${householdLabel}`;
 }
 
 export function aggregateShoppingList(
   items: RawShoppingItem[],
-  planDays = 7
+  planDays = 7,
+  householdSize = 1
 ): AggregatedShoppingItem[] {
   return aggregateShoppingItems(items)
     .map((bucket) => {
@@ -93,7 +101,7 @@ export function aggregateShoppingList(
         purchased: bucket.purchased,
         sourceIds: bucket.sourceIds,
         normalizedDisplayText: bucket.normalizedDisplayText,
-        coverageText: buildCoverageText(bucket.base.category, reasons, planDays),
+        coverageText: buildCoverageText(bucket.base.category, reasons, planDays, householdSize),
         reason: reasons.length > 0 ? reasons.map(capitalize).join(" · ") : undefined
       };
     })
@@ -0,0 +1,138 @@
+/**
+ * Allergens & cross-contamination
+ *
+ * Each user allergy has a severity:
+ * - mild / moderate: foods containing the allergen are excluded,
+ *   "may contain" traces stay in the plan but raise a warning
+ * - severe: traces are excluded too
+ *
+ * Used as a hard filter by plan generation, swaps, Smart Savings
+ * substitutions and recipe suggestions, and for the allergen summary
+ * of the shopping list / prep guide PDFs.
+ */
+
+import { FoodAllergen, FoodItem } from "../models/FoodItem";
+import { UserAllergy } from "../models/PlanInput";
+
+export const FOOD_ALLERGENS: FoodAllergen[] = [
+  "gluten", "lactose", "tree_nuts", "peanuts", "soy", "sesame", "shellfish", "fish", "eggs"
+];
+
+export const ALLERGEN_LABELS: Record<FoodAllergen, string> = {
+  gluten: "Gluten",
+  lactose: "Lactose",
+  tree_nuts: "Tree nuts",
+  peanuts: "Peanuts",
+  soy: "Soy",
+  sesame: "Sesame",
+  shellfish: "Shellfish",
+  fish: "Fish",
+  eggs: "Eggs"
+};
+
+type AllergenTagged = Pick<FoodItem, "allergens" | "mayContain">;
+
+export interface CrossContaminationWarning {
+  foodName: string;
+  allergens: FoodAllergen[];
+}
+
+export interface AllergenSummaryEntry {
+  allergen: FoodAllergen;
+  contains: string[];   // Food names containing the allergen
+  mayContain: string[]; // Food names with possible traces
+}
+
+export interface AllergenSummary {
+  entries: AllergenSummaryEntry[];
+  warnings: CrossContaminationWarning[];
+}
+
+/**
+ * True when the food is safe for every allergy (traces only block severe allergies)
+ */
+export function isFoodSafeForAllergies(food: AllergenTagged, allergies: UserAllergy[] = []): boolean {
+  return allergies.every(({ allergen, severity }) => {
+    if (food.allergens?.includes(allergen)) {
+      return false;
+    }
+    return severity !== "severe" || !food.mayContain?.includes(allergen);
+  });
+}
+
+/**
+ * Keep only foods that are safe for the allergies
+ */
+export function filterFoodsByAllergies<T extends AllergenTagged>(foods: T[], allergies: UserAllergy[] = []): T[] {
+  if (allergies.length === 0) return foods;
+
+  return foods.filter(food => isFoodSafeForAllergies(food, allergies));
+}
+
+/**
+ * Foods kept in the plan that may contain traces of a (non-severe) allergen
+ */
+export function getCrossContaminationWarnings(
+  foods: Array<AllergenTagged & Pick<FoodItem, "name">>,
+  allergies: UserAllergy[] = []
+): CrossContaminationWarning[] {
+  return foods
+    .map(food => ({
+      foodName: food.name,
+      allergens: allergies
+        .map(allergy => allergy.allergen)
+        .filter(allergen => food.mayContain?.includes(allergen))
+    }))
+    .filter(warning => warning.allergens.length > 0);
+}
+
+/**
+ * Allergens present in a list of foods (shopping list, plan), in FOOD_ALLERGENS order
+ */
+export function buildAllergenSummary(
+  foods: Array<AllergenTagged & Pick<FoodItem, "name">>,
+  allergies: UserAllergy[] = []
+): AllergenSummary {
+  const unique = foods.filter((food, index) => foods.findIndex(other => other.name === food.name) === index);
+
+  const entries = FOOD_ALLERGENS
+    .map(allergen => ({
+      allergen,
+      contains: unique.filter(food => food.allergens?.includes(allergen)).map(food => food.name),
+      mayContain: unique.filter(food => food.mayContain?.includes(allergen)).map(food => food.name)
+    }))
+    .filter(entry => entry.contains.length > 0 || entry.mayContain.length > 0);
+
+  return {
+    entries,
+    warnings: getCrossContaminationWarnings(unique, allergies)
+  };
+}
+
+/**
+ * Plain-text lines for the allergen summary section of the PDFs
+ */
+export function formatAllergenSummaryLines(summary: AllergenSummary, allergies: UserAllergy[] = []): string[] {
+  const lines: string[] = [];
+
+  if (allergies.length > 0) {
+    lines.push(`Your allergies: ${allergies.map(({ allergen, severity }) => `${ALLERGEN_LABELS[allergen]} (${severity})`).join(", ")}`);
+  }
+
+  if (summary.entries.length === 0) {
+    lines.push("No tracked allergens in this list.");
+  }
+
+  summary.entries.forEach(entry => {
+    const parts = [];
+    if (entry.contains.length > 0) parts.push(`contains: ${entry.contains.join(", ")}`);
+    if (entry.mayContain.length > 0) parts.push(`may contain: ${entry.mayContain.join(", ")}`);
+    lines.push(`${ALLERGEN_LABELS[entry.allergen]} - ${parts.join("; ")}`);
+  });
+
+  summary.warnings.forEach(warning => {
+    lines.push(`Warning: ${warning.foodName} may contain traces of ${warning.allergens.map(allergen => ALLERGEN_LABELS[allergen]).join(", ")}`);
+  });
+
+  return lines;
+}
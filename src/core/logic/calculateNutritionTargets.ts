@@ -59,7 +59,9 @@ export function calculateNutritionTargets(input: PlanInput): NutritionTargets {
   const activityMultiplier = tdeeData.activityMultiplier;
   const tdee = tdeeData.tdee;
 
-  const caloriesPerDay = Math.round(tdee * GOAL_CALORIE_MULTIPLIER[goal]);
+  // Program weeks (diet breaks, refeeds...) set their own multiplier; the goal keeps driving protein
+  const calorieMultiplier = input.calorieMultiplier ?? GOAL_CALORIE_MULTIPLIER[goal];
+  const caloriesPerDay = Math.round(tdee * calorieMultiplier);
 
   const baselineProtein = Math.round(input.weightKg * GOAL_PROTEIN_PER_KG[goal]);
   const proteinPerDay = Math.max(baselineProtein, input.proteinTargetPerDay || baselineProtein);
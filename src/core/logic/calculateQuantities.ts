@@ -84,3 +84,17 @@ export function adjustIngredientQuantity(
   const ratio = targetServings / baseServings;
   return baseQuantity * ratio;
 }
+
+/**
+ * Normaliza o tamanho do agregado familiar (default: 1 pessoa)
+ *
+ * @param householdSize - Número de pessoas informado no PlanInput
+ * @returns Número inteiro de pessoas (mínimo 1)
+ */
+export function resolveHouseholdSize(householdSize?: number): number {
+  if (!householdSize || !Number.isFinite(householdSize) || householdSize < 1) {
+    return 1;
+  }
+
+  return Math.floor(householdSize);
+}
@@ -0,0 +1,91 @@
+/**
+ * Cuisine and flavor preferences (PlanInput.cuisines / PlanInput.flavors)
+ *
+ * Foods and recipes carry cuisine and flavor tags (mockFoods, mockRecipes).
+ * MealBuilder keeps its cost, rotation and variety rules and only reorders
+ * its best candidates: foods of the user's cuisines come first, more so when
+ * they share that cuisine with the meal's foods already picked (chicken for
+ * a Brazilian plate pulls rice and kale along), flavors weigh less.
+ *
+ * A meal whose foods mostly belong to one of the user's cuisines is tagged
+ * with it (Meal.cuisine) and named with that cuisine's template in the UI
+ * (i18n mealName.<cuisine>, e.g. "Frango grelhado com arroz e couve").
+ */
+
+import { Cuisine, FlavorTag, FoodItem } from "../models/FoodItem";
+import { PlanInput } from "../models/PlanInput";
+
+export type CuisinePreferences = Pick<PlanInput, "cuisines" | "flavors">;
+
+interface CuisineTagged {
+  cuisines?: Cuisine[];
+  flavors?: FlavorTag[];
+}
+
+export const CUISINES: Cuisine[] = ["mediterranean", "brazilian", "asian", "mexican"];
+export const FLAVOR_TAGS: FlavorTag[] = ["fresh", "hearty", "spicy", "smoky", "umami"];
+
+// Candidates reordered by cuisine (deeper ones lose on cost / rotation anyway)
+const CUISINE_CANDIDATE_WINDOW = 8;
+
+const CUISINE_WEIGHT = 2;     // Tagged with a cuisine the user picked
+const COMBINATION_WEIGHT = 2; // ...that the meal's other foods share
+const FLAVOR_WEIGHT = 1;      // Per matching flavor
+
+// A meal takes a cuisine's name when at least this many of its foods belong to it
+const MIN_CUISINE_FOODS = 2;
+
+export function hasCuisinePreferences(preferences?: CuisinePreferences): boolean {
+  return !!preferences && ((preferences.cuisines?.length ?? 0) > 0 || (preferences.flavors?.length ?? 0) > 0);
+}
+
+/**
+ * How well a food / recipe fits the user's cuisines and flavors (0 = no match)
+ */
+export function getCuisineScore(item: CuisineTagged, preferences: CuisinePreferences, companions: CuisineTagged[] = []): number {
+  const userCuisines = (item.cuisines ?? []).filter(cuisine => preferences.cuisines?.includes(cuisine));
+  const combinations = userCuisines.filter(cuisine => companions.some(companion => companion.cuisines?.includes(cuisine)));
+  const flavors = (item.flavors ?? []).filter(flavor => preferences.flavors?.includes(flavor));
+
+  return userCuisines.length * CUISINE_WEIGHT + combinations.length * COMBINATION_WEIGHT + flavors.length * FLAVOR_WEIGHT;
+}
+
+/**
+ * Move the best matching foods to the front of the first `window` candidates
+ * (ties keep their order; unchanged without preferences)
+ */
+export function boostByCuisine(
+  sorted: FoodItem[],
+  preferences?: CuisinePreferences,
+  companions: FoodItem[] = [],
+  window: number = CUISINE_CANDIDATE_WINDOW
+): FoodItem[] {
+  if (!preferences || !hasCuisinePreferences(preferences)) {
+    return sorted;
+  }
+
+  const boosted = sorted.slice(0, window)
+    .map((food, index) => ({ food, index, score: getCuisineScore(food, preferences, companions) }))
+    .sort((a, b) => (b.score - a.score) || (a.index - b.index))
+    .map(({ food }) => food);
+
+  return [...boosted, ...sorted.slice(window)];
+}
+
+/**
+ * The user's cuisine most of the meal's foods belong to, if any
+ */
+export function getMealCuisine(foods: FoodItem[], cuisines: Cuisine[] = []): Cuisine | undefined {
+  let best: Cuisine | undefined;
+  let bestCount = MIN_CUISINE_FOODS - 1;
+
+  cuisines.forEach(cuisine => {
+    const count = foods.filter(food => food.cuisines?.includes(cuisine)).length;
+    if (count > bestCount) {
+      best = cuisine;
+      bestCount = count;
+    }
+  });
+
+  return best;
+}
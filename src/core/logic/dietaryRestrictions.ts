@@ -0,0 +1,127 @@
+/**
+ * Dietary restrictions (vegetarian, vegan, gluten-free, lactose-free, nut-free)
+ *
+ * PlanInput.restrictions is free text typed in onboarding ("vegano",
+ * "sem glúten", "lactose"...). It is parsed into DietaryRestriction values
+ * and checked against the diet/allergen tags of each FoodItem, so the
+ * generators never pick a violating food instead of flagging it afterwards.
+ *
+ * Foods without tags only pass allergen-free restrictions (unknown diet
+ * is not assumed vegetarian).
+ */
+
+import { DietaryRestriction } from "../../types/enums";
+import { FoodAllergen, FoodItem } from "../models/FoodItem";
+
+export type { DietaryRestriction };
+
+// Matched as whole words ("nut" is not in "coconut"); phrases word by word
+const RESTRICTION_KEYWORDS: Array<{ restriction: DietaryRestriction; keywords: string[] }> = [
+  { restriction: "vegan", keywords: ["vegan", "vegano", "vegana", "plant-based", "plant based"] },
+  { restriction: "vegetarian", keywords: ["vegetarian", "vegetariano", "vegetariana", "veggie"] },
+  { restriction: "gluten-free", keywords: ["gluten", "trigo", "wheat", "celiac", "coeliac", "celiaco", "celiaca"] },
+  {
+    restriction: "lactose-free",
+    keywords: ["lactose", "dairy-free", "no dairy", "laticinios", "lacticinios", "lacteos", "leite", "milk"]
+  },
+  {
+    restriction: "nut-free",
+    keywords: [
+      "nut", "nuts", "peanut", "peanuts", "amendoim", "amendoins", "castanha", "castanhas", "noz", "nozes",
+      "frutos secos"
+    ]
+  }
+];
+
+// Plant milks are not dairy: "almond milk" / "leite de coco" don't ask for lactose-free
+const PLANT_MILK_PATTERN = /\b(?:(?:almond|soy|soya|oat|rice|coconut|cashew) milk|leite de (?:amendoa|soja|aveia|arroz|coco|caju))\b/g;
+
+const RESTRICTION_ALLERGENS: Partial<Record<DietaryRestriction, FoodAllergen[]>> = {
+  "gluten-free": ["gluten"],
+  "lactose-free": ["lactose"],
+  "nut-free": ["tree_nuts", "peanuts"]
+};
+
+/**
+ * Thrown when the restrictions (or allergies) leave no food to cover a macro target
+ */
+export class DietaryRestrictionError extends Error {
+  readonly restrictions: DietaryRestriction[];
+  readonly allergens: FoodAllergen[];
+
+  constructor(message: string, restrictions: DietaryRestriction[], allergens: FoodAllergen[] = []) {
+    super(message);
+    this.name = "DietaryRestrictionError";
+    this.restrictions = restrictions;
+    this.allergens = allergens;
+  }
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim();
+}
+
+/**
+ * Words of the text, space-joined and padded so a keyword phrase matches
+ * only whole words (" nut " is not in " coconut ")
+ */
+function toWordText(value: string): string {
+  return ` ${normalizeText(value).split(/[^a-z0-9]+/).filter(Boolean).join(" ")} `;
+}
+
+const RESTRICTION_WORDS = RESTRICTION_KEYWORDS.map(({ restriction, keywords }) => ({
+  restriction,
+  words: keywords.map(toWordText)
+}));
+
+/**
+ * Parse free-text restrictions (pt/en) into DietaryRestriction values,
+ * keyword by whole word. Unknown entries are ignored.
+ */
+export function parseDietaryRestrictions(restrictions: string[] = []): DietaryRestriction[] {
+  const parsed = new Set<DietaryRestriction>();
+
+  restrictions.forEach(raw => {
+    const text = toWordText(raw).replace(PLANT_MILK_PATTERN, " ");
+    RESTRICTION_WORDS.forEach(({ restriction, words }) => {
+      if (words.some(word => text.includes(word))) {
+        parsed.add(restriction);
+      }
+    });
+  });
+
+  return Array.from(parsed);
+}
+
+/**
+ * True when the food respects every restriction
+ */
+export function isFoodAllowed(
+  food: Pick<FoodItem, "diet" | "allergens">,
+  restrictions: DietaryRestriction[]
+): boolean {
+  return restrictions.every(restriction => {
+    if (restriction === "vegan") {
+      return food.diet === "vegan";
+    }
+
+    if (restriction === "vegetarian") {
+      return food.diet === "vegan" || food.diet === "vegetarian";
+    }
+
+    const blocked = RESTRICTION_ALLERGENS[restriction] ?? [];
+    return !(food.allergens ?? []).some(allergen => blocked.includes(allergen));
+  });
+}
+
+/**
+ * Keep only foods compatible with the restrictions
+ */
+export function filterFoodsByRestrictions<T extends Pick<FoodItem, "diet" | "allergens">>(
+  foods: T[],
+  restrictions: DietaryRestriction[] = []
+): T[] {
+  if (restrictions.length === 0) return foods;
+
+  return foods.filter(food => isFoodAllowed(food, restrictions));
+}
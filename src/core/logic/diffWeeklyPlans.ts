@@ -0,0 +1,269 @@
+/**
+ * Weekly plan diff (before → after)
+ *
+ * Compares two plans before a change is applied (regenerate the unpinned
+ * meals, repeat last week, a concierge adjustment) so the user sees what it
+ * does to the week:
+ * - meals that changed, per day and per slot (days matched by position, so
+ *   a repeated week lines up with the current one; slots by id)
+ * - foods added to / removed from the week
+ * - macro deltas (day averages of the primary user's portions) and the
+ *   shopping list's cost delta
+ * - shopping list quantity changes (items matched by id)
+ *
+ * A meal counts as changed when its foods or recipe change; portions alone
+ * only show in the macro deltas.
+ */
+
+import { DayPlan, Meal, MealSlot, MealSlotType, PlanDayRef, WeeklyPlan } from "../models/WeeklyPlan";
+import { FoodItem } from "../models/FoodItem";
+import { mockFoods } from "../../data/mockFoods";
+import { getDayMealSlots } from "./mealSlots";
+import { toPlanDayRef } from "./planCalendar";
+
+export interface PlanMacros {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+}
+
+export interface PlanDiffFood {
+  foodId: string;
+  name: string;
+}
+
+export interface MealChange {
+  slotId: string;
+  type: MealSlotType;
+  before: Meal | null; // null: slot added (e.g. one more meal per day)
+  after: Meal | null;  // null: slot dropped
+  addedFoods: PlanDiffFood[];
+  removedFoods: PlanDiffFood[];
+}
+
+export interface DayDiff extends PlanDayRef {
+  mealChanges: MealChange[];
+  macroDelta: PlanMacros;
+}
+
+export interface ShoppingQuantityChange {
+  id: string;
+  name: string;
+  unit: string;
+  before: number; // 0 when the item is new
+  after: number;  // 0 when the item left the list
+  costDelta: number;
+}
+
+export interface PlanDiff {
+  days: DayDiff[];           // One per day of the new plan (plus days it dropped)
+  changedMeals: number;
+  addedFoods: PlanDiffFood[];
+  removedFoods: PlanDiffFood[];
+  macroDelta: PlanMacros;    // Day average after - before
+  costDelta: number;         // Shopping list estimated cost after - before
+  shoppingChanges: ShoppingQuantityChange[]; // Biggest cost change first
+  identical: boolean;
+}
+
+const EMPTY_MACROS: PlanMacros = { calories: 0, protein: 0, carbs: 0, fats: 0 };
+
+export function diffWeeklyPlans(before: WeeklyPlan, after: WeeklyPlan): PlanDiff {
+  const dayCount = Math.max(before.days.length, after.days.length);
+  const days: DayDiff[] = Array.from({ length: dayCount }, (_, index) =>
+    diffDays(before.days[index], after.days[index])
+  );
+
+  const beforeFoods = getPlanFoodIds(before);
+  const afterFoods = getPlanFoodIds(after);
+  const shoppingChanges = diffShoppingLists(before.shoppingList ?? [], after.shoppingList ?? []);
+  const macroDelta = subtractMacros(getAverageDayMacros(after.days), getAverageDayMacros(before.days));
+  const changedMeals = days.reduce((sum, day) => sum + day.mealChanges.length, 0);
+
+  return {
+    days,
+    changedMeals,
+    addedFoods: toDiffFoods([...afterFoods].filter(foodId => !beforeFoods.has(foodId))),
+    removedFoods: toDiffFoods([...beforeFoods].filter(foodId => !afterFoods.has(foodId))),
+    macroDelta,
+    costDelta: round(getShoppingListCost(after.shoppingList ?? []) - getShoppingListCost(before.shoppingList ?? []), 2),
+    shoppingChanges,
+    identical: changedMeals === 0 && shoppingChanges.length === 0 && Object.values(macroDelta).every(value => value === 0)
+  };
+}
+
+/**
+ * Calories and macros of a meal (primary user's portions)
+ */
+export function getMealMacros(meal: Meal): PlanMacros {
+  const totals = meal.portions.reduce((sum, portion) => {
+    const macros = findFood(portion.foodId)?.macros;
+    const factor = portion.gramsNeeded / 100;
+    return macros
+      ? {
+        ...sum,
+        protein: sum.protein + macros.protein * factor,
+        carbs: sum.carbs + macros.carbs * factor,
+        fats: sum.fats + macros.fat * factor
+      }
+      : sum;
+  }, EMPTY_MACROS);
+
+  return roundMacros({ ...totals, calories: totals.protein * 4 + totals.carbs * 4 + totals.fats * 9 });
+}
+
+/**
+ * Shopping list estimated cost (items covered by the pantry cost nothing)
+ */
+export function getShoppingListCost(items: FoodItem[]): number {
+  return items.reduce((sum, item) => sum + (item.coveredByPantry ? 0 : item.estimatedPrice ?? 0), 0);
+}
+
+function diffDays(before: DayPlan | undefined, after: DayPlan | undefined): DayDiff {
+  const ref = toPlanDayRef((after ?? before)!);
+  const beforeSlots = before ? getDayMealSlots(before.meals) : [];
+  const afterSlots = after ? getDayMealSlots(after.meals) : [];
+
+  // New plan's slot order, then the slots it dropped
+  const slotIds = [...afterSlots, ...beforeSlots].map(slot => slot.id)
+    .filter((slotId, index, ids) => ids.indexOf(slotId) === index);
+
+  const mealChanges = slotIds
+    .map(slotId => diffSlot(beforeSlots.find(slot => slot.id === slotId), afterSlots.find(slot => slot.id === slotId)))
+    .filter((change): change is MealChange => change !== null);
+
+  return {
+    ...ref,
+    mealChanges,
+    macroDelta: subtractMacros(getDayMacros(after), getDayMacros(before))
+  };
+}
+
+function diffSlot(before: MealSlot | undefined, after: MealSlot | undefined): MealChange | null {
+  const beforeMeal = before?.meal ?? null;
+  const afterMeal = after?.meal ?? null;
+  if (!beforeMeal && !afterMeal) {
+    return null;
+  }
+
+  const beforeFoods = getMealFoodIds(beforeMeal);
+  const afterFoods = getMealFoodIds(afterMeal);
+  const addedFoods = [...afterFoods].filter(foodId => !beforeFoods.has(foodId));
+  const removedFoods = [...beforeFoods].filter(foodId => !afterFoods.has(foodId));
+
+  const sameMeal = beforeMeal && afterMeal
+    && addedFoods.length === 0 && removedFoods.length === 0
+    && beforeMeal.recipeId === afterMeal.recipeId;
+  if (sameMeal) {
+    return null;
+  }
+
+  return {
+    slotId: (after ?? before)!.id,
+    type: (after ?? before)!.type,
+    before: beforeMeal,
+    after: afterMeal,
+    addedFoods: toDiffFoods(addedFoods),
+    removedFoods: toDiffFoods(removedFoods)
+  };
+}
+
+function diffShoppingLists(before: FoodItem[], after: FoodItem[]): ShoppingQuantityChange[] {
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterById = new Map(after.map(item => [item.id, item]));
+  const ids = [...after, ...before].map(item => item.id)
+    .filter((id, index, all) => all.indexOf(id) === index);
+
+  return ids
+    .map(id => {
+      const previous = beforeById.get(id);
+      const next = afterById.get(id);
+      const item = (next ?? previous)!;
+      return {
+        id,
+        name: item.name,
+        unit: item.unit,
+        before: previous ? round(previous.quantity, 2) : 0,
+        after: next ? round(next.quantity, 2) : 0,
+        costDelta: round(getShoppingListCost(next ? [next] : []) - getShoppingListCost(previous ? [previous] : []), 2)
+      };
+    })
+    .filter(change => change.before !== change.after)
+    .sort((a, b) => Math.abs(b.costDelta) - Math.abs(a.costDelta));
+}
+
+function getDayMacros(day: DayPlan | undefined): PlanMacros {
+  if (!day) {
+    return EMPTY_MACROS;
+  }
+
+  return getDayMealSlots(day.meals).reduce(
+    (sum, slot) => (slot.meal ? addMacros(sum, getMealMacros(slot.meal)) : sum),
+    EMPTY_MACROS
+  );
+}
+
+function getAverageDayMacros(days: DayPlan[]): PlanMacros {
+  if (days.length === 0) {
+    return EMPTY_MACROS;
+  }
+
+  const totals = days.reduce((sum, day) => addMacros(sum, getDayMacros(day)), EMPTY_MACROS);
+  return roundMacros({
+    calories: totals.calories / days.length,
+    protein: totals.protein / days.length,
+    carbs: totals.carbs / days.length,
+    fats: totals.fats / days.length
+  });
+}
+
+function getMealFoodIds(meal: Meal | null): Set<string> {
+  return new Set(meal ? meal.portions.map(portion => portion.foodId) : []);
+}
+
+function getPlanFoodIds(plan: WeeklyPlan): Set<string> {
+  return new Set(plan.days.flatMap(day =>
+    getDayMealSlots(day.meals).flatMap(slot => [...getMealFoodIds(slot.meal ?? null)])
+  ));
+}
+
+function findFood(foodId: string): FoodItem | undefined {
+  return mockFoods.find(food => food.id === foodId);
+}
+
+function toDiffFoods(foodIds: string[]): PlanDiffFood[] {
+  return foodIds.map(foodId => ({ foodId, name: findFood(foodId)?.name ?? foodId }));
+}
+
+function addMacros(a: PlanMacros, b: PlanMacros): PlanMacros {
+  return {
+    calories: a.calories + b.calories,
+    protein: a.protein + b.protein,
+    carbs: a.carbs + b.carbs,
+    fats: a.fats + b.fats
+  };
+}
+
+function subtractMacros(a: PlanMacros, b: PlanMacros): PlanMacros {
+  return roundMacros({
+    calories: a.calories - b.calories,
+    protein: a.protein - b.protein,
+    carbs: a.carbs - b.carbs,
+    fats: a.fats - b.fats
+  });
+}
+
+function roundMacros(macros: PlanMacros): PlanMacros {
+  return {
+    calories: Math.round(macros.calories),
+    protein: Math.round(macros.protein),
+    carbs: Math.round(macros.carbs),
+    fats: Math.round(macros.fats)
+  };
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -5,21 +5,29 @@
  * Uses jsPDF following the same pattern as exportShoppingListPdfNext.
  */
 
-import { WeeklyPlan, DayPlan, MealType } from "../models/WeeklyPlan";
+import { WeeklyPlan, DayPlan, Meal, WorkoutTiming } from "../models/WeeklyPlan";
+import { getHouseholdHeadcount, getPortionMultiplier } from "./householdPortions";
+import { getDayMealSlots } from "./mealSlots";
+import { buildAllergenSummary, formatAllergenSummaryLines } from "./allergens";
+import { calculatePlanMicronutrients, formatMicronutrientLines } from "./micronutrients";
+import { DEFAULT_REGION, formatMoney, type Region } from "./regions";
 
 export interface PdfExportOptions {
   includeShoppingList?: boolean;
   includeMacros?: boolean;
   includeInstructions?: boolean;
   includeTimeline?: boolean;
+  includeAllergens?: boolean;
+  includeMicronutrients?: boolean;
 }
 
 /**
- * Export meal prep guide to PDF (returns Blob)
+ * Export meal prep guide to PDF (returns Blob), prices in the region's currency
  */
 export async function exportPrepGuidePdf(
   plan: WeeklyPlan,
-  options: PdfExportOptions = {}
+  options: PdfExportOptions = {},
+  region: Region = DEFAULT_REGION
 ): Promise<Blob> {
   const { default: jsPDF } = await import("jspdf");
   const doc = new jsPDF();
@@ -33,6 +41,8 @@ export async function exportPrepGuidePdf(
     includeShoppingList = true,
     includeMacros = true,
     includeTimeline = true,
+    includeAllergens = true,
+    includeMicronutrients = true,
   } = options;
 
   // ───── helpers ─────
@@ -78,11 +88,42 @@ export async function exportPrepGuidePdf(
     return day.charAt(0).toUpperCase() + day.slice(1);
   }
 
+  const householdSize = getHouseholdHeadcount(plan);
+  const portionMultiplier = getPortionMultiplier(plan);
+  const householdSuffix = portionMultiplier > 1 ? ` x ${portionMultiplier} people` : "";
+
+  // Distinct household profiles: "150g / 120g" (one value per plate)
+  function portionLabel(meal: Meal, foodId: string, grams: number): string {
+    if (!meal.plates || meal.plates.length < 2) {
+      return `${Math.round(grams)}g${householdSuffix}`;
+    }
+    return meal.plates
+      .map((plate) => {
+        const platePortion = plate.portions.find((p) => p.foodId === foodId);
+        return `${Math.round(platePortion?.gramsNeeded ?? 0)}g`;
+      })
+      .join(" / ");
+  }
+
   const mealEmoji: Record<string, string> = {
     breakfast: "Breakfast",
     lunch: "Lunch",
     dinner: "Dinner",
     snack: "Snack",
+    pre_workout: "Pre-workout",
+  };
+
+  // "snack-2" -> "Snack 2"
+  const slotLabel = (slotId: string, type: string) => {
+    const occurrence = slotId.match(/-(\d+)$/)?.[1];
+    const label = mealEmoji[type] || type;
+    return occurrence ? `${label} ${occurrence}` : label;
+  };
+
+  // Meals timed around the day's workout: "Lunch (pre-workout, before 18:00)"
+  const workoutLabel = (timing: WorkoutTiming | undefined, workoutTime: string | undefined) => {
+    if (!timing || !workoutTime) return "";
+    return timing === "pre" ? ` (pre-workout, before ${workoutTime})` : ` (post-workout, after ${workoutTime})`;
   };
 
   // ───── HEADER ─────
@@ -122,7 +163,7 @@ export async function exportPrepGuidePdf(
       y + 15
     );
     doc.text(
-      `Cost Tier: ${plan.costTier} | Days: ${plan.days.length}`,
+      `Cost Tier: ${plan.costTier} | Days: ${plan.days.length} | Household: ${householdSize}`,
       left + 5,
       y + 21
     );
@@ -131,26 +172,24 @@ export async function exportPrepGuidePdf(
 
   // ───── DAILY MEAL PLANS ─────
   drawSectionHeader("Daily Meal Plans");
-  const mealTypes: MealType[] = ["breakfast", "lunch", "dinner", "snack"];
-
   for (const dayPlan of plan.days) {
     drawSubHeader(
-      `${dayName(dayPlan.day)}${dayPlan.trainingDay ? " - Training Day" : ""}`
+      `${dayName(dayPlan.day)}${dayPlan.date ? ` (${dayPlan.date})` : ""}${dayPlan.trainingDay ? " - Training Day" : ""}${dayPlan.workoutTime ? ` at ${dayPlan.workoutTime}` : ""}`
     );
 
-    for (const mt of mealTypes) {
-      const meal = dayPlan.meals[mt];
+    for (const slot of getDayMealSlots(dayPlan.meals)) {
+      const meal = slot.meal;
       if (!meal) continue;
       checkPage(8);
       doc.setFontSize(9);
       doc.setFont("helvetica", "bold");
       doc.setTextColor(40, 40, 40);
-      doc.text(`${mealEmoji[mt] || mt}: ${meal.name}`, left + 5, y);
+      doc.text(`${slotLabel(slot.id, slot.type)}${workoutLabel(slot.workoutTiming, dayPlan.workoutTime)}: ${meal.name}`, left + 5, y);
       y += 5;
 
       if (meal.portions && meal.portions.length > 0) {
         for (const portion of meal.portions) {
-          drawText(`- ${portion.foodId} (${Math.round(portion.gramsNeeded)}g)`, 8);
+          drawText(`- ${portion.foodId} (${portionLabel(meal, portion.foodId, portion.gramsNeeded)})`, 8);
         }
       }
     }
@@ -176,7 +215,7 @@ export async function exportPrepGuidePdf(
         doc.setTextColor(60, 60, 60);
         const price =
           item.estimatedPrice != null
-            ? `EUR ${item.estimatedPrice.toFixed(2)}`
+            ? formatMoney(item.estimatedPrice, region)
             : "";
         doc.text(
           `[ ] ${item.name} - ${item.quantity}${item.unit}`,
@@ -192,6 +231,27 @@ export async function exportPrepGuidePdf(
     }
   }
 
+  // ───── ALLERGEN SUMMARY ─────
+  if (includeAllergens && plan.shoppingList.length > 0) {
+    const allergies = plan.planInput?.allergies || [];
+    drawSectionHeader("Allergen Summary");
+    for (const line of formatAllergenSummaryLines(buildAllergenSummary(plan.shoppingList, allergies), allergies)) {
+      drawText(line);
+    }
+    y += 2;
+  }
+
+  // ───── MICRONUTRIENTS ─────
+  if (includeMicronutrients && plan.days.length > 0) {
+    const micronutrients = plan.micronutrients
+      ?? calculatePlanMicronutrients(plan.days, { sex: plan.planInput?.sex }, plan.caloriesTargetPerDay);
+    drawSectionHeader("Micronutrients");
+    for (const line of formatMicronutrientLines(micronutrients)) {
+      drawText(line);
+    }
+    y += 2;
+  }
+
   // ───── PREP TIMELINE ─────
   if (includeTimeline) {
     drawSectionHeader("Prep Timeline");
@@ -218,7 +278,7 @@ export async function exportPrepGuidePdf(
     drawSectionHeader("Smart Substitutions Applied");
     for (const sub of plan.substitutionsApplied) {
       drawText(
-        `${sub.from} -> ${sub.to} (saved EUR ${sub.savings.toFixed(2)}, protein impact: ${sub.proteinImpact > 0 ? "+" : ""}${sub.proteinImpact}g)`
+        `${sub.from} -> ${sub.to} (saved ${formatMoney(sub.savings, region)}, protein impact: ${sub.proteinImpact > 0 ? "+" : ""}${sub.proteinImpact}g)`
       );
     }
   }
@@ -248,9 +308,10 @@ export async function exportPrepGuidePdf(
  */
 export function downloadPrepGuidePdf(
   plan: WeeklyPlan,
-  options: PdfExportOptions = {}
+  options: PdfExportOptions = {},
+  region: Region = DEFAULT_REGION
 ): void {
-  exportPrepGuidePdf(plan, options).then((blob) => {
+  exportPrepGuidePdf(plan, options, region).then((blob) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
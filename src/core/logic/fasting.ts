@@ -0,0 +1,136 @@
+/**
+ * Intermittent fasting (PlanInput.eatingWindow / PlanInput.fastingDays)
+ *
+ * - Eating window (16:8, 18:6...): slots whose usual time falls outside the
+ *   window are dropped (breakfast on a 12:00-20:00 window); lunch and dinner
+ *   always stay. Dropped shares are spread over the remaining slots, so the
+ *   day's macros are unchanged.
+ * - 5:2: on fasting days only lunch and dinner are kept and the day target is
+ *   scaled to FASTING_DAY_CALORIE_FACTOR of a regular day (~500-600 kcal).
+ */
+
+import { EatingWindow, PlanInput } from "../models/PlanInput";
+import { DayOfWeek, MealSlotType, MealType } from "../models/WeeklyPlan";
+import { MacroTargetPerMeal } from "./PortionCalculator";
+import { getSlotMinutes, MealSlotDefinition } from "./mealSlots";
+
+export const FASTING_DAY_CALORIE_FACTOR = 0.25;
+export const MAX_FASTING_DAYS = 3;
+
+const KEPT_SLOT_TYPES: MealSlotType[] = ["lunch", "dinner"];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * "HH:MM" → minutes after midnight (null when malformed)
+ */
+export function parseTimeOfDay(time: string): number | null {
+  const match = TIME_PATTERN.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export function formatTimeOfDay(minutes: number): string {
+  const clamped = Math.max(0, Math.min(24 * 60 - 1, Math.round(minutes)));
+  return `${String(Math.floor(clamped / 60)).padStart(2, "0")}:${String(clamped % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Window in minutes (null when missing or not a same-day start < end window)
+ */
+export function getEatingWindowMinutes(window?: EatingWindow): { start: number; end: number } | null {
+  if (!window) return null;
+
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  return start !== null && end !== null && start < end ? { start, end } : null;
+}
+
+/**
+ * Fasting hours per day of a window ("16:8" for 12:00-20:00)
+ */
+export function formatFastingRatio(window: EatingWindow): string | null {
+  const minutes = getEatingWindowMinutes(window);
+  if (!minutes) return null;
+
+  const eatingHours = Math.round(((minutes.end - minutes.start) / 60) * 10) / 10;
+  return `${Math.round((24 - eatingHours) * 10) / 10}:${eatingHours}`;
+}
+
+export function isFastingDay(input: Pick<PlanInput, "fastingDays">, day: DayOfWeek | null): boolean {
+  return Boolean(day && input.fastingDays?.includes(day));
+}
+
+/**
+ * Keep the slots that pass `keep`, their shares rescaled to add up to 1
+ */
+function redistributeShares(
+  layout: MealSlotDefinition[],
+  keep: (slot: MealSlotDefinition, index: number) => boolean
+): MealSlotDefinition[] {
+  const kept = layout.filter((slot, index) => KEPT_SLOT_TYPES.includes(slot.type) || keep(slot, index));
+  if (kept.length === layout.length) {
+    return layout;
+  }
+
+  const keptShare = kept.reduce((sum, slot) => sum + slot.share, 0);
+  return kept.map(slot => ({ ...slot, share: slot.share / keptShare }));
+}
+
+/**
+ * Day layout under the user's protocol: fasting days keep lunch + dinner,
+ * eating windows drop the slots outside the window
+ */
+export function applyFastingToLayout(
+  layout: MealSlotDefinition[],
+  input: Pick<PlanInput, "eatingWindow" | "fastingDays">,
+  day: DayOfWeek | null
+): MealSlotDefinition[] {
+  if (isFastingDay(input, day)) {
+    return redistributeShares(layout, () => false);
+  }
+
+  const window = getEatingWindowMinutes(input.eatingWindow);
+  if (!window) {
+    return layout;
+  }
+
+  const minutes = getSlotMinutes(layout);
+  return redistributeShares(layout, (_slot, index) => minutes[index] >= window.start && minutes[index] <= window.end);
+}
+
+/**
+ * 5:2 low day: every macro scaled to FASTING_DAY_CALORIE_FACTOR
+ */
+export function applyFastingDayTarget(
+  target: MacroTargetPerMeal,
+  input: Pick<PlanInput, "fastingDays">,
+  day: DayOfWeek | null
+): MacroTargetPerMeal {
+  if (!isFastingDay(input, day)) {
+    return target;
+  }
+
+  return {
+    protein: Math.round(target.protein * FASTING_DAY_CALORIE_FACTOR),
+    carbs: Math.round(target.carbs * FASTING_DAY_CALORIE_FACTOR),
+    fats: Math.round(target.fats * FASTING_DAY_CALORIE_FACTOR)
+  };
+}
+
+/**
+ * Meal that is "now" inside the window: the window is split evenly between
+ * its meals (breakfast only when the window opens before 10:00). Before the
+ * window opens the first meal is next; once it closes there is none (fasting).
+ */
+export function getWindowMealType(window: EatingWindow, now: Date = new Date()): MealType | null {
+  const minutes = getEatingWindowMinutes(window);
+  if (!minutes) return null;
+
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (current > minutes.end) return null;
+
+  const meals: MealType[] = minutes.start < 10 * 60 ? ["breakfast", "lunch", "dinner"] : ["lunch", "dinner"];
+  if (current < minutes.start) return meals[0];
+
+  const part = (minutes.end - minutes.start) / meals.length;
+  return meals[Math.min(meals.length - 1, Math.floor((current - minutes.start) / part))];
+}
@@ -6,6 +6,15 @@ import { CostTier } from "../models/CostTier";
 import { mockFoods } from "../../data/mockFoods";
 import { optimizeSavings, SavingsStatus, SubstitutionRecord } from "./SmartSavingsOptimizer";
 import { getCostTier } from "../utils/getCostTier";
+import { calculateQuantities, adjustIngredientQuantity } from "./calculateQuantities";
+import { getHouseholdPortions, getPortionMultiplier } from "./householdPortions";
+import { getDayMealSlots, getSlotMealType } from "./mealSlots";
+import { parseDietaryRestrictions } from "./dietaryRestrictions";
+import { getPantryStock, PantryStockEntry, takeFromPantryStock } from "./pantry";
+import { PantryItem } from "../models/Pantry";
+import { gramsToMarketQuantity, isDiscreteMarketUnit, marketQuantityToGrams } from "../utils/marketUnits";
+import { StoreCatalog } from "../models/StoreCatalog";
+import { priceWithStore } from "./storeCatalogs";
 
 /**
  * SHOPPING LIST DERIVADA DO WEEKLY PLAN
@@ -18,6 +27,19 @@ import { getCostTier } from "../utils/getCostTier";
  * - estimatedPrice (quantity * pricePerUnit)
  * - reason ("Lunch protein for 10 meals")
  * 
+ * Household scaling:
+ * - Refeições do plano são porções individuais
+ * - Quantidades são multiplicadas pelo householdSize (calculateQuantities)
+ * - Perfis distintos (householdMembers) somam os pratos de cada membro
+ * 
+ * Pantry (options.pantry):
+ * - O que já está em casa é descontado de cada item (ver netAgainstPantry)
+ * - Itens totalmente em casa ficam na lista como "covered by pantry"
+ * 
+ * Store (options.store):
+ * - O que falta comprar é cotado em pacotes inteiros da loja escolhida
+ *   (ver storeCatalogs.ts); alimentos fora do catálogo mantêm o preço de referência
+ * 
  * Smart Savings optimization:
  * - SmartSavingsOptimizer maximiza proteína por custo
  * - Substitui itens caros por alternativas eficientes
@@ -44,6 +66,12 @@ interface ShoppingListResult {
   substitutionsApplied: SubstitutionRecord[]; // NEW: Detailed substitutions
 }
 
+interface ShoppingListOptions {
+  pantry?: PantryItem[]; // Stock on hand, netted out of the list
+  today?: Date;          // Reference date for pantry expiry (defaults to now)
+  store?: StoreCatalog;  // Store whose prices and package sizes the list is priced at
+}
+
 interface MacroScale {
   protein: number;
   carbs: number;
@@ -68,44 +96,10 @@ const BASELINE_MACROS = {
   fats: 70
 };
 
-const DISCRETE_MARKET_UNITS = new Set(["pack", "can", "jar", "bottle", "loaf", "bar", "tube", "unit", "bunch", "head"]);
-
-/**
- * Approximate grams per market unit for discrete items.
- * Used to convert plan-calculated grams into purchasable quantities.
- */
-const GRAMS_PER_MARKET_UNIT: Record<string, number> = {
-  kg: 1000,
-  L: 1000,
-  pack: 500,   // generic pack (avg 500g)
-  can: 400,    // standard canned goods (400g)
-  loaf: 500,   // standard bread loaf
-  jar: 350,    // peanut butter / tahini
-  bottle: 350, // standard bottle
-  bar: 100,    // chocolate bar
-  tube: 200,   // tomato paste tube
-  unit: 250,   // single fruit / vegetable (~250g avg)
-  bunch: 300,  // bunch of greens
-  head: 500,   // head of cabbage/lettuce
-};
-
-/**
- * Convert total grams from the plan into the food's market unit.
- * Falls back to kg if the unit isn't mapped.
- */
-function gramsToMarketUnit(totalGrams: number, unit: string): number {
-  const divisor = GRAMS_PER_MARKET_UNIT[unit] || GRAMS_PER_MARKET_UNIT[unit.toLowerCase()] || 1000;
-  return totalGrams / divisor;
-}
-
 function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
 
-function isDiscreteMarketUnit(unit: string): boolean {
-  return DISCRETE_MARKET_UNITS.has(unit.trim().toLowerCase());
-}
-
 function normalizeMarketPurchaseQuantity(quantity: number, unit: string): number {
   if (quantity <= 0) {
     return 0;
@@ -140,15 +134,20 @@ function getMacroScale(weeklyPlan: WeeklyPlan): MacroScale {
  */
 export function generateShoppingList(
   input: PlanInput,
-  weeklyPlan: WeeklyPlan
+  weeklyPlan: WeeklyPlan,
+  options: ShoppingListOptions = {}
 ): ShoppingListResult {
   // 1. Extrair todos os ingredientes do plano com contagem de ocorrências
   const ingredientOccurrences = extractIngredientsFromPlan(weeklyPlan);
 
-  // 2. Converter em FoodItems com quantidades realistas
+  // 2. Converter em FoodItems com quantidades realistas (escaladas pelo agregado)
   const macroScale = getMacroScale(weeklyPlan);
+  const { totalPeople } = calculateQuantities(
+    weeklyPlan.days.length || 7,
+    getPortionMultiplier(weeklyPlan, input)
+  );
   const items = ingredientOccurrences.map(occurrence =>
-    convertToFoodItem(occurrence, input.mealsPerDay, macroScale)
+    convertToFoodItem(occurrence, input.mealsPerDay, macroScale, totalPeople)
   );
 
   // 3. Ordenar por categoria
@@ -171,7 +170,9 @@ export function generateShoppingList(
       sortedItems,
       initialCost,
       savingsTarget,
-      input.excludedFoods || []
+      input.excludedFoods || [],
+      parseDietaryRestrictions(input.restrictions),
+      input.allergies || []
     );
   } else {
     // Medium/high tier: Skip optimization, use foods as selected by MealBuilder
@@ -196,8 +197,16 @@ export function generateShoppingList(
   const costTier = getCostTier(optimizationResult.items);
   const consolidatedItems = consolidateItemsByName(optimizationResult.items);
 
+  // 6. Descontar o que já está na despensa
+  const nettedItems = options.pantry && options.pantry.length > 0
+    ? netAgainstPantry(consolidatedItems, getPantryStock(options.pantry, options.today))
+    : consolidatedItems;
+
+  // 7. Preços da loja escolhida
+  const listItems = options.store ? priceWithStore(nettedItems, options.store) : nettedItems;
+
   return {
-    items: consolidatedItems,
+    items: listItems,
     costTier,
     totalProtein: optimizationResult.totalProtein,
     efficiencyScore: optimizationResult.efficiencyScore,
@@ -215,25 +224,12 @@ function extractIngredientsFromPlan(
   const occurrenceMap = new Map<string, IngredientOccurrence>();
 
   weeklyPlan.days.forEach(dayPlan => {
-    // Processar breakfast
-    if (dayPlan.meals.breakfast) {
-      countMealIngredients(dayPlan.meals.breakfast, "breakfast", occurrenceMap);
-    }
-
-    // Processar lunch
-    if (dayPlan.meals.lunch) {
-      countMealIngredients(dayPlan.meals.lunch, "lunch", occurrenceMap);
-    }
-
-    // Processar dinner
-    if (dayPlan.meals.dinner) {
-      countMealIngredients(dayPlan.meals.dinner, "dinner", occurrenceMap);
-    }
-
-    // Processar snack (included when mealsPerDay >= 5)
-    if (dayPlan.meals.snack) {
-      countMealIngredients(dayPlan.meals.snack, "snack", occurrenceMap);
-    }
+    // Processar cada slot do dia (mealsPerDay 3-6; pre-workout conta como snack)
+    getDayMealSlots(dayPlan.meals).forEach(slot => {
+      if (slot.meal) {
+        countMealIngredients(slot.meal, getSlotMealType(slot.type), occurrenceMap);
+      }
+    });
   });
 
   return Array.from(occurrenceMap.values());
@@ -241,6 +237,7 @@ function extractIngredientsFromPlan(
 
 /**
  * Conta ingredientes de uma refeição
+ * Leftovers (meal.leftoverOf) only add grams: bought and cooked with their source meal
  */
 function countMealIngredients(
   meal: Meal,
@@ -250,7 +247,7 @@ function countMealIngredients(
   // Build a quick lookup of actual grams from the plan's portions
   const portionGramsMap = new Map<string, number>();
   if (meal.portions) {
-    meal.portions.forEach(p => portionGramsMap.set(p.foodId, p.gramsNeeded));
+    getHouseholdPortions(meal).forEach(p => portionGramsMap.set(p.foodId, p.gramsNeeded));
   }
 
   meal.foodIds.forEach(foodId => {
@@ -258,8 +255,10 @@ function countMealIngredients(
     const existing = occurrenceMap.get(foodId);
 
     if (existing) {
-      existing.occurrences += 1;
-      existing.mealTypes.add(mealType);
+      if (!meal.leftoverOf) {
+        existing.occurrences += 1;
+        existing.mealTypes.add(mealType);
+      }
       existing.totalGrams += gramsFromPlan;
     } else {
       occurrenceMap.set(foodId, {
@@ -278,7 +277,8 @@ function countMealIngredients(
 function convertToFoodItem(
   occurrence: IngredientOccurrence,
   mealsPerDay: number,
-  macroScale: MacroScale
+  macroScale: MacroScale,
+  householdSize: number = 1
 ): FoodItem {
   const food = mockFoods.find(f => f.id === occurrence.foodId);
 
@@ -297,15 +297,17 @@ function convertToFoodItem(
 
   // Use actual portion grams from the plan when available (accurate).
   // Fall back to heuristic quantities only when plan data is missing (legacy plans).
+  // Plan portions are per person, so both paths scale by household size.
+  const householdGrams = adjustIngredientQuantity(occurrence.totalGrams, 1, householdSize);
   let quantity: number;
   if (occurrence.totalGrams > 0) {
-    quantity = gramsToMarketUnit(occurrence.totalGrams, safeFood.unit);
+    quantity = gramsToMarketQuantity(householdGrams, safeFood.unit);
   } else {
     const primaryMealType = Array.from(occurrence.mealTypes)[0];
     quantity = calculateRealisticQuantity(
       safeFood,
       primaryMealType,
-      occurrence.occurrences,
+      occurrence.occurrences * householdSize,
       mealsPerDay,
       macroScale
     );
@@ -318,7 +320,8 @@ function convertToFoodItem(
     safeFood,
     mealTypesArray,
     occurrence.occurrences,
-    occurrence.totalGrams > 0 ? occurrence.totalGrams : undefined
+    occurrence.totalGrams > 0 ? occurrence.totalGrams : undefined,
+    householdSize
   );
 
   // Generate unique ID using foodId only since we now aggregate across meal types
@@ -334,6 +337,9 @@ function convertToFoodItem(
     quantity,
     macros: food.macros,
     costLevel: food.costLevel, // PASSO 24: Preserve cost tier
+    diet: food.diet,
+    allergens: food.allergens,
+    mayContain: food.mayContain,
     reason,
     estimatedPrice
   };
@@ -434,12 +440,14 @@ function calculateRealisticQuantity(
 /**
  * Gera reason explicando por que o item está na lista (com múltiplos tipos de refeição)
  * Inclui quantidade estimada por refeição e total, ex: "10 refeições × ~150g = 1.5kg"
+ * Para agregados com mais de 1 pessoa, o total é multiplicado e indicado ("× 2 pessoas")
  */
 function generateReasonFromMealTypes(
   food: FoodItem,
   mealTypes: string[],
   occurrences: number,
-  totalGrams?: number
+  totalGrams?: number,
+  householdSize: number = 1
 ): string {
   const category = food.category;
 
@@ -478,9 +486,10 @@ function generateReasonFromMealTypes(
   let quantityHint = "";
   if (totalGrams && totalGrams > 0 && occurrences > 0) {
     const gramsPerMeal = Math.round(totalGrams / occurrences);
-    const totalKg = totalGrams / 1000;
+    const totalKg = (totalGrams * householdSize) / 1000;
+    const peopleHint = householdSize > 1 ? ` × ${householdSize} pessoas` : "";
     if (food.unit === "kg" || food.unit === "L") {
-      quantityHint = ` · ${occurrences}× ~${gramsPerMeal}g = ${totalKg.toFixed(2).replace(/\.?0+$/, "")}${food.unit}`;
+      quantityHint = ` · ${occurrences}× ~${gramsPerMeal}g${peopleHint} = ${totalKg.toFixed(2).replace(/\.?0+$/, "")}${food.unit}`;
     }
   }
 
@@ -647,6 +656,36 @@ function consolidateItemsByName(items: FoodItem[]): FoodItem[] {
   });
 }
 
+/**
+ * Subtract pantry stock from each item (in grams); what's left is rounded to
+ * purchasable quantities. Fully stocked items stay listed at quantity 0.
+ */
+function netAgainstPantry(items: FoodItem[], stock: PantryStockEntry[]): FoodItem[] {
+  return items.map((item) => {
+    const neededGrams = marketQuantityToGrams(item.quantity, item.unit);
+    const onHandGrams = takeFromPantryStock(stock, item, neededGrams);
+    if (onHandGrams <= 0) {
+      return item;
+    }
+
+    const quantity = normalizeMarketPurchaseQuantity(
+      gramsToMarketQuantity(neededGrams - onHandGrams, item.unit),
+      item.unit
+    );
+    const estimatedPrice = isDiscreteMarketUnit(item.unit)
+      ? quantity * item.pricePerUnit
+      : (item.estimatedPrice || 0) * (quantity / item.quantity);
+
+    return {
+      ...item,
+      quantity,
+      estimatedPrice: Math.round(estimatedPrice * 100) / 100,
+      pantryQuantity: Math.round(gramsToMarketQuantity(onHandGrams, item.unit) * 100) / 100,
+      ...(quantity === 0 ? { coveredByPantry: true } : {})
+    };
+  });
+}
+
 export const __shoppingListTestables = {
   calculateRealisticQuantity,
   generateReasonFromMealTypes,
@@ -1,16 +1,78 @@
-import { PlanInput } from "../models/PlanInput";
+import { PlanInput, TrainingSessionType, UserAllergy } from "../models/PlanInput";
 import { CATEGORIES } from "../../core/constants/categories";
-import { WeeklyPlan, DayOfWeek, DayPlan, DayMeals, Meal, FoodPortion } from "../models/WeeklyPlan";
+import {
+  WeeklyPlan,
+  DayOfWeek,
+  DayPlan,
+  Meal,
+  FoodPortion,
+  HouseholdMember,
+  MemberPlate,
+  MealSlot,
+  MealSlotType,
+  PlanDayRef
+} from "../models/WeeklyPlan";
+import { CostTier } from "../models/CostTier";
 import { calculateMacroTargets } from "./MacroCalculator";
 import { calculateTDEE } from "./calculateTDEE";
 import { MacroTargetPerMeal } from "./PortionCalculator";
-import { buildMeal, buildBreakfast } from "./MealBuilder";
+import { buildMeal, buildBreakfast, buildSnack, portionMealForTarget, BuiltMeal, MealBuilderInput } from "./MealBuilder";
 import { VarietyTracker, DEFAULT_VARIETY_CONSTRAINTS } from "./VarietyConstraints";
-import { FoodRotationEngine } from "./FoodRotation";
+import { FoodRotationEngine, hashString } from "./FoodRotation";
 import { mockFoods } from "../../data/mockFoods";
 import { userPreferencesStore } from "../stores/UserPreferencesStore";
 import { generateMealPrepSummary } from "./MealPrepSummary";
 import { generatePlanFingerprint } from "../utils/planFingerprint";
+import { calculateQuantities, resolveHouseholdSize } from "./calculateQuantities";
+import { getHouseholdInputs } from "./householdPortions";
+import {
+  applyTrainingSessionAdjustment,
+  getSessionForDay,
+  resolveTrainingSchedule
+} from "./TrainingSessions";
+import { getDayMealSlots, getMealSlotLayout, toDayMeals, MealSlotDefinition } from "./mealSlots";
+import {
+  DietaryRestriction,
+  parseDietaryRestrictions
+} from "./dietaryRestrictions";
+import {
+  buildResidual,
+  DaySolution,
+  MacroTolerance,
+  SolverIngredient,
+  solveDayPortions,
+  sumIngredientMacros,
+  toFoodPortions
+} from "./DailyMacroSolver";
+import { FoodItem } from "../models/FoodItem";
+import { calculatePlanMicronutrients } from "./micronutrients";
+import { RecipeSelectionContext, scaleRecipeToTarget, selectRecipe } from "./recipePlanning";
+import { createLeftoverMeal, LEFTOVER_TARGET_SLOT, syncLeftoverBatches } from "./leftovers";
+import { LockedMeal } from "./mealLocks";
+import { applyFastingDayTarget, applyFastingToLayout, isFastingDay } from "./fasting";
+import { applyWorkoutTimingToLayout, getWorkoutMinutes, getWorkoutSlotTargets, WORKOUT_MEAL_FILTERS } from "./workoutTiming";
+import { CuisinePreferences } from "./cuisines";
+import {
+  createBudgetTracker,
+  createPurchaseCost,
+  hasWeeklyBudget,
+  MealBudget,
+  withPlanCosts
+} from "./weeklyBudget";
+import { generateShoppingList } from "./generateShoppingList";
+import { getStorePurchaseCost } from "./storeCatalogs";
+import { PantryItem } from "../models/Pantry";
+import { StoreCatalog } from "../models/StoreCatalog";
+import {
+  buildPlanDates,
+  getDayOfWeekForDate,
+  isSamePlanDay,
+  resolvePlanDays,
+  resolvePlanStartDate
+} from "./planCalendar";
+
+// Reruns on a tighter budget when the shopping list came out over it
+const BUDGET_RETRIES = 2;
 
 /**
  * FITNESS-FIRST WEEKLY PLAN GENERATOR (PASSO 25 - Training Day Nutrition)
@@ -21,7 +83,30 @@ import { generatePlanFingerprint } from "../utils/planFingerprint";
  * - Portions calculadas via PortionCalculator
  * - Cost tier influencia seleção de alimentos
  * - Variety constraints prevent diet monotony (PASSO 23)
- * - Training day adjustments: +15% carbs, +10% calories (PASSO 25)
+ * - Training day adjustments per session type (strength, endurance, active recovery)
+ * - mealsPerDay 3-6 real meal slots, daily macros spread by slot share
+ * - DailyMacroSolver re-portions the whole day so totals hit calories/macros
+ * - Micronutrient totals + reference intake warnings (micronutrients.ts)
+ * - Recipe mode (planMode "recipes"): mockRecipes scheduled per slot and
+ *   scaled whole to the slot target (recipePlanning.ts)
+ * - Leftovers (PlanInput.leftovers): dinner cooked double, next day's lunch
+ *   is its second serving; the day solver portions the other meals (leftovers.ts)
+ * - Calendar-dated: days run from startDate for planDays (3-14) days, each
+ *   DayPlan carries its ISO date (planCalendar.ts)
+ * - Intermittent fasting: slots outside PlanInput.eatingWindow dropped (shares
+ *   redistributed), 5:2 fasting days scaled down to lunch + dinner (fasting.ts)
+ * - Workout time: on training days the meals around the session are built
+ *   pre/post-workout and carry the session's extra carbs (workoutTiming.ts)
+ * - Pinned meals (options.lockedMeals) are kept as is and counted in the
+ *   variety / rotation state; only the unlocked slots are rebuilt (mealLocks.ts)
+ * - Dietary restrictions and allergies enforced on every food pick (MealBuilder + snacks)
+ * - Weekly budget (PlanInput.weeklyBudget): what is left of it is spread over
+ *   the meals still to build and caps their food picks, charged at shopping
+ *   list prices (whole packages, net of the pantry); the plan's list is held
+ *   against it, with up to BUDGET_RETRIES tighter reruns when it comes out
+ *   over. Every plan carries its per-day / per-meal cost (weeklyBudget.ts)
+ * - Deterministic: every rotation choice derives from a seed + reference date
+ *   (PlanGenerationOptions), so the same input can be reproduced exactly
  * 
  * Evolution:
  * - PASSO 20: MacroCalculator (BMR, TDEE, macro targets)
@@ -29,119 +114,262 @@ import { generatePlanFingerprint } from "../utils/planFingerprint";
  * - PASSO 22: MealBuilder (dynamic meal composition)
  * - PASSO 23: VarietyConstraints (diet adherence, prevent monotony)
  * - PASSO 25: Training day nutrition (carb boost for workouts)
+ * - Household members: one shared meal skeleton, portions per member
  * 
  * Fonte: Nutrient timing for performance (ISSN Position Stand 2017)
  */
 
+/**
+ * Optional seed / reference date for reproducible generation.
+ * Without a seed, one is derived from the profile and the reference date's
+ * week (same user, same week = same plan); referenceDate defaults to now.
+ * Learned food preferences (UserPreferencesStore) are read as part of the
+ * input, so reproducing a plan also needs the same preference state.
+ * The plan's food picks are learned once it is built, unless
+ * trackPreferences is false (previews: generation without side effects).
+ */
+export interface PlanGenerationOptions {
+  seed?: string;
+  referenceDate?: Date;
+  macroTolerance?: MacroTolerance; // Daily macro solver tolerance (DEFAULT_MACRO_TOLERANCE)
+  lockedMeals?: LockedMeal[];      // Pinned meals kept as is; only the other slots are rebuilt
+  startDate?: string;              // ISO start date, overrides input.startDate (regenerating keeps the plan's dates)
+  pantry?: PantryItem[];           // Stock the weekly budget doesn't buy (netted out of the list too)
+  store?: StoreCatalog;            // Store the weekly budget buys at (the list's prices)
+  trackPreferences?: boolean;      // false: food picks not learned (default true)
+}
+
 /**
  * Gera um plano semanal FITNESS-AWARE (PASSO 25 - Training Day Nutrition)
  * 
  * Now uses MealBuilder with VarietyTracker to ensure diet diversity
- * and adjusts macros for training days (+15% carbs, +10% calories)
+ * and adjusts macros per training session (see TrainingSessions)
+ *
+ * Accepts several PlanInputs for households with distinct profiles:
+ * the first one drives food selection (shared dishes), every member
+ * gets their own plate via PortionCalculator. A single input brings its
+ * partners along (getHouseholdInputs).
+ *
+ * The seed used is stored on the plan (WeeklyPlan.seed).
  */
-export function generateWeeklyPlan(input: PlanInput): WeeklyPlan {
-  const daysOfWeek: DayOfWeek[] = [
-    "monday",
-    "tuesday",
-    "wednesday",
-    "thursday",
-    "friday",
-    "saturday",
-    "sunday"
-  ];
-
-  // PASSO 25: Determine training days (4 days/week if trains=true)
-  const trainingDays = determineTrainingDays(input.trains);
+export function generateWeeklyPlan(
+  inputs: PlanInput | PlanInput[],
+  options: PlanGenerationOptions = {}
+): WeeklyPlan {
+  const memberInputs = Array.isArray(inputs) ? inputs : getHouseholdInputs(inputs);
+
+  if (!memberInputs[0]) {
+    throw new Error("Cannot generate plan: at least one PlanInput is required");
+  }
+
+  // A list over a feasible budget: rebuilt on a budget cut by the overshoot, cheapest list kept
+  let built = buildWeeklyPlan(memberInputs, options, 1);
+  let budgetShare = 1;
+  for (let attempt = 0; attempt < BUDGET_RETRIES && built.plan.budget?.status === "over_budget"; attempt++) {
+    budgetShare *= built.plan.budget.weeklyBudget / built.plan.budget.totalCost;
+    const retry = buildWeeklyPlan(memberInputs, options, budgetShare);
+    if (retry.plan.budget && retry.plan.budget.totalCost < built.plan.budget.totalCost) {
+      built = retry;
+    }
+  }
+
+  // PASSO 26: Track the kept plan's food selections to learn user preferences
+  if (options.trackPreferences !== false) {
+    userPreferencesStore.trackFoodSelections(built.selectedFoods);
+  }
+
+  return built.plan;
+}
+
+function buildWeeklyPlan(
+  memberInputs: PlanInput[],
+  options: PlanGenerationOptions,
+  budgetShare: number
+): { plan: WeeklyPlan; selectedFoods: string[] } {
+  const input = memberInputs[0];
+  const selectedFoods: string[] = [];
+
+  // Calendar-dated days: startDate (any weekday, default this week's Monday) + planDays (3-14)
+  const referenceDate = options.referenceDate ?? new Date();
+  const startDate = options.startDate ?? resolvePlanStartDate(input, referenceDate);
+  const planDates = buildPlanDates(startDate, resolvePlanDays(input.planDays));
+
+  // PASSO 25: Determine training days (user schedule, or default 4 days/week)
+  const trainingSchedule = resolveTrainingSchedule(input);
 
   const macroTargets = calculateMacroTargets(input);
   const tdeeData = calculateTDEE(input);
   const costTier = input.costTier;
   
-  // Calculate meal macro targets (rest days - baseline)
+  // Daily macro targets (rest days - baseline); each meal slot gets its share
   const restDayMacroTarget: MacroTargetPerMeal = {
-    protein: macroTargets.proteinPerMeal,
-    carbs: macroTargets.carbsPerMeal,
-    fats: macroTargets.fatsPerMeal
+    protein: macroTargets.proteinTargetPerDay,
+    carbs: macroTargets.carbsTargetPerDay,
+    fats: macroTargets.fatTargetPerDay
   };
   
-  // PASSO 25: Training day macro targets (+15% carbs, protein constant, ~+10% calories)
-  const restMealCalories = (restDayMacroTarget.protein * 4) + (restDayMacroTarget.carbs * 4) + (restDayMacroTarget.fats * 9);
-  const trainingMealCaloriesTarget = Math.round(restMealCalories * 1.1);
-  const trainingCarbs = Math.round(macroTargets.carbsPerMeal * 1.15);
-  const trainingFats = Math.max(
-    0,
-    Math.round((trainingMealCaloriesTarget - (restDayMacroTarget.protein * 4) - (trainingCarbs * 4)) / 9),
-  );
-
-  const trainingDayMacroTarget: MacroTargetPerMeal = {
-    protein: macroTargets.proteinPerMeal, // Stays constant
-    carbs: trainingCarbs,
-    fats: trainingFats
-  };
+  // Household members share the primary user's meal slots
+  const householdMembers = memberInputs.length > 1
+    ? memberInputs.map(member => buildHouseholdMember(member, input.mealsPerDay))
+    : [];
+  const people = householdMembers.length > 1 ? householdMembers.length : resolveHouseholdSize(input.householdSize);
   
   // PASSO 23: Create variety tracker
   const varietyTracker = new VarietyTracker(DEFAULT_VARIETY_CONSTRAINTS);
   const foodRotation = new FoodRotationEngine();
-  const rotationSeed = generateWeeklyRotationSeed(input);
-  
-  // Snack for 5+ meals per day (simple: yogurt + fruit)
-  const includeSnack = input.mealsPerDay >= 5;
-  const snackMeal = includeSnack ? buildSnack(mockFoods, input.excludedFoods || []) : null;
+  const store = options.store;
+  const budgetTracker = createBudgetTracker(input, planDates.length, people, createPurchaseCost(
+    options.pantry,
+    referenceDate,
+    store ? (food, grams) => getStorePurchaseCost(store, food, grams) : undefined
+  ), budgetShare);
+  const rotationSeed = options.seed ?? generateWeeklyRotationSeed(input, referenceDate);
+  const restrictions = parseDietaryRestrictions(input.restrictions);
+  // Recipe mode: no recipe repeats in the week while others are left
+  const usedRecipeIds = new Set<string>();
+
+  // Pinned meals count as already eaten this week: rebuilt slots rotate around them
+  const lockedMeals = options.lockedMeals ?? [];
+  lockedMeals.forEach(({ meal }) => {
+    recordPinnedMeal(meal, varietyTracker, foodRotation);
+    if (meal.recipeId) usedRecipeIds.add(meal.recipeId);
+  });
+
+  // Leftovers mode: from the second day on, lunch is the previous dinner's second serving
+  let previousDinner: { day: PlanDayRef; meal: Meal } | null = null;
 
   // Generate daily meals with training day awareness
-  const days: DayPlan[] = daysOfWeek.map((day, index) => {
-    const isTrainingDay = trainingDays.includes(day);
-    const macroTargetForDay = isTrainingDay ? trainingDayMacroTarget : restDayMacroTarget;
+  const generatedDays: DayPlan[] = planDates.map((date, index) => {
+    const day = getDayOfWeekForDate(date);
+    const sessionType = trainingSchedule.find(entry => entry.day === day)?.session ?? "rest";
+    const isTrainingDay = sessionType !== "rest";
+    // 5:2 low days: a fraction of the day's target over lunch + dinner
+    const fastingDay = isFastingDay(input, day);
+    const dayMacroTarget = applyFastingDayTarget(applyTrainingSessionAdjustment(restDayMacroTarget, sessionType), input, day);
 
-    const breakfastBuilt = buildBreakfast({
-      macroTargetsPerMeal: macroTargetForDay,
-      availableFoods: mockFoods,
+    // mealsPerDay slots (3-6), macros spread by each slot's share (minus slots outside the eating window);
+    // with a workout time the session's extra carbs go to the meals around it
+    const layout = getDayLayout(input, isTrainingDay, day);
+    const slotTargets = getWorkoutSlotTargets(dayMacroTarget, applyFastingDayTarget(restDayMacroTarget, input, day), layout);
+    const slotTarget = (slot: MealSlotDefinition) => slotTargets[layout.indexOf(slot)];
+    const workoutTime = isTrainingDay && getWorkoutMinutes(input) !== null ? input.workoutTime : undefined;
+    const buildContext = (slot: MealSlotDefinition): SlotBuildContext => ({
       excludedFoods: input.excludedFoods || [],
+      restrictions,
+      allergies: input.allergies || [],
       costTier,
       varietyTracker,
       foodRotation,
-      rotationSeed: `${rotationSeed}-breakfast-${index}`
+      rotationSeed: `${rotationSeed}-${slot.id}-${index}`,
+      cuisinePreferences: { cuisines: input.cuisines, flavors: input.flavors },
+      selectedFoods,
+      ...(budgetTracker ? { budget: budgetTracker.getMealBudget(slot.share) } : {})
     });
 
-    const lunchBuilt = buildMeal({
-      macroTargetsPerMeal: macroTargetForDay,
-      availableFoods: mockFoods,
-      excludedFoods: input.excludedFoods || [],
-      costTier,
-      varietyTracker,
-      foodRotation,
-      rotationSeed: `${rotationSeed}-lunch-${index}`
-    });
+    // Pinned meals and the leftover are eaten as is; the built meals cover the rest of the day
+    const fixedMeals = new Map<string, Meal>();
+    lockedMeals
+      .filter(locked => isSamePlanDay(locked, { day, date }) && layout.some(slot => slot.id === locked.slotId))
+      .forEach(locked => fixedMeals.set(locked.slotId, locked.meal));
+    if (input.leftovers && previousDinner && !fastingDay && !fixedMeals.has(LEFTOVER_TARGET_SLOT)) {
+      fixedMeals.set(LEFTOVER_TARGET_SLOT, createLeftoverMeal(previousDinner.meal, previousDinner.day));
+    }
+    const cookedLayout = layout.filter(slot => !fixedMeals.has(slot.id));
+    const fixedIngredients = Array.from(fixedMeals.values()).flatMap(meal => toPortionIngredients(meal.portions));
+    const cookedTarget = subtractMacros(dayMacroTarget, sumIngredientMacros(fixedIngredients));
 
-    const dinnerBuilt = buildMeal({
-      macroTargetsPerMeal: macroTargetForDay,
-      availableFoods: mockFoods,
-      excludedFoods: input.excludedFoods || [],
-      costTier,
-      varietyTracker,
-      foodRotation,
-      rotationSeed: `${rotationSeed}-dinner-${index}`
-    });
+    // Recipes keep their proportions: scaled per slot, not re-portioned by the day solver
+    if (input.planMode === "recipes") {
+      const recipeMeals = cookedLayout.map(slot =>
+        buildRecipeSlotMeal(
+          slot,
+          slotTarget(slot),
+          {
+            restrictions,
+            allergies: input.allergies || [],
+            excludedFoods: input.excludedFoods || [],
+            usedRecipeIds,
+            seed: `${rotationSeed}-${slot.id}-${index}`,
+            cuisinePreferences: { cuisines: input.cuisines, flavors: input.flavors }
+          },
+          buildContext(slot),
+          householdMembers,
+          day
+        )
+      );
+      const cookedSlots = cookedLayout.map((slot, slotIndex) => ({ ...slot, meal: recipeMeals[slotIndex].meal }));
+      const meals = toDayMeals(withFixedSlots(layout, cookedSlots, fixedMeals));
+      previousDinner = { day: { day, date }, meal: meals.dinner };
+      budgetTracker?.recordDay(meals);
 
-    const breakfast = convertBuiltMealToMeal(breakfastBuilt);
-    const lunch = convertBuiltMealToMeal(lunchBuilt);
-    const dinner = convertBuiltMealToMeal(dinnerBuilt);
-    const snack = snackMeal ? convertBuiltMealToMeal(snackMeal) : null;
+      return {
+        day,
+        date,
+        meals,
+        trainingDay: isTrainingDay,
+        sessionType,
+        ...(fastingDay ? { fastingDay } : {}),
+        ...(workoutTime ? { workoutTime } : {}),
+        macroResidual: buildResidual(
+          sumIngredientMacros([...recipeMeals.flatMap(({ builtMeal }) => toSolverIngredients(builtMeal)), ...fixedIngredients]),
+          dayMacroTarget,
+          options.macroTolerance
+        )
+      };
+    }
 
-    const meals: DayMeals = {
-      breakfast,
-      lunch,
-      dinner,
-      snack
-    };
+    const builtMeals = cookedLayout.map(slot =>
+      buildSlotMeal(slot, slotTarget(slot), buildContext(slot))
+    );
+
+    // Greedy per-meal portions → grams solved for the whole day together
+    const solution = solveCookedMeals(
+      builtMeals.map(toSolverIngredients),
+      cookedLayout.map(slot => ({ slot, target: slotTarget(slot) })),
+      cookedTarget,
+      options.macroTolerance
+    );
+    const cookedSlots: MealSlot[] = cookedLayout.map((slot, slotIndex) => {
+      const builtMeal = withSolvedIngredients(builtMeals[slotIndex], solution.meals[slotIndex]);
+      return {
+        ...slot,
+        meal: withMemberPlates(convertBuiltMealToMeal(builtMeal, selectedFoods), builtMeal, householdMembers, day, slot.share)
+      };
+    });
+    const slots = withFixedSlots(layout, cookedSlots, fixedMeals);
+    const meals = toDayMeals(
+      solveMemberPlates(slots, householdMembers, day, 1, options.macroTolerance, new Set(fixedMeals.keys()))
+    );
+    previousDinner = { day: { day, date }, meal: meals.dinner };
+    budgetTracker?.recordDay(meals);
 
-    return { day, meals, trainingDay: isTrainingDay };
+    return {
+      day,
+      date,
+      meals,
+      trainingDay: isTrainingDay,
+      sessionType,
+      ...(fastingDay ? { fastingDay } : {}),
+      ...(workoutTime ? { workoutTime } : {}),
+      macroResidual: fixedMeals.size > 0
+        ? buildResidual(
+          sumIngredientMacros([...solution.meals.flat(), ...fixedIngredients]),
+          dayMacroTarget,
+          options.macroTolerance
+        )
+        : solution.residual
+    };
   });
+  const days = input.leftovers ? syncLeftoverBatches(generatedDays) : generatedDays;
+
+  // Meals stay per-person; shopping list and prep summary scale by household
+  const { totalPeople } = calculateQuantities(days.length, people);
 
   const weeklyPlan: WeeklyPlan = {
-    id: generatePlanId(),
-    createdAt: new Date(),
+    id: generatePlanId(rotationSeed, referenceDate),
+    createdAt: referenceDate,
     planInput: input,
+    startDate,
     days,
     shoppingList: [],
     costTier: costTier,
@@ -154,6 +382,9 @@ export function generateWeeklyPlan(input: PlanInput): WeeklyPlan {
     proteinPerMeal: macroTargets.proteinPerMeal,
     carbsPerMeal: macroTargets.carbsPerMeal,
     fatsPerMeal: macroTargets.fatsPerMeal,
+    householdSize: totalPeople,
+    ...(householdMembers.length > 1 ? { householdMembers } : {}),
+    seed: rotationSeed,
     // PASSO 31: Add plan fingerprint for personalization guarantee
     planHash: generatePlanFingerprint(input)
   };
@@ -162,24 +393,31 @@ export function generateWeeklyPlan(input: PlanInput): WeeklyPlan {
   const mealPrepSummary = generateMealPrepSummary(weeklyPlan);
   weeklyPlan.mealPrepSummary = mealPrepSummary;
 
-  return weeklyPlan;
+  weeklyPlan.micronutrients = calculatePlanMicronutrients(days, input, macroTargets.caloriesTargetPerDay);
+
+  // What each day / meal costs; with a weekly budget, whether the shopping list holds it
+  const listItems = hasWeeklyBudget(input)
+    ? generateShoppingList(input, weeklyPlan, { pantry: options.pantry, store, today: referenceDate }).items
+    : [];
+
+  return { plan: withPlanCosts(input, weeklyPlan, listItems), selectedFoods };
 }
 
-function generateWeeklyRotationSeed(input: PlanInput): string {
-  const today = new Date();
-  const startOfYear = new Date(today.getFullYear(), 0, 1);
-  const daysSinceStart = Math.floor((today.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
+function generateWeeklyRotationSeed(input: PlanInput, referenceDate: Date): string {
+  const startOfYear = new Date(referenceDate.getFullYear(), 0, 1);
+  const daysSinceStart = Math.floor((referenceDate.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
   const weekOfYear = Math.ceil((daysSinceStart + startOfYear.getDay() + 1) / 7);
 
-  return `${today.getFullYear()}-W${weekOfYear}-${input.sex}-${input.age}-${input.weightKg}-${input.heightCm}-${input.mealsPerDay}-${input.dietStyle}-${input.costTier}-${input.fitnessGoal || "maintenance"}`;
+  return `${referenceDate.getFullYear()}-W${weekOfYear}-${input.sex}-${input.age}-${input.weightKg}-${input.heightCm}-${input.mealsPerDay}-${input.dietStyle}-${input.costTier}-${input.fitnessGoal || "maintenance"}`;
 }
 
 /**
  * Convert BuiltMeal (from MealBuilder) to Meal (WeeklyPlan format)
  * 
- * PASSO 26: Track food selections to learn user preferences automatically
+ * PASSO 26: Food selections collected in selectedFoods, learned as user
+ * preferences once the plan is kept
  */
-export function convertBuiltMealToMeal(builtMeal: ReturnType<typeof buildMeal>): Meal {
+export function convertBuiltMealToMeal(builtMeal: ReturnType<typeof buildMeal>, selectedFoods: string[] = []): Meal {
   const portions: FoodPortion[] = builtMeal.ingredients.map(ing => ({
     foodId: ing.foodId,
     gramsNeeded: ing.grams
@@ -187,166 +425,493 @@ export function convertBuiltMealToMeal(builtMeal: ReturnType<typeof buildMeal>):
   
   const foodIds = builtMeal.ingredients.map(ing => ing.foodId);
   
-  // PASSO 26: Track each food selection to learn preferences
-  builtMeal.ingredients.forEach(ing => {
-    userPreferencesStore.trackFoodSelection(ing.foodName);
-  });
+  builtMeal.ingredients.forEach(ing => selectedFoods.push(ing.foodName));
   
   return {
     id: `meal-${builtMeal.name.toLowerCase().replace(/\s+/g, "-")}`,
     name: builtMeal.name,
     foodIds,
     portions,
-    protein: builtMeal.macros.protein
+    protein: builtMeal.macros.protein,
+    ...(builtMeal.cuisine ? { cuisine: builtMeal.cuisine, dish: builtMeal.dish } : {}),
+    ...(builtMeal.rationale ? { rationale: builtMeal.rationale } : {})
   };
 }
 
 /**
- * Build simple snack (yogurt + fruit)
+ * PASSO 26: Learn the food selections of a plan generated without tracking
+ * (a preview the user applied); pinned meals and leftovers are not new picks
  */
-function buildSnack(
-  availableFoods: typeof mockFoods,
-  excludedFoods: string[]
-): ReturnType<typeof buildMeal> {
-  const yogurt = availableFoods.find(f => 
-    f.category === CATEGORIES.dairy && 
-    !excludedFoods.includes(f.name) &&
-    f.name.toLowerCase().includes("yogurt")
+export function trackPlanFoodSelections(plan: WeeklyPlan): void {
+  userPreferencesStore.trackFoodSelections(
+    plan.days
+      .flatMap(day => getDayMealSlots(day.meals))
+      .filter(slot => !slot.meal.locked && !slot.meal.leftoverOf)
+      .flatMap(slot => slot.meal.portions.flatMap(portion => resolvePlanFood(portion.foodId)?.name ?? []))
   );
-  
-  const fruit = availableFoods.find(f => 
-    f.category === CATEGORIES.fruits && 
-    !excludedFoods.includes(f.name)
+}
+
+/**
+ * Plan food behind a meal ingredient
+ */
+function resolvePlanFood(foodId: string): FoodItem | undefined {
+  return mockFoods.find(food => food.id === foodId);
+}
+
+function toPortionIngredients(portions: FoodPortion[]): SolverIngredient[] {
+  return portions.flatMap(portion => {
+    const food = resolvePlanFood(portion.foodId);
+    return food ? [{ food, grams: portion.gramsNeeded }] : [];
+  });
+}
+
+/**
+ * What is left of a target once some food is already eaten (never below zero)
+ */
+function subtractMacros(target: MacroTargetPerMeal, eaten: MacroTargetPerMeal): MacroTargetPerMeal {
+  return {
+    protein: Math.max(0, target.protein - eaten.protein),
+    carbs: Math.max(0, target.carbs - eaten.carbs),
+    fats: Math.max(0, target.fats - eaten.fats)
+  };
+}
+
+/**
+ * Day solver for the cooked meals. Workout meals are solved one by one
+ * against their own targets and the other meals against the rest of the
+ * day, so the solver can't move the session carbs back onto the other meals.
+ */
+function solveCookedMeals(
+  meals: SolverIngredient[][],
+  slots: Array<{ slot: MealSlotDefinition; target: MacroTargetPerMeal }>,
+  dayTarget: MacroTargetPerMeal,
+  tolerance?: MacroTolerance
+): DaySolution {
+  const timed = slots.map(({ slot }) => Boolean(slot.workoutTiming));
+  if (!timed.includes(true) || !timed.includes(false)) {
+    return solveDayPortions(meals, dayTarget, tolerance);
+  }
+
+  const workoutMeals = meals.map((meal, index) =>
+    timed[index] ? solveDayPortions([meal], slots[index].target, tolerance).meals[0] : null
   );
-  
-  const ingredients = [];
-  let totalProtein = 0;
-  let totalCarbs = 0;
-  let totalFats = 0;
-  
-  if (yogurt) {
-    ingredients.push({ foodId: yogurt.id, foodName: yogurt.name, grams: 150 });
-    if (yogurt.macros) {
-      totalProtein += yogurt.macros.protein * 1.5;
-      totalCarbs += yogurt.macros.carbs * 1.5;
-      totalFats += yogurt.macros.fat * 1.5;
+  const workoutTotals = sumIngredientMacros(workoutMeals.flatMap(meal => meal ?? []));
+  const others = solveDayPortions(
+    meals.filter((_, index) => !timed[index]),
+    subtractMacros(dayTarget, workoutTotals),
+    tolerance
+  );
+
+  let otherIndex = 0;
+  const solvedMeals = workoutMeals.map(meal => meal ?? others.meals[otherIndex++]);
+
+  return {
+    meals: solvedMeals,
+    residual: buildResidual(sumIngredientMacros(solvedMeals.flat()), dayTarget, tolerance)
+  };
+}
+
+/**
+ * Day slots in layout order: fixed meals (pinned / leftover) in their slots, built meals in the rest
+ */
+function withFixedSlots(layout: MealSlotDefinition[], cookedSlots: MealSlot[], fixedMeals: Map<string, Meal>): MealSlot[] {
+  return layout.flatMap(slot => {
+    const fixed = fixedMeals.get(slot.id);
+    return fixed ? [{ ...slot, meal: fixed }] : cookedSlots.filter(cooked => cooked.id === slot.id);
+  });
+}
+
+/**
+ * Count a pinned meal's foods in the week's variety / rotation state,
+ * as MealBuilder does for the meals it builds
+ */
+function recordPinnedMeal(meal: Meal, varietyTracker: VarietyTracker, foodRotation: FoodRotationEngine): void {
+  toPortionIngredients(meal.portions).forEach(({ food }) => {
+    foodRotation.recordFood(food);
+    varietyTracker.recordFoodUsage(food.name);
+    if (food.category === CATEGORIES.protein) varietyTracker.recordProteinSource(food);
+    if (food.category === CATEGORIES.vegetables) varietyTracker.recordVegetable(food);
+  });
+  varietyTracker.recordMealName(meal.name);
+}
+
+function toSolverIngredients(builtMeal: BuiltMeal): SolverIngredient[] {
+  return builtMeal.ingredients.flatMap(ingredient => {
+    const food = resolvePlanFood(ingredient.foodId);
+    return food ? [{ food, grams: ingredient.grams }] : [];
+  });
+}
+
+/**
+ * Built meal with the solver's grams (and macros recomputed from them)
+ */
+function withSolvedIngredients(builtMeal: BuiltMeal, solved: SolverIngredient[]): BuiltMeal {
+  const totals = sumIngredientMacros(solved);
+
+  return {
+    ...builtMeal,
+    ingredients: builtMeal.ingredients.map(ingredient => {
+      const match = solved.find(entry => entry.food.id === ingredient.foodId && entry.food.name === ingredient.foodName)
+        ?? solved.find(entry => entry.food.id === ingredient.foodId);
+      return match ? { ...ingredient, grams: match.grams } : ingredient;
+    }),
+    macros: {
+      protein: Math.round(totals.protein),
+      carbs: Math.round(totals.carbs),
+      fats: Math.round(totals.fats)
     }
+  };
+}
+
+/**
+ * Run the daily macro solver on every other member's plates, against their
+ * own targets (share = 1 for a whole day, the slot share for a single swap)
+ */
+function solveMemberPlates(
+  slots: MealSlot[],
+  householdMembers: HouseholdMember[],
+  day: DayOfWeek | null,
+  share: number,
+  tolerance?: MacroTolerance,
+  fixedSlotIds: ReadonlySet<string> = new Set()
+): MealSlot[] {
+  if (householdMembers.length < 2) {
+    return slots;
   }
-  
-  if (fruit) {
-    ingredients.push({ foodId: fruit.id, foodName: fruit.name, grams: 100 });
-    if (fruit.macros) {
-      totalProtein += fruit.macros.protein * 1.0;
-      totalCarbs += fruit.macros.carbs * 1.0;
-      totalFats += fruit.macros.fat * 1.0;
+
+  const solvedPlates = householdMembers.map((member, memberIndex) => {
+    if (memberIndex === 0) return null;
+
+    // Fixed plates (pinned / leftover) are already portioned
+    const plates = slots.map(slot => toPortionIngredients(slot.meal.plates?.[memberIndex]?.portions ?? []));
+    const meals = slots.map((slot, slotIndex) => (fixedSlotIds.has(slot.id) ? [] : plates[slotIndex]));
+    const eaten = sumIngredientMacros(slots.flatMap((slot, slotIndex) => (fixedSlotIds.has(slot.id) ? plates[slotIndex] : [])));
+    return solveDayPortions(meals, subtractMacros(getMemberMealTarget(member, share, day), eaten), tolerance).meals;
+  });
+
+  return slots.map((slot, slotIndex) => fixedSlotIds.has(slot.id) ? slot : {
+    ...slot,
+    meal: {
+      ...slot.meal,
+      plates: slot.meal.plates?.map(plate => {
+        const solved = solvedPlates[plate.memberIndex]?.[slotIndex];
+        return solved
+          ? { ...plate, portions: toFoodPortions(solved), protein: Math.round(sumIngredientMacros(solved).protein) }
+          : plate;
+      })
     }
-  }
-  
-  const name = ingredients.map(i => i.foodName).join(" + ");
-  
+  });
+}
+
+/**
+ * Macro targets for one household member.
+ * Members eat at the primary user's meal slots, so mealsPerDay is shared.
+ */
+function buildHouseholdMember(memberInput: PlanInput, sharedMealsPerDay: number): HouseholdMember {
+  const targets = calculateMacroTargets({ ...memberInput, mealsPerDay: sharedMealsPerDay });
+
   return {
-    name: name || "Simple Snack",
-    ingredients,
-    macros: {
-      protein: Math.round(totalProtein),
-      carbs: Math.round(totalCarbs),
-      fats: Math.round(totalFats)
-    }
+    planInput: memberInput,
+    caloriesTargetPerDay: targets.caloriesTargetPerDay,
+    proteinTargetPerDay: targets.proteinTargetPerDay,
+    carbsTargetPerDay: targets.carbsTargetPerDay,
+    fatTargetPerDay: targets.fatTargetPerDay
   };
 }
 
+function getMemberMealTarget(
+  member: HouseholdMember,
+  slotShare: number,
+  day: DayOfWeek | null
+): MacroTargetPerMeal {
+  const restTarget: MacroTargetPerMeal = {
+    protein: member.proteinTargetPerDay,
+    carbs: member.carbsTargetPerDay,
+    fats: member.fatTargetPerDay
+  };
+
+  // Each member follows their own training schedule
+  const session = day ? getSessionForDay(member.planInput, day) : "rest";
+  return getSlotMacroTarget(applyTrainingSessionAdjustment(restTarget, session), slotShare);
+}
+
 /**
- * Gera ID único para o plano
+ * Share of a daily macro target assigned to one meal slot
  */
-function generatePlanId(): string {
-  const timestamp = Date.now();
-  const random = Math.floor(Math.random() * 1000);
-  return `plan-${timestamp}-${random}`;
+function getSlotMacroTarget(dailyTarget: MacroTargetPerMeal, share: number): MacroTargetPerMeal {
+  return {
+    protein: Math.round(dailyTarget.protein * share),
+    carbs: Math.round(dailyTarget.carbs * share),
+    fats: Math.round(dailyTarget.fats * share)
+  };
+}
+
+interface SlotBuildContext {
+  excludedFoods: string[];
+  restrictions: DietaryRestriction[];
+  allergies: UserAllergy[];
+  costTier: CostTier;
+  varietyTracker: VarietyTracker;
+  foodRotation: FoodRotationEngine;
+  rotationSeed: string;
+  cuisinePreferences: CuisinePreferences;
+  selectedFoods: string[]; // Food picks to learn from (convertBuiltMealToMeal)
+  budget?: MealBudget;
+}
+
+/**
+ * Day slot layout: mealsPerDay slots minus the ones outside the eating
+ * window, tagged pre/post-workout around the user's workout time
+ */
+function getDayLayout(input: PlanInput, isTrainingDay: boolean, day: DayOfWeek | null): MealSlotDefinition[] {
+  // With a workout time the meals around the session are tagged instead of renaming the afternoon snack
+  const layout = getMealSlotLayout(input.mealsPerDay, isTrainingDay && getWorkoutMinutes(input) === null);
+  return applyWorkoutTimingToLayout(applyFastingToLayout(layout, input, day), input, isTrainingDay);
+}
+
+/**
+ * Build the meal for one slot: breakfast, full meal (lunch/dinner) or snack.
+ * Workout meals (any slot type) are full meals built from the timing's food categories.
+ */
+function buildSlotMeal(
+  { type, workoutTiming }: Pick<MealSlotDefinition, "type" | "workoutTiming">,
+  macroTarget: MacroTargetPerMeal,
+  context: SlotBuildContext
+): BuiltMeal {
+  const builderInput: MealBuilderInput = {
+    macroTargetsPerMeal: macroTarget,
+    availableFoods: mockFoods,
+    excludedFoods: context.excludedFoods,
+    restrictions: context.restrictions,
+    allergies: context.allergies,
+    costTier: context.costTier,
+    varietyTracker: context.varietyTracker,
+    foodRotation: context.foodRotation,
+    rotationSeed: context.rotationSeed,
+    cuisinePreferences: context.cuisinePreferences,
+    budget: context.budget
+  };
+
+  if (workoutTiming) {
+    return buildMeal({ ...builderInput, categoryFilter: WORKOUT_MEAL_FILTERS[workoutTiming] });
+  }
+
+  if (type === "snack" || type === "pre_workout") {
+    // Legacy afternoon pre-workout snack: no nuts right before training
+    return buildSnack(type === "pre_workout" ? { ...builderInput, categoryFilter: { includeFat: false } } : builderInput);
+  }
+
+  return type === "breakfast" ? buildBreakfast(builderInput) : buildMeal(builderInput);
+}
+
+/**
+ * Recipe-mode meal for one slot: the scheduled recipe scaled to the slot
+ * target (each member gets it scaled to their own target), or a food-built
+ * meal when no recipe fits the user's restrictions / allergies / exclusions
+ */
+function buildRecipeSlotMeal(
+  slot: MealSlotDefinition,
+  slotTarget: MacroTargetPerMeal,
+  recipeContext: RecipeSelectionContext,
+  buildContext: SlotBuildContext,
+  householdMembers: HouseholdMember[],
+  day: DayOfWeek | null
+): { meal: Meal; builtMeal: BuiltMeal } {
+  const recipe = selectRecipe(slot.type, slotTarget, recipeContext);
+  if (!recipe) {
+    const builtMeal = buildSlotMeal(slot, slotTarget, buildContext);
+    return {
+      builtMeal,
+      meal: withMemberPlates(convertBuiltMealToMeal(builtMeal, buildContext.selectedFoods), builtMeal, householdMembers, day, slot.share)
+    };
+  }
+
+  const builtMeal = scaleRecipeToTarget(recipe, slotTarget);
+  const meal: Meal = { ...convertBuiltMealToMeal(builtMeal, buildContext.selectedFoods), recipeId: recipe.id };
+  if (householdMembers.length < 2) {
+    return { builtMeal, meal };
+  }
+
+  const plates: MemberPlate[] = householdMembers.map((member, memberIndex) => {
+    if (memberIndex === 0) {
+      return { memberIndex, portions: meal.portions, protein: meal.protein };
+    }
+
+    const memberMeal = scaleRecipeToTarget(recipe, getMemberMealTarget(member, slot.share, day));
+    return {
+      memberIndex,
+      portions: memberMeal.ingredients.map(ing => ({ foodId: ing.foodId, gramsNeeded: ing.grams })),
+      protein: memberMeal.macros.protein
+    };
+  });
+
+  return { builtMeal, meal: { ...meal, plates } };
+}
+
+/**
+ * Attach one plate per household member to a shared meal.
+ * The primary user's plate mirrors meal.portions; other members are
+ * re-portioned from the same skeleton (meals without one are copied as-is).
+ */
+function withMemberPlates(
+  meal: Meal,
+  builtMeal: ReturnType<typeof buildMeal>,
+  householdMembers: HouseholdMember[],
+  day: DayOfWeek | null,
+  slotShare: number
+): Meal {
+  if (householdMembers.length < 2) {
+    return meal;
+  }
+
+  const plates: MemberPlate[] = householdMembers.map((member, memberIndex) => {
+    if (memberIndex === 0 || !builtMeal.skeleton) {
+      return { memberIndex, portions: meal.portions, protein: meal.protein };
+    }
+
+    // Index 0 is the primary user, whose mealsPerDay defines the shared slots
+    const memberMeal = portionMealForTarget(
+      builtMeal.skeleton,
+      getMemberMealTarget(member, slotShare, day)
+    );
+    return {
+      memberIndex,
+      portions: memberMeal.ingredients.map(ing => ({ foodId: ing.foodId, gramsNeeded: ing.grams })),
+      protein: memberMeal.macros.protein
+    };
+  });
+
+  return { ...meal, plates };
+}
+
+/**
+ * Gera ID do plano a partir do seed + reference date (reproduzível)
+ */
+function generatePlanId(seed: string, referenceDate: Date): string {
+  return `plan-${referenceDate.getTime()}-${hashString(seed) % 1000}`;
 }
 
 /**
  * Generate a single replacement meal for swap functionality.
  * Uses the same MealBuilder pipeline as the main plan but with a fresh
  * VarietyTracker so the swap produces a different food combination.
+ * Pass the plan's householdMembers to keep per-member plates on the new meal.
+ * slotId is the id from DayMeals.slots ("breakfast", "snack-2", "pre_workout"...).
+ *
+ * training: the day's session type (legacy callers may pass the trainingDay
+ * flag; `true` resolves to the input's schedule for that day, or strength).
+ *
+ * options.seed makes the swap reproducible (use a new seed per swap to get a
+ * different meal); without it the reference date's timestamp seeds the swap.
  */
 export function generateSingleMeal(
   input: PlanInput,
-  mealType: "breakfast" | "lunch" | "dinner" | "snack",
-  isTrainingDay: boolean
+  slotId: string,
+  training: TrainingSessionType | boolean,
+  householdMembers: HouseholdMember[] = [],
+  day: DayOfWeek | null = null,
+  options: PlanGenerationOptions = {}
 ): Meal {
+  const sessionType = resolveSwapSession(input, training, day);
   const macroTargets = calculateMacroTargets(input);
-  const baseTarget: MacroTargetPerMeal = {
-    protein: macroTargets.proteinPerMeal,
-    carbs: macroTargets.carbsPerMeal,
-    fats: macroTargets.fatsPerMeal,
+  const restTarget: MacroTargetPerMeal = {
+    protein: macroTargets.proteinTargetPerDay,
+    carbs: macroTargets.carbsTargetPerDay,
+    fats: macroTargets.fatTargetPerDay,
   };
+  const dayTarget = applyFastingDayTarget(applyTrainingSessionAdjustment(restTarget, sessionType), input, day);
+  const layout = getDayLayout(input, sessionType !== "rest", day);
+  const slot = findSwapSlot(layout, slotId);
 
-  const trainingCarbs = Math.round(baseTarget.carbs * 1.15);
-  const restMealCalories = baseTarget.protein * 4 + baseTarget.carbs * 4 + baseTarget.fats * 9;
-  const trainingFats = Math.max(
-    0,
-    Math.round((restMealCalories * 1.1 - baseTarget.protein * 4 - trainingCarbs * 4) / 9),
+  // Default seed is the current time, to ensure a different meal than the current one
+  const swapSeed = `swap-${options.seed ?? (options.referenceDate ?? new Date()).getTime()}-${slotId}`;
+  // Same target as in the plan (workout meals get the session's extra carbs)
+  const slotTarget = getWorkoutSlotTargets(dayTarget, applyFastingDayTarget(restTarget, input, day), layout)[layout.indexOf(slot)]
+    ?? getSlotMacroTarget(dayTarget, slot.share);
+  const restrictions = parseDietaryRestrictions(input.restrictions);
+  // A swapped meal gets the week's average allowance
+  const swapBudget = createBudgetTracker(
+    input,
+    resolvePlanDays(input.planDays),
+    householdMembers.length > 1 ? householdMembers.length : resolveHouseholdSize(input.householdSize)
   );
-  const macroTarget: MacroTargetPerMeal = isTrainingDay
-    ? { protein: baseTarget.protein, carbs: trainingCarbs, fats: trainingFats }
-    : baseTarget;
-
-  const freshVariety = new VarietyTracker(DEFAULT_VARIETY_CONSTRAINTS);
-  const freshRotation = new FoodRotationEngine();
-  // Use current time as seed to ensure a different meal than the current one
-  const swapSeed = `swap-${Date.now()}-${mealType}`;
-
-  if (mealType === "snack") {
-    const snackBuilt = buildSnack(mockFoods, input.excludedFoods || []);
-    return convertBuiltMealToMeal(snackBuilt);
+  const buildContext: SlotBuildContext = {
+    excludedFoods: input.excludedFoods || [],
+    restrictions,
+    allergies: input.allergies || [],
+    costTier: input.costTier,
+    varietyTracker: new VarietyTracker(DEFAULT_VARIETY_CONSTRAINTS),
+    foodRotation: new FoodRotationEngine(),
+    rotationSeed: swapSeed,
+    cuisinePreferences: { cuisines: input.cuisines, flavors: input.flavors },
+    selectedFoods: [],
+    budget: swapBudget?.getMealBudget(slot.share),
+  };
+  // PASSO 26: the swapped-in foods are learned too
+  const keep = (meal: Meal): Meal => {
+    if (options.trackPreferences !== false) {
+      userPreferencesStore.trackFoodSelections(buildContext.selectedFoods);
+    }
+    return meal;
+  };
+
+  if (input.planMode === "recipes") {
+    const recipeContext: RecipeSelectionContext = {
+      restrictions,
+      allergies: input.allergies || [],
+      excludedFoods: input.excludedFoods || [],
+      usedRecipeIds: new Set<string>(),
+      seed: swapSeed,
+      cuisinePreferences: { cuisines: input.cuisines, flavors: input.flavors },
+    };
+    return keep(buildRecipeSlotMeal(slot, slotTarget, recipeContext, buildContext, householdMembers, day).meal);
   }
 
-  const builtMeal =
-    mealType === "breakfast"
-      ? buildBreakfast({
-          macroTargetsPerMeal: macroTarget,
-          availableFoods: mockFoods,
-          excludedFoods: input.excludedFoods || [],
-          costTier: input.costTier,
-          varietyTracker: freshVariety,
-          foodRotation: freshRotation,
-          rotationSeed: swapSeed,
-        })
-      : buildMeal({
-          macroTargetsPerMeal: macroTarget,
-          availableFoods: mockFoods,
-          excludedFoods: input.excludedFoods || [],
-          costTier: input.costTier,
-          varietyTracker: freshVariety,
-          foodRotation: freshRotation,
-          rotationSeed: swapSeed,
-        });
-
-  return convertBuiltMealToMeal(builtMeal);
+  const greedyMeal = buildSlotMeal(slot, slotTarget, buildContext);
+
+  // Only this meal changes: solve it against the slot's share of the day
+  const builtMeal = withSolvedIngredients(
+    greedyMeal,
+    solveDayPortions([toSolverIngredients(greedyMeal)], slotTarget, options.macroTolerance).meals[0]
+  );
+  const meal = withMemberPlates(convertBuiltMealToMeal(builtMeal, buildContext.selectedFoods), builtMeal, householdMembers, day, slot.share);
+
+  return keep(solveMemberPlates([{ ...slot, meal }], householdMembers, day, slot.share, options.macroTolerance)[0].meal);
 }
 
 /**
- * PASSO 25: Determine which days are training days
- * 
- * Strategy for 4 training days/week (trains=true):
- * - Monday: Training (start week strong)
- * - Tuesday: Rest
- * - Wednesday: Training (mid-week)
- * - Thursday: Training (consistency)
- * - Friday: Rest (recovery before weekend)
- * - Saturday: Training (weekend energy)
- * - Sunday: Rest (full recovery)
- * 
- * Pattern: Mon-Wed-Thu-Sat (common 4-day split)
- * 
- * @param trains - Whether user trains (from PlanInput)
- * @returns Array of days that are training days
+ * Slot being swapped. Legacy meal types ("snack") still resolve when the
+ * day's layout renamed the slot (e.g. pre-workout on training days).
  */
-function determineTrainingDays(trains: boolean): DayOfWeek[] {
-  if (!trains) {
-    return []; // No training days
+function findSwapSlot(layout: MealSlotDefinition[], slotId: string): MealSlotDefinition {
+  const baseType = slotId.split("-")[0];
+  const isInBetween = (type: string) => type === "snack" || type === "pre_workout";
+
+  const slot = layout.find(entry => entry.id === slotId)
+    ?? layout.find(entry => entry.type === baseType)
+    ?? (isInBetween(baseType) ? layout.find(entry => isInBetween(entry.type)) : undefined);
+
+  if (slot) {
+    return slot;
   }
-  
-  // 4 training days: Mon, Wed, Thu, Sat
-  return ["monday", "wednesday", "thursday", "saturday"];
+
+  const fallbackType: MealSlotType = isInBetween(baseType) ? "snack" : "lunch";
+  return { id: slotId, type: fallbackType, share: 1 / layout.length };
+}
+
+function resolveSwapSession(
+  input: PlanInput,
+  training: TrainingSessionType | boolean,
+  day: DayOfWeek | null
+): TrainingSessionType {
+  if (typeof training === "string") {
+    return training;
+  }
+
+  if (!training) {
+    return "rest";
+  }
+
+  const scheduled = day ? getSessionForDay(input, day) : "rest";
+  return scheduled !== "rest" ? scheduled : "strength";
 }
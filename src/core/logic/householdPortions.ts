@@ -0,0 +1,92 @@
+/**
+ * Household portion helpers
+ *
+ * A plan can feed more than one person in two ways:
+ * - householdSize: identical eaters, per-person portions are multiplied
+ * - householdMembers: distinct profiles, every meal carries one plate per member
+ *   (PlanInput.partners, expanded by getHouseholdInputs)
+ *
+ * Shopping list, prep summary and validation use these helpers so both
+ * modes add up the same way.
+ */
+
+import { PlanInput } from "../models/PlanInput";
+import { WeeklyPlan, Meal, FoodPortion } from "../models/WeeklyPlan";
+import { resolveHouseholdSize } from "./calculateQuantities";
+
+/**
+ * Member inputs of a plan: the user, then one per partner.
+ * Partners share the user's food settings (restrictions, allergies, meals,
+ * schedule, budget) with their own body and goal; the user's protein
+ * target and program calories stay the user's.
+ */
+export function getHouseholdInputs(input: PlanInput): PlanInput[] {
+  const {
+    partners = [],
+    householdSize: _householdSize,
+    proteinTargetPerDay: _proteinTargetPerDay,
+    calorieMultiplier: _calorieMultiplier,
+    ...shared
+  } = input;
+
+  return [
+    input,
+    ...partners.map(partner => ({
+      ...shared,
+      ...partner,
+      fitnessGoal: partner.fitnessGoal ?? "maintenance"
+    }))
+  ];
+}
+
+/**
+ * True when meals carry per-member plates (distinct profiles)
+ */
+export function hasMemberPlates(weeklyPlan: Pick<WeeklyPlan, "householdMembers">): boolean {
+  return (weeklyPlan.householdMembers?.length ?? 0) > 1;
+}
+
+/**
+ * Number of people eating the plan
+ */
+export function getHouseholdHeadcount(
+  weeklyPlan: Pick<WeeklyPlan, "householdMembers" | "householdSize" | "planInput">,
+  input?: PlanInput
+): number {
+  if (hasMemberPlates(weeklyPlan)) {
+    return weeklyPlan.householdMembers!.length;
+  }
+
+  return resolveHouseholdSize(
+    input?.householdSize ?? weeklyPlan.householdSize ?? weeklyPlan.planInput?.householdSize
+  );
+}
+
+/**
+ * Multiplier applied on top of getHouseholdPortions.
+ * Plates already include every member, so only identical eaters multiply.
+ */
+export function getPortionMultiplier(
+  weeklyPlan: Pick<WeeklyPlan, "householdMembers" | "householdSize" | "planInput">,
+  input?: PlanInput
+): number {
+  return hasMemberPlates(weeklyPlan) ? 1 : getHouseholdHeadcount(weeklyPlan, input);
+}
+
+/**
+ * Portions of a meal for everyone at the table (plates summed per food)
+ */
+export function getHouseholdPortions(meal: Meal): FoodPortion[] {
+  if (!meal.plates || meal.plates.length === 0) {
+    return meal.portions;
+  }
+
+  const gramsByFood = new Map<string, number>();
+  meal.plates.forEach(plate => {
+    plate.portions.forEach(portion => {
+      gramsByFood.set(portion.foodId, (gramsByFood.get(portion.foodId) || 0) + portion.gramsNeeded);
+    });
+  });
+
+  return Array.from(gramsByFood.entries()).map(([foodId, gramsNeeded]) => ({ foodId, gramsNeeded }));
+}
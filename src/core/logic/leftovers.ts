@@ -0,0 +1,86 @@
+/**
+ * Cook once, eat twice (PlanInput.leftovers)
+ *
+ * Dinner on day N is cooked as a double batch and eaten again as lunch on
+ * day N+1:
+ * - the lunch is a copy of that dinner with leftoverOf → { day, date, slotId }
+ * - the dinner carries batchServings = 2
+ * - prep guide, shopping list and Today treat the lunch as "no cooking"
+ *   (its groceries are bought and cooked with the dinner)
+ *
+ * A link only holds while the dinner is unchanged: swapping the dinner turns
+ * the lunch back into a regular meal (syncLeftoverBatches).
+ */
+
+import { DayPlan, Meal, PlanDayRef } from "../models/WeeklyPlan";
+import { getDayMealSlots, replaceSlotMeal } from "./mealSlots";
+import { getPlanDayKey, isSamePlanDay, toPlanDayRef } from "./planCalendar";
+
+export const LEFTOVER_SOURCE_SLOT = "dinner";
+export const LEFTOVER_TARGET_SLOT = "lunch";
+
+export function isLeftoverMeal(meal: Meal | null | undefined): boolean {
+  return Boolean(meal?.leftoverOf);
+}
+
+/**
+ * Lunch made of a dinner's second serving
+ */
+export function createLeftoverMeal(dinner: Meal, dinnerDay: PlanDayRef): Meal {
+  const { batchServings: _batchServings, locked: _locked, ...meal } = dinner;
+  return { ...meal, leftoverOf: { ...toPlanDayRef(dinnerDay), slotId: LEFTOVER_SOURCE_SLOT } };
+}
+
+/**
+ * Cooked meal a leftover comes from (undefined when the link no longer holds)
+ */
+export function findLeftoverSource(days: DayPlan[], meal: Meal): Meal | undefined {
+  if (!meal.leftoverOf) {
+    return undefined;
+  }
+
+  const { slotId } = meal.leftoverOf;
+  const dayPlan = days.find(entry => isSamePlanDay(entry, meal.leftoverOf!));
+  const source = dayPlan && getDayMealSlots(dayPlan.meals).find(slot => slot.id === slotId)?.meal;
+  return source && source.id === meal.id && !source.leftoverOf ? source : undefined;
+}
+
+/**
+ * Keep links and batches consistent: leftovers whose dinner changed are
+ * unlinked, dinners feeding a leftover are cooked double, others single
+ */
+export function syncLeftoverBatches(days: DayPlan[]): DayPlan[] {
+  const linked = days.map(day =>
+    getDayMealSlots(day.meals).reduce((dayPlan, slot) => {
+      if (!slot.meal.leftoverOf || findLeftoverSource(days, slot.meal)) {
+        return dayPlan;
+      }
+      const { leftoverOf: _leftoverOf, ...meal } = slot.meal;
+      return { ...dayPlan, meals: replaceSlotMeal(dayPlan.meals, slot.id, meal) };
+    }, day)
+  );
+
+  const batches = new Map<string, number>();
+  linked.forEach(day =>
+    getDayMealSlots(day.meals).forEach(({ meal }) => {
+      if (meal.leftoverOf) {
+        const key = `${getPlanDayKey(meal.leftoverOf)}:${meal.leftoverOf.slotId}`;
+        batches.set(key, (batches.get(key) ?? 1) + 1);
+      }
+    })
+  );
+
+  return linked.map(day =>
+    getDayMealSlots(day.meals).reduce((dayPlan, slot) => {
+      const servings = batches.get(`${getPlanDayKey(day)}:${slot.id}`);
+      if (servings === slot.meal.batchServings || (!servings && slot.meal.batchServings === undefined)) {
+        return dayPlan;
+      }
+      const { batchServings: _batchServings, ...meal } = slot.meal;
+      return {
+        ...dayPlan,
+        meals: replaceSlotMeal(dayPlan.meals, slot.id, servings ? { ...meal, batchServings: servings } : meal)
+      };
+    }, day)
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Pinned meals (Meal.locked)
+ *
+ * Users pin single meals or whole days; regenerating the week rebuilds only
+ * the unlocked slots (generateWeeklyPlan options.lockedMeals) and keeps the
+ * pinned meals exactly as they are, portions and plates included.
+ */
+
+import { DayPlan, Meal, PlanDayRef } from "../models/WeeklyPlan";
+import { getDayMealSlots, replaceSlotMeal } from "./mealSlots";
+import { toPlanDayRef } from "./planCalendar";
+
+export interface LockedMeal extends PlanDayRef {
+  slotId: string;
+  meal: Meal;
+}
+
+/**
+ * Every pinned meal of the plan, in day/slot order
+ */
+export function getLockedMeals(days: DayPlan[]): LockedMeal[] {
+  return days.flatMap(day =>
+    getDayMealSlots(day.meals)
+      .filter(slot => slot.meal?.locked)
+      .map(slot => ({ ...toPlanDayRef(day), slotId: slot.id, meal: slot.meal }))
+  );
+}
+
+export function isDayLocked(day: DayPlan): boolean {
+  return getDayMealSlots(day.meals).every(slot => slot.meal?.locked);
+}
+
+export function setMealLocked(days: DayPlan[], dayIndex: number, slotId: string, locked: boolean): DayPlan[] {
+  return days.map((day, index) => {
+    const slot = index === dayIndex ? getDayMealSlots(day.meals).find(entry => entry.id === slotId) : undefined;
+    return slot ? { ...day, meals: replaceSlotMeal(day.meals, slotId, withLock(slot.meal, locked)) } : day;
+  });
+}
+
+export function setDayLocked(days: DayPlan[], dayIndex: number, locked: boolean): DayPlan[] {
+  return days.map((day, index) =>
+    index === dayIndex
+      ? {
+        ...day,
+        meals: getDayMealSlots(day.meals).reduce(
+          (meals, slot) => replaceSlotMeal(meals, slot.id, withLock(slot.meal, locked)),
+          day.meals
+        )
+      }
+      : day
+  );
+}
+
+function withLock(meal: Meal, locked: boolean): Meal {
+  const { locked: _locked, ...rest } = meal;
+  return locked ? { ...rest, locked: true } : rest;
+}
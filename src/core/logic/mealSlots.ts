@@ -0,0 +1,170 @@
+/**
+ * Meal slots per day (mealsPerDay 3-6)
+ *
+ * Each layout lists the day's eating occasions in order with the share of
+ * daily macros they carry. Shares always add up to 1, so the day's meals
+ * hit the daily targets no matter how many slots there are.
+ *
+ * On training days the afternoon snack becomes a pre-workout meal, unless
+ * the user set a workout time (the meals around it are tagged instead, see
+ * workoutTiming).
+ */
+
+import { DayMeals, Meal, MealSlot, MealSlotType, MealType, WorkoutTiming } from "../models/WeeklyPlan";
+
+export interface MealSlotDefinition {
+  id: string;
+  type: MealSlotType;
+  share: number;
+  workoutTiming?: WorkoutTiming;
+}
+
+type SlotLayoutEntry = { type: MealType; share: number; afternoon?: boolean };
+
+const MEAL_SLOT_LAYOUTS: Record<number, SlotLayoutEntry[]> = {
+  3: [
+    { type: "breakfast", share: 0.3 },
+    { type: "lunch", share: 0.35 },
+    { type: "dinner", share: 0.35 }
+  ],
+  4: [
+    { type: "breakfast", share: 0.25 },
+    { type: "lunch", share: 0.3 },
+    { type: "snack", share: 0.15, afternoon: true },
+    { type: "dinner", share: 0.3 }
+  ],
+  5: [
+    { type: "breakfast", share: 0.22 },
+    { type: "snack", share: 0.1 },
+    { type: "lunch", share: 0.28 },
+    { type: "snack", share: 0.12, afternoon: true },
+    { type: "dinner", share: 0.28 }
+  ],
+  6: [
+    { type: "breakfast", share: 0.2 },
+    { type: "snack", share: 0.1 },
+    { type: "lunch", share: 0.25 },
+    { type: "snack", share: 0.12, afternoon: true },
+    { type: "dinner", share: 0.25 },
+    { type: "snack", share: 0.08 }
+  ]
+};
+
+export const MIN_MEALS_PER_DAY = 3;
+export const MAX_MEALS_PER_DAY = 6;
+
+// Usual time of the main meals (minutes after midnight)
+const MAIN_MEAL_MINUTES: Partial<Record<MealSlotType, number>> = {
+  breakfast: 8 * 60,
+  lunch: 13 * 60,
+  dinner: 19 * 60 + 30
+};
+const EVENING_SNACK_OFFSET = 2 * 60;
+
+/**
+ * Slot layout for a day (mealsPerDay is clamped to 3-6)
+ */
+export function getMealSlotLayout(mealsPerDay: number, isTrainingDay: boolean = false): MealSlotDefinition[] {
+  const count = Math.min(MAX_MEALS_PER_DAY, Math.max(MIN_MEALS_PER_DAY, Math.round(mealsPerDay) || MIN_MEALS_PER_DAY));
+  const seen = new Map<MealSlotType, number>();
+
+  return MEAL_SLOT_LAYOUTS[count].map(entry => {
+    const type: MealSlotType = isTrainingDay && entry.afternoon ? "pre_workout" : entry.type;
+    const occurrence = (seen.get(type) || 0) + 1;
+    seen.set(type, occurrence);
+
+    return {
+      id: occurrence === 1 ? type : `${type}-${occurrence}`,
+      type,
+      share: entry.share
+    };
+  });
+}
+
+/**
+ * Usual time of each slot (minutes after midnight): main meals at fixed
+ * times, in-between meals halfway between their neighbours (after dinner:
+ * two hours later)
+ */
+export function getSlotMinutes(layout: Pick<MealSlotDefinition, "type">[]): number[] {
+  return layout.map((slot, index) => {
+    const fixed = MAIN_MEAL_MINUTES[slot.type];
+    if (fixed !== undefined) return fixed;
+
+    const previous = layout.slice(0, index).reverse().find(entry => MAIN_MEAL_MINUTES[entry.type] !== undefined);
+    const next = layout.slice(index + 1).find(entry => MAIN_MEAL_MINUTES[entry.type] !== undefined);
+    const previousMinutes = previous ? MAIN_MEAL_MINUTES[previous.type]! : MAIN_MEAL_MINUTES.breakfast!;
+    return next ? (previousMinutes + MAIN_MEAL_MINUTES[next.type]!) / 2 : previousMinutes + EVENING_SNACK_OFFSET;
+  });
+}
+
+/**
+ * Slots of a day in eating order.
+ * Older saved plans have no slots, so they are rebuilt from the fixed fields.
+ */
+export function getDayMealSlots(meals: DayMeals): MealSlot[] {
+  if (meals.slots && meals.slots.length > 0) {
+    return meals.slots;
+  }
+
+  const legacy: MealSlot[] = [
+    { id: "breakfast", type: "breakfast", share: 0, meal: meals.breakfast },
+    { id: "lunch", type: "lunch", share: 0, meal: meals.lunch },
+    { id: "dinner", type: "dinner", share: 0, meal: meals.dinner }
+  ];
+  if (meals.snack) {
+    legacy.push({ id: "snack", type: "snack", share: 0, meal: meals.snack });
+  }
+
+  return legacy;
+}
+
+/**
+ * Every meal of a day in eating order
+ */
+export function getDayMealList(meals: DayMeals): Meal[] {
+  return getDayMealSlots(meals).map(slot => slot.meal).filter(Boolean);
+}
+
+/**
+ * Meal type used for shopping/prep grouping (pre-workout counts as a snack)
+ */
+export function getSlotMealType(type: MealSlotType): MealType {
+  return type === "pre_workout" ? "snack" : type;
+}
+
+/**
+ * Build DayMeals from slots, keeping the fixed fields in sync
+ */
+export function toDayMeals(slots: MealSlot[]): DayMeals {
+  const find = (type: MealSlotType) => slots.find(slot => slot.type === type)?.meal;
+  const firstInBetween = slots.find(slot => slot.type === "snack" || slot.type === "pre_workout");
+
+  return {
+    // Days without breakfast (eating window, fasting day) expose their first meal here
+    breakfast: find("breakfast") ?? slots[0]?.meal,
+    lunch: find("lunch")!,
+    dinner: find("dinner")!,
+    snack: firstInBetween?.meal ?? null,
+    slots
+  };
+}
+
+/**
+ * Replace one slot's meal (swap), keeping the fixed fields in sync
+ */
+export function replaceSlotMeal(meals: DayMeals, slotId: string, meal: Meal): DayMeals {
+  const slots = getDayMealSlots(meals);
+  if (!slots.some(slot => slot.id === slotId)) {
+    return meals;
+  }
+
+  const updated = toDayMeals(slots.map(slot => (slot.id === slotId ? { ...slot, meal } : slot)));
+  if (meals.slots) {
+    return updated;
+  }
+
+  // Older plans without slots keep their original shape
+  const { breakfast, lunch, dinner, snack } = updated;
+  return { breakfast, lunch, dinner, snack };
+}
@@ -0,0 +1,197 @@
+/**
+ * Micronutrient & fiber tracking
+ *
+ * Sums fiber, sugar, sodium, saturated fat and key micronutrients of every
+ * day of a plan (primary user's portions) and flags days that fall below
+ * reference intakes or above upper limits (e.g. a fiber-poor cutting plan,
+ * a sodium-heavy week of canned foods).
+ *
+ * Reference intakes (adults):
+ * - Fiber ≥ 25g, potassium ≥ 3500mg (EFSA)
+ * - Calcium ≥ 1000mg, vitamin D ≥ 15µg, iron ≥ 8mg (men) / 18mg (women) (NIH RDA)
+ * - Sodium ≤ 2300mg (NIH CDRR)
+ * - Sugar and saturated fat ≤ 10% of calories (WHO)
+ */
+
+import { Micronutrients } from "../models/FoodItem";
+import { DayPlan, FoodPortion, PlanDayRef } from "../models/WeeklyPlan";
+import { PlanInput } from "../models/PlanInput";
+import { mockFoods } from "../../data/mockFoods";
+import { getDayMealList } from "./mealSlots";
+import { toPlanDayRef } from "./planCalendar";
+
+export type MicronutrientKey = keyof Micronutrients;
+
+export interface ReferenceIntake {
+  amount: number;
+  type: "min" | "max";
+}
+
+export interface DayMicronutrients extends PlanDayRef {
+  totals: Micronutrients;
+}
+
+export interface MicronutrientWarning extends PlanDayRef {
+  nutrient: MicronutrientKey;
+  amount: number;    // Day total
+  reference: number; // Reference intake / upper limit
+  type: "below_reference" | "above_limit";
+}
+
+export interface PlanMicronutrients {
+  days: DayMicronutrients[];
+  weeklyTotals: Micronutrients;
+  dailyAverage: Micronutrients;
+  warnings: MicronutrientWarning[];
+}
+
+export const MICRONUTRIENT_KEYS: MicronutrientKey[] = [
+  "fiber", "sugar", "saturatedFat", "sodium", "potassium", "calcium", "iron", "vitaminD"
+];
+
+export const MICRONUTRIENT_UNITS: Record<MicronutrientKey, string> = {
+  fiber: "g",
+  sugar: "g",
+  saturatedFat: "g",
+  sodium: "mg",
+  potassium: "mg",
+  calcium: "mg",
+  iron: "mg",
+  vitaminD: "µg"
+};
+
+export const MICRONUTRIENT_LABELS: Record<MicronutrientKey, string> = {
+  fiber: "Fiber",
+  sugar: "Sugar",
+  saturatedFat: "Saturated fat",
+  sodium: "Sodium",
+  potassium: "Potassium",
+  calcium: "Calcium",
+  iron: "Iron",
+  vitaminD: "Vitamin D"
+};
+
+function emptyMicronutrients(): Micronutrients {
+  return { fiber: 0, sugar: 0, saturatedFat: 0, sodium: 0, potassium: 0, calcium: 0, iron: 0, vitaminD: 0 };
+}
+
+function roundMicronutrients(values: Micronutrients): Micronutrients {
+  return MICRONUTRIENT_KEYS.reduce((rounded, key) => ({
+    ...rounded,
+    [key]: Math.round(values[key] * 10) / 10
+  }), emptyMicronutrients());
+}
+
+/**
+ * Daily reference intakes for a profile (sugar / saturated fat scale with calories)
+ */
+export function getReferenceIntakes(
+  input: Partial<Pick<PlanInput, "sex">>,
+  caloriesPerDay: number
+): Record<MicronutrientKey, ReferenceIntake> {
+  return {
+    fiber: { amount: 25, type: "min" },
+    sugar: { amount: Math.round((caloriesPerDay * 0.1) / 4), type: "max" },
+    saturatedFat: { amount: Math.round((caloriesPerDay * 0.1) / 9), type: "max" },
+    sodium: { amount: 2300, type: "max" },
+    potassium: { amount: 3500, type: "min" },
+    calcium: { amount: 1000, type: "min" },
+    iron: { amount: input.sex === "female" ? 18 : 8, type: "min" },
+    vitaminD: { amount: 15, type: "min" }
+  };
+}
+
+/**
+ * Micronutrients delivered by a list of portions
+ */
+export function calculatePortionMicronutrients(portions: FoodPortion[]): Micronutrients {
+  return portions.reduce((totals, portion) => {
+    const micronutrients = mockFoods.find(food => food.id === portion.foodId)?.micronutrients;
+    if (!micronutrients) return totals;
+
+    const factor = portion.gramsNeeded / 100;
+    return MICRONUTRIENT_KEYS.reduce((sum, key) => ({
+      ...sum,
+      [key]: sum[key] + micronutrients[key] * factor
+    }), totals);
+  }, emptyMicronutrients());
+}
+
+/**
+ * Daily + weekly totals and reference intake warnings for a plan
+ */
+export function calculatePlanMicronutrients(
+  days: DayPlan[],
+  input: Partial<Pick<PlanInput, "sex">>,
+  caloriesPerDay: number
+): PlanMicronutrients {
+  const references = getReferenceIntakes(input, caloriesPerDay);
+
+  const dayTotals: DayMicronutrients[] = days.map(day => ({
+    ...toPlanDayRef(day),
+    totals: roundMicronutrients(
+      calculatePortionMicronutrients(getDayMealList(day.meals).flatMap(meal => meal.portions))
+    )
+  }));
+
+  const weeklyTotals = dayTotals.reduce((sum, { totals }) =>
+    MICRONUTRIENT_KEYS.reduce((acc, key) => ({ ...acc, [key]: acc[key] + totals[key] }), sum),
+    emptyMicronutrients()
+  );
+
+  const dailyAverage = MICRONUTRIENT_KEYS.reduce((average, key) => ({
+    ...average,
+    [key]: dayTotals.length > 0 ? weeklyTotals[key] / dayTotals.length : 0
+  }), emptyMicronutrients());
+
+  const warnings: MicronutrientWarning[] = dayTotals.flatMap(({ totals, ...day }) =>
+    MICRONUTRIENT_KEYS.flatMap(nutrient => {
+      const reference = references[nutrient];
+      const below = reference.type === "min" && totals[nutrient] < reference.amount;
+      const above = reference.type === "max" && totals[nutrient] > reference.amount;
+
+      if (!below && !above) return [];
+      return [{
+        ...day,
+        nutrient,
+        amount: totals[nutrient],
+        reference: reference.amount,
+        type: below ? "below_reference" as const : "above_limit" as const
+      }];
+    })
+  );
+
+  return {
+    days: dayTotals,
+    weeklyTotals: roundMicronutrients(weeklyTotals),
+    dailyAverage: roundMicronutrients(dailyAverage),
+    warnings
+  };
+}
+
+/**
+ * "Fiber 28g" style label
+ */
+export function formatMicronutrient(nutrient: MicronutrientKey, amount: number): string {
+  return `${MICRONUTRIENT_LABELS[nutrient]} ${Math.round(amount * 10) / 10}${MICRONUTRIENT_UNITS[nutrient]}`;
+}
+
+/**
+ * Plain-text lines for the micronutrient section of the prep guide PDF
+ */
+export function formatMicronutrientLines(summary: PlanMicronutrients): string[] {
+  const lines = [
+    `Daily average: ${MICRONUTRIENT_KEYS.map(key => formatMicronutrient(key, summary.dailyAverage[key])).join(", ")}`
+  ];
+
+  summary.warnings.forEach(warning => {
+    const direction = warning.type === "below_reference" ? "below reference" : "above limit";
+    const weekday = warning.day.charAt(0).toUpperCase() + warning.day.slice(1);
+    const day = warning.date ? `${weekday} (${warning.date})` : weekday;
+    lines.push(
+      `${day}: ${formatMicronutrient(warning.nutrient, warning.amount)} (${direction} ${warning.reference}${MICRONUTRIENT_UNITS[warning.nutrient]})`
+    );
+  });
+
+  return lines;
+}
@@ -0,0 +1,200 @@
+/**
+ * Pantry netting and stock movements
+ *
+ * - generateShoppingList subtracts non-expired stock from each item (grams,
+ *   soonest-expiring stock first); items fully on hand are "covered by pantry"
+ * - ticking a list item as purchased adds it to the pantry (unticking takes it back)
+ * - cooking a meal takes its household portions out; leftovers were cooked
+ *   with their source meal (batchServings), so they take nothing
+ *
+ * Pure functions: persistence lives in stores/PantryStore.
+ */
+
+import { PantryEntry, PantryItem } from "../models/Pantry";
+import { Meal } from "../models/WeeklyPlan";
+import { mockFoods } from "../../data/mockFoods";
+import { getHouseholdPortions } from "./householdPortions";
+import { gramsToMarketQuantity, marketQuantityToGrams } from "../utils/marketUnits";
+
+interface PantryFood {
+  id?: string;
+  name: string;
+}
+
+export interface PantryStockEntry {
+  foodId?: string;
+  name: string;
+  grams: number;
+  expiresAt?: string;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function matchesFood(item: Pick<PantryItem, "foodId" | "name">, food: PantryFood): boolean {
+  return (Boolean(food.id) && item.foodId === food.id) || normalizeName(item.name) === normalizeName(food.name);
+}
+
+// Soonest expiry first, stock without a date last
+function byExpiry(a: { expiresAt?: string }, b: { expiresAt?: string }): number {
+  return (a.expiresAt ?? "9999-12-31").localeCompare(b.expiresAt ?? "9999-12-31");
+}
+
+export function isPantryItemExpired(item: Pick<PantryItem, "expiresAt">, today: Date = new Date()): boolean {
+  return Boolean(item.expiresAt) && item.expiresAt! < toDateKey(today);
+}
+
+/**
+ * Usable stock in grams (expired items left out), soonest expiry first
+ */
+export function getPantryStock(pantry: PantryItem[], today: Date = new Date()): PantryStockEntry[] {
+  return pantry
+    .filter(item => item.quantity > 0 && !isPantryItemExpired(item, today))
+    .sort(byExpiry)
+    .map(item => ({
+      foodId: item.foodId,
+      name: item.name,
+      grams: marketQuantityToGrams(item.quantity, item.unit),
+      expiresAt: item.expiresAt
+    }));
+}
+
+/**
+ * Take up to `grams` of a food out of the stock (mutates it), returns grams taken
+ */
+export function takeFromPantryStock(stock: PantryStockEntry[], food: PantryFood, grams: number): number {
+  let taken = 0;
+  stock.forEach(entry => {
+    if (taken >= grams || entry.grams <= 0 || !matchesFood(entry, food)) {
+      return;
+    }
+    const amount = Math.min(entry.grams, grams - taken);
+    entry.grams -= amount;
+    taken += amount;
+  });
+
+  return taken;
+}
+
+/**
+ * Add stock: merges into the same food / unit / expiry, otherwise a new item
+ */
+export function addToPantry(pantry: PantryItem[], entry: PantryEntry, now: Date = new Date()): PantryItem[] {
+  if (entry.quantity <= 0) {
+    return pantry;
+  }
+
+  const updatedAt = now.toISOString();
+  const existing = pantry.find(item =>
+    matchesFood(item, { id: entry.foodId, name: entry.name }) &&
+    item.unit === entry.unit &&
+    item.expiresAt === entry.expiresAt
+  );
+
+  if (existing) {
+    return pantry.map(item => item === existing
+      ? { ...item, quantity: Math.round((item.quantity + entry.quantity) * 100) / 100, updatedAt }
+      : item
+    );
+  }
+
+  return [
+    ...pantry,
+    {
+      ...entry,
+      id: `pantry-${now.getTime()}-${Math.random().toString(36).slice(2, 7)}`,
+      updatedAt
+    }
+  ];
+}
+
+/**
+ * Take stock out (soonest expiry first); items that run out are removed
+ */
+export function removeFromPantry(
+  pantry: PantryItem[],
+  food: PantryFood,
+  grams: number,
+  today: Date = new Date()
+): PantryItem[] {
+  let remaining = grams;
+  const taken = new Map<PantryItem, number>();
+
+  pantry
+    .filter(item => matchesFood(item, food) && !isPantryItemExpired(item, today))
+    .sort(byExpiry)
+    .forEach(item => {
+      if (remaining <= 0) {
+        return;
+      }
+      const amount = Math.min(marketQuantityToGrams(item.quantity, item.unit), remaining);
+      taken.set(item, amount);
+      remaining -= amount;
+    });
+
+  if (taken.size === 0) {
+    return pantry;
+  }
+
+  const updatedAt = today.toISOString();
+  return pantry.flatMap(item => {
+    const amount = taken.get(item);
+    if (amount === undefined) {
+      return [item];
+    }
+    const quantity = Math.round((item.quantity - gramsToMarketQuantity(amount, item.unit)) * 100) / 100;
+    return quantity > 0 ? [{ ...item, quantity, updatedAt }] : [];
+  });
+}
+
+/**
+ * Grams per food a meal takes when cooked for the whole household
+ */
+export function getMealPantryUsage(meal: Meal, portionMultiplier = 1): Array<{ foodId: string; name: string; grams: number }> {
+  if (meal.leftoverOf) {
+    return [];
+  }
+
+  const servings = meal.batchServings ?? 1;
+  return getHouseholdPortions(meal).flatMap(portion => {
+    const food = mockFoods.find(entry => entry.id === portion.foodId);
+    return food && portion.gramsNeeded > 0
+      ? [{ foodId: food.id, name: food.name, grams: portion.gramsNeeded * portionMultiplier * servings }]
+      : [];
+  });
+}
+
+/**
+ * Cooking a meal draws its ingredients from the pantry
+ */
+export function consumeMealFromPantry(
+  pantry: PantryItem[],
+  meal: Meal,
+  portionMultiplier = 1,
+  today: Date = new Date()
+): PantryItem[] {
+  return getMealPantryUsage(meal, portionMultiplier).reduce(
+    (current, usage) => removeFromPantry(current, { id: usage.foodId, name: usage.name }, usage.grams, today),
+    pantry
+  );
+}
+
+/**
+ * Undo consumeMealFromPantry (meal unmarked as cooked)
+ */
+export function restockMealToPantry(
+  pantry: PantryItem[],
+  meal: Meal,
+  portionMultiplier = 1,
+  now: Date = new Date()
+): PantryItem[] {
+  return getMealPantryUsage(meal, portionMultiplier).reduce(
+    (current, usage) => addToPantry(current, { foodId: usage.foodId, name: usage.name, quantity: Math.round(usage.grams), unit: "g" }, now),
+    pantry
+  );
+}
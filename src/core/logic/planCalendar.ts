@@ -0,0 +1,166 @@
+/**
+ * Calendar-dated plans
+ *
+ * A plan starts on a concrete date (PlanInput.startDate, any weekday) and
+ * spans planDays consecutive days (3-14); every DayPlan carries its ISO date.
+ * Without a start date the plan covers the reference date's week, Monday to
+ * Sunday, as plans did before they were dated.
+ *
+ * Dates are local calendar dates ("YYYY-MM-DD"): "today" is the user's day,
+ * not UTC's. Plans saved before dating have no DayPlan.date, so lookups fall
+ * back to the weekday.
+ */
+
+import { DayOfWeek, DayPlan, PlanDayRef, WeeklyPlan } from "../models/WeeklyPlan";
+import { PlanInput } from "../models/PlanInput";
+import { getDayMealSlots, replaceSlotMeal } from "./mealSlots";
+
+export const PLAN_DAYS_RANGE = { min: 3, max: 14 };
+export const DEFAULT_PLAN_DAYS = 7;
+
+// Date.getDay() order
+const WEEKDAYS: DayOfWeek[] = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function toISODate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local midnight of an ISO date
+ */
+export function parseISODate(isoDate: string): Date {
+  const match = ISO_DATE_PATTERN.exec(isoDate);
+  if (!match) {
+    throw new Error(`Invalid ISO date: ${isoDate}`);
+  }
+
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+export function addDays(isoDate: string, days: number): string {
+  const date = parseISODate(isoDate);
+  return toISODate(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days));
+}
+
+/**
+ * Whole days from one ISO date to another (negative when `to` comes first)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseISODate(to).getTime() - parseISODate(from).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+export function getDayOfWeekForDate(isoDate: string): DayOfWeek {
+  return WEEKDAYS[parseISODate(isoDate).getDay()];
+}
+
+/**
+ * Monday of the week a date falls in
+ */
+export function getWeekStartDate(date: Date): string {
+  const isoDate = toISODate(date);
+  return addDays(isoDate, -((date.getDay() + 6) % 7));
+}
+
+export function resolvePlanDays(planDays?: number): number {
+  if (!planDays || !Number.isFinite(planDays)) {
+    return DEFAULT_PLAN_DAYS;
+  }
+
+  return Math.min(PLAN_DAYS_RANGE.max, Math.max(PLAN_DAYS_RANGE.min, Math.round(planDays)));
+}
+
+export function resolvePlanStartDate(input: Pick<PlanInput, "startDate">, referenceDate: Date): string {
+  return input.startDate && ISO_DATE_PATTERN.test(input.startDate)
+    ? input.startDate
+    : getWeekStartDate(referenceDate);
+}
+
+export function buildPlanDates(startDate: string, planDays: number): string[] {
+  return Array.from({ length: planDays }, (_, index) => addDays(startDate, index));
+}
+
+/**
+ * Same plan day: dates when both sides have one, otherwise the weekday
+ */
+export function isSamePlanDay(a: PlanDayRef, b: PlanDayRef): boolean {
+  return a.date && b.date ? a.date === b.date : a.day === b.day;
+}
+
+/**
+ * Stable key for a plan day (date, or weekday on undated plans)
+ */
+export function getPlanDayKey(day: PlanDayRef): string {
+  return day.date ?? day.day;
+}
+
+export function toPlanDayRef(day: Pick<DayPlan, "day" | "date">): PlanDayRef {
+  return day.date ? { day: day.day, date: day.date } : { day: day.day };
+}
+
+/**
+ * Index of the plan day falling on `date` (-1 outside the plan).
+ * Undated plans match the weekday.
+ */
+export function getPlanDayIndex(plan: Pick<WeeklyPlan, "days">, date: Date = new Date()): number {
+  const isoDate = toISODate(date);
+  if (plan.days.some(day => day.date)) {
+    return plan.days.findIndex(day => day.date === isoDate);
+  }
+
+  return plan.days.findIndex(day => day.day === WEEKDAYS[date.getDay()]);
+}
+
+/**
+ * First and last date of a dated plan (null for plans saved before dating)
+ */
+export function getPlanDateRange(plan: Pick<WeeklyPlan, "days" | "startDate">): { startDate: string; endDate: string } | null {
+  const dates = plan.days.map(day => day.date).filter((date): date is string => Boolean(date));
+  const startDate = plan.startDate ?? dates[0];
+  if (!startDate || dates.length === 0) {
+    return null;
+  }
+
+  return { startDate, endDate: dates[dates.length - 1] };
+}
+
+/**
+ * Move a dated plan by whole weeks so it runs through `date` (training days
+ * stay on their weekdays). Used when an old plan is repeated; undated plans
+ * and plans still running are returned as is.
+ */
+export function shiftPlanToDate(plan: WeeklyPlan, date: Date = new Date()): WeeklyPlan {
+  const range = getPlanDateRange(plan);
+  const lateDays = range ? daysBetween(range.endDate, toISODate(date)) : 0;
+  if (!range || lateDays <= 0) {
+    return plan;
+  }
+
+  const offset = Math.ceil(lateDays / 7) * 7;
+  const shift = <T extends PlanDayRef>(ref: T): T => (ref.date ? { ...ref, date: addDays(ref.date, offset) } : ref);
+
+  return {
+    ...plan,
+    startDate: addDays(range.startDate, offset),
+    days: plan.days.map(day => ({
+      ...shift(day),
+      meals: getDayMealSlots(day.meals).reduce(
+        (meals, slot) => slot.meal.leftoverOf
+          ? replaceSlotMeal(meals, slot.id, { ...slot.meal, leftoverOf: shift(slot.meal.leftoverOf) })
+          : meals,
+        day.meals
+      )
+    })),
+    ...(plan.micronutrients
+      ? {
+        micronutrients: {
+          ...plan.micronutrients,
+          days: plan.micronutrients.days.map(shift),
+          warnings: plan.micronutrients.warnings.map(shift)
+        }
+      }
+      : {})
+  };
+}
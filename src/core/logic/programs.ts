@@ -0,0 +1,210 @@
+/**
+ * Periodized programs
+ *
+ * Turns a multi-week Program (e.g. "12-week cut": deficit blocks, refeeds,
+ * diet breaks) into one PlanInput per week, so every week is generated with
+ * generateWeeklyPlan like any single plan.
+ *
+ * Each week:
+ * - projects the body weight from the target rate (TDEE and protein follow it)
+ * - sets calorieMultiplier from the phase (deficit/surplus from the rate,
+ *   TDEE on diet breaks, a bit above on refeeds)
+ *
+ * References:
+ * - ~7700 kcal per kg of body weight change
+ * - Cuts: 0.5-1% body weight/week; lean bulks: 0.25-0.5%/week
+ */
+
+import { FitnessGoal, PlanInput } from "../models/PlanInput";
+import { Program, ProgramPhase, ProgramPhaseType, ProgramWeek } from "../models/Program";
+import { calculateTDEE } from "./calculateTDEE";
+
+const KCAL_PER_KG = 7700;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TARGET_RATE: Record<FitnessGoal, number> = {
+  cutting: 0.75,
+  maintenance: 0,
+  bulking: 0.25,
+};
+
+// Limits on the TDEE multiplier whatever the target rate
+const DEFICIT_MULTIPLIER_RANGE = { min: 0.7, max: 0.95 };
+const SURPLUS_MULTIPLIER_RANGE = { min: 1.03, max: 1.2 };
+const REFEED_MULTIPLIER = 1.1;
+
+// Cuts repeat 6-week blocks: deficit ×2, refeed, deficit ×2, diet break
+const CUT_BLOCK: ProgramPhaseType[] = ["deficit", "deficit", "refeed", "deficit", "deficit", "diet_break"];
+
+export interface CreateProgramOptions {
+  goal: FitnessGoal;
+  startDate: string | Date;   // Snapped to the Monday of that week
+  weeks: number;
+  targetRatePerWeek?: number; // Defaults to DEFAULT_TARGET_RATE[goal]
+  phases?: ProgramPhase[];    // Defaults to buildDefaultPhases(goal, weeks)
+  name?: string;
+  referenceDate?: Date;       // createdAt / id (reproducible tests)
+}
+
+export type ProgramState = "upcoming" | "active" | "completed";
+
+export interface ProgramStatus {
+  state: ProgramState;
+  currentWeek: ProgramWeek | null; // null unless active
+  nextChange: ProgramWeek | null;  // First upcoming week with a different phase
+  weeksRemaining: number;
+}
+
+/**
+ * Default phases for a goal: cuts get refeeds and diet breaks, always ending on a deficit week
+ */
+export function buildDefaultPhases(goal: FitnessGoal, weeks: number): ProgramPhase[] {
+  const types: ProgramPhaseType[] = Array.from({ length: weeks }, (_, index) => {
+    if (goal === "bulking") return "surplus";
+    if (goal === "maintenance") return "maintenance";
+    return index === weeks - 1 ? "deficit" : CUT_BLOCK[index % CUT_BLOCK.length];
+  });
+
+  return types.reduce<ProgramPhase[]>((phases, type) => {
+    const last = phases[phases.length - 1];
+    if (last && last.type === type) {
+      last.weeks += 1;
+    } else {
+      phases.push({ type, weeks: 1 });
+    }
+    return phases;
+  }, []);
+}
+
+export function createProgram(baseInput: PlanInput, options: CreateProgramOptions): Program {
+  const referenceDate = options.referenceDate ?? new Date();
+  const startDate = toMonday(typeof options.startDate === "string" ? parseDate(options.startDate) : options.startDate);
+
+  return {
+    id: `program-${referenceDate.getTime()}`,
+    name: options.name ?? `${options.weeks}-week ${options.goal} program`,
+    createdAt: referenceDate,
+    startDate: formatDate(startDate),
+    goal: options.goal,
+    targetRatePerWeek: options.targetRatePerWeek ?? DEFAULT_TARGET_RATE[options.goal],
+    // Profile only: a previous program week's multiplier must not leak into the new program
+    baseInput: { ...baseInput, fitnessGoal: options.goal, calorieMultiplier: undefined },
+    phases: options.phases ?? buildDefaultPhases(options.goal, options.weeks),
+  };
+}
+
+export function getProgramLength(program: Pick<Program, "phases">): number {
+  return program.phases.reduce((sum, phase) => sum + phase.weeks, 0);
+}
+
+/**
+ * TDEE multiplier of a week (rounded to 0.01)
+ */
+export function getPhaseCalorieMultiplier(
+  phase: ProgramPhaseType,
+  input: PlanInput,
+  targetRatePerWeek: number
+): number {
+  const dailyKcal = (input.weightKg * (targetRatePerWeek / 100) * KCAL_PER_KG) / 7;
+  const relative = dailyKcal / calculateTDEE(input).tdee;
+
+  switch (phase) {
+    case "deficit":
+      return round2(clamp(1 - relative, DEFICIT_MULTIPLIER_RANGE));
+    case "surplus":
+      return round2(clamp(1 + relative, SURPLUS_MULTIPLIER_RANGE));
+    case "refeed":
+      return REFEED_MULTIPLIER;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Every week of the program with its PlanInput adjustments
+ */
+export function getProgramWeeks(program: Program): ProgramWeek[] {
+  const start = parseDate(program.startDate);
+  const weeklyChange = program.targetRatePerWeek / 100;
+  let weightKg = program.baseInput.weightKg;
+  let weekNumber = 0;
+
+  return program.phases.flatMap(phase =>
+    Array.from({ length: phase.weeks }, () => {
+      weekNumber += 1;
+      const projectedWeightKg = Math.round(weightKg * 10) / 10;
+      const weekInput: PlanInput = { ...program.baseInput, fitnessGoal: program.goal, weightKg: projectedWeightKg };
+      const calorieMultiplier = getPhaseCalorieMultiplier(phase.type, weekInput, program.targetRatePerWeek);
+
+      if (phase.type === "deficit") weightKg *= 1 - weeklyChange;
+      if (phase.type === "surplus") weightKg *= 1 + weeklyChange;
+
+      const startDate = formatDate(new Date(start.getTime() + (weekNumber - 1) * 7 * DAY_MS));
+
+      return {
+        weekNumber,
+        startDate,
+        phase: phase.type,
+        calorieMultiplier,
+        projectedWeightKg,
+        // Each program week is a 7-day plan dated from its own start
+        input: { ...weekInput, calorieMultiplier, startDate, planDays: 7 },
+      };
+    })
+  );
+}
+
+/**
+ * PlanInput for a week (1-based), or null outside the program
+ */
+export function getProgramWeekInput(program: Program, weekNumber: number): PlanInput | null {
+  return getProgramWeeks(program).find(week => week.weekNumber === weekNumber)?.input ?? null;
+}
+
+/**
+ * Which week the date falls in and what changes next
+ */
+export function getProgramStatus(program: Program, date: Date = new Date()): ProgramStatus {
+  const weeks = getProgramWeeks(program);
+  const today = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  const index = Math.floor((today - parseDate(program.startDate).getTime()) / (7 * DAY_MS));
+
+  if (index < 0) {
+    return { state: "upcoming", currentWeek: null, nextChange: weeks[0] ?? null, weeksRemaining: weeks.length };
+  }
+
+  if (index >= weeks.length) {
+    return { state: "completed", currentWeek: null, nextChange: null, weeksRemaining: 0 };
+  }
+
+  const currentWeek = weeks[index];
+  return {
+    state: "active",
+    currentWeek,
+    nextChange: weeks.slice(index + 1).find(week => week.phase !== currentWeek.phase) ?? null,
+    weeksRemaining: weeks.length - currentWeek.weekNumber,
+  };
+}
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Dates are calendar days ("YYYY-MM-DD") handled in UTC so weeks never shift with the timezone
+function parseDate(value: string): Date {
+  return new Date(`${value.slice(0, 10)}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toMonday(date: Date): Date {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const weekday = (new Date(day).getUTCDay() + 6) % 7; // Monday = 0
+  return new Date(day - weekday * DAY_MS);
+}
@@ -0,0 +1,206 @@
+/**
+ * Recipe-driven plan mode (PlanInput.planMode = "recipes")
+ *
+ * Schedules mockRecipes per meal slot instead of composing meals from raw
+ * foods, and scales each recipe as a whole (one factor for every ingredient,
+ * so the dish keeps its proportions) to the slot's calories. The macro split
+ * is the recipe's own: the day's macroResidual reports how far it lands.
+ *
+ * - Quantities: kg / L → grams (×1000), "un" → typical piece weight,
+ *   divided by the recipe's servings
+ * - Ingredients resolve to a mockFoods item whose id is unambiguous, so the
+ *   shopping list (built from plan portions) lists the right product
+ * - Recipes are filtered by restrictions, allergies and excluded foods,
+ *   preferring those that reach the slot's calories within SCALE_RANGE, and
+ *   rotate across the week (no repeats while unused candidates remain)
+ * - Recipes of the user's cuisines / flavors (cuisines.ts) go first among them
+ */
+
+import { FoodItem } from "../models/FoodItem";
+import { Recipe, RecipeIngredient, MealType } from "../models/Recipe";
+import { MealSlotType } from "../models/WeeklyPlan";
+import { UserAllergy } from "../models/PlanInput";
+import { mockRecipes } from "../../data/mockRecipes";
+import { mockFoods } from "../../data/mockFoods";
+import { DietaryRestriction, isFoodAllowed } from "./dietaryRestrictions";
+import { isFoodSafeForAllergies } from "./allergens";
+import { isRecipeAllowed } from "./suggestRecipes";
+import { hashString } from "./FoodRotation";
+import { BuiltMeal } from "./MealBuilder";
+import { MacroTargetPerMeal } from "./PortionCalculator";
+import { caloriesForMacros, SolverIngredient, sumIngredientMacros } from "./DailyMacroSolver";
+import { CuisinePreferences, getCuisineScore } from "./cuisines";
+
+// Typical weight of one piece for "un" quantities (grams)
+const PIECE_GRAMS: Array<{ keyword: string; grams: number }> = [
+  { keyword: "egg", grams: 50 },
+  { keyword: "bread", grams: 35 },
+  { keyword: "tortilla", grams: 40 },
+  { keyword: "banana", grams: 120 },
+  { keyword: "apple", grams: 180 },
+  { keyword: "avocado", grams: 150 },
+  { keyword: "lemon", grams: 60 },
+  { keyword: "pepper", grams: 150 },
+  { keyword: "cucumber", grams: 300 },
+  { keyword: "eggplant", grams: 300 },
+  { keyword: "protein bar", grams: 60 },
+  { keyword: "rice cake", grams: 9 }
+];
+const DEFAULT_PIECE_GRAMS = 100;
+
+// Whole-recipe scaling stays within half / triple a serving
+const SCALE_RANGE = { min: 0.5, max: 3 };
+const GRAMS_STEP = 5;
+
+export interface RecipeSelectionContext {
+  restrictions: DietaryRestriction[];
+  allergies: UserAllergy[];
+  excludedFoods: string[];
+  usedRecipeIds: Set<string>; // Recipes already scheduled this week
+  seed: string;
+  cuisinePreferences?: CuisinePreferences;
+}
+
+/**
+ * Recipe meal type for a plan slot (pre-workout and extra snacks use snack recipes)
+ */
+export function getRecipeMealType(slotType: MealSlotType): MealType {
+  return slotType === "pre_workout" ? "snack" : slotType;
+}
+
+function nameWords(name: string): string[] {
+  return name.toLowerCase().replace(/[()]/g, " ").split(/\s+/).filter(word => word.length >= 3);
+}
+
+/**
+ * mockFoods item behind a recipe ingredient, or undefined when none fits.
+ * The id wins when its food matches the ingredient name; otherwise the
+ * same-category food sharing the most name words.
+ */
+export function resolveRecipeFood(ingredient: RecipeIngredient): FoodItem | undefined {
+  const words = nameWords(ingredient.name);
+  const score = (food: FoodItem) => words.filter(word => food.name.toLowerCase().includes(word)).length;
+
+  const byId = mockFoods.find(food => food.id === ingredient.foodItemId);
+  if (byId && byId.category === ingredient.category && score(byId) > 0) {
+    return byId;
+  }
+
+  return mockFoods
+    .filter(food => food.category === ingredient.category && score(food) > 0)
+    .sort((a, b) => score(b) - score(a))[0];
+}
+
+/**
+ * Grams of an ingredient in one serving
+ */
+export function getIngredientGramsPerServing(ingredient: RecipeIngredient, servings: number): number {
+  const unit = ingredient.unit.toLowerCase();
+  const name = ingredient.name.toLowerCase();
+  const grams = unit === "kg" || unit === "l"
+    ? ingredient.quantity * 1000
+    : unit === "un"
+      ? ingredient.quantity * (PIECE_GRAMS.find(entry => name.includes(entry.keyword))?.grams ?? DEFAULT_PIECE_GRAMS)
+      : ingredient.quantity;
+
+  return grams / Math.max(servings, 1);
+}
+
+/**
+ * One serving of a recipe as plan foods + grams (unresolvable garnish is dropped)
+ */
+export function getRecipeServing(recipe: Recipe): SolverIngredient[] {
+  return recipe.ingredients.flatMap(ingredient => {
+    const food = resolveRecipeFood(ingredient);
+    return food ? [{ food, grams: getIngredientGramsPerServing(ingredient, recipe.servings) }] : [];
+  });
+}
+
+/**
+ * Recipe allowed for the user: recipe metadata and the resolved foods both pass
+ */
+export function isRecipeEligible(recipe: Recipe, context: Omit<RecipeSelectionContext, "usedRecipeIds" | "seed" | "cuisinePreferences">): boolean {
+  if (!isRecipeAllowed(recipe, context.restrictions, context.allergies)) {
+    return false;
+  }
+
+  const foods = getRecipeServing(recipe).map(({ food }) => food);
+  return foods.length > 0 && foods.every(food =>
+    isFoodAllowed(food, context.restrictions) &&
+    isFoodSafeForAllergies(food, context.allergies) &&
+    !context.excludedFoods.includes(food.name)
+  );
+}
+
+/**
+ * Whole-recipe factor that brings one serving to the target calories (clamped to SCALE_RANGE)
+ */
+export function getRecipeScaleFactor(recipe: Recipe, target: MacroTargetPerMeal): number {
+  const servingCalories = sumIngredientMacros(getRecipeServing(recipe)).calories;
+  if (servingCalories <= 0) {
+    return 1;
+  }
+
+  return Math.min(SCALE_RANGE.max, Math.max(SCALE_RANGE.min, caloriesForMacros(target) / servingCalories));
+}
+
+function reachesTarget(recipe: Recipe, target: MacroTargetPerMeal): boolean {
+  const servingCalories = sumIngredientMacros(getRecipeServing(recipe)).calories;
+  const targetCalories = caloriesForMacros(target);
+  return servingCalories * SCALE_RANGE.min <= targetCalories && servingCalories * SCALE_RANGE.max >= targetCalories;
+}
+
+/**
+ * Pick the recipe for a slot (deterministic from the seed), or null when none is eligible
+ */
+export function selectRecipe(
+  slotType: MealSlotType,
+  target: MacroTargetPerMeal,
+  context: RecipeSelectionContext
+): Recipe | null {
+  const mealType = getRecipeMealType(slotType);
+  const allowed = mockRecipes.filter(recipe => recipe.mealType === mealType && isRecipeEligible(recipe, context));
+  if (allowed.length === 0) {
+    return null;
+  }
+
+  // Tiny snacks can't feed a bulking slot (nor a feast a small one) without odd portions
+  const reachable = allowed.filter(recipe => reachesTarget(recipe, target));
+  const eligible = reachable.length > 0 ? reachable : allowed;
+  const fresh = eligible.filter(recipe => !context.usedRecipeIds.has(recipe.id));
+  const unused = fresh.length > 0 ? fresh : eligible;
+  const { cuisinePreferences } = context;
+  const matching = cuisinePreferences ? unused.filter(recipe => getCuisineScore(recipe, cuisinePreferences) > 0) : [];
+  const candidates = matching.length > 0 ? matching : unused;
+  const recipe = candidates[hashString(context.seed) % candidates.length];
+
+  context.usedRecipeIds.add(recipe.id);
+  return recipe;
+}
+
+/**
+ * Scale a recipe to a slot's macro target (calories, see getRecipeScaleFactor)
+ * and return it as a built meal
+ */
+export function scaleRecipeToTarget(recipe: Recipe, target: MacroTargetPerMeal): BuiltMeal {
+  const factor = getRecipeScaleFactor(recipe, target);
+  const scaled = getRecipeServing(recipe).map(({ food, grams }) => ({
+    food,
+    grams: Math.max(GRAMS_STEP, Math.round((grams * factor) / GRAMS_STEP) * GRAMS_STEP)
+  }));
+  const totals = sumIngredientMacros(scaled);
+
+  return {
+    name: recipe.name,
+    ingredients: scaled.map(({ food, grams }) => ({ foodId: food.id, foodName: food.name, grams })),
+    macros: {
+      protein: Math.round(totals.protein),
+      carbs: Math.round(totals.carbs),
+      fats: Math.round(totals.fats)
+    }
+  };
+}
+
+export function getRecipeById(recipeId: string): Recipe | undefined {
+  return mockRecipes.find(recipe => recipe.id === recipeId);
+}
@@ -0,0 +1,88 @@
+/**
+ * Pricing regions (Region)
+ *
+ * A region picks the currency costs are shown in, the number format and the
+ * store catalogs on offer (the ones priced in its currency). Costs are
+ * computed in EUR, the currency of the food prices, and only converted
+ * (utils/currency) when displayed:
+ * - formatMoney: an EUR amount in the region's currency
+ * - formatCurrency: an amount already in some currency (a weekly budget),
+ *   in the region's number format
+ */
+
+import type { Currency, Region } from "../../types/enums";
+import type { StoreCatalog } from "../models/StoreCatalog";
+import { convertCurrency, fromEur } from "../utils/currency";
+
+export type { Region };
+
+export interface RegionSettings {
+  currency: Currency;
+  locale: string; // Intl locale for costs and quantities
+}
+
+export const REGIONS: Record<Region, RegionSettings> = {
+  PT: { currency: "EUR", locale: "pt-PT" },
+  BR: { currency: "BRL", locale: "pt-BR" },
+  US: { currency: "USD", locale: "en-US" }
+};
+
+export const DEFAULT_REGION: Region = "PT";
+
+export const REGION_IDS = Object.keys(REGIONS) as Region[];
+
+export function isRegion(value: unknown): value is Region {
+  return typeof value === "string" && value in REGIONS;
+}
+
+/**
+ * Region of a browser locale ("pt-BR" → BR, "en-US" → US), PT otherwise
+ */
+export function detectRegion(locale?: string | null): Region {
+  const country = locale?.split(/[-_]/)[1]?.toUpperCase();
+  return isRegion(country) ? country : DEFAULT_REGION;
+}
+
+/**
+ * Catalogs of the region's stores (priced in its currency)
+ */
+export function getRegionCatalogs(catalogs: StoreCatalog[], region: Region): StoreCatalog[] {
+  return catalogs.filter(catalog => catalog.currency === REGIONS[region].currency);
+}
+
+/**
+ * Amount in `currency`, in the region's number format ("12,50 €", "R$ 73,75", "$13.50")
+ */
+export function formatCurrency(
+  amount: number,
+  currency: Currency,
+  region: Region,
+  options: { signed?: boolean } = {}
+): string {
+  return new Intl.NumberFormat(REGIONS[region].locale, {
+    style: "currency",
+    currency,
+    ...(options.signed ? { signDisplay: "exceptZero" as const } : {})
+  }).format(amount);
+}
+
+/**
+ * EUR amount (food prices, shopping list) in the region's currency
+ */
+export function formatMoney(amountEur: number, region: Region, options: { signed?: boolean } = {}): string {
+  return formatCurrency(fromEur(amountEur, REGIONS[region].currency), REGIONS[region].currency, region, options);
+}
+
+/**
+ * Amount in `currency` converted to the region's currency
+ */
+export function formatConverted(amount: number, currency: Currency, region: Region): string {
+  return formatCurrency(convertCurrency(amount, currency, REGIONS[region].currency), REGIONS[region].currency, region);
+}
+
+export function formatRegionNumber(value: number, region: Region, maximumFractionDigits: number = 2): string {
+  return new Intl.NumberFormat(REGIONS[region].locale, {
+    minimumFractionDigits: Number.isInteger(value) ? 0 : Math.min(2, maximumFractionDigits),
+    maximumFractionDigits
+  }).format(value);
+}
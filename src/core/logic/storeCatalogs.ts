@@ -0,0 +1,298 @@
+/**
+ * Store price catalogs (StoreCatalog)
+ *
+ * Each store sells a food in its own package size at its own price. The
+ * shopping list keeps its quantities (what the plan needs); pricing it at
+ * a store buys whole packages of that store (loose produce by weight):
+ * - priceWithStore: the list's estimatedPrice at the chosen store
+ *   (generateShoppingList options.store)
+ * - compareStores: the same list's total at every store
+ * - suggestSplitBasket: two stores, each category bought where it's cheaper,
+ *   when that saves enough over the cheapest single store
+ *
+ * A food the store doesn't list keeps its reference price (mockFoods),
+ * so every store is compared on the whole list.
+ *
+ * Catalog prices are converted to EUR (the list's currency) through the
+ * local rate table (utils/currency).
+ */
+
+import { FoodCategory, FoodItem } from "../models/FoodItem";
+import {
+  SplitBasketStore,
+  SplitBasketSuggestion,
+  StoreCatalog,
+  StoreComparison,
+  StorePrice
+} from "../models/StoreCatalog";
+import { Currency } from "../models/PlanInput";
+import { StoreCatalogSchema } from "../validation/StoreCatalogSchema";
+import { gramsToMarketQuantity, marketQuantityToGrams } from "../utils/marketUnits";
+import { DEFAULT_BUDGET_CURRENCY, getPortionCost } from "./weeklyBudget";
+import { toEur } from "../utils/currency";
+import { mockFoods } from "../../data/mockFoods";
+import continente from "../../data/stores/continente.json";
+import pingoDoce from "../../data/stores/pingo-doce.json";
+import lidl from "../../data/stores/lidl.json";
+import paoDeAcucar from "../../data/stores/pao-de-acucar.json";
+import atacadao from "../../data/stores/atacadao.json";
+import walmart from "../../data/stores/walmart.json";
+import kroger from "../../data/stores/kroger.json";
+
+// Stores of every region (regions.getRegionCatalogs picks a region's by currency),
+// validated like an imported catalog
+export const BUILT_IN_STORE_CATALOGS: StoreCatalog[] = StoreCatalogSchema.array().parse([
+  continente,
+  pingoDoce,
+  lidl,
+  paoDeAcucar,
+  atacadao,
+  walmart,
+  kroger
+]);
+
+// A split basket is worth a second trip from this saving on (EUR, or share of the total)
+const MIN_SPLIT_SAVINGS = 2;
+const MIN_SPLIT_SAVINGS_SHARE = 0.05;
+
+/**
+ * Built-in catalogs plus the user's imports (an import replaces the
+ * built-in catalog with the same id)
+ */
+export function getStoreCatalogs(customCatalogs: StoreCatalog[] = []): StoreCatalog[] {
+  const customIds = new Set(customCatalogs.map(catalog => catalog.id));
+  return [...BUILT_IN_STORE_CATALOGS.filter(catalog => !customIds.has(catalog.id)), ...customCatalogs];
+}
+
+export function getStorePrice(catalog: StoreCatalog, foodId: string): StorePrice | undefined {
+  return catalog.prices.find(price => price.foodId === foodId);
+}
+
+/**
+ * Whole packages of the store covering the item's quantity (none for loose
+ * foods, bought to the gram), and their cost (EUR)
+ */
+export function getStoreItemCost(
+  item: FoodItem,
+  catalog: StoreCatalog
+): { packages?: number; packageGrams: number; cost: number } | undefined {
+  const price = getStorePrice(catalog, item.id);
+  if (!price) {
+    return undefined;
+  }
+
+  const grams = marketQuantityToGrams(item.quantity, item.unit);
+  if (price.loose) {
+    return { packageGrams: price.packageGrams, cost: roundCost(toEur((grams / price.packageGrams) * price.price, catalog.currency)) };
+  }
+
+  const packages = grams > 0 ? Math.ceil(grams / price.packageGrams - 1e-6) : 0;
+  return {
+    packages,
+    packageGrams: price.packageGrams,
+    cost: roundCost(toEur(packages * price.price, catalog.currency))
+  };
+}
+
+/**
+ * Cost of buying `grams` of a food at the store (EUR), undefined when the
+ * store doesn't list it (weeklyBudget.createPurchaseCost)
+ */
+export function getStorePurchaseCost(catalog: StoreCatalog, food: FoodItem, grams: number): number | undefined {
+  return getStoreItemCost({ ...food, quantity: gramsToMarketQuantity(grams, food.unit) }, catalog)?.cost;
+}
+
+/**
+ * Reference price of an item: the list's own estimate, or the mockFoods
+ * price per gram when the item was priced at another store
+ */
+function getReferenceCost(item: FoodItem): number {
+  if (!item.storeId && item.estimatedPrice !== undefined) {
+    return item.estimatedPrice;
+  }
+
+  const food = mockFoods.find(entry => entry.id === item.id);
+  return food ? getPortionCost(food, marketQuantityToGrams(item.quantity, item.unit)) : 0;
+}
+
+function getItemCost(item: FoodItem, catalog: StoreCatalog): number {
+  return getStoreItemCost(item, catalog)?.cost ?? getReferenceCost(item);
+}
+
+/**
+ * Shopping list priced at a store: listed items cost whole store packages,
+ * the others keep their reference price
+ */
+export function priceWithStore(items: FoodItem[], catalog: StoreCatalog): FoodItem[] {
+  return items.map(item => {
+    const storeCost = getStoreItemCost(item, catalog);
+    if (!storeCost) {
+      return item;
+    }
+
+    return {
+      ...item,
+      estimatedPrice: storeCost.cost,
+      storeId: catalog.id,
+      ...(storeCost.packages !== undefined
+        ? { storePackages: storeCost.packages, storePackageGrams: storeCost.packageGrams }
+        : {})
+    };
+  });
+}
+
+/**
+ * The list's total at each store, cheapest first
+ */
+export function compareStores(items: FoodItem[], catalogs: StoreCatalog[]): StoreComparison[] {
+  const toBuy = items.filter(item => item.quantity > 0);
+
+  return catalogs
+    .map(catalog => ({
+      storeId: catalog.id,
+      storeName: catalog.name,
+      total: roundCost(toBuy.reduce((sum, item) => sum + getItemCost(item, catalog), 0)),
+      unlistedItems: toBuy.filter(item => !getStorePrice(catalog, item.id)).map(item => item.name)
+    }))
+    .sort((a, b) => a.total - b.total);
+}
+
+/**
+ * Best pair of stores splitting the list by category, or null when one
+ * store is (nearly) as cheap
+ */
+export function suggestSplitBasket(items: FoodItem[], catalogs: StoreCatalog[]): SplitBasketSuggestion | null {
+  const toBuy = items.filter(item => item.quantity > 0);
+  const [cheapest] = compareStores(toBuy, catalogs);
+  if (!cheapest || catalogs.length < 2) {
+    return null;
+  }
+
+  const categories = Array.from(new Set(toBuy.map(item => item.category)));
+  const categoryCost = (catalog: StoreCatalog, category: FoodCategory) =>
+    toBuy.filter(item => item.category === category).reduce((sum, item) => sum + getItemCost(item, catalog), 0);
+
+  let best: { stores: SplitBasketStore[]; total: number } | null = null;
+  for (const [index, first] of catalogs.entries()) {
+    for (const second of catalogs.slice(index + 1)) {
+      const stores: SplitBasketStore[] = [first, second].map(catalog => ({
+        storeId: catalog.id,
+        storeName: catalog.name,
+        categories: [],
+        total: 0
+      }));
+      categories.forEach(category => {
+        const costs = [categoryCost(first, category), categoryCost(second, category)];
+        const store = stores[costs[0] <= costs[1] ? 0 : 1];
+        store.categories.push(category);
+        store.total += Math.min(costs[0], costs[1]);
+      });
+
+      const total = stores[0].total + stores[1].total;
+      if (stores.every(store => store.categories.length > 0) && (!best || total < best.total)) {
+        best = { stores, total };
+      }
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const savings = roundCost(cheapest.total - best.total);
+  if (savings < Math.max(MIN_SPLIT_SAVINGS, cheapest.total * MIN_SPLIT_SAVINGS_SHARE)) {
+    return null;
+  }
+
+  return {
+    stores: best.stores.map(store => ({ ...store, total: roundCost(store.total) })),
+    total: roundCost(best.total),
+    savings,
+    cheapestStoreId: cheapest.storeId
+  };
+}
+
+/**
+ * Catalog from an imported file: JSON (a StoreCatalog) or CSV with a
+ * foodId,name,price,packageGrams[,loose] header (";" and decimal commas accepted).
+ * A CSV catalog is named after its file. Throws when the file is invalid.
+ */
+export function parseStoreCatalogFile(
+  fileName: string,
+  text: string,
+  currency: Currency = DEFAULT_BUDGET_CURRENCY
+): StoreCatalog {
+  const baseName = fileName.replace(/\.[^.]+$/, "").trim();
+  const raw = /\.json$/i.test(fileName)
+    ? JSON.parse(text)
+    : {
+        id: baseName.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, ""),
+        name: baseName,
+        currency,
+        prices: parseCsvPrices(text)
+      };
+
+  const result = StoreCatalogSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`${issue.path.join(".") || "catalog"}: ${issue.message}`);
+  }
+
+  return result.data;
+}
+
+function parseCsvPrices(text: string): Array<Record<string, string | number | boolean>> {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const separator = lines[0].includes(";") ? ";" : ",";
+  const header = splitCsvLine(lines[0], separator).map(column => column.trim());
+  const toNumber = (value: string) => Number.parseFloat(value.trim().replace(",", "."));
+
+  return lines.slice(1).map(line => {
+    const cells = splitCsvLine(line, separator);
+    const row: Record<string, string | number | boolean> = {};
+    header.forEach((column, index) => {
+      const cell = (cells[index] ?? "").trim();
+      if (column === "price" || column === "packageGrams") {
+        row[column] = toNumber(cell);
+      } else if (column === "loose") {
+        row[column] = /^(true|yes|1)$/i.test(cell);
+      } else if (cell) {
+        row[column] = cell;
+      }
+    });
+    return row;
+  });
+}
+
+// One CSV line; double-quoted cells may hold the separator ("" is a quote)
+function splitCsvLine(line: string, separator: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"' && quoted && line[index + 1] === '"') {
+      cell += '"';
+      index++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === separator && !quoted) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+
+  return cells;
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 100) / 100;
+}
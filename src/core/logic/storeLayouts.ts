@@ -0,0 +1,98 @@
+/**
+ * Store layouts (StoreLayout)
+ *
+ * Categories group the shopping list the way the food database thinks,
+ * not the way a supermarket is walked. A layout lists the aisles in walking
+ * order; each aisle shelves whole categories and/or specific foods (eggs
+ * next to the dairy, bread at the bakery, frozen peas in the freezers):
+ * - sortByStoreLayout: the list in walking order (market mode, PDF)
+ * - groupByAisle: the same, one group per aisle
+ * - moveAisle: a layout with one aisle moved (user reordering)
+ *
+ * A food is shelved by its foodIds match first, then by category; foods
+ * the layout doesn't shelve go last.
+ */
+
+import type { FoodItem } from "../models/FoodItem";
+import type { AisleGroup, StoreAisle, StoreLayout } from "../models/StoreLayout";
+import { StoreLayoutSchema } from "../validation/StoreLayoutSchema";
+import supermarket from "../../data/storeLayouts/supermarket.json";
+import discount from "../../data/storeLayouts/discount.json";
+import coldLast from "../../data/storeLayouts/cold-last.json";
+
+export const BUILT_IN_STORE_LAYOUTS: StoreLayout[] = StoreLayoutSchema.array().parse([supermarket, discount, coldLast]);
+
+export const DEFAULT_STORE_LAYOUT_ID = "supermarket";
+
+type ShelvedItem = Pick<FoodItem, "id" | "category">;
+
+/**
+ * Built-in layouts plus the user's (a user layout replaces the built-in
+ * one with the same id, e.g. a reordered preset)
+ */
+export function getStoreLayouts(customLayouts: StoreLayout[] = []): StoreLayout[] {
+  return [
+    ...BUILT_IN_STORE_LAYOUTS.map(layout => customLayouts.find(custom => custom.id === layout.id) ?? layout),
+    ...customLayouts.filter(layout => !BUILT_IN_STORE_LAYOUTS.some(builtIn => builtIn.id === layout.id))
+  ];
+}
+
+/**
+ * Walking position of the item's aisle (-1: not shelved by the layout)
+ */
+export function getAisleIndex(item: ShelvedItem, layout: StoreLayout): number {
+  const byFood = layout.aisles.findIndex(aisle => aisle.foodIds?.includes(item.id));
+  return byFood >= 0 ? byFood : layout.aisles.findIndex(aisle => aisle.categories.includes(item.category));
+}
+
+export function getItemAisle(item: ShelvedItem, layout: StoreLayout): StoreAisle | null {
+  return layout.aisles[getAisleIndex(item, layout)] ?? null;
+}
+
+/**
+ * Items in walking order (stable within an aisle), unshelved foods last
+ */
+export function sortByStoreLayout<T extends ShelvedItem>(items: T[], layout: StoreLayout): T[] {
+  const rank = (item: T) => {
+    const index = getAisleIndex(item, layout);
+    return index >= 0 ? index : layout.aisles.length;
+  };
+
+  return items
+    .map((item, order) => ({ item, order, rank: rank(item) }))
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .map(entry => entry.item);
+}
+
+/**
+ * Items grouped by aisle in walking order (empty aisles skipped)
+ */
+export function groupByAisle<T extends ShelvedItem>(items: T[], layout: StoreLayout): AisleGroup<T>[] {
+  const groups = new Map<number, T[]>();
+  sortByStoreLayout(items, layout).forEach(item => {
+    const index = getAisleIndex(item, layout);
+    groups.set(index, [...(groups.get(index) ?? []), item]);
+  });
+
+  return Array.from(groups.entries()).map(([index, groupItems]) => ({
+    aisle: layout.aisles[index] ?? null,
+    position: index >= 0 ? index + 1 : 0,
+    items: groupItems
+  }));
+}
+
+/**
+ * Layout with one aisle moved `offset` places along the walk (clamped)
+ */
+export function moveAisle(layout: StoreLayout, aisleId: string, offset: number): StoreLayout {
+  const from = layout.aisles.findIndex(aisle => aisle.id === aisleId);
+  if (from < 0) {
+    return layout;
+  }
+
+  const to = Math.min(layout.aisles.length - 1, Math.max(0, from + offset));
+  const aisles = [...layout.aisles];
+  const [moved] = aisles.splice(from, 1);
+  aisles.splice(to, 0, moved);
+  return { ...layout, aisles };
+}
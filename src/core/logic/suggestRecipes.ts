@@ -1,7 +1,11 @@
 import { FoodItem } from "../models/FoodItem";
-import { Recipe } from "../models/Recipe";
+import { Recipe, RecipeIngredient } from "../models/Recipe";
 import { mockRecipes } from "../../data/mockRecipes";
+import { mockFoods } from "../../data/mockFoods";
 import { userPreferencesStore } from "../stores/UserPreferencesStore";
+import { DietaryRestriction, isFoodAllowed } from "./dietaryRestrictions";
+import { isFoodSafeForAllergies } from "./allergens";
+import { UserAllergy } from "../models/PlanInput";
 
 interface RecipeMatch {
   recipe: Recipe;
@@ -95,23 +99,60 @@ export function trackRecipeHabit(recipe: Recipe, event: HabitEvent): void {
   userPreferencesStore.trackFoodSelections(recipe.ingredients.map((ingredient) => ingredient.name));
 }
 
+/**
+ * Food behind a recipe ingredient (none when its id isn't in mockFoods)
+ */
+function resolveIngredientFoods(ingredient: RecipeIngredient): FoodItem[] {
+  return mockFoods.filter(food => food.id === ingredient.foodItemId);
+}
+
+/**
+ * True when every ingredient of the recipe respects the restrictions and allergies.
+ * Ingredient allergens come from the recipe itself, traces from the matching foods.
+ */
+export function isRecipeAllowed(
+  recipe: Recipe,
+  restrictions: DietaryRestriction[],
+  allergies: UserAllergy[] = []
+): boolean {
+  if (restrictions.length === 0 && allergies.length === 0) return true;
+
+  return recipe.ingredients.every(ingredient => {
+    const foods = resolveIngredientFoods(ingredient);
+    const tags = {
+      allergens: ingredient.allergens ?? foods.flatMap(food => food.allergens ?? []),
+      mayContain: foods.flatMap(food => food.mayContain ?? [])
+    };
+
+    return foods.every(food => isFoodAllowed(food, restrictions)) && isFoodSafeForAllergies(tags, allergies);
+  });
+}
+
 /**
  * Sugere receitas baseadas nos ingredientes disponíveis
  * 
  * @param items - Lista de ingredientes disponíveis (lista de compras)
+ * @param restrictions - Restrições alimentares (receitas incompatíveis nunca são sugeridas)
+ * @param allergies - Alergias do usuário (filtro obrigatório)
  * @returns Array de receitas sugeridas, ordenadas por compatibilidade
  */
-export function suggestRecipes(items: FoodItem[]): Recipe[] {
+export function suggestRecipes(
+  items: FoodItem[],
+  restrictions: DietaryRestriction[] = [],
+  allergies: UserAllergy[] = []
+): Recipe[] {
+  const allowedRecipes = mockRecipes.filter(recipe => isRecipeAllowed(recipe, restrictions, allergies));
+
   if (items.length === 0) {
     // Se não há ingredientes, retorna as 3 primeiras receitas
-    return mockRecipes.slice(0, 3);
+    return allowedRecipes.slice(0, 3);
   }
 
   // Cria um Set de IDs de alimentos disponíveis para busca rápida
   const availableFoodIds = new Set(items.map(item => item.id));
 
   // Calcula compatibilidade de cada receita
-  const recipeMatches: RecipeMatch[] = mockRecipes.map(recipe => {
+  const recipeMatches: RecipeMatch[] = allowedRecipes.map(recipe => {
     return calculateRecipeMatch(recipe, availableFoodIds);
   });
 
@@ -137,7 +178,7 @@ export function suggestRecipes(items: FoodItem[]): Recipe[] {
   // Garante pelo menos 3 sugestões
   if (suggestions.length < 3) {
     // Adiciona receitas aleatórias que não estão na lista
-    const remainingRecipes = mockRecipes.filter(
+    const remainingRecipes = allowedRecipes.filter(
       recipe => !suggestions.includes(recipe)
     );
     
@@ -208,14 +249,18 @@ export function getFullyMatchedRecipes(items: FoodItem[]): Recipe[] {
  * @param items - Lista de ingredientes disponíveis
  * @param mealType - Tipo de refeição desejada
  * @param limit - Número máximo de sugestões
+ * @param restrictions - Restrições alimentares
+ * @param allergies - Alergias do usuário
  * @returns Array de receitas sugeridas para o tipo de refeição
  */
 export function suggestRecipesByMealType(
   items: FoodItem[],
   mealType: "breakfast" | "lunch" | "dinner" | "snack",
-  limit: number = 3
+  limit: number = 3,
+  restrictions: DietaryRestriction[] = [],
+  allergies: UserAllergy[] = []
 ): Recipe[] {
-  const allSuggestions = suggestRecipes(items);
+  const allSuggestions = suggestRecipes(items, restrictions, allergies);
   
   // Filtra pelo tipo de refeição
   const filteredSuggestions = allSuggestions.filter(
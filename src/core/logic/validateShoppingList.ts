@@ -1,6 +1,11 @@
 import type { PlanInput } from "../models/PlanInput";
 import type { FoodItem } from "../models/FoodItem";
 import type { WeeklyPlan } from "../models/WeeklyPlan";
+import { getHouseholdHeadcount, hasMemberPlates } from "./householdPortions";
+import { getDayMealList } from "./mealSlots";
+import { isFoodAllowed, parseDietaryRestrictions } from "./dietaryRestrictions";
+import { getCrossContaminationWarnings, isFoodSafeForAllergies } from "./allergens";
+import { FASTING_DAY_CALORIE_FACTOR } from "./fasting";
 
 export type ValidationSeverity = "info" | "warning" | "error";
 
@@ -43,8 +48,13 @@ function normalizeText(value: string): string {
   return value.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
 }
 
-function hasRestrictionConflict(itemName: string, restrictions: string[]): boolean {
-  const normalizedItem = normalizeText(itemName);
+function hasRestrictionConflict(item: FoodItem, restrictions: string[]): boolean {
+  // Tagged foods (mockFoods) are checked against their diet/allergen tags
+  if (item.diet) {
+    return !isFoodAllowed(item, parseDietaryRestrictions(restrictions));
+  }
+
+  const normalizedItem = normalizeText(item.name);
 
   return restrictions.some((rawRestriction) => {
     const restriction = normalizeText(rawRestriction);
@@ -69,6 +79,29 @@ function hasRestrictionConflict(itemName: string, restrictions: string[]): boole
   });
 }
 
+function getHouseholdDailyTargets(
+  input: PlanInput,
+  weeklyPlan: WeeklyPlan,
+): { protein: number; carbs: number; fat: number } {
+  if (hasMemberPlates(weeklyPlan)) {
+    return weeklyPlan.householdMembers!.reduce(
+      (sum, member) => ({
+        protein: sum.protein + member.proteinTargetPerDay,
+        carbs: sum.carbs + member.carbsTargetPerDay,
+        fat: sum.fat + member.fatTargetPerDay,
+      }),
+      { protein: 0, carbs: 0, fat: 0 },
+    );
+  }
+
+  const householdSize = getHouseholdHeadcount(weeklyPlan, input);
+  return {
+    protein: weeklyPlan.proteinTargetPerDay * householdSize,
+    carbs: weeklyPlan.carbsTargetPerDay * householdSize,
+    fat: weeklyPlan.fatTargetPerDay * householdSize,
+  };
+}
+
 export function validateShoppingList(
   input: PlanInput,
   weeklyPlan: WeeklyPlan,
@@ -80,11 +113,9 @@ export function validateShoppingList(
 
   const plannedFoodIds = new Set<string>();
   for (const day of weeklyPlan.days) {
-    [day.meals.breakfast, day.meals.lunch, day.meals.dinner, day.meals.snack]
-      .filter(Boolean)
-      .forEach((meal) => {
-        meal!.foodIds.forEach((foodId) => plannedFoodIds.add(foodId));
-      });
+    getDayMealList(day.meals).forEach((meal) => {
+      meal.foodIds.forEach((foodId) => plannedFoodIds.add(foodId));
+    });
   }
 
   const listedFoodIds = new Set(items.map((item) => item.id));
@@ -110,7 +141,14 @@ export function validateShoppingList(
     );
   }
 
-  const targetProteinWeek = weeklyPlan.proteinTargetPerDay * 7;
+  // Targets are per person; the list feeds the whole household
+  const householdTargets = getHouseholdDailyTargets(input, weeklyPlan);
+  // Plans span 3-14 days: the list covers every planned day (5:2 fasting days count at their reduced target)
+  const planDayCount = weeklyPlan.days.length > 0
+    ? weeklyPlan.days.reduce((sum, day) => sum + (day.fastingDay ? FASTING_DAY_CALORIE_FACTOR : 1), 0)
+    : 7;
+
+  const targetProteinWeek = householdTargets.protein * planDayCount;
   const proteinCoveragePercent = targetProteinWeek > 0
     ? Math.round((totalProtein / targetProteinWeek) * 100)
     : 100;
@@ -140,12 +178,13 @@ export function validateShoppingList(
   }
 
   // Carbs coverage: sum carbs contribution from all items (quantity in kg/L × macros/100g × 1000)
+  // Stock already in the pantry covers the week as much as what's bought
   const totalCarbs = items.reduce((sum, item) => {
     if (!item.macros?.carbs) return sum;
-    return sum + item.quantity * item.macros.carbs * 10;
+    return sum + (item.quantity + (item.pantryQuantity || 0)) * item.macros.carbs * 10;
   }, 0);
 
-  const targetCarbsWeek = weeklyPlan.carbsTargetPerDay * 7;
+  const targetCarbsWeek = householdTargets.carbs * planDayCount;
   const carbsCoveragePercent = targetCarbsWeek > 0
     ? Math.round((totalCarbs / targetCarbsWeek) * 100)
     : 100;
@@ -166,10 +205,10 @@ export function validateShoppingList(
   // Fat coverage
   const totalFat = items.reduce((sum, item) => {
     if (!item.macros?.fat) return sum;
-    return sum + item.quantity * item.macros.fat * 10;
+    return sum + (item.quantity + (item.pantryQuantity || 0)) * item.macros.fat * 10;
   }, 0);
 
-  const targetFatWeek = weeklyPlan.fatTargetPerDay * 7;
+  const targetFatWeek = householdTargets.fat * planDayCount;
   const fatCoveragePercent = targetFatWeek > 0
     ? Math.round((totalFat / targetFatWeek) * 100)
     : 100;
@@ -187,7 +226,7 @@ export function validateShoppingList(
     );
   }
 
-  const conflictCount = items.filter((item) => hasRestrictionConflict(item.name, input.restrictions || [])).length;
+  const conflictCount = items.filter((item) => hasRestrictionConflict(item, input.restrictions || [])).length;
   if (conflictCount > 0) {
     pushIssue(
       issues,
@@ -201,6 +240,35 @@ export function validateShoppingList(
     );
   }
 
+  const allergies = input.allergies || [];
+  const allergenCount = items.filter((item) => !isFoodSafeForAllergies(item, allergies)).length;
+  if (allergenCount > 0) {
+    pushIssue(
+      issues,
+      score,
+      {
+        code: "allergen_conflicts",
+        severity: "error",
+        message: `${allergenCount} item(ns) contêm alergénios informados.`,
+      },
+      Math.min(40, 20 + allergenCount * 5),
+    );
+  }
+
+  const crossContamination = getCrossContaminationWarnings(items, allergies);
+  if (crossContamination.length > 0) {
+    pushIssue(
+      issues,
+      score,
+      {
+        code: "allergen_cross_contamination",
+        severity: "warning",
+        message: `Pode conter vestígios de alergénios: ${crossContamination.map((warning) => warning.foodName).join(", ")}.`,
+      },
+      4,
+    );
+  }
+
   const itemsWithReasonPercent = items.length > 0
     ? Math.round((items.filter((item) => Boolean(item.reason)).length / items.length) * 100)
     : 100;
@@ -219,7 +287,7 @@ export function validateShoppingList(
   }
 
   const itemsWithPricePercent = items.length > 0
-    ? Math.round((items.filter((item) => (item.estimatedPrice || 0) > 0).length / items.length) * 100)
+    ? Math.round((items.filter((item) => item.coveredByPantry || (item.estimatedPrice || 0) > 0).length / items.length) * 100)
     : 100;
 
   if (itemsWithPricePercent < 95) {
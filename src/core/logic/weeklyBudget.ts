@@ -0,0 +1,379 @@
+/**
+ * Weekly budget (PlanInput.weeklyBudget / budgetCurrency)
+ *
+ * A hard grocery budget for the whole plan and household, in the user's
+ * currency (converted to EUR, the currency of the food prices, through
+ * the local rate table, utils/currency). Unlike the cost tier it constrains the foods while
+ * the plan is built:
+ * - BudgetTracker spreads what is left of the budget over the days still
+ *   to build (each meal gets its slot's share of the day), so cheap days
+ *   leave more for the rest of the week
+ * - MealBuilder drops the foods whose portion would take more than their
+ *   macro's share of the meal's allowance (filterAffordableFoods), keeping
+ *   the cheapest few of a category when none of it fits
+ *
+ * The budget pays for the shopping list, not for the plate: the tracker
+ * charges a food what buying it adds to the list (createPurchaseCost: pantry
+ * stock first, then whole packages at the chosen store), so the first
+ * portion of a jar costs the jar and the next ones nothing. The verdict is
+ * the generated list's total (withPlanCosts).
+ *
+ * The cost breakdown, per meal and per day, is what is eaten (portion
+ * grams × price per gram, for every plate of the household).
+ *
+ * When the budget can't buy the week's protein target even with the
+ * cheapest protein per euro, the plan is still built (from the cheapest
+ * foods) and flagged "infeasible_protein".
+ */
+
+import { CATEGORIES } from "../../core/constants/categories";
+import { FoodItem } from "../models/FoodItem";
+import { Currency, PlanInput } from "../models/PlanInput";
+import { PantryItem } from "../models/Pantry";
+import {
+  DayMeals,
+  DayPlan,
+  FoodPortion,
+  Meal,
+  MealCost,
+  PlanCostBreakdown,
+  WeeklyBudgetResult,
+  WeeklyPlan
+} from "../models/WeeklyPlan";
+import { mockFoods } from "../../data/mockFoods";
+import { MacroTargetPerMeal } from "./PortionCalculator";
+import { getDayMealSlots } from "./mealSlots";
+import { toPlanDayRef } from "./planCalendar";
+import { getPantryStock, takeFromPantryStock } from "./pantry";
+import { filterFoodsByRestrictions, parseDietaryRestrictions } from "./dietaryRestrictions";
+import { filterFoodsByAllergies } from "./allergens";
+import { getShoppingListCost } from "./diffWeeklyPlans";
+import { getGramsPerMarketUnit, gramsToMarketQuantity, isDiscreteMarketUnit } from "../utils/marketUnits";
+import { CURRENCIES, fromEur, toEur } from "../utils/currency";
+
+export const DEFAULT_BUDGET_CURRENCY: Currency = "EUR";
+
+export const BUDGET_CURRENCIES = CURRENCIES;
+
+/**
+ * What a meal may cost (EUR, one person's portion)
+ */
+export interface MealBudget {
+  allowance: number;
+  // What a portion adds to the week's purchases (EUR, one person); price per gram without it
+  cost?: (food: FoodItem, grams: number) => number;
+}
+
+/**
+ * What buying `grams` of a food for the week costs (EUR)
+ */
+export type PurchaseCost = (food: FoodItem, grams: number) => number;
+
+type BudgetMacro = keyof MacroTargetPerMeal;
+
+// Share of a meal's allowance a food may take for the macro it mostly brings
+const BUDGET_SHARES: Record<BudgetMacro, number> = {
+  protein: 0.8,
+  carbs: 0.4,
+  fats: 0.3
+};
+
+const KCAL_PER_GRAM: Record<BudgetMacro, number> = {
+  protein: 4,
+  carbs: 4,
+  fats: 9
+};
+
+// Cheapest foods of a category kept when none fits the allowance (rotation still gets a choice)
+const BUDGET_FALLBACK_FOODS = 4;
+
+// Protein sources counted for the minimum protein cost (at least 10g protein per 100g)
+const MIN_PROTEIN_DENSITY = 10;
+
+export function hasWeeklyBudget(input: PlanInput): boolean {
+  return typeof input.weeklyBudget === "number" && input.weeklyBudget > 0;
+}
+
+export function resolveBudgetCurrency(input: PlanInput): Currency {
+  return input.budgetCurrency ?? DEFAULT_BUDGET_CURRENCY;
+}
+
+/**
+ * Price of one gram (or ml) of a food, in EUR
+ */
+export function getFoodCostPerGram(food: FoodItem): number {
+  return food.pricePerUnit / getGramsPerMarketUnit(food.unit);
+}
+
+export function getPortionCost(food: FoodItem, grams: number): number {
+  return getFoodCostPerGram(food) * grams;
+}
+
+/**
+ * Reference price of buying `grams` of a food: whole market units (a jar,
+ * a loaf), loose foods by weight
+ */
+export function getPackagedCost(food: FoodItem, grams: number): number {
+  if (grams <= 0) {
+    return 0;
+  }
+
+  return isDiscreteMarketUnit(food.unit)
+    ? Math.ceil(gramsToMarketQuantity(grams, food.unit) - 1e-6) * food.pricePerUnit
+    : getPortionCost(food, grams);
+}
+
+/**
+ * Purchase cost as the shopping list prices it: pantry stock (usable on
+ * `today`) costs nothing, the rest is bought at the store (storeCost,
+ * undefined for foods it doesn't list) or in whole market units
+ */
+export function createPurchaseCost(
+  pantry: PantryItem[] = [],
+  today: Date = new Date(),
+  storeCost?: (food: FoodItem, grams: number) => number | undefined
+): PurchaseCost {
+  const stock = getPantryStock(pantry, today);
+
+  return (food, grams) => {
+    const toBuy = grams - takeFromPantryStock(stock.map(entry => ({ ...entry })), food, grams);
+    if (toBuy <= 0) {
+      return 0;
+    }
+
+    return storeCost?.(food, toBuy) ?? getPackagedCost(food, toBuy);
+  };
+}
+
+/**
+ * Spreads the weekly budget over the days as they are built
+ * (household costs in EUR; allowances per person). Foods are charged
+ * through purchaseCost on the grams bought so far (price per gram by default)
+ */
+export class BudgetTracker {
+  private spent = 0;
+  private remainingDays: number;
+  private readonly bought = new Map<string, number>(); // Household grams per foodId
+
+  constructor(
+    private readonly weeklyBudgetEur: number,
+    dayCount: number,
+    private readonly people: number = 1,
+    private readonly purchaseCost: PurchaseCost = getPortionCost
+  ) {
+    this.remainingDays = Math.max(1, dayCount);
+  }
+
+  // share: the slot's fraction of the day (MealSlot.share)
+  getMealBudget(share: number): MealBudget {
+    return {
+      allowance: (Math.max(0, this.weeklyBudgetEur - this.spent) / this.remainingDays) * share / this.people,
+      cost: (food, grams) => {
+        const bought = this.bought.get(food.id) ?? 0;
+        return (this.purchaseCost(food, bought + grams * this.people) - this.purchaseCost(food, bought)) / this.people;
+      }
+    };
+  }
+
+  // Every meal of a built day, pinned meals and leftovers included
+  recordDay(meals: DayMeals): void {
+    getDayMealSlots(meals).forEach(slot => {
+      getHouseholdGrams(slot.meal, this.people).forEach(portion => {
+        this.bought.set(portion.foodId, (this.bought.get(portion.foodId) ?? 0) + portion.gramsNeeded);
+      });
+    });
+    this.spent = Array.from(this.bought.entries()).reduce((sum, [foodId, grams]) => {
+      const food = mockFoods.find(entry => entry.id === foodId);
+      return food ? sum + this.purchaseCost(food, grams) : sum;
+    }, 0);
+    this.remainingDays = Math.max(1, this.remainingDays - 1);
+  }
+}
+
+/**
+ * Tracker for a plan of `dayCount` days (undefined without a budget).
+ * budgetShare: part of the budget it may spend (tighter rerun of a list that came out over)
+ */
+export function createBudgetTracker(
+  input: PlanInput,
+  dayCount: number,
+  people: number,
+  purchaseCost?: PurchaseCost,
+  budgetShare: number = 1
+): BudgetTracker | undefined {
+  if (!hasWeeklyBudget(input)) {
+    return undefined;
+  }
+
+  return new BudgetTracker(toEur(input.weeklyBudget!, resolveBudgetCurrency(input)) * budgetShare, dayCount, people, purchaseCost);
+}
+
+/**
+ * Foods whose portion for this meal fits the budget. A food is costed for
+ * the meal's whole target of the macro most of its calories come from
+ * (chicken → protein, rice → carbs, olive oil → fats) against that macro's
+ * share of the allowance. Vegetables (fixed side portions) always pass.
+ */
+export function filterAffordableFoods(foods: FoodItem[], budget: MealBudget | undefined, target: MacroTargetPerMeal): FoodItem[] {
+  if (!budget) {
+    return foods;
+  }
+
+  const cost = (food: FoodItem) => getMacroPortionCost(food, target, budget.cost ?? getPortionCost);
+  const fits = (food: FoodItem) => cost(food) <= budget.allowance * BUDGET_SHARES[getBudgetMacro(food)];
+  const costed = foods.filter(food => food.macros && food.category !== CATEGORIES.vegetables);
+
+  // Per category: the fitting foods, or the cheapest few when none fits
+  const affordable = new Set<FoodItem>();
+  new Set(costed.map(food => food.category)).forEach(category => {
+    const categoryFoods = costed.filter(food => food.category === category);
+    const fitting = categoryFoods.filter(fits);
+    (fitting.length > 0 ? fitting : [...categoryFoods].sort((a, b) => cost(a) - cost(b)).slice(0, BUDGET_FALLBACK_FOODS))
+      .forEach(food => affordable.add(food));
+  });
+
+  return foods.filter(food => !costed.includes(food) || affordable.has(food));
+}
+
+// Macro grams per 100g, keyed like the meal targets
+function getMacroGrams(food: FoodItem): Record<BudgetMacro, number> {
+  const { protein, carbs, fat } = food.macros!;
+  return { fats: fat, protein, carbs };
+}
+
+// The macro most of the food's calories come from (fats first on a tie)
+function getBudgetMacro(food: FoodItem): BudgetMacro {
+  const grams = getMacroGrams(food);
+  const calories = (macro: BudgetMacro) => grams[macro] * KCAL_PER_GRAM[macro];
+  return (Object.keys(grams) as BudgetMacro[]).reduce((best, macro) => (calories(macro) > calories(best) ? macro : best));
+}
+
+function getMacroPortionCost(
+  food: FoodItem,
+  target: MacroTargetPerMeal,
+  portionCost: (food: FoodItem, grams: number) => number
+): number {
+  const macro = getBudgetMacro(food);
+  const per100g = getMacroGrams(food)[macro];
+  return per100g > 0 ? portionCost(food, (target[macro] / per100g) * 100) : 0;
+}
+
+/**
+ * Cheapest way to eat `proteinGrams` of protein from these foods (EUR)
+ */
+export function getMinimumProteinCost(foods: FoodItem[], proteinGrams: number): number {
+  const costsPerProteinGram = foods
+    .filter(food => food.macros && food.macros.protein >= MIN_PROTEIN_DENSITY && food.pricePerUnit > 0)
+    .map(food => getFoodCostPerGram(food) / (food.macros!.protein / 100));
+
+  return costsPerProteinGram.length > 0 ? Math.min(...costsPerProteinGram) * proteinGrams : 0;
+}
+
+/**
+ * Week's protein target bought as cheaply as the plan's restrictions,
+ * allergies and exclusions allow (EUR)
+ */
+export function getPlanMinimumProteinCost(input: PlanInput, plan: WeeklyPlan): number {
+  const allowedFoods = filterFoodsByAllergies(filterFoodsByRestrictions(mockFoods, parseDietaryRestrictions(input.restrictions)), input.allergies)
+    .filter(food => !(input.excludedFoods ?? []).includes(food.name));
+  const members = plan.householdMembers ?? [];
+  const weekProtein = members.length > 1
+    ? members.reduce((sum, member) => sum + member.proteinTargetPerDay, 0) * plan.days.length
+    : plan.proteinTargetPerDay * plan.days.length * (plan.householdSize ?? 1);
+
+  return getMinimumProteinCost(allowedFoods, weekProtein);
+}
+
+/**
+ * Cost of a meal for the whole household (EUR): every member's plate,
+ * or the portions times the household size
+ */
+export function getMealCost(meal: Pick<Meal, "portions" | "plates">, householdSize: number = 1): number {
+  return getPortionsCost(getHouseholdGrams(meal, householdSize));
+}
+
+// Grams the household eats: every member's plate, or the portions times the household size
+function getHouseholdGrams(meal: Pick<Meal, "portions" | "plates">, householdSize: number): FoodPortion[] {
+  if (meal.plates && meal.plates.length > 0) {
+    return meal.plates.flatMap(plate => plate.portions);
+  }
+
+  return meal.portions.map(portion => ({ ...portion, gramsNeeded: portion.gramsNeeded * householdSize }));
+}
+
+function getPortionsCost(portions: FoodPortion[]): number {
+  return portions.reduce((sum, portion) => {
+    const food = mockFoods.find(entry => entry.id === portion.foodId);
+    return food ? sum + getPortionCost(food, portion.gramsNeeded) : sum;
+  }, 0);
+}
+
+/**
+ * Per-day and per-meal cost of the plan, in the budget currency
+ */
+export function buildCostBreakdown(days: DayPlan[], currency: Currency, householdSize: number = 1): PlanCostBreakdown {
+  const costedDays = days.map(day => {
+    const meals: MealCost[] = getDayMealSlots(day.meals).map(slot => ({
+      slotId: slot.id,
+      type: slot.type,
+      cost: roundCost(fromEur(getMealCost(slot.meal, householdSize), currency))
+    }));
+
+    return {
+      ...toPlanDayRef(day),
+      cost: roundCost(meals.reduce((sum, meal) => sum + meal.cost, 0)),
+      meals
+    };
+  });
+
+  return {
+    currency,
+    totalCost: roundCost(costedDays.reduce((sum, day) => sum + day.cost, 0)),
+    days: costedDays
+  };
+}
+
+/**
+ * Budget outcome of a plan: its shopping list's total against the budget
+ * (shoppingListCostEur: see getShoppingListCost; minimumProteinCostEur: see getMinimumProteinCost)
+ */
+export function evaluateWeeklyBudget(
+  input: PlanInput,
+  shoppingListCostEur: number,
+  minimumProteinCostEur: number
+): WeeklyBudgetResult {
+  const currency = resolveBudgetCurrency(input);
+  const weeklyBudget = input.weeklyBudget ?? 0;
+  const totalCost = roundCost(fromEur(shoppingListCostEur, currency));
+  const minimumProteinCost = roundCost(fromEur(minimumProteinCostEur, currency));
+  const status = minimumProteinCost > weeklyBudget
+    ? "infeasible_protein"
+    : totalCost > weeklyBudget ? "over_budget" : "within_budget";
+
+  return {
+    weeklyBudget,
+    currency,
+    totalCost,
+    remaining: roundCost(weeklyBudget - totalCost),
+    status,
+    minimumProteinCost
+  };
+}
+
+/**
+ * Plan with its cost breakdown and budget outcome derived again, the budget
+ * held against listItems (the plan's shopping list, for the same pantry and store)
+ */
+export function withPlanCosts(input: PlanInput, plan: WeeklyPlan, listItems: FoodItem[]): WeeklyPlan {
+  return {
+    ...plan,
+    costBreakdown: buildCostBreakdown(plan.days, resolveBudgetCurrency(input), plan.householdSize ?? 1),
+    budget: hasWeeklyBudget(input)
+      ? evaluateWeeklyBudget(input, getShoppingListCost(listItems), getPlanMinimumProteinCost(input, plan))
+      : undefined
+  };
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 100) / 100;
+}
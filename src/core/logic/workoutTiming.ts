@@ -0,0 +1,120 @@
+/**
+ * Workout-timed meals (PlanInput.workoutTime)
+ *
+ * On training days the meal right before the session becomes the
+ * pre-workout meal (carb-forward, little fat, no fibrous side) and the meal
+ * right after it the post-workout meal (protein + carbs). Only meals within
+ * WORKOUT_MEAL_WINDOW of the session are tagged.
+ *
+ * The session's extra carbs (TrainingSessions) go to those two meals instead
+ * of being spread over the whole day, and the pre-workout meal hands half
+ * of its fat to the other meals. Without a workout time training days keep
+ * the afternoon pre-workout snack and evenly inflated meals.
+ *
+ * Fonte: Nutrient timing (ISSN Position Stand 2017)
+ */
+
+import { PlanInput } from "../models/PlanInput";
+import { WorkoutTiming } from "../models/WeeklyPlan";
+import { MealCategoryFilter } from "./MealBuilder";
+import { MacroTargetPerMeal } from "./PortionCalculator";
+import { getSlotMinutes, MealSlotDefinition } from "./mealSlots";
+import { parseTimeOfDay } from "./fasting";
+import { CATEGORIES } from "../constants/categories";
+
+// Meals further than this from the session are not workout meals
+export const WORKOUT_MEAL_WINDOW_MINUTES = 4 * 60;
+
+// Share of the session's extra carbs eaten before / after training
+const EXTRA_CARB_SPLIT: Record<WorkoutTiming, number> = { pre: 0.4, post: 0.6 };
+const PRE_WORKOUT_FAT_FACTOR = 0.5;
+
+export const WORKOUT_MEAL_FILTERS: Record<WorkoutTiming, MealCategoryFilter> = {
+  // Fast carbs: grains or fruit, no added fat or fibrous vegetables
+  pre: { carbCategories: [CATEGORIES.grains, CATEGORIES.fruits], includeVegetable: false, includeFat: false },
+  // Protein + grains with the usual vegetable and fat
+  post: { carbCategories: [CATEGORIES.grains] }
+};
+
+/**
+ * Workout time in minutes after midnight (null when the user doesn't train
+ * or set no valid time)
+ */
+export function getWorkoutMinutes(input: Pick<PlanInput, "trains" | "workoutTime">): number | null {
+  return input.trains && input.workoutTime ? parseTimeOfDay(input.workoutTime) : null;
+}
+
+/**
+ * Tag the last meal before the session "pre" and the first one after it "post"
+ */
+export function applyWorkoutTimingToLayout(
+  layout: MealSlotDefinition[],
+  input: Pick<PlanInput, "trains" | "workoutTime">,
+  isTrainingDay: boolean
+): MealSlotDefinition[] {
+  const workout = getWorkoutMinutes(input);
+  if (!isTrainingDay || workout === null) {
+    return layout;
+  }
+
+  const minutes = getSlotMinutes(layout);
+  const before = minutes.map((time, index) => ({ time, index }))
+    .filter(({ time }) => time < workout && workout - time <= WORKOUT_MEAL_WINDOW_MINUTES);
+  const after = minutes.map((time, index) => ({ time, index }))
+    .filter(({ time }) => time >= workout && time - workout <= WORKOUT_MEAL_WINDOW_MINUTES);
+  const preIndex = before.length > 0 ? before[before.length - 1].index : -1;
+  const postIndex = after.length > 0 ? after[0].index : -1;
+
+  return layout.map((slot, index) => {
+    if (index === preIndex) return { ...slot, workoutTiming: "pre" };
+    if (index === postIndex) return { ...slot, workoutTiming: "post" };
+    return slot;
+  });
+}
+
+/**
+ * Macro target of every slot. With workout meals the day's extra carbs
+ * (dayTarget - restTarget) are split between them and the pre-workout meal's
+ * fat moves to the untimed meals; otherwise every macro follows the shares.
+ */
+export function getWorkoutSlotTargets(
+  dayTarget: MacroTargetPerMeal,
+  restTarget: MacroTargetPerMeal,
+  layout: MealSlotDefinition[]
+): MacroTargetPerMeal[] {
+  const timed = layout.filter(slot => slot.workoutTiming);
+  if (timed.length === 0) {
+    return layout.map(slot => scaleTarget(dayTarget, slot.share));
+  }
+
+  const extraCarbs = Math.max(0, dayTarget.carbs - restTarget.carbs);
+  const baseCarbs = dayTarget.carbs - extraCarbs;
+  const carbSplitTotal = timed.reduce((sum, slot) => sum + EXTRA_CARB_SPLIT[slot.workoutTiming!], 0);
+
+  const untimedShare = layout.filter(slot => !slot.workoutTiming).reduce((sum, slot) => sum + slot.share, 0);
+  const preSlot = layout.find(slot => slot.workoutTiming === "pre");
+  // Fat the pre-workout meal hands over (kept when every meal is timed)
+  const movedFats = preSlot && untimedShare > 0 ? dayTarget.fats * preSlot.share * (1 - PRE_WORKOUT_FAT_FACTOR) : 0;
+
+  return layout.map(slot => {
+    const fats = slot.workoutTiming === "pre"
+      ? dayTarget.fats * slot.share - movedFats
+      : dayTarget.fats * slot.share + (slot.workoutTiming ? 0 : movedFats * (slot.share / untimedShare));
+    const carbs = baseCarbs * slot.share
+      + (slot.workoutTiming ? extraCarbs * (EXTRA_CARB_SPLIT[slot.workoutTiming] / carbSplitTotal) : 0);
+
+    return {
+      protein: Math.round(dayTarget.protein * slot.share),
+      carbs: Math.round(carbs),
+      fats: Math.round(fats)
+    };
+  });
+}
+
+function scaleTarget(target: MacroTargetPerMeal, share: number): MacroTargetPerMeal {
+  return {
+    protein: Math.round(target.protein * share),
+    carbs: Math.round(target.carbs * share),
+    fats: Math.round(target.fats * share)
+  };
+}
@@ -1,7 +1,7 @@
-import { FoodCategory } from "../../types/enums";
+import { Cuisine, FlavorTag, FoodAllergen, FoodCategory, FoodDiet } from "../../types/enums";
 
 // Re-export for backward compatibility
-export type { FoodCategory };
+export type { Cuisine, FlavorTag, FoodAllergen, FoodCategory, FoodDiet };
 
 /**
  * PASSO 24 - Cost tier classification
@@ -15,6 +15,20 @@ export interface Macros {
   fat: number;      // grams per 100g
 }
 
+/**
+ * Fiber, sugar, sodium... per 100g (USDA FoodData Central approximations)
+ */
+export interface Micronutrients {
+  fiber: number;        // g
+  sugar: number;        // g
+  saturatedFat: number; // g
+  sodium: number;       // mg
+  potassium: number;    // mg
+  calcium: number;      // mg
+  iron: number;         // mg
+  vitaminD: number;     // µg
+}
+
 export interface FoodItem {
   id: string;
   name: string;
@@ -23,7 +37,18 @@ export interface FoodItem {
   pricePerUnit: number;
   quantity: number;
   costLevel: CostLevel;     // PASSO 24: Budget tier classification
+  diet?: FoodDiet;          // Dietary restrictions: vegan / vegetarian / omnivore
+  allergens?: FoodAllergen[]; // Allergens the food contains
+  mayContain?: FoodAllergen[]; // Cross-contamination traces
+  cuisines?: Cuisine[];      // Cuisines the food is typical of (boosted for users who pick them)
+  flavors?: FlavorTag[];     // Flavor profile
   macros?: Macros;
+  micronutrients?: Micronutrients;
   reason?: string;           // "Breakfast for 7 days", "Lunch protein (14 meals)"
   estimatedPrice?: number;   // quantity * pricePerUnit
+  pantryQuantity?: number;   // Part of the week's need already on hand (same unit as quantity)
+  coveredByPantry?: boolean; // Nothing left to buy: the pantry covers the whole need
+  storeId?: string;          // Store catalog the price comes from (unset: reference price)
+  storePackages?: number;    // Whole packages bought at that store (unset for loose foods)
+  storePackageGrams?: number; // Size of one of those packages (g / ml)
 }
@@ -0,0 +1,21 @@
+/**
+ * Pantry inventory: what's already at home
+ *
+ * Netted against the shopping list (generateShoppingList), refilled when
+ * list items are ticked as purchased and drawn down when meals are cooked.
+ */
+
+export interface PantryItem {
+  id: string;
+  name: string;        // Food name, matched against shopping list items
+  foodId?: string;     // mockFoods id when the item comes from the plan / list
+  quantity: number;
+  unit: string;        // g, kg, ml, L or a market unit (pack, can, bottle...)
+  expiresAt?: string;  // ISO date (YYYY-MM-DD); expired stock no longer counts
+  updatedAt: string;   // ISO timestamp
+}
+
+/**
+ * Stock to add to (or take from) the pantry
+ */
+export type PantryEntry = Omit<PantryItem, "id" | "updatedAt">;
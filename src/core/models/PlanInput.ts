@@ -1,7 +1,45 @@
+import type { DayOfWeek } from "./WeeklyPlan";
+import type { AllergySeverity, Cuisine, Currency, FlavorTag, FoodAllergen } from "../../types/enums";
+
 export type DietStyle = "healthy" | "balanced" | "comfort";
 export type FitnessGoal = "cutting" | "maintenance" | "bulking";
 export type Sex = "male" | "female";
 export type CostTier = "low" | "medium" | "high";
+export type PlanMode = "foods" | "recipes"; // Meals composed from raw foods, or scheduled from mockRecipes
+export type TrainingSessionType = "strength" | "endurance" | "rest" | "active_recovery";
+
+export interface TrainingDay {
+  day: DayOfWeek;
+  session: TrainingSessionType;
+}
+
+export type { AllergySeverity, Cuisine, Currency, FlavorTag, FoodAllergen };
+
+/**
+ * Time-restricted eating (e.g. 16:8): meals only between start and end ("HH:MM", same day)
+ */
+export interface EatingWindow {
+  start: string;
+  end: string;
+}
+
+export interface UserAllergy {
+  allergen: FoodAllergen;
+  severity: AllergySeverity;
+}
+
+/**
+ * Someone else at the table: shares the user's meals (and food settings),
+ * eats a plate sized for their own body and goal
+ */
+export interface HouseholdPartner {
+  sex: Sex;
+  age: number;
+  weightKg: number;
+  heightCm: number;
+  trains: boolean;               // Follows the user's training schedule when true
+  fitnessGoal?: FitnessGoal;
+}
 
 export interface PlanInput {
   sex: Sex;
@@ -17,4 +55,20 @@ export interface PlanInput {
   fitnessGoal?: FitnessGoal;
   proteinTargetPerDay?: number;  // grams per person per day
   excludedFoods?: string[];      // Food names to exclude (e.g., ["tuna", "salmon"] for no fish)
+  householdSize?: number;        // People eating this plan (defaults to 1)
+  partners?: HouseholdPartner[]; // Distinct eaters with their own plates (householdSize is then ignored)
+  trainingSchedule?: TrainingDay[]; // Exact training days; missing days are rest (defaults to Mon/Wed/Thu/Sat strength)
+  allergies?: UserAllergy[];     // Hard-filtered in generation; severe also excludes "may contain" foods
+  planMode?: PlanMode;           // Defaults to "foods"
+  calorieMultiplier?: number;    // Overrides the goal's TDEE multiplier (set per week by a periodized Program)
+  leftovers?: boolean;           // Cook dinner twice as big: the next day's lunch is its leftovers
+  startDate?: string;            // ISO date (YYYY-MM-DD) the plan starts on, any weekday (defaults to this week's Monday)
+  planDays?: number;             // Days the plan spans, 3-14 (defaults to 7)
+  eatingWindow?: EatingWindow;   // Intermittent fasting: meals outside the window are dropped
+  fastingDays?: DayOfWeek[];     // 5:2 low-calorie days (lunch + dinner at ~25% of the day's calories)
+  workoutTime?: string;          // "HH:MM" the user usually trains: meals around it become pre/post-workout
+  cuisines?: Cuisine[];          // Favorite cuisines: matching foods / recipes are preferred, meals named after them
+  flavors?: FlavorTag[];         // Favorite flavor profiles (softer boost than cuisines)
+  weeklyBudget?: number;         // Hard grocery budget for the whole household and plan, in budgetCurrency
+  budgetCurrency?: Currency;     // Defaults to EUR (the food price currency)
 }
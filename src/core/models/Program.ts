@@ -0,0 +1,41 @@
+import { FitnessGoal, PlanInput } from "./PlanInput";
+
+/**
+ * Week types of a periodized program
+ * - deficit / surplus: calories from the target rate of weight change
+ * - maintenance / diet_break: calories at TDEE (diet break = planned pause in a cut)
+ * - refeed: slightly above TDEE, extra calories go to carbs
+ */
+export type ProgramPhaseType = "deficit" | "surplus" | "maintenance" | "diet_break" | "refeed";
+
+export interface ProgramPhase {
+  type: ProgramPhaseType;
+  weeks: number;
+}
+
+/**
+ * Multi-week periodized program (e.g. a 12-week cut with diet breaks).
+ * Pure domain model: the owner is a storage concern, like WeeklyPlan.
+ */
+export interface Program {
+  id: string;
+  name: string;
+  createdAt: Date;
+  startDate: string;          // Monday of week 1, "YYYY-MM-DD"
+  goal: FitnessGoal;
+  targetRatePerWeek: number;  // % of body weight lost (cutting) or gained (bulking) per deficit/surplus week
+  baseInput: PlanInput;       // Profile at the start; each week's PlanInput is derived from it
+  phases: ProgramPhase[];     // In order; total weeks = sum of phase weeks
+}
+
+/**
+ * One week of a program with its derived PlanInput
+ */
+export interface ProgramWeek {
+  weekNumber: number;         // 1-based
+  startDate: string;          // "YYYY-MM-DD"
+  phase: ProgramPhaseType;
+  calorieMultiplier: number;  // × TDEE of the projected weight
+  projectedWeightKg: number;  // Expected weight at the start of the week
+  input: PlanInput;
+}
@@ -1,5 +1,5 @@
 import { DietStyle } from "./PlanInput";
-import { FoodCategory } from "./FoodItem";
+import { Cuisine, FlavorTag, FoodAllergen, FoodCategory } from "./FoodItem";
 
 export type MealType = "breakfast" | "lunch" | "dinner" | "snack";
 
@@ -9,6 +9,7 @@ export interface RecipeIngredient {
   quantity: number;
   unit: string;
   category: FoodCategory;
+  allergens?: FoodAllergen[]; // Allergens the ingredient contains (mirrors its FoodItem)
 }
 
 export interface Recipe {
@@ -21,4 +22,6 @@ export interface Recipe {
   ingredients: RecipeIngredient[];
   instructions: string[];
   tags: string[];
+  cuisines?: Cuisine[];   // Cuisine of the dish (preferred for users who pick it)
+  flavors?: FlavorTag[];  // Flavor profile
 }
@@ -0,0 +1,54 @@
+/**
+ * Store price catalogs: what each supermarket charges for a food and in
+ * which package size
+ *
+ * Built-in catalogs live in src/data/stores (JSON); users can import their
+ * own from a JSON or CSV file. The shopping list is priced against the
+ * chosen store (generateShoppingList options.store).
+ */
+
+import type { Currency } from "./PlanInput";
+import type { FoodCategory } from "./FoodItem";
+
+export interface StorePrice {
+  foodId: string;        // mockFoods id
+  name?: string;         // Food name, for people editing the file
+  price: number;         // Price of one package, in the catalog currency
+  packageGrams: number;  // Package size in grams (ml for liquids)
+  loose?: boolean;       // Sold by weight: price is per packageGrams, bought to the gram
+}
+
+export interface StoreCatalog {
+  id: string;
+  name: string;
+  currency: Currency;
+  updatedAt?: string;    // ISO date the prices were collected
+  prices: StorePrice[];
+}
+
+/**
+ * The same shopping list priced at one store (EUR)
+ */
+export interface StoreComparison {
+  storeId: string;
+  storeName: string;
+  total: number;
+  unlistedItems: string[]; // Items the store doesn't carry, counted at the reference price
+}
+
+export interface SplitBasketStore {
+  storeId: string;
+  storeName: string;
+  categories: FoodCategory[];
+  total: number;
+}
+
+/**
+ * Two-store basket: each category bought where it's cheaper
+ */
+export interface SplitBasketSuggestion {
+  stores: SplitBasketStore[];
+  total: number;
+  savings: number;         // vs the cheapest single store
+  cheapestStoreId: string;
+}
@@ -0,0 +1,31 @@
+/**
+ * Store layouts: the aisles of a supermarket in the order they are walked
+ *
+ * Built-in presets live in src/data/storeLayouts (JSON); users can reorder
+ * a preset into their own layout. Market mode sorts the shopping list (and
+ * its PDF) by the selected layout (storeLayouts).
+ */
+
+import type { FoodCategory } from "./FoodItem";
+
+export interface StoreAisle {
+  id: string;
+  name: string;
+  categories: FoodCategory[]; // Foods of these categories are shelved here
+  foodIds?: string[];         // Specific foods (mockFoods ids), ahead of any category match
+}
+
+export interface StoreLayout {
+  id: string;
+  name: string;
+  aisles: StoreAisle[];       // Walking order
+}
+
+/**
+ * Shopping list items of one aisle (aisle null: the layout doesn't shelve them)
+ */
+export interface AisleGroup<T> {
+  aisle: StoreAisle | null;
+  position: number;           // 1-based walking position (0 for the unshelved group)
+  items: T[];
+}
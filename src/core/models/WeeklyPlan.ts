@@ -1,7 +1,9 @@
-import { FoodItem } from "./FoodItem";
-import { PlanInput } from "./PlanInput";
+import { Cuisine, FoodItem } from "./FoodItem";
+import { Currency, PlanInput, TrainingSessionType } from "./PlanInput";
+import type { WeeklyBudgetStatus } from "../../types/enums";
 import { CostTier } from "./CostTier";
 import { MealPrepSummary } from "../logic/MealPrepSummary";
+import { PlanMicronutrients } from "../logic/micronutrients";
 
 export type DayOfWeek = 
   | "monday"
@@ -14,6 +16,12 @@ export type DayOfWeek =
 
 export type MealType = "breakfast" | "lunch" | "dinner" | "snack";
 
+// Slot kinds a day can contain (pre-workout replaces the afternoon snack on training days)
+export type MealSlotType = MealType | "pre_workout";
+
+// Meals placed around PlanInput.workoutTime: carb-forward before, protein + carbs after
+export type WorkoutTiming = "pre" | "post";
+
 /**
  * Food portion with calculated grams
  */
@@ -22,6 +30,75 @@ export interface FoodPortion {
   gramsNeeded: number;
 }
 
+/**
+ * One household member's portions of a shared meal
+ */
+export interface MemberPlate {
+  memberIndex: number;     // Index into WeeklyPlan.householdMembers (0 = primary user)
+  portions: FoodPortion[];
+  protein: number;         // grams
+}
+
+/**
+ * Meal eaten from an earlier meal's batch (cook once, eat twice)
+ */
+/**
+ * A day of a plan: its date on calendar-dated plans, the weekday on older ones
+ */
+export interface PlanDayRef {
+  day: DayOfWeek;
+  date?: string; // ISO date (YYYY-MM-DD)
+}
+
+export interface LeftoverRef extends PlanDayRef {
+  slotId: string;          // MealSlot.id of the cooked meal ("dinner")
+}
+
+/**
+ * Main foods of a composed meal (food names), filled into the cuisine's name template
+ */
+export interface MealDish {
+  protein: string;
+  carb: string;
+  vegetable: string;
+}
+
+/**
+ * Candidate food MealBuilder ranked for a meal role (best first)
+ */
+export interface FoodCandidateScore {
+  foodId: string;
+  name: string;
+  score: number;           // calculateFoodScore: value per euro after the rotation penalty
+  baseScore: number;       // Protein / carbs per euro before penalties
+  usageCount: number;      // Times already used this week (VarietyTracker)
+  rotationPenalty: number; // RotationEngine quadratic penalty (0 without rotation tracking)
+  chosen: boolean;
+}
+
+/**
+ * Why MealBuilder picked a meal's protein / carb source
+ */
+export interface FoodSelectionRationale {
+  candidates: FoodCandidateScore[]; // Top of the ranking the choice was made from
+  excluded: string[];               // Candidates the user excluded (PlanInput.excludedFoods)
+  costTierFiltered: string[];       // Premium foods left out by the low / medium cost tier
+  rotationLimited: string[];        // Foods already eaten the weekly maximum (FoodRotation)
+  budgetFiltered?: string[];        // Portions over the meal's weekly budget allowance (PlanInput.weeklyBudget)
+  varietyLimited?: string[];        // Proteins over the fish / red meat limits (VarietyConstraints)
+  preferredGroup?: string;          // Rotation group the week alternates to ("fish", "pasta"...)
+  restrictedCount: number;          // Foods of the role ruled out by diet restrictions / allergies
+}
+
+/**
+ * Structured explanation of a built meal (Today: "Why this meal?")
+ */
+export interface MealRationale {
+  costTier: CostTier;
+  protein?: FoodSelectionRationale;
+  carb?: FoodSelectionRationale;
+}
+
 /**
  * Refeição simples (não depende de Recipe)
  * Uses portion-based system with calculated grams
@@ -32,25 +109,109 @@ export interface Meal {
   foodIds: string[];  // IDs do mockFoods (kept for backwards compatibility)
   portions: FoodPortion[]; // Calculated portions in grams based on macro targets
   protein: number;    // grams
+  plates?: MemberPlate[]; // Per-member portions when household members have distinct profiles
+  recipeId?: string;       // mockRecipes id when scheduled in recipe mode (steps shown on Today)
+  leftoverOf?: LeftoverRef; // Leftovers of that meal: nothing to cook, groceries bought once
+  batchServings?: number;   // Servings cooked at once (2 = also the next day's lunch)
+  locked?: boolean;         // Pinned: kept as is when the rest of the week is regenerated
+  cuisine?: Cuisine;        // One of the user's cuisines the dish follows (named with its template)
+  dish?: MealDish;          // Set with cuisine
+  rationale?: MealRationale; // Meals built by MealBuilder (not recipes); missing on older saved plans
+}
+
+/**
+ * One eating occasion of the day, in eating order
+ */
+export interface MealSlot {
+  id: string;          // Unique within the day: "breakfast", "snack", "snack-2", "pre_workout"...
+  type: MealSlotType;
+  share: number;       // Fraction of the day's macros assigned to this slot
+  workoutTiming?: WorkoutTiming; // Training days with a workout time: meal just before / after the session
+  meal: Meal;
 }
 
 export interface DayMeals {
-  breakfast: Meal;
+  breakfast: Meal;     // First meal of the day when breakfast is dropped (eating window / fasting day)
   lunch: Meal;
   dinner: Meal;
-  snack: Meal | null;
+  snack: Meal | null;  // First in-between meal (kept for older consumers, see slots)
+  slots?: MealSlot[];  // Every meal of the day (mealsPerDay entries); missing on older saved plans
+}
+
+/**
+ * Day totals minus day targets after the daily macro solver (kcal / grams)
+ */
+export interface DayMacroResidual {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  withinTolerance: boolean; // Every value within the configured tolerance
 }
 
 export interface DayPlan {
   day: DayOfWeek;
+  date?: string; // ISO date (YYYY-MM-DD); missing on plans saved before calendar dating
   meals: DayMeals;
   trainingDay: boolean; // PASSO 25: Training day flag for macro adjustments
+  sessionType?: TrainingSessionType; // Session from the user's schedule ("rest" on non-training days)
+  macroResidual?: DayMacroResidual; // Primary user's residual error; missing on older saved plans
+  fastingDay?: boolean; // 5:2 low-calorie day (PlanInput.fastingDays)
+  workoutTime?: string; // "HH:MM" session time on training days (PlanInput.workoutTime)
+}
+
+/**
+ * What a meal costs as eaten (every plate of the household)
+ */
+export interface MealCost {
+  slotId: string;
+  type: MealSlotType;
+  cost: number;
+}
+
+export interface DayCost extends PlanDayRef {
+  cost: number;
+  meals: MealCost[];
+}
+
+/**
+ * Per-day / per-meal cost of the food a plan eats (see weeklyBudget.ts)
+ */
+export interface PlanCostBreakdown {
+  currency: Currency; // Budget currency (EUR without a budget)
+  totalCost: number;
+  days: DayCost[];
+}
+
+/**
+ * Outcome of PlanInput.weeklyBudget, in the budget currency: the plan's
+ * shopping list (whole packages, net of the pantry) against the budget
+ */
+export interface WeeklyBudgetResult {
+  weeklyBudget: number;
+  currency: Currency;
+  totalCost: number;          // Shopping list total (getShoppingListCost)
+  remaining: number;          // Negative when over budget
+  status: WeeklyBudgetStatus;
+  minimumProteinCost: number; // Cheapest the plan's protein target can be bought for
+}
+
+/**
+ * Distinct household profile eating the shared meals
+ */
+export interface HouseholdMember {
+  planInput: PlanInput;
+  caloriesTargetPerDay: number;
+  proteinTargetPerDay: number;
+  carbsTargetPerDay: number;
+  fatTargetPerDay: number;
 }
 
 export interface WeeklyPlan {
   id: string;
   createdAt: Date;
   planInput: PlanInput;
+  startDate?: string; // ISO date of days[0] (plans span 3-14 days, see planCalendar)
   days: DayPlan[];
   shoppingList: FoodItem[];
   costTier: CostTier; // Low / Medium / High cost tier
@@ -92,6 +253,17 @@ export interface WeeklyPlan {
   };
   // PASSO 27: Meal prep summary (Sunday prep list)
   mealPrepSummary?: MealPrepSummary;
+  // Daily/weekly fiber, sodium, vitamins... + reference intake warnings (primary user's portions)
+  micronutrients?: PlanMicronutrients;
+  // Cost of every day / meal as eaten; shopping list vs PlanInput.weeklyBudget when set
+  costBreakdown?: PlanCostBreakdown;
+  budget?: WeeklyBudgetResult;
+  // Household scaling: meals hold per-person portions, shopping/prep multiply by this
+  householdSize?: number;
+  // Distinct profiles sharing the same meals (index 0 = planInput); meals carry their plates
+  householdMembers?: HouseholdMember[];
+  // Seed behind every rotation choice; pass it back in PlanGenerationOptions to reproduce the plan
+  seed?: string;
   // PASSO 31: Plan fingerprint for personalization guarantee
   planHash?: string; // Hash of PlanInput to detect when inputs change
   // PASSO 33.2: Weekly adherence tracking for adaptive adjustment
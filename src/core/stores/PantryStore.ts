@@ -0,0 +1,117 @@
+import type { PantryEntry, PantryItem } from "../models/Pantry";
+import type { FoodItem } from "../models/FoodItem";
+import type { Meal } from "../models/WeeklyPlan";
+import {
+  addToPantry,
+  consumeMealFromPantry,
+  removeFromPantry,
+  restockMealToPantry,
+} from "../logic/pantry";
+import { marketQuantityToGrams } from "../utils/marketUnits";
+
+const PANTRY_KEY = "nutripilot_pantry";
+const PANTRY_OWNER_KEY = "nutripilot_pantry_owner";
+
+function canUseStorage(): boolean {
+  return typeof window !== "undefined" && typeof window.localStorage !== "undefined";
+}
+
+export function loadPantry(): PantryItem[] {
+  if (!canUseStorage()) {
+    return [];
+  }
+
+  try {
+    const raw = window.localStorage.getItem(PANTRY_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as PantryItem[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePantry(items: PantryItem[]): PantryItem[] {
+  if (canUseStorage()) {
+    try {
+      window.localStorage.setItem(PANTRY_KEY, JSON.stringify(items));
+    } catch {
+      // no-op
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Account the local pantry was last synced with (null: never synced, built signed out)
+ */
+export function loadPantryOwner(): string | null {
+  if (!canUseStorage()) {
+    return null;
+  }
+
+  try {
+    return window.localStorage.getItem(PANTRY_OWNER_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function savePantryOwner(email: string): void {
+  if (!canUseStorage()) {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(PANTRY_OWNER_KEY, email);
+  } catch {
+    // no-op
+  }
+}
+
+export function addPantryItem(entry: PantryEntry): PantryItem[] {
+  return savePantry(addToPantry(loadPantry(), entry));
+}
+
+export function updatePantryItem(id: string, changes: Partial<PantryEntry>): PantryItem[] {
+  const updatedAt = new Date().toISOString();
+  return savePantry(
+    loadPantry().map((item) => (item.id === id ? { ...item, ...changes, updatedAt } : item))
+  );
+}
+
+export function removePantryItem(id: string): PantryItem[] {
+  return savePantry(loadPantry().filter((item) => item.id !== id));
+}
+
+export function clearPantry(): void {
+  savePantry([]);
+}
+
+/**
+ * Shopping list item ticked (purchased) or unticked: its quantity enters or leaves the pantry
+ */
+export function recordPantryPurchase(item: FoodItem, purchased: boolean): PantryItem[] {
+  if (item.quantity <= 0) {
+    return loadPantry();
+  }
+
+  const pantry = loadPantry();
+  return savePantry(
+    purchased
+      ? addToPantry(pantry, { foodId: item.id, name: item.name, quantity: item.quantity, unit: item.unit })
+      : removeFromPantry(pantry, item, marketQuantityToGrams(item.quantity, item.unit))
+  );
+}
+
+/**
+ * Meal cooked (or unmarked): its household portions leave (or return to) the pantry
+ */
+export function recordPantryCooking(meal: Meal, portionMultiplier: number, cooked: boolean): PantryItem[] {
+  const pantry = loadPantry();
+  return savePantry(
+    cooked
+      ? consumeMealFromPantry(pantry, meal, portionMultiplier)
+      : restockMealToPantry(pantry, meal, portionMultiplier)
+  );
+}
@@ -0,0 +1,36 @@
+import { detectRegion, isRegion, type Region } from "../logic/regions";
+
+const REGION_KEY = "nutripilot_region";
+
+function canUseStorage(): boolean {
+  return typeof window !== "undefined" && typeof window.localStorage !== "undefined";
+}
+
+/**
+ * Region the user picked, or the one of the browser locale
+ */
+export function loadRegion(): Region {
+  const browserRegion = detectRegion(typeof navigator !== "undefined" ? navigator.language : undefined);
+  if (!canUseStorage()) {
+    return browserRegion;
+  }
+
+  try {
+    const stored = window.localStorage.getItem(REGION_KEY);
+    return isRegion(stored) ? stored : browserRegion;
+  } catch {
+    return browserRegion;
+  }
+}
+
+export function saveRegion(region: Region): void {
+  if (!canUseStorage()) {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(REGION_KEY, region);
+  } catch {
+    // no-op
+  }
+}
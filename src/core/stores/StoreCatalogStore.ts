@@ -0,0 +1,95 @@
+import type { StoreCatalog } from "../models/StoreCatalog";
+import { getStoreCatalogs } from "../logic/storeCatalogs";
+import { StoreCatalogSchema } from "../validation/StoreCatalogSchema";
+
+const SELECTED_STORE_KEY = "nutripilot_selected_store";
+const CUSTOM_CATALOGS_KEY = "nutripilot_store_catalogs";
+
+function canUseStorage(): boolean {
+  return typeof window !== "undefined" && typeof window.localStorage !== "undefined";
+}
+
+/**
+ * Catalogs the user imported (invalid entries are dropped)
+ */
+export function loadCustomCatalogs(): StoreCatalog[] {
+  if (!canUseStorage()) {
+    return [];
+  }
+
+  try {
+    const raw = window.localStorage.getItem(CUSTOM_CATALOGS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((catalog) => StoreCatalogSchema.safeParse(catalog).success) as StoreCatalog[]
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveCustomCatalogs(catalogs: StoreCatalog[]): StoreCatalog[] {
+  if (canUseStorage()) {
+    try {
+      window.localStorage.setItem(CUSTOM_CATALOGS_KEY, JSON.stringify(catalogs));
+    } catch {
+      // no-op
+    }
+  }
+
+  return catalogs;
+}
+
+/**
+ * Imported catalog added, or replacing the one with the same id
+ */
+export function saveCustomCatalog(catalog: StoreCatalog): StoreCatalog[] {
+  return saveCustomCatalogs([...loadCustomCatalogs().filter((entry) => entry.id !== catalog.id), catalog]);
+}
+
+export function removeCustomCatalog(id: string): StoreCatalog[] {
+  return saveCustomCatalogs(loadCustomCatalogs().filter((catalog) => catalog.id !== id));
+}
+
+/**
+ * Built-in and imported catalogs
+ */
+export function loadStoreCatalogs(): StoreCatalog[] {
+  return getStoreCatalogs(loadCustomCatalogs());
+}
+
+export function loadSelectedStoreId(): string | null {
+  if (!canUseStorage()) {
+    return null;
+  }
+
+  try {
+    return window.localStorage.getItem(SELECTED_STORE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveSelectedStoreId(id: string | null): void {
+  if (!canUseStorage()) {
+    return;
+  }
+
+  try {
+    if (id) {
+      window.localStorage.setItem(SELECTED_STORE_KEY, id);
+    } else {
+      window.localStorage.removeItem(SELECTED_STORE_KEY);
+    }
+  } catch {
+    // no-op
+  }
+}
+
+/**
+ * Catalog the shopping list is priced at (undefined: reference prices)
+ */
+export function loadSelectedStore(): StoreCatalog | undefined {
+  const id = loadSelectedStoreId();
+  return id ? loadStoreCatalogs().find((catalog) => catalog.id === id) : undefined;
+}
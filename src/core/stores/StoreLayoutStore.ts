@@ -0,0 +1,115 @@
+import type { StoreLayout } from "../models/StoreLayout";
+import { DEFAULT_STORE_LAYOUT_ID, getStoreLayouts } from "../logic/storeLayouts";
+import { StoreLayoutSchema } from "../validation/StoreLayoutSchema";
+
+const SELECTED_LAYOUT_KEY = "nutripilot_store_layout";
+const CUSTOM_LAYOUTS_KEY = "nutripilot_store_layouts";
+const MARKET_MODE_KEY = "nutripilot_market_mode";
+
+function canUseStorage(): boolean {
+  return typeof window !== "undefined" && typeof window.localStorage !== "undefined";
+}
+
+/**
+ * Layouts the user edited (invalid entries are dropped)
+ */
+export function loadCustomLayouts(): StoreLayout[] {
+  if (!canUseStorage()) {
+    return [];
+  }
+
+  try {
+    const raw = window.localStorage.getItem(CUSTOM_LAYOUTS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((layout) => StoreLayoutSchema.safeParse(layout).success) as StoreLayout[]
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveCustomLayouts(layouts: StoreLayout[]): StoreLayout[] {
+  if (canUseStorage()) {
+    try {
+      window.localStorage.setItem(CUSTOM_LAYOUTS_KEY, JSON.stringify(layouts));
+    } catch {
+      // no-op
+    }
+  }
+
+  return layouts;
+}
+
+/**
+ * Edited layout added, or replacing the one with the same id
+ */
+export function saveCustomLayout(layout: StoreLayout): StoreLayout[] {
+  return saveCustomLayouts([...loadCustomLayouts().filter((entry) => entry.id !== layout.id), layout]);
+}
+
+/**
+ * Drops the user's version (a reordered preset goes back to the built-in order)
+ */
+export function removeCustomLayout(id: string): StoreLayout[] {
+  return saveCustomLayouts(loadCustomLayouts().filter((layout) => layout.id !== id));
+}
+
+/**
+ * Built-in and edited layouts
+ */
+export function loadStoreLayouts(): StoreLayout[] {
+  return getStoreLayouts(loadCustomLayouts());
+}
+
+export function loadSelectedLayoutId(): string {
+  if (!canUseStorage()) {
+    return DEFAULT_STORE_LAYOUT_ID;
+  }
+
+  try {
+    return window.localStorage.getItem(SELECTED_LAYOUT_KEY) ?? DEFAULT_STORE_LAYOUT_ID;
+  } catch {
+    return DEFAULT_STORE_LAYOUT_ID;
+  }
+}
+
+export function saveSelectedLayoutId(id: string): void {
+  if (!canUseStorage()) {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(SELECTED_LAYOUT_KEY, id);
+  } catch {
+    // no-op
+  }
+}
+
+export function loadMarketMode(): boolean {
+  if (!canUseStorage()) {
+    return false;
+  }
+
+  try {
+    return window.localStorage.getItem(MARKET_MODE_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function saveMarketMode(enabled: boolean): void {
+  if (!canUseStorage()) {
+    return;
+  }
+
+  try {
+    if (enabled) {
+      window.localStorage.setItem(MARKET_MODE_KEY, "1");
+    } else {
+      window.localStorage.removeItem(MARKET_MODE_KEY);
+    }
+  } catch {
+    // no-op
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * currency.ts
+ * Conversion between EUR (the currency of every food price) and the other
+ * supported currencies, through the local rate table in
+ * src/data/exchangeRates.json (refreshed by hand, no network lookups)
+ */
+
+import type { Currency } from "../../types/enums";
+import exchangeRates from "../../data/exchangeRates.json";
+
+// Units of each currency per euro
+export const EUR_EXCHANGE_RATES = exchangeRates.rates as Record<Currency, number>;
+
+// Date the rates were taken (YYYY-MM-DD)
+export const EXCHANGE_RATES_UPDATED_AT = exchangeRates.updatedAt;
+
+export const CURRENCIES = Object.keys(EUR_EXCHANGE_RATES) as Currency[];
+
+export function toEur(amount: number, currency: Currency): number {
+  return amount / EUR_EXCHANGE_RATES[currency];
+}
+
+export function fromEur(amount: number, currency: Currency): number {
+  return amount * EUR_EXCHANGE_RATES[currency];
+}
+
+export function convertCurrency(amount: number, from: Currency, to: Currency): number {
+  return from === to ? amount : fromEur(toEur(amount, from), to);
+}
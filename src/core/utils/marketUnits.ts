@@ -0,0 +1,53 @@
+/**
+ * marketUnits.ts
+ * Grams behind a quantity expressed in a market unit (kg, L, pack, can...)
+ *
+ * Shared by the shopping list (plan grams → purchasable quantities) and the
+ * pantry (stock netted against the list in grams).
+ */
+
+/**
+ * Approximate grams per market unit for discrete items.
+ * Used to convert plan-calculated grams into purchasable quantities.
+ */
+export const GRAMS_PER_MARKET_UNIT: Record<string, number> = {
+  kg: 1000,
+  L: 1000,
+  pack: 500,   // generic pack (avg 500g)
+  can: 400,    // standard canned goods (400g)
+  loaf: 500,   // standard bread loaf
+  jar: 350,    // peanut butter / tahini
+  bottle: 350, // standard bottle
+  bar: 100,    // chocolate bar
+  tube: 200,   // tomato paste tube
+  unit: 250,   // single fruit / vegetable (~250g avg)
+  bunch: 300,  // bunch of greens
+  head: 500,   // head of cabbage/lettuce
+};
+
+// Bought by the whole unit (a can, a loaf); the others are weighed (kg, L)
+const DISCRETE_MARKET_UNITS = new Set(["pack", "can", "jar", "bottle", "loaf", "bar", "tube", "unit", "bunch", "head"]);
+
+export function isDiscreteMarketUnit(unit: string): boolean {
+  return DISCRETE_MARKET_UNITS.has(unit.trim().toLowerCase());
+}
+
+/**
+ * Grams in one market unit (g / ml count as 1; unknown units fall back to kg)
+ */
+export function getGramsPerMarketUnit(unit: string): number {
+  const normalizedUnit = unit.trim().toLowerCase();
+  if (normalizedUnit === "g" || normalizedUnit === "ml") {
+    return 1;
+  }
+
+  return GRAMS_PER_MARKET_UNIT[unit] || GRAMS_PER_MARKET_UNIT[normalizedUnit] || 1000;
+}
+
+export function marketQuantityToGrams(quantity: number, unit: string): number {
+  return quantity * getGramsPerMarketUnit(unit);
+}
+
+export function gramsToMarketQuantity(grams: number, unit: string): number {
+  return grams / getGramsPerMarketUnit(unit);
+}
@@ -28,6 +28,77 @@ export function generatePlanFingerprint(input: PlanInput): string {
     input.proteinTargetPerDay?.toString() || ""
   ];
 
+  // Only appended for shared plans so single-person fingerprints stay stable
+  if (input.householdSize && input.householdSize > 1) {
+    parts.push(`household:${input.householdSize}`);
+  }
+
+  // Partners get their own plates
+  if (input.partners && input.partners.length > 0) {
+    parts.push(`partners:${input.partners
+      .map(partner => [partner.sex, partner.age, partner.weightKg, partner.heightCm, partner.trains, partner.fitnessGoal ?? "maintenance"].join("-"))
+      .join(",")}`);
+  }
+
+  // Custom schedules only; the default split keeps the legacy fingerprint
+  if (input.trains && input.trainingSchedule) {
+    parts.push(`schedule:${input.trainingSchedule.map(entry => `${entry.day}-${entry.session}`).join(",")}`);
+  }
+
+  // Allergies change which foods are allowed
+  if (input.allergies && input.allergies.length > 0) {
+    parts.push(`allergies:${input.allergies.map(entry => `${entry.allergen}-${entry.severity}`).join(",")}`);
+  }
+
+  // Recipe mode schedules different meals
+  if (input.planMode === "recipes") {
+    parts.push("mode:recipes");
+  }
+
+  // Program weeks override the goal's calories
+  if (input.calorieMultiplier !== undefined) {
+    parts.push(`calories:${input.calorieMultiplier}`);
+  }
+
+  // Leftovers repeat dinners as lunches
+  if (input.leftovers) {
+    parts.push("leftovers");
+  }
+
+  // Dated plans: another start or length is another plan (defaults keep the legacy fingerprint)
+  if (input.startDate) {
+    parts.push(`start:${input.startDate}`);
+  }
+  if (input.planDays !== undefined && input.planDays !== 7) {
+    parts.push(`days:${input.planDays}`);
+  }
+
+  // Intermittent fasting changes which meals exist and how big they are
+  if (input.eatingWindow) {
+    parts.push(`window:${input.eatingWindow.start}-${input.eatingWindow.end}`);
+  }
+  if (input.fastingDays && input.fastingDays.length > 0) {
+    parts.push(`fasting:${[...input.fastingDays].sort().join(",")}`);
+  }
+
+  // Workout time moves the carbs onto the meals around the session
+  if (input.workoutTime && input.trains) {
+    parts.push(`workout:${input.workoutTime}`);
+  }
+
+  // Cuisines and flavors change which foods / recipes are picked
+  if (input.cuisines && input.cuisines.length > 0) {
+    parts.push(`cuisines:${[...input.cuisines].sort().join(",")}`);
+  }
+  if (input.flavors && input.flavors.length > 0) {
+    parts.push(`flavors:${[...input.flavors].sort().join(",")}`);
+  }
+
+  // A budget caps which foods each meal can afford
+  if (input.weeklyBudget !== undefined) {
+    parts.push(`budget:${input.weeklyBudget}-${input.budgetCurrency ?? "EUR"}`);
+  }
+
   // Simple hash function (djb2 algorithm)
   const str = parts.join("|");
   let hash = 5381;
@@ -0,0 +1,28 @@
+/**
+ * Pantry Validation Schema
+ *
+ * Validates pantry items before they are persisted (PantryItem model).
+ *
+ * Validation Rules:
+ * - name: 1-100 characters
+ * - quantity: > 0 (items that run out are removed, not stored at 0)
+ * - unit: g, kg, ml, L or a market unit (pack, can, bottle...)
+ * - expiresAt: "YYYY-MM-DD" (optional)
+ * - id: unique within the pantry (rows are keyed by user and id)
+ */
+
+import { z } from "zod";
+
+export const PantryItemSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  foodId: z.string().min(1).optional(),
+  quantity: z.number().positive({ message: "Quantity must be greater than zero" }),
+  unit: z.string().min(1).max(20),
+  expiresAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Expiry date must be YYYY-MM-DD" }).optional(),
+  updatedAt: z.string().min(1)
+});
+
+export const PantrySchema = z.array(PantryItemSchema)
+  .max(500)
+  .refine(items => new Set(items.map(item => item.id)).size === items.length, { message: "Pantry ids cannot repeat" });
@@ -14,6 +14,20 @@
  * - restrictions: Array of strings
  * - excludedFoods: Optional array of strings
  * - fitnessGoal: Optional valid enum value
+ * - householdSize: Optional 1-10 people sharing the plan
+ * - partners: Optional up to 9 partner profiles (sex, age, weight, height, trains, goal)
+ * - trainingSchedule: Optional list of unique weekdays with a session type
+ * - allergies: Optional list of unique allergens with a severity
+ * - planMode: Optional "foods" | "recipes"
+ * - calorieMultiplier: Optional 0.6-1.3 × TDEE (program weeks)
+ * - leftovers: Optional boolean (dinner → next day's lunch)
+ * - startDate: Optional "YYYY-MM-DD" (plan start, any weekday)
+ * - planDays: Optional 3-14 days
+ * - eatingWindow: Optional "HH:MM" start/end, same day, at least 4 hours
+ * - fastingDays: Optional up to 3 unique weekdays (5:2)
+ * - workoutTime: Optional "HH:MM" (pre/post-workout meals on training days)
+ * - cuisines / flavors: Optional lists of unique cuisine / flavor tags
+ * - weeklyBudget: Optional positive amount; budgetCurrency: Optional currency code
  * 
  * Purpose: Prevent invalid data from crashing the app in production
  */
@@ -31,26 +45,114 @@ export const SexSchema = z.enum(["male", "female"]);
 
 export const CostTierSchema = z.enum(["low", "medium", "high"]);
 
+export const DayOfWeekSchema = z.enum([
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"
+]);
+
+export const PlanModeSchema = z.enum(["foods", "recipes"]);
+
+export const TrainingSessionTypeSchema = z.enum(["strength", "endurance", "rest", "active_recovery"]);
+
+export const TrainingScheduleSchema = z.array(z.object({
+  day: DayOfWeekSchema,
+  session: TrainingSessionTypeSchema
+}))
+  .max(7, { message: "Training schedule cannot have more than 7 days" })
+  .refine(
+    schedule => new Set(schedule.map(entry => entry.day)).size === schedule.length,
+    { message: "Training schedule cannot repeat a day" }
+  );
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const EatingWindowSchema = z.object({
+  start: z.string().regex(TIME_OF_DAY_PATTERN, { message: "Eating window start must be HH:MM" }),
+  end: z.string().regex(TIME_OF_DAY_PATTERN, { message: "Eating window end must be HH:MM" })
+})
+  .refine(
+    window => toMinutes(window.end) - toMinutes(window.start) >= 4 * 60,
+    { message: "Eating window must end at least 4 hours after it starts" }
+  );
+
+export const FastingDaysSchema = z.array(DayOfWeekSchema)
+  .max(3, { message: "Cannot have more than 3 fasting days" })
+  .refine(
+    days => new Set(days).size === days.length,
+    { message: "Fasting days cannot repeat a day" }
+  );
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export const FoodAllergenSchema = z.enum([
+  "gluten", "lactose", "tree_nuts", "peanuts", "soy", "sesame", "shellfish", "fish", "eggs"
+]);
+
+export const CuisineSchema = z.enum(["mediterranean", "brazilian", "asian", "mexican"]);
+
+export const FlavorTagSchema = z.enum(["fresh", "hearty", "spicy", "smoky", "umami"]);
+
+export const CurrencySchema = z.enum(["EUR", "USD", "GBP", "BRL"]);
+
 /**
- * Main PlanInput validation schema
+ * Also validates UserProfile.weeklyBudget before it is saved
  */
-export const PlanInputSchema = z.object({
-  sex: SexSchema,
-  
-  age: z.number()
+export const WeeklyBudgetSchema = z.number()
+  .positive({ message: "Weekly budget must be positive" })
+  .max(10000, { message: "Weekly budget seems unrealistic (max 10000)" });
+
+export const AllergySeveritySchema = z.enum(["mild", "moderate", "severe"]);
+
+/**
+ * Also validates UserProfile.allergies (Json column) before it is saved
+ */
+export const UserAllergiesSchema = z.array(z.object({
+  allergen: FoodAllergenSchema,
+  severity: AllergySeveritySchema
+}))
+  .refine(
+    allergies => new Set(allergies.map(entry => entry.allergen)).size === allergies.length,
+    { message: "Allergies cannot repeat an allergen" }
+  );
+
+export const AgeSchema = z.number()
   .int({ message: "Age must be a whole number" })
   .min(13, { message: "Age must be at least 13 years" })
-  .max(100, { message: "Age must be less than 100 years" }),
-  
-  weightKg: z.number()
+  .max(100, { message: "Age must be less than 100 years" });
+
+export const WeightKgSchema = z.number()
   .positive({ message: "Weight must be positive" })
   .min(30, { message: "Weight must be at least 30 kg" })
-  .max(300, { message: "Weight must be less than 300 kg" }),
-  
-  heightCm: z.number()
+  .max(300, { message: "Weight must be less than 300 kg" });
+
+export const HeightCmSchema = z.number()
   .positive({ message: "Height must be positive" })
   .min(100, { message: "Height must be at least 100 cm" })
-  .max(250, { message: "Height must be less than 250 cm" }),
+  .max(250, { message: "Height must be less than 250 cm" });
+
+export const HouseholdPartnersSchema = z.array(z.object({
+  sex: SexSchema,
+  age: AgeSchema,
+  weightKg: WeightKgSchema,
+  heightCm: HeightCmSchema,
+  trains: z.boolean(),
+  fitnessGoal: FitnessGoalSchema.optional()
+}))
+  .max(9, { message: "Household cannot have more than 10 people" });
+
+/**
+ * Main PlanInput validation schema
+ */
+export const PlanInputSchema = z.object({
+  sex: SexSchema,
+  
+  age: AgeSchema,
+  
+  weightKg: WeightKgSchema,
+  
+  heightCm: HeightCmSchema,
   
   trains: z.boolean(),
   
@@ -74,7 +176,58 @@ export const PlanInputSchema = z.object({
   
   excludedFoods: z.array(z.string())
     .max(20, { message: "Cannot exclude more than 20 foods" })
-    .optional()
+    .optional(),
+
+  householdSize: z.number()
+    .int({ message: "Household size must be a whole number" })
+    .min(1, { message: "Household must have at least 1 person" })
+    .max(10, { message: "Household cannot have more than 10 people" })
+    .optional(),
+
+  partners: HouseholdPartnersSchema.optional(),
+
+  trainingSchedule: TrainingScheduleSchema.optional(),
+
+  allergies: UserAllergiesSchema.optional(),
+
+  planMode: PlanModeSchema.optional(),
+
+  calorieMultiplier: z.number()
+    .min(0.6, { message: "Calorie multiplier cannot go below 60% of TDEE" })
+    .max(1.3, { message: "Calorie multiplier cannot exceed 130% of TDEE" })
+    .optional(),
+
+  leftovers: z.boolean().optional(),
+
+  startDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Start date must be YYYY-MM-DD" })
+    .optional(),
+
+  planDays: z.number()
+    .int({ message: "Plan length must be a whole number of days" })
+    .min(3, { message: "Plan must span at least 3 days" })
+    .max(14, { message: "Plan cannot span more than 14 days" })
+    .optional(),
+
+  eatingWindow: EatingWindowSchema.optional(),
+
+  fastingDays: FastingDaysSchema.optional(),
+
+  workoutTime: z.string()
+    .regex(TIME_OF_DAY_PATTERN, { message: "Workout time must be HH:MM" })
+    .optional(),
+
+  cuisines: z.array(CuisineSchema)
+    .refine(cuisines => new Set(cuisines).size === cuisines.length, { message: "Cuisines cannot repeat" })
+    .optional(),
+
+  flavors: z.array(FlavorTagSchema)
+    .refine(flavors => new Set(flavors).size === flavors.length, { message: "Flavors cannot repeat" })
+    .optional(),
+
+  weeklyBudget: WeeklyBudgetSchema.optional(),
+
+  budgetCurrency: CurrencySchema.optional()
 });
 
 /**
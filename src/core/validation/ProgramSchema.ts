@@ -0,0 +1,44 @@
+/**
+ * Program Validation Schema
+ *
+ * Validates periodized programs before they are persisted (Program.programJson).
+ *
+ * Validation Rules:
+ * - startDate: "YYYY-MM-DD"
+ * - goal: Must be valid FitnessGoal
+ * - targetRatePerWeek: 0-1.5% of body weight per week
+ * - baseInput: Valid PlanInput
+ * - phases: 1-52 weeks in total, each phase 1+ weeks
+ */
+
+import { z } from "zod";
+import { FitnessGoalSchema, PlanInputSchema } from "./PlanInputSchema";
+
+export const ProgramPhaseTypeSchema = z.enum(["deficit", "surplus", "maintenance", "diet_break", "refeed"]);
+
+export const ProgramPhaseSchema = z.object({
+  type: ProgramPhaseTypeSchema,
+  weeks: z.number()
+    .int({ message: "Phase weeks must be a whole number" })
+    .min(1, { message: "Phase must last at least 1 week" })
+});
+
+export const ProgramSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  createdAt: z.coerce.date(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Start date must be YYYY-MM-DD" }),
+  goal: FitnessGoalSchema,
+  targetRatePerWeek: z.number()
+    .min(0, { message: "Target rate cannot be negative" })
+    .max(1.5, { message: "Target rate cannot exceed 1.5% of body weight per week" }),
+  baseInput: PlanInputSchema,
+  phases: z.array(ProgramPhaseSchema)
+    .min(1, { message: "Program needs at least one phase" })
+    .refine(
+      phases => phases.reduce((sum, phase) => sum + phase.weeks, 0) <= 52,
+      { message: "Program cannot last more than 52 weeks" }
+    )
+});
+
+export type ValidatedProgram = z.infer<typeof ProgramSchema>;
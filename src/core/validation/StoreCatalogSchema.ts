@@ -0,0 +1,33 @@
+/**
+ * Store Catalog Validation Schema
+ *
+ * Validates price catalogs imported from a JSON or CSV file (StoreCatalog model).
+ *
+ * Validation Rules:
+ * - id: lowercase slug; name: 1-60 characters
+ * - currency: EUR | USD | GBP | BRL
+ * - prices: 1-1000 rows, one per food
+ * - price: > 0 (one package); packageGrams: > 0; loose: optional (sold by weight)
+ */
+
+import { z } from "zod";
+import { CurrencySchema } from "./PlanInputSchema";
+
+export const StorePriceSchema = z.object({
+  foodId: z.string().min(1).max(40),
+  name: z.string().max(100).optional(),
+  price: z.number().positive({ message: "Price must be greater than zero" }),
+  packageGrams: z.number().positive({ message: "Package size must be greater than zero" }),
+  loose: z.boolean().optional()
+});
+
+export const StoreCatalogSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]{1,40}$/, { message: "Store id must be a lowercase slug" }),
+  name: z.string().min(1).max(60),
+  currency: CurrencySchema,
+  updatedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Date must be YYYY-MM-DD" }).optional(),
+  prices: z.array(StorePriceSchema)
+    .min(1)
+    .max(1000)
+    .refine(prices => new Set(prices.map(price => price.foodId)).size === prices.length, { message: "Foods cannot repeat" })
+});
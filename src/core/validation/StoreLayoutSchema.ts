@@ -0,0 +1,36 @@
+/**
+ * Store Layout Validation Schema
+ *
+ * Validates user layouts kept in localStorage (StoreLayout model).
+ *
+ * Validation Rules:
+ * - id: lowercase slug; name: 1-60 characters
+ * - aisles: 1-30, unique ids, each with categories and/or foodIds
+ * - categories: known food categories
+ */
+
+import { z } from "zod";
+import { CATEGORIES } from "../constants/categories";
+import type { FoodCategory } from "../models/FoodItem";
+
+const SlugSchema = z.string().regex(/^[a-z0-9-]{1,40}$/, { message: "Id must be a lowercase slug" });
+
+export const FoodCategorySchema = z.enum(Object.values(CATEGORIES) as [FoodCategory, ...FoodCategory[]]);
+
+export const StoreAisleSchema = z.object({
+  id: SlugSchema,
+  name: z.string().min(1).max(60),
+  categories: z.array(FoodCategorySchema),
+  foodIds: z.array(z.string().min(1).max(40)).optional()
+}).refine(aisle => aisle.categories.length > 0 || (aisle.foodIds?.length ?? 0) > 0, {
+  message: "An aisle needs categories or foods"
+});
+
+export const StoreLayoutSchema = z.object({
+  id: SlugSchema,
+  name: z.string().min(1).max(60),
+  aisles: z.array(StoreAisleSchema)
+    .min(1)
+    .max(30)
+    .refine(aisles => new Set(aisles.map(aisle => aisle.id)).size === aisles.length, { message: "Aisles cannot repeat" })
+});
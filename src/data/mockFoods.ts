@@ -21,8 +21,13 @@ import { CATEGORIES } from "../core/constants/categories";
  * 
  * Each food contains:
  * - Realistic macros (protein/carbs/fat per 100g)
+ * - Micronutrients per 100g (fiber, sugar, saturated fat, sodium, potassium,
+ *   calcium, iron, vitamin D), approximated from USDA FoodData Central
  * - EUR prices (European market)
  * - Cost level classification (low/medium/high)
+ * - Diet tag (vegan/vegetarian/omnivore) and allergens (gluten, lactose, nuts, soy...)
+ * - mayContain: cross-contamination traces (shared facilities, e.g. sesame in bread)
+ * - cuisines / flavors: cuisines the food is typical of and its flavor profile (when it has one)
  * - Fitness-friendly categorization
  */
 
@@ -38,11 +43,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 7.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "omnivore",
+    cuisines: ["mediterranean", "brazilian"],
     macros: {
       protein: 31,  // 31g protein per 100g
       carbs: 0,
       fat: 3.6
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 1.0, sodium: 74, potassium: 256, calcium: 15, iron: 0.7, vitaminD: 0.1 }
   },
   {
     id: "food-002",
@@ -52,11 +60,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegetarian",
+    allergens: ["eggs"],
+    cuisines: ["brazilian", "mexican"],
     macros: {
       protein: 13,  // per 100g (2 eggs)
       carbs: 1.1,
       fat: 11
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 1.1, saturatedFat: 3.3, sodium: 142, potassium: 138, calcium: 56, iron: 1.8, vitaminD: 2.0 }
   },
   {
     id: "food-003",
@@ -66,11 +78,16 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 5.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"],
     macros: {
       protein: 10,
       carbs: 4,
       fat: 0.4
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 3.2, saturatedFat: 0.1, sodium: 36, potassium: 141, calcium: 110, iron: 0.1, vitaminD: 0 }
   },
   {
     id: "food-004",
@@ -80,11 +97,16 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 18.99,
     quantity: 0,
     costLevel: "high",
+    diet: "omnivore",
+    allergens: ["fish"],
+    cuisines: ["mediterranean", "asian"],
+    flavors: ["umami"],
     macros: {
       protein: 20,
       carbs: 0,
       fat: 13
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 3.1, sodium: 59, potassium: 363, calcium: 12, iron: 0.3, vitaminD: 11 }
   },
   {
     id: "food-005",
@@ -94,11 +116,16 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
+    diet: "omnivore",
+    allergens: ["fish"],
+    cuisines: ["mediterranean"],
+    flavors: ["umami"],
     macros: {
       protein: 25,
       carbs: 0,
       fat: 1
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 0.3, sodium: 247, potassium: 237, calcium: 11, iron: 1.0, vitaminD: 1.7 }
   },
   {
     id: "food-006",
@@ -108,11 +135,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 9.99,
     quantity: 0,
     costLevel: "high",
+    diet: "omnivore",
+    cuisines: ["brazilian", "mexican"],
+    flavors: ["hearty"],
     macros: {
       protein: 21,
       carbs: 0,
       fat: 5
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 2.3, sodium: 66, potassium: 343, calcium: 6, iron: 2.3, vitaminD: 0.1 }
   },
   // PASSO 31: Additional protein variety
   {
@@ -123,11 +154,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 7.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "omnivore",
     macros: {
       protein: 29,
       carbs: 0,
       fat: 1
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 0.3, sodium: 50, potassium: 290, calcium: 10, iron: 0.7, vitaminD: 0.1 }
   },
   {
     id: "food-032",
@@ -137,11 +170,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 12.99,
     quantity: 0,
     costLevel: "high",
+    diet: "omnivore",
+    allergens: ["fish"],
+    cuisines: ["mediterranean"],
     macros: {
       protein: 18,
       carbs: 0,
       fat: 0.7
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 0.1, sodium: 54, potassium: 413, calcium: 16, iron: 0.4, vitaminD: 0.9 }
   },
   {
     id: "food-033",
@@ -151,11 +188,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 6.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "omnivore",
+    cuisines: ["brazilian"],
+    flavors: ["hearty", "smoky"],
     macros: {
       protein: 27,
       carbs: 0,
       fat: 6
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 2.0, sodium: 55, potassium: 390, calcium: 10, iron: 0.8, vitaminD: 0.6 }
   },
   {
     id: "food-007",
@@ -165,11 +206,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 4.49,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegetarian",
+    allergens: ["lactose"],
     macros: {
       protein: 11,
       carbs: 3.4,
       fat: 4.3
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 2.7, saturatedFat: 1.7, sodium: 364, potassium: 86, calcium: 91, iron: 0.2, vitaminD: 0 }
   },
 
   // ========================================
@@ -183,11 +227,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["brazilian", "asian", "mexican"],
     macros: {
       protein: 7,
       carbs: 77,
       fat: 0.6
-    }
+    },
+    micronutrients: { fiber: 1.3, sugar: 0.1, saturatedFat: 0.2, sodium: 5, potassium: 115, calcium: 28, iron: 0.8, vitaminD: 0 }
   },
   {
     id: "food-009",
@@ -197,11 +244,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.29,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["brazilian", "asian"],
     macros: {
       protein: 8,
       carbs: 76,
       fat: 2.9
-    }
+    },
+    micronutrients: { fiber: 3.5, sugar: 0.9, saturatedFat: 0.6, sodium: 7, potassium: 223, calcium: 23, iron: 1.5, vitaminD: 0 }
   },
   {
     id: "food-010",
@@ -211,11 +261,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    allergens: ["gluten"],
     macros: {
       protein: 13.7,
       carbs: 67,
       fat: 7
-    }
+    },
+    micronutrients: { fiber: 10, sugar: 1, saturatedFat: 1.2, sodium: 2, potassium: 429, calcium: 54, iron: 4.7, vitaminD: 0 }
   },
   {
     id: "food-011",
@@ -225,11 +278,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.19,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["brazilian"],
+    flavors: ["hearty"],
     macros: {
       protein: 1.6,
       carbs: 20,
       fat: 0.1
-    }
+    },
+    micronutrients: { fiber: 3, sugar: 4.2, saturatedFat: 0, sodium: 55, potassium: 337, calcium: 30, iron: 0.6, vitaminD: 0 }
   },
   {
     id: "food-012",
@@ -239,11 +296,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    allergens: ["gluten"],
+    mayContain: ["sesame"],
     macros: {
       protein: 9,
       carbs: 49,
       fat: 3.4
-    }
+    },
+    micronutrients: { fiber: 6, sugar: 5.6, saturatedFat: 0.7, sodium: 450, potassium: 250, calcium: 160, iron: 2.5, vitaminD: 0 }
   },
   {
     id: "food-013",
@@ -253,11 +314,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 6.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
     macros: {
       protein: 14,
       carbs: 64,
       fat: 6
-    }
+    },
+    micronutrients: { fiber: 7, sugar: 0, saturatedFat: 0.7, sodium: 5, potassium: 563, calcium: 47, iron: 4.6, vitaminD: 0 }
   },
   {
     id: "food-014",
@@ -267,11 +330,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.79,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    allergens: ["gluten"],
+    cuisines: ["mediterranean"],
     macros: {
       protein: 13,
       carbs: 67,
       fat: 2.5
-    }
+    },
+    micronutrients: { fiber: 9, sugar: 3, saturatedFat: 0.5, sodium: 8, potassium: 215, calcium: 40, iron: 3.6, vitaminD: 0 }
   },
   // PASSO 31: Additional carb variety
   {
@@ -282,11 +349,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    allergens: ["gluten"],
+    cuisines: ["mediterranean"],
     macros: {
       protein: 12,
       carbs: 72,
       fat: 0.6
-    }
+    },
+    micronutrients: { fiber: 5, sugar: 0, saturatedFat: 0.1, sodium: 10, potassium: 166, calcium: 24, iron: 1.1, vitaminD: 0 }
   },
   {
     id: "food-035",
@@ -296,11 +367,16 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    allergens: ["gluten"],
+    cuisines: ["mediterranean"],
+    flavors: ["hearty"],
     macros: {
       protein: 10,
       carbs: 73,
       fat: 1.2
-    }
+    },
+    micronutrients: { fiber: 15, sugar: 0.8, saturatedFat: 0.2, sodium: 9, potassium: 280, calcium: 29, iron: 2.5, vitaminD: 0 }
   },
   {
     id: "food-036",
@@ -310,11 +386,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    allergens: ["gluten"],
+    mayContain: ["sesame"],
     macros: {
       protein: 8,
       carbs: 49,
       fat: 3.2
-    }
+    },
+    micronutrients: { fiber: 2.7, sugar: 5, saturatedFat: 0.7, sodium: 490, potassium: 126, calcium: 150, iron: 3.6, vitaminD: 0 }
   },
 
   // ========================================
@@ -328,11 +408,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["asian"],
     macros: {
       protein: 2.8,
       carbs: 7,
       fat: 0.4
-    }
+    },
+    micronutrients: { fiber: 2.6, sugar: 1.7, saturatedFat: 0, sodium: 33, potassium: 316, calcium: 47, iron: 0.7, vitaminD: 0 }
   },
   {
     id: "food-016",
@@ -342,11 +425,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"],
     macros: {
       protein: 2.9,
       carbs: 3.6,
       fat: 0.4
-    }
+    },
+    micronutrients: { fiber: 2.2, sugar: 0.4, saturatedFat: 0.1, sodium: 79, potassium: 558, calcium: 99, iron: 2.7, vitaminD: 0 }
   },
   {
     id: "food-017",
@@ -356,11 +443,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["mediterranean", "brazilian", "mexican"],
+    flavors: ["fresh"],
     macros: {
       protein: 0.9,
       carbs: 3.9,
       fat: 0.2
-    }
+    },
+    micronutrients: { fiber: 1.2, sugar: 2.6, saturatedFat: 0, sodium: 5, potassium: 237, calcium: 10, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-018",
@@ -370,11 +461,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    cuisines: ["mediterranean", "asian", "mexican"],
     macros: {
       protein: 1,
       carbs: 6,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 2.1, sugar: 4.2, saturatedFat: 0, sodium: 4, potassium: 211, calcium: 7, iron: 0.4, vitaminD: 0 }
   },
   {
     id: "food-019",
@@ -384,11 +478,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["brazilian", "asian"],
     macros: {
       protein: 0.9,
       carbs: 10,
       fat: 0.2
-    }
+    },
+    micronutrients: { fiber: 2.8, sugar: 4.7, saturatedFat: 0, sodium: 69, potassium: 320, calcium: 33, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-020",
@@ -398,11 +495,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"],
     macros: {
       protein: 0.7,
       carbs: 3.6,
       fat: 0.1
-    }
+    },
+    micronutrients: { fiber: 0.5, sugar: 1.7, saturatedFat: 0, sodium: 2, potassium: 147, calcium: 16, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-021",
@@ -412,11 +513,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["mediterranean", "brazilian"],
+    flavors: ["fresh"],
     macros: {
       protein: 1.4,
       carbs: 2.9,
       fat: 0.2
-    }
+    },
+    micronutrients: { fiber: 1.3, sugar: 1, saturatedFat: 0, sodium: 28, potassium: 194, calcium: 36, iron: 0.9, vitaminD: 0 }
   },
 
   // ========================================
@@ -430,11 +535,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.79,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["brazilian"],
     macros: {
       protein: 1.1,
       carbs: 23,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 2.6, sugar: 12, saturatedFat: 0.1, sodium: 1, potassium: 358, calcium: 5, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-023",
@@ -444,11 +552,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
     macros: {
       protein: 0.3,
       carbs: 14,
       fat: 0.2
-    }
+    },
+    micronutrients: { fiber: 2.4, sugar: 10, saturatedFat: 0, sodium: 1, potassium: 107, calcium: 6, iron: 0.1, vitaminD: 0 }
   },
   {
     id: "food-024",
@@ -458,11 +568,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
     macros: {
       protein: 0.7,
       carbs: 14,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 2.4, sugar: 10, saturatedFat: 0, sodium: 1, potassium: 77, calcium: 6, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-025",
@@ -472,11 +584,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    flavors: ["fresh"],
     macros: {
       protein: 0.7,
       carbs: 8,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 2, sugar: 4.9, saturatedFat: 0, sodium: 1, potassium: 153, calcium: 16, iron: 0.4, vitaminD: 0 }
   },
   {
     id: "food-026",
@@ -486,11 +601,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.29,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    flavors: ["fresh"],
     macros: {
       protein: 0.9,
       carbs: 12,
       fat: 0.1
-    }
+    },
+    micronutrients: { fiber: 2.4, sugar: 9.4, saturatedFat: 0, sodium: 0, potassium: 181, calcium: 40, iron: 0.1, vitaminD: 0 }
   },
 
   // ========================================
@@ -504,11 +622,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 8.99,
     quantity: 0,
     costLevel: "high",
+    diet: "vegan",
+    cuisines: ["mediterranean"],
     macros: {
       protein: 0,
       carbs: 0,
       fat: 100
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 14, sodium: 2, potassium: 1, calcium: 1, iron: 0.6, vitaminD: 0 }
   },
   {
     id: "food-028",
@@ -518,11 +639,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 4.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    cuisines: ["mexican"],
     macros: {
       protein: 2,
       carbs: 9,
       fat: 15
-    }
+    },
+    micronutrients: { fiber: 6.7, sugar: 0.7, saturatedFat: 2.1, sodium: 7, potassium: 485, calcium: 12, iron: 0.6, vitaminD: 0 }
   },
   {
     id: "food-029",
@@ -532,11 +656,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 4.49,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    allergens: ["peanuts"],
     macros: {
       protein: 25,
       carbs: 20,
       fat: 50
-    }
+    },
+    micronutrients: { fiber: 6, sugar: 6, saturatedFat: 10, sodium: 17, potassium: 560, calcium: 49, iron: 1.9, vitaminD: 0 }
   },
   {
     id: "food-030",
@@ -546,103 +673,124 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 12.99,
     quantity: 0,
     costLevel: "high",
+    diet: "vegan",
+    allergens: ["tree_nuts"],
+    cuisines: ["mediterranean"],
     macros: {
       protein: 21,
       carbs: 22,
       fat: 49
-    }
+    },
+    micronutrients: { fiber: 12.5, sugar: 4.4, saturatedFat: 3.8, sodium: 1, potassium: 733, calcium: 269, iron: 3.7, vitaminD: 0 }
   },
 
   // ========================================
   // SPICES & SEASONING (Zero Calorie Flavor)
   // ========================================
   {
-    id: "food-031",
+    id: "food-206",
     name: "Sea salt",
     category: CATEGORIES.others,
     unit: "pack",  // 500g
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
     macros: {
       protein: 0,
       carbs: 0,
       fat: 0
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 0, sodium: 38758, potassium: 8, calcium: 24, iron: 0.3, vitaminD: 0 }
   },
   {
-    id: "food-032",
+    id: "food-207",
     name: "Black pepper",
     category: CATEGORIES.others,
     unit: "pack",  // 100g
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    flavors: ["spicy"],
     macros: {
       protein: 10,
       carbs: 64,
       fat: 3.3
-    }
+    },
+    micronutrients: { fiber: 25, sugar: 0.6, saturatedFat: 1.4, sodium: 20, potassium: 1329, calcium: 443, iron: 9.7, vitaminD: 0 }
   },
   {
-    id: "food-033",
+    id: "food-208",
     name: "Garlic powder",
     category: CATEGORIES.others,
     unit: "pack",  // 100g
     pricePerUnit: 3.29,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
     macros: {
       protein: 18,
       carbs: 73,
       fat: 0.7
-    }
+    },
+    micronutrients: { fiber: 9, sugar: 2.4, saturatedFat: 0.2, sodium: 60, potassium: 1193, calcium: 79, iron: 5.6, vitaminD: 0 }
   },
   {
-    id: "food-034",
+    id: "food-209",
     name: "Paprika",
     category: CATEGORIES.others,
     unit: "pack",  // 100g
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["mexican"],
+    flavors: ["spicy", "smoky"],
     macros: {
       protein: 14,
       carbs: 54,
       fat: 13
-    }
+    },
+    micronutrients: { fiber: 35, sugar: 10, saturatedFat: 2.1, sodium: 68, potassium: 2280, calcium: 229, iron: 21, vitaminD: 0 }
   },
 
   // ========================================
   // BEVERAGES (Hydration & Recovery)
   // ========================================
   {
-    id: "food-035",
+    id: "food-210",
     name: "Milk (skim)",
     category: CATEGORIES.dairy,
     unit: "L",
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegetarian",
+    allergens: ["lactose"],
     macros: {
       protein: 3.4,
       carbs: 5,
       fat: 0.1
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 5, saturatedFat: 0.1, sodium: 42, potassium: 156, calcium: 122, iron: 0, vitaminD: 1.2 }
   },
   {
-    id: "food-036",
+    id: "food-211",
     name: "Almond milk (unsweetened)",
     category: CATEGORIES.dairy,
     unit: "L",
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    allergens: ["tree_nuts"],
     macros: {
       protein: 0.4,
       carbs: 0.3,
       fat: 1.1
-    }
+    },
+    micronutrients: { fiber: 0.3, sugar: 0, saturatedFat: 0.1, sodium: 72, potassium: 67, calcium: 184, iron: 0.3, vitaminD: 1.0 }
   },
 
   // ========================================
@@ -656,11 +804,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 8.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "omnivore",
+    allergens: ["fish"],
+    cuisines: ["brazilian", "mexican"],
     macros: {
       protein: 26,
       carbs: 0,
       fat: 1.7
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 0.6, sodium: 52, potassium: 302, calcium: 10, iron: 0.6, vitaminD: 3.1 }
   },
   {
     id: "food-038",
@@ -670,11 +822,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegetarian",
+    allergens: ["lactose"],
     macros: {
       protein: 11,
       carbs: 3.4,
       fat: 4.3
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 2.7, saturatedFat: 1.7, sodium: 364, potassium: 86, calcium: 91, iron: 0.2, vitaminD: 0 }
   },
   {
     id: "food-039",
@@ -684,11 +839,16 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    allergens: ["soy"],
+    cuisines: ["asian"],
+    flavors: ["umami"],
     macros: {
       protein: 8,
       carbs: 1.9,
       fat: 4.8
-    }
+    },
+    micronutrients: { fiber: 2.3, sugar: 0.6, saturatedFat: 0.7, sodium: 14, potassium: 237, calcium: 683, iron: 2.7, vitaminD: 0 }
   },
   {
     id: "food-040",
@@ -698,11 +858,16 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 14.99,
     quantity: 0,
     costLevel: "high",
+    diet: "omnivore",
+    allergens: ["shellfish"],
+    cuisines: ["mediterranean", "asian", "mexican"],
+    flavors: ["umami"],
     macros: {
       protein: 24,
       carbs: 0,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 0.1, sodium: 119, potassium: 264, calcium: 64, iron: 0.2, vitaminD: 0 }
   },
   {
     id: "food-041",
@@ -712,11 +877,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 16.99,
     quantity: 0,
     costLevel: "high",
+    diet: "omnivore",
+    cuisines: ["mediterranean"],
+    flavors: ["hearty", "smoky"],
     macros: {
       protein: 25,
       carbs: 0,
       fat: 21
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 9, sodium: 66, potassium: 310, calcium: 17, iron: 1.9, vitaminD: 0.1 }
   },
   {
     id: "food-042",
@@ -726,11 +895,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 15.99,
     quantity: 0,
     costLevel: "high",
+    diet: "omnivore",
+    cuisines: ["asian"],
+    flavors: ["hearty"],
     macros: {
       protein: 19,
       carbs: 0,
       fat: 12
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 3.5, sodium: 74, potassium: 271, calcium: 11, iron: 2.4, vitaminD: 0.1 }
   },
   {
     id: "food-043",
@@ -740,11 +913,16 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
+    diet: "omnivore",
+    allergens: ["fish"],
+    cuisines: ["mediterranean", "brazilian"],
+    flavors: ["umami"],
     macros: {
       protein: 25,
       carbs: 0,
       fat: 11
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 1.5, sodium: 307, potassium: 397, calcium: 382, iron: 2.9, vitaminD: 4.8 }
   },
 
   // ========================================
@@ -758,11 +936,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    mayContain: ["gluten"],
+    cuisines: ["asian"],
     macros: {
       protein: 13,
       carbs: 72,
       fat: 3.4
-    }
+    },
+    micronutrients: { fiber: 10, sugar: 0, saturatedFat: 0.7, sodium: 1, potassium: 460, calcium: 18, iron: 2.2, vitaminD: 0 }
   },
   {
     id: "food-045",
@@ -772,11 +954,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    allergens: ["gluten"],
+    mayContain: ["sesame"],
     macros: {
       protein: 8.5,
       carbs: 48,
       fat: 1.7
-    }
+    },
+    micronutrients: { fiber: 5.8, sugar: 3.9, saturatedFat: 0.3, sodium: 600, potassium: 166, calcium: 73, iron: 2.8, vitaminD: 0 }
   },
   {
     id: "food-046",
@@ -786,11 +972,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    allergens: ["gluten"],
+    cuisines: ["mexican"],
     macros: {
       protein: 9,
       carbs: 50,
       fat: 4
-    }
+    },
+    micronutrients: { fiber: 6, sugar: 2, saturatedFat: 1, sodium: 600, potassium: 200, calcium: 140, iron: 2.5, vitaminD: 0 }
   },
   {
     id: "food-047",
@@ -800,11 +990,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["brazilian", "mexican"],
+    flavors: ["smoky"],
     macros: {
       protein: 3.4,
       carbs: 19,
       fat: 1.5
-    }
+    },
+    micronutrients: { fiber: 2.4, sugar: 3.2, saturatedFat: 0.2, sodium: 3, potassium: 270, calcium: 3, iron: 0.5, vitaminD: 0 }
   },
 
   // ========================================
@@ -818,11 +1012,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
     macros: {
       protein: 1.9,
       carbs: 5,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 2, sugar: 1.9, saturatedFat: 0.1, sodium: 30, potassium: 299, calcium: 22, iron: 0.4, vitaminD: 0 }
   },
   {
     id: "food-049",
@@ -832,11 +1028,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["mediterranean", "mexican"],
     macros: {
       protein: 1.2,
       carbs: 3.1,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 1, sugar: 2.5, saturatedFat: 0.1, sodium: 8, potassium: 261, calcium: 16, iron: 0.4, vitaminD: 0 }
   },
   {
     id: "food-050",
@@ -846,11 +1045,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
     macros: {
       protein: 2.2,
       carbs: 3.9,
       fat: 0.2
-    }
+    },
+    micronutrients: { fiber: 2.1, sugar: 1.9, saturatedFat: 0, sodium: 2, potassium: 202, calcium: 24, iron: 2.1, vitaminD: 0 }
   },
   {
     id: "food-051",
@@ -860,11 +1061,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["asian"],
     macros: {
       protein: 1.8,
       carbs: 7,
       fat: 0.2
-    }
+    },
+    micronutrients: { fiber: 2.7, sugar: 3.3, saturatedFat: 0, sodium: 6, potassium: 211, calcium: 37, iron: 1, vitaminD: 0 }
   },
   {
     id: "food-052",
@@ -874,11 +1078,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
     macros: {
       protein: 3.4,
       carbs: 9,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 3.8, sugar: 2.2, saturatedFat: 0.1, sodium: 25, potassium: 389, calcium: 42, iron: 1.4, vitaminD: 0 }
   },
   {
     id: "food-053",
@@ -888,11 +1094,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["brazilian"],
     macros: {
       protein: 4.3,
       carbs: 9,
       fat: 0.9
-    }
+    },
+    micronutrients: { fiber: 3.6, sugar: 2.3, saturatedFat: 0.1, sodium: 38, potassium: 491, calcium: 150, iron: 1.5, vitaminD: 0 }
   },
   {
     id: "food-054",
@@ -902,11 +1111,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"],
     macros: {
       protein: 0.7,
       carbs: 3.6,
       fat: 0.1
-    }
+    },
+    micronutrients: { fiber: 0.5, sugar: 1.7, saturatedFat: 0, sodium: 2, potassium: 147, calcium: 16, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-055",
@@ -916,11 +1129,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["brazilian", "asian"],
     macros: {
       protein: 0.9,
       carbs: 10,
       fat: 0.2
-    }
+    },
+    micronutrients: { fiber: 2.8, sugar: 4.7, saturatedFat: 0, sodium: 69, potassium: 320, calcium: 33, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-056",
@@ -930,11 +1146,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["asian"],
+    flavors: ["umami"],
     macros: {
       protein: 3.1,
       carbs: 3.3,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 1, sugar: 2, saturatedFat: 0, sodium: 5, potassium: 318, calcium: 3, iron: 0.5, vitaminD: 0.2 }
   },
   {
     id: "food-057",
@@ -944,11 +1164,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.29,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    flavors: ["smoky"],
     macros: {
       protein: 1,
       carbs: 6,
       fat: 0.2
-    }
+    },
+    micronutrients: { fiber: 3, sugar: 3.5, saturatedFat: 0, sodium: 2, potassium: 229, calcium: 9, iron: 0.2, vitaminD: 0 }
   },
   {
     id: "food-058",
@@ -958,11 +1182,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    flavors: ["fresh"],
     macros: {
       protein: 0.7,
       carbs: 3,
       fat: 0.2
-    }
+    },
+    micronutrients: { fiber: 1.6, sugar: 1.3, saturatedFat: 0, sodium: 80, potassium: 260, calcium: 40, iron: 0.2, vitaminD: 0 }
   },
   {
     id: "food-059",
@@ -972,11 +1199,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    cuisines: ["mexican"],
+    flavors: ["fresh"],
     macros: {
       protein: 1.2,
       carbs: 3.3,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 2.1, sugar: 1.2, saturatedFat: 0, sodium: 8, potassium: 247, calcium: 33, iron: 1, vitaminD: 0 }
   },
 
   // ========================================
@@ -990,11 +1221,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    flavors: ["fresh"],
     macros: {
       protein: 0.7,
       carbs: 7.7,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 2, sugar: 4.9, saturatedFat: 0, sodium: 1, potassium: 153, calcium: 16, iron: 0.4, vitaminD: 0 }
   },
   {
     id: "food-061",
@@ -1004,11 +1238,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    cuisines: ["mediterranean"],
     macros: {
       protein: 0.7,
       carbs: 18,
       fat: 0.2
-    }
+    },
+    micronutrients: { fiber: 0.9, sugar: 16, saturatedFat: 0.1, sodium: 2, potassium: 191, calcium: 10, iron: 0.4, vitaminD: 0 }
   },
   {
     id: "food-062",
@@ -1018,11 +1255,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    cuisines: ["brazilian"],
+    flavors: ["fresh"],
     macros: {
       protein: 0.5,
       carbs: 13,
       fat: 0.1
-    }
+    },
+    micronutrients: { fiber: 1.4, sugar: 10, saturatedFat: 0, sodium: 1, potassium: 109, calcium: 13, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-063",
@@ -1032,11 +1273,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
     macros: {
       protein: 0.6,
       carbs: 7.6,
       fat: 0.2
-    }
+    },
+    micronutrients: { fiber: 0.4, sugar: 6.2, saturatedFat: 0, sodium: 1, potassium: 112, calcium: 7, iron: 0.2, vitaminD: 0 }
   },
   {
     id: "food-064",
@@ -1046,11 +1289,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    flavors: ["fresh"],
     macros: {
       protein: 1.1,
       carbs: 15,
       fat: 0.5
-    }
+    },
+    micronutrients: { fiber: 3, sugar: 9, saturatedFat: 0, sodium: 3, potassium: 312, calcium: 34, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-065",
@@ -1060,11 +1306,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    cuisines: ["brazilian", "asian", "mexican"],
     macros: {
       protein: 0.8,
       carbs: 15,
       fat: 0.4
-    }
+    },
+    micronutrients: { fiber: 1.6, sugar: 14, saturatedFat: 0.1, sodium: 1, potassium: 168, calcium: 11, iron: 0.2, vitaminD: 0 }
   },
   {
     id: "food-066",
@@ -1074,11 +1323,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
     macros: {
       protein: 0.9,
       carbs: 10,
       fat: 0.3
-    }
+    },
+    micronutrients: { fiber: 1.5, sugar: 8.4, saturatedFat: 0, sodium: 0, potassium: 190, calcium: 6, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-067",
@@ -1088,11 +1339,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
     macros: {
       protein: 0.4,
       carbs: 15,
       fat: 0.1
-    }
+    },
+    micronutrients: { fiber: 3.1, sugar: 10, saturatedFat: 0, sodium: 1, potassium: 116, calcium: 9, iron: 0.2, vitaminD: 0 }
   },
 
   // ========================================
@@ -1106,11 +1359,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 4.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    allergens: ["tree_nuts"],
+    cuisines: ["brazilian", "asian"],
     macros: {
       protein: 18,
       carbs: 30,
       fat: 44
-    }
+    },
+    micronutrients: { fiber: 3.3, sugar: 6, saturatedFat: 7.8, sodium: 12, potassium: 660, calcium: 37, iron: 6.7, vitaminD: 0 }
   },
   {
     id: "food-069",
@@ -1120,11 +1377,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 5.49,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    allergens: ["tree_nuts"],
+    cuisines: ["mediterranean"],
     macros: {
       protein: 15,
       carbs: 14,
       fat: 65
-    }
+    },
+    micronutrients: { fiber: 6.7, sugar: 2.6, saturatedFat: 6.1, sodium: 2, potassium: 441, calcium: 98, iron: 2.9, vitaminD: 0 }
   },
   {
     id: "food-070",
@@ -1134,11 +1395,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
     macros: {
       protein: 18,
       carbs: 29,
       fat: 42
-    }
+    },
+    micronutrients: { fiber: 27, sugar: 1.6, saturatedFat: 3.7, sodium: 30, potassium: 813, calcium: 255, iron: 5.7, vitaminD: 0 }
   },
   {
     id: "food-071",
@@ -1148,11 +1411,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 4.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
     macros: {
       protein: 17,
       carbs: 42,
       fat: 31
-    }
+    },
+    micronutrients: { fiber: 34, sugar: 0, saturatedFat: 3.3, sodium: 16, potassium: 407, calcium: 631, iron: 7.7, vitaminD: 0 }
   },
   {
     id: "food-072",
@@ -1162,11 +1427,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 6.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    cuisines: ["brazilian"],
     macros: {
       protein: 0,
       carbs: 0,
       fat: 100
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 82, sodium: 0, potassium: 0, calcium: 1, iron: 0, vitaminD: 0 }
   },
   {
     id: "food-073",
@@ -1176,11 +1444,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegetarian",
+    allergens: ["lactose"],
     macros: {
       protein: 0.9,
       carbs: 0.1,
       fat: 81
-    }
+    },
+    micronutrients: { fiber: 0, sugar: 0.1, saturatedFat: 51, sodium: 11, potassium: 24, calcium: 24, iron: 0, vitaminD: 1.5 }
   },
 
   // ========================================
@@ -1194,11 +1465,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegetarian",
+    allergens: ["gluten", "lactose"],
+    mayContain: ["tree_nuts", "peanuts", "soy"],
     macros: {
       protein: 42, // per 60g bar
       carbs: 25,
       fat: 8
-    }
+    },
+    micronutrients: { fiber: 5, sugar: 10, saturatedFat: 3, sodium: 250, potassium: 300, calcium: 200, iron: 2, vitaminD: 0 }
   },
   {
     id: "food-075",
@@ -1208,11 +1483,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    mayContain: ["sesame"],
     macros: {
       protein: 7,
       carbs: 82,
       fat: 3
-    }
+    },
+    micronutrients: { fiber: 4.2, sugar: 0.9, saturatedFat: 0.6, sodium: 30, potassium: 290, calcium: 11, iron: 1.5, vitaminD: 0 }
   },
   {
     id: "food-076",
@@ -1222,11 +1500,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    mayContain: ["lactose", "tree_nuts", "peanuts"],
     macros: {
       protein: 10,
       carbs: 22,
       fat: 70
-    }
+    },
+    micronutrients: { fiber: 12, sugar: 14, saturatedFat: 42, sodium: 20, potassium: 715, calcium: 73, iron: 12, vitaminD: 0 }
   },
   {
     id: "food-077",
@@ -1236,11 +1517,16 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "high",
+    diet: "omnivore",
+    allergens: ["soy"],
+    mayContain: ["gluten"],
+    flavors: ["smoky"],
     macros: {
       protein: 33,
       carbs: 11,
       fat: 4
-    }
+    },
+    micronutrients: { fiber: 1.8, sugar: 9, saturatedFat: 1.7, sodium: 1785, potassium: 597, calcium: 20, iron: 5.4, vitaminD: 0.1 }
   },
   {
     id: "food-078",
@@ -1250,11 +1536,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
+    allergens: ["sesame"],
+    cuisines: ["mediterranean"],
     macros: {
       protein: 8,
       carbs: 14,
       fat: 10
-    }
+    },
+    micronutrients: { fiber: 6, sugar: 0.3, saturatedFat: 1.4, sodium: 380, potassium: 228, calcium: 38, iron: 2.4, vitaminD: 0 }
   },
   {
     id: "food-079",
@@ -1264,11 +1554,15 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    allergens: ["soy"],
+    cuisines: ["asian"],
     macros: {
       protein: 11,
       carbs: 10,
       fat: 5
-    }
+    },
+    micronutrients: { fiber: 5.2, sugar: 2.2, saturatedFat: 0.6, sodium: 6, potassium: 436, calcium: 63, iron: 2.3, vitaminD: 0 }
   },
   {
     id: "food-080",
@@ -1278,11 +1572,14 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "medium",
+    diet: "vegan",
+    allergens: ["tree_nuts", "peanuts"],
     macros: {
       protein: 13,
       carbs: 47,
       fat: 32
-    }
+    },
+    micronutrients: { fiber: 6, sugar: 30, saturatedFat: 5, sodium: 130, potassium: 570, calcium: 80, iron: 2.8, vitaminD: 0 }
   },
   {
     id: "food-081",
@@ -1292,11 +1589,13 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
+    diet: "vegan",
     macros: {
       protein: 13,
       carbs: 77,
       fat: 4
-    }
+    },
+    micronutrients: { fiber: 15, sugar: 0.9, saturatedFat: 0.5, sodium: 8, potassium: 329, calcium: 7, iron: 3.2, vitaminD: 0 }
   },
 
   // ========================================
@@ -1310,7 +1609,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 24, carbs: 60, fat: 1.1 }
+    diet: "vegan",
+    flavors: ["hearty"],
+    macros: { protein: 24, carbs: 60, fat: 1.1 },
+    micronutrients: { fiber: 11, sugar: 2, saturatedFat: 0.4, sodium: 7, potassium: 578, calcium: 48, iron: 7.4, vitaminD: 0 }
   },
   {
     id: "food-083",
@@ -1320,7 +1622,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 25, carbs: 60, fat: 1 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    flavors: ["hearty"],
+    macros: { protein: 25, carbs: 60, fat: 1 },
+    micronutrients: { fiber: 11, sugar: 2, saturatedFat: 0.2, sodium: 6, potassium: 677, calcium: 35, iron: 6.5, vitaminD: 0 }
   },
   {
     id: "food-084",
@@ -1330,7 +1636,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 19, carbs: 61, fat: 6 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    flavors: ["hearty"],
+    macros: { protein: 19, carbs: 61, fat: 6 },
+    micronutrients: { fiber: 12, sugar: 10.7, saturatedFat: 0.6, sodium: 24, potassium: 718, calcium: 57, iron: 4.3, vitaminD: 0 }
   },
   {
     id: "food-085",
@@ -1340,7 +1650,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 8.4, carbs: 22, fat: 2.6 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    flavors: ["hearty"],
+    macros: { protein: 8.4, carbs: 22, fat: 2.6 },
+    micronutrients: { fiber: 7.6, sugar: 0.2, saturatedFat: 0.3, sodium: 240, potassium: 172, calcium: 43, iron: 1.3, vitaminD: 0 }
   },
   {
     id: "food-086",
@@ -1350,7 +1664,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 8.9, carbs: 24, fat: 0.5 }
+    diet: "vegan",
+    cuisines: ["brazilian", "mexican"],
+    flavors: ["hearty"],
+    macros: { protein: 8.9, carbs: 24, fat: 0.5 },
+    micronutrients: { fiber: 6.9, sugar: 0.3, saturatedFat: 0.1, sodium: 240, potassium: 308, calcium: 35, iron: 1.7, vitaminD: 0 }
   },
   {
     id: "food-087",
@@ -1360,7 +1678,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 8.7, carbs: 22, fat: 0.5 }
+    diet: "vegan",
+    cuisines: ["brazilian", "mexican"],
+    flavors: ["hearty"],
+    macros: { protein: 8.7, carbs: 22, fat: 0.5 },
+    micronutrients: { fiber: 6.4, sugar: 1.9, saturatedFat: 0.1, sodium: 260, potassium: 262, calcium: 35, iron: 1.3, vitaminD: 0 }
   },
   {
     id: "food-088",
@@ -1370,7 +1692,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 7.4, carbs: 21, fat: 0.5 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    macros: { protein: 7.4, carbs: 21, fat: 0.5 },
+    micronutrients: { fiber: 6.3, sugar: 0.3, saturatedFat: 0.1, sodium: 230, potassium: 454, calcium: 73, iron: 3, vitaminD: 0 }
   },
   {
     id: "food-089",
@@ -1380,7 +1705,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 25, carbs: 60, fat: 1 }
+    diet: "vegan",
+    flavors: ["hearty"],
+    macros: { protein: 25, carbs: 60, fat: 1 },
+    micronutrients: { fiber: 25, sugar: 8, saturatedFat: 0.2, sodium: 15, potassium: 981, calcium: 37, iron: 3.9, vitaminD: 0 }
   },
   {
     id: "food-090",
@@ -1390,7 +1718,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 36, carbs: 30, fat: 20 }
+    diet: "vegan",
+    allergens: ["soy"],
+    macros: { protein: 36, carbs: 30, fat: 20 },
+    micronutrients: { fiber: 9.3, sugar: 7.3, saturatedFat: 2.9, sodium: 2, potassium: 1797, calcium: 277, iron: 15.7, vitaminD: 0 }
   },
   {
     id: "food-091",
@@ -1400,7 +1731,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 8, carbs: 20, fat: 0.4 }
+    diet: "vegan",
+    macros: { protein: 8, carbs: 20, fat: 0.4 },
+    micronutrients: { fiber: 6, sugar: 1.5, saturatedFat: 0.1, sodium: 29, potassium: 370, calcium: 24, iron: 2, vitaminD: 0 }
   },
   {
     id: "food-092",
@@ -1410,7 +1743,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 9, carbs: 23, fat: 0.6 }
+    diet: "vegan",
+    cuisines: ["brazilian", "mexican"],
+    flavors: ["hearty"],
+    macros: { protein: 9, carbs: 23, fat: 0.6 },
+    micronutrients: { fiber: 5.5, sugar: 0.3, saturatedFat: 0.2, sodium: 240, potassium: 274, calcium: 43, iron: 1.6, vitaminD: 0 }
   },
 
   // ========================================
@@ -1424,7 +1761,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.39,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 3.3, carbs: 4.7, fat: 3.6 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    macros: { protein: 3.3, carbs: 4.7, fat: 3.6 },
+    micronutrients: { fiber: 0, sugar: 5, saturatedFat: 1.9, sodium: 43, potassium: 132, calcium: 113, iron: 0, vitaminD: 1.3 }
   },
   {
     id: "food-094",
@@ -1434,7 +1774,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 3.4, carbs: 4.8, fat: 1.5 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    macros: { protein: 3.4, carbs: 4.8, fat: 1.5 },
+    micronutrients: { fiber: 0, sugar: 5, saturatedFat: 1, sodium: 44, potassium: 150, calcium: 120, iron: 0, vitaminD: 1.1 }
   },
   {
     id: "food-095",
@@ -1444,7 +1787,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 4.3, carbs: 4.7, fat: 3.3 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    macros: { protein: 4.3, carbs: 4.7, fat: 3.3 },
+    micronutrients: { fiber: 0, sugar: 4.7, saturatedFat: 2.1, sodium: 46, potassium: 155, calcium: 121, iron: 0.1, vitaminD: 0.1 }
   },
   {
     id: "food-096",
@@ -1454,7 +1800,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 11, carbs: 4, fat: 0.2 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    macros: { protein: 11, carbs: 4, fat: 0.2 },
+    micronutrients: { fiber: 0, sugar: 4, saturatedFat: 0.1, sodium: 50, potassium: 160, calcium: 150, iron: 0.1, vitaminD: 0 }
   },
   {
     id: "food-097",
@@ -1464,7 +1813,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 22, carbs: 2.2, fat: 22 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    cuisines: ["mediterranean"],
+    macros: { protein: 22, carbs: 2.2, fat: 22 },
+    micronutrients: { fiber: 0, sugar: 1, saturatedFat: 13, sodium: 627, potassium: 76, calcium: 505, iron: 0.4, vitaminD: 0.4 }
   },
   {
     id: "food-098",
@@ -1474,7 +1827,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 4.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 36, carbs: 0, fat: 26 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    cuisines: ["mediterranean"],
+    flavors: ["umami"],
+    macros: { protein: 36, carbs: 0, fat: 26 },
+    micronutrients: { fiber: 0, sugar: 0.9, saturatedFat: 17, sodium: 1600, potassium: 92, calcium: 1184, iron: 0.8, vitaminD: 0.5 }
   },
   {
     id: "food-099",
@@ -1484,7 +1842,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 25, carbs: 1.3, fat: 33 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    cuisines: ["mexican"],
+    macros: { protein: 25, carbs: 1.3, fat: 33 },
+    micronutrients: { fiber: 0, sugar: 0.5, saturatedFat: 19, sodium: 653, potassium: 76, calcium: 710, iron: 0.1, vitaminD: 0.6 }
   },
   {
     id: "food-100",
@@ -1494,7 +1856,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 7, carbs: 4, fat: 15 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    macros: { protein: 7, carbs: 4, fat: 15 },
+    micronutrients: { fiber: 0, sugar: 4, saturatedFat: 7, sodium: 470, potassium: 160, calcium: 100, iron: 0.2, vitaminD: 0.2 }
   },
   {
     id: "food-101",
@@ -1504,7 +1869,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 12, carbs: 4, fat: 0.3 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    macros: { protein: 12, carbs: 4, fat: 0.3 },
+    micronutrients: { fiber: 0, sugar: 4, saturatedFat: 0.1, sodium: 40, potassium: 130, calcium: 90, iron: 0.1, vitaminD: 0 }
   },
   {
     id: "food-102",
@@ -1514,7 +1882,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 3.3, carbs: 4.2, fat: 1.5 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    macros: { protein: 3.3, carbs: 4.2, fat: 1.5 },
+    micronutrients: { fiber: 0, sugar: 4.5, saturatedFat: 0.6, sodium: 40, potassium: 164, calcium: 130, iron: 0, vitaminD: 1.0 }
   },
   {
     id: "food-103",
@@ -1524,7 +1895,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 24.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 80, carbs: 6, fat: 5 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    macros: { protein: 80, carbs: 6, fat: 5 },
+    micronutrients: { fiber: 0, sugar: 6, saturatedFat: 1.5, sodium: 160, potassium: 500, calcium: 400, iron: 1, vitaminD: 0 }
   },
 
   // ========================================
@@ -1538,7 +1912,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 9.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 26, carbs: 0, fat: 3.5 }
+    diet: "omnivore",
+    cuisines: ["brazilian", "asian", "mexican"],
+    macros: { protein: 26, carbs: 0, fat: 3.5 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 1, sodium: 53, potassium: 399, calcium: 5, iron: 1, vitaminD: 0.5 }
   },
   {
     id: "food-105",
@@ -1548,7 +1925,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 6.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 26, carbs: 0, fat: 10 }
+    diet: "omnivore",
+    cuisines: ["asian", "mexican"],
+    flavors: ["smoky"],
+    macros: { protein: 26, carbs: 0, fat: 10 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 2.7, sodium: 95, potassium: 240, calcium: 9, iron: 0.8, vitaminD: 0.2 }
   },
   {
     id: "food-106",
@@ -1558,7 +1939,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 12.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 18, carbs: 0, fat: 0.7 }
+    diet: "omnivore",
+    allergens: ["fish"],
+    cuisines: ["mediterranean"],
+    macros: { protein: 18, carbs: 0, fat: 0.7 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 0.1, sodium: 54, potassium: 413, calcium: 16, iron: 0.4, vitaminD: 0.9 }
   },
   {
     id: "food-107",
@@ -1568,7 +1953,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 9.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 19, carbs: 0, fat: 13.9 }
+    diet: "omnivore",
+    allergens: ["fish"],
+    cuisines: ["mediterranean", "asian"],
+    flavors: ["umami"],
+    macros: { protein: 19, carbs: 0, fat: 13.9 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 3.3, sodium: 90, potassium: 314, calcium: 12, iron: 1.6, vitaminD: 16 }
   },
   {
     id: "food-108",
@@ -1578,7 +1968,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 19, carbs: 9.4, fat: 11 }
+    diet: "vegan",
+    allergens: ["soy"],
+    cuisines: ["asian"],
+    flavors: ["umami"],
+    macros: { protein: 19, carbs: 9.4, fat: 11 },
+    micronutrients: { fiber: 5, sugar: 0, saturatedFat: 2.5, sodium: 9, potassium: 412, calcium: 111, iron: 2.7, vitaminD: 0 }
   },
   {
     id: "food-109",
@@ -1588,7 +1983,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 75, carbs: 14, fat: 2 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    cuisines: ["asian"],
+    macros: { protein: 75, carbs: 14, fat: 2 },
+    micronutrients: { fiber: 1, sugar: 0.5, saturatedFat: 0.1, sodium: 30, potassium: 100, calcium: 140, iron: 5.2, vitaminD: 0 }
   },
   {
     id: "food-110",
@@ -1598,7 +1997,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 11, carbs: 0.7, fat: 0.2 }
+    diet: "vegetarian",
+    allergens: ["eggs"],
+    macros: { protein: 11, carbs: 0.7, fat: 0.2 },
+    micronutrients: { fiber: 0, sugar: 0.7, saturatedFat: 0, sodium: 166, potassium: 163, calcium: 7, iron: 0.1, vitaminD: 0 }
   },
   {
     id: "food-111",
@@ -1608,7 +2010,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 14.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 20, carbs: 0, fat: 6.6 }
+    diet: "omnivore",
+    allergens: ["fish"],
+    cuisines: ["mediterranean"],
+    macros: { protein: 20, carbs: 0, fat: 6.6 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 2.2, sodium: 52, potassium: 481, calcium: 67, iron: 0.4, vitaminD: 15 }
   },
   {
     id: "food-112",
@@ -1618,7 +2024,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 20, carbs: 0, fat: 8 }
+    diet: "omnivore",
+    allergens: ["fish"],
+    macros: { protein: 20, carbs: 0, fat: 8 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 1.5, sodium: 420, potassium: 300, calcium: 240, iron: 0.8, vitaminD: 13 }
   },
 
   // ========================================
@@ -1632,7 +2041,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 13, carbs: 65, fat: 1 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    cuisines: ["mediterranean"],
+    macros: { protein: 13, carbs: 65, fat: 1 },
+    micronutrients: { fiber: 5, sugar: 0, saturatedFat: 0.1, sodium: 10, potassium: 166, calcium: 24, iron: 1.1, vitaminD: 0 }
   },
   {
     id: "food-114",
@@ -1642,7 +2055,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 12, carbs: 63, fat: 1.3 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    cuisines: ["mediterranean"],
+    macros: { protein: 12, carbs: 63, fat: 1.3 },
+    micronutrients: { fiber: 12.5, sugar: 0.4, saturatedFat: 0.2, sodium: 17, potassium: 410, calcium: 35, iron: 2.5, vitaminD: 0 }
   },
   {
     id: "food-115",
@@ -1652,7 +2069,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 11, carbs: 73, fat: 4.2 }
+    diet: "vegan",
+    mayContain: ["gluten"],
+    cuisines: ["asian"],
+    macros: { protein: 11, carbs: 73, fat: 4.2 },
+    micronutrients: { fiber: 8.5, sugar: 1.7, saturatedFat: 0.7, sodium: 5, potassium: 195, calcium: 8, iron: 3, vitaminD: 0 }
   },
   {
     id: "food-116",
@@ -1662,7 +2083,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 4.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 14, carbs: 65, fat: 7 }
+    diet: "vegan",
+    macros: { protein: 14, carbs: 65, fat: 7 },
+    micronutrients: { fiber: 6.7, sugar: 1.7, saturatedFat: 1.5, sodium: 4, potassium: 508, calcium: 159, iron: 7.6, vitaminD: 0 }
   },
   {
     id: "food-117",
@@ -1672,7 +2095,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 15, carbs: 70, fat: 2.4 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    macros: { protein: 15, carbs: 70, fat: 2.4 },
+    micronutrients: { fiber: 10.7, sugar: 6.8, saturatedFat: 0.4, sodium: 8, potassium: 388, calcium: 27, iron: 4.4, vitaminD: 0 }
   },
   {
     id: "food-118",
@@ -1682,7 +2108,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 8, carbs: 51, fat: 1.6 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    mayContain: ["sesame"],
+    cuisines: ["mediterranean"],
+    macros: { protein: 8, carbs: 51, fat: 1.6 },
+    micronutrients: { fiber: 2.4, sugar: 2, saturatedFat: 0.3, sodium: 510, potassium: 115, calcium: 20, iron: 3, vitaminD: 0 }
   },
   {
     id: "food-119",
@@ -1692,7 +2123,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 7, carbs: 79, fat: 1.2 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    flavors: ["hearty"],
+    macros: { protein: 7, carbs: 79, fat: 1.2 },
+    micronutrients: { fiber: 7.3, sugar: 0.6, saturatedFat: 0.5, sodium: 35, potassium: 287, calcium: 6, iron: 2.4, vitaminD: 0 }
   },
   {
     id: "food-120",
@@ -1702,7 +2137,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.79,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 13, carbs: 67, fat: 2.5 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    cuisines: ["mediterranean"],
+    macros: { protein: 13, carbs: 67, fat: 2.5 },
+    micronutrients: { fiber: 9, sugar: 3, saturatedFat: 0.5, sodium: 8, potassium: 215, calcium: 40, iron: 3.6, vitaminD: 0 }
   },
   {
     id: "food-121",
@@ -1712,7 +2151,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 12, carbs: 73, fat: 2.3 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    cuisines: ["mediterranean"],
+    flavors: ["hearty"],
+    macros: { protein: 12, carbs: 73, fat: 2.3 },
+    micronutrients: { fiber: 15, sugar: 0.8, saturatedFat: 0.2, sodium: 9, potassium: 280, calcium: 29, iron: 2.5, vitaminD: 0 }
   },
 
   // ========================================
@@ -1726,7 +2170,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 2.9, carbs: 11, fat: 0.2 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    macros: { protein: 2.9, carbs: 11, fat: 0.2 },
+    micronutrients: { fiber: 5, sugar: 1, saturatedFat: 0, sodium: 400, potassium: 200, calcium: 20, iron: 0.7, vitaminD: 0 }
   },
   {
     id: "food-123",
@@ -1736,7 +2183,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 1.6, carbs: 10, fat: 0.2 }
+    diet: "vegan",
+    macros: { protein: 1.6, carbs: 10, fat: 0.2 },
+    micronutrients: { fiber: 2.8, sugar: 6.8, saturatedFat: 0, sodium: 78, potassium: 325, calcium: 16, iron: 0.8, vitaminD: 0 }
   },
   {
     id: "food-124",
@@ -1746,7 +2195,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 0.7, carbs: 3.4, fat: 0.1 }
+    diet: "vegan",
+    flavors: ["fresh"],
+    macros: { protein: 0.7, carbs: 3.4, fat: 0.1 },
+    micronutrients: { fiber: 1.6, sugar: 1.9, saturatedFat: 0, sodium: 39, potassium: 233, calcium: 25, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-125",
@@ -1756,7 +2208,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 1.5, carbs: 14, fat: 0.3 }
+    diet: "vegan",
+    macros: { protein: 1.5, carbs: 14, fat: 0.3 },
+    micronutrients: { fiber: 1.8, sugar: 3.9, saturatedFat: 0, sodium: 20, potassium: 180, calcium: 59, iron: 2.1, vitaminD: 0 }
   },
   {
     id: "food-126",
@@ -1766,7 +2220,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 1.2, carbs: 7.3, fat: 0.2 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"],
+    macros: { protein: 1.2, carbs: 7.3, fat: 0.2 },
+    micronutrients: { fiber: 3.1, sugar: 3.9, saturatedFat: 0, sodium: 52, potassium: 414, calcium: 49, iron: 0.7, vitaminD: 0 }
   },
   {
     id: "food-127",
@@ -1776,7 +2234,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 5.4, carbs: 14, fat: 0.4 }
+    diet: "vegan",
+    macros: { protein: 5.4, carbs: 14, fat: 0.4 },
+    micronutrients: { fiber: 5, sugar: 5, saturatedFat: 0.1, sodium: 100, potassium: 150, calcium: 24, iron: 1.5, vitaminD: 0 }
   },
   {
     id: "food-128",
@@ -1786,7 +2246,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 1.3, carbs: 6, fat: 0.1 }
+    diet: "vegan",
+    cuisines: ["brazilian", "asian"],
+    macros: { protein: 1.3, carbs: 6, fat: 0.1 },
+    micronutrients: { fiber: 2.5, sugar: 3.2, saturatedFat: 0, sodium: 18, potassium: 170, calcium: 40, iron: 0.5, vitaminD: 0 }
   },
   {
     id: "food-129",
@@ -1796,7 +2259,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 1.8, carbs: 3.7, fat: 0.2 }
+    diet: "vegan",
+    macros: { protein: 1.8, carbs: 3.7, fat: 0.2 },
+    micronutrients: { fiber: 1.6, sugar: 1.1, saturatedFat: 0, sodium: 213, potassium: 379, calcium: 51, iron: 1.8, vitaminD: 0 }
   },
 
   // ========================================
@@ -1810,7 +2275,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 1.7, carbs: 19, fat: 1.2 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    macros: { protein: 1.7, carbs: 19, fat: 1.2 },
+    micronutrients: { fiber: 4, sugar: 13.7, saturatedFat: 0.1, sodium: 3, potassium: 236, calcium: 10, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-131",
@@ -1820,7 +2288,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 1.2, carbs: 12, fat: 0.7 }
+    diet: "vegan",
+    flavors: ["fresh"],
+    macros: { protein: 1.2, carbs: 12, fat: 0.7 },
+    micronutrients: { fiber: 6.5, sugar: 4.4, saturatedFat: 0, sodium: 1, potassium: 151, calcium: 25, iron: 0.7, vitaminD: 0 }
   },
   {
     id: "food-132",
@@ -1830,7 +2301,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 0.7, carbs: 14, fat: 0.3 }
+    diet: "vegan",
+    macros: { protein: 0.7, carbs: 14, fat: 0.3 },
+    micronutrients: { fiber: 2.7, sugar: 13.6, saturatedFat: 0, sodium: 1, potassium: 54, calcium: 8, iron: 0.2, vitaminD: 0 }
   },
   {
     id: "food-133",
@@ -1840,7 +2313,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 2.5, carbs: 75, fat: 0.4 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    macros: { protein: 2.5, carbs: 75, fat: 0.4 },
+    micronutrients: { fiber: 8, sugar: 63, saturatedFat: 0, sodium: 2, potassium: 656, calcium: 39, iron: 0.9, vitaminD: 0 }
   },
   {
     id: "food-134",
@@ -1850,7 +2326,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 3.4, carbs: 63, fat: 0.5 }
+    diet: "vegan",
+    macros: { protein: 3.4, carbs: 63, fat: 0.5 },
+    micronutrients: { fiber: 7.3, sugar: 53, saturatedFat: 0, sodium: 10, potassium: 1162, calcium: 55, iron: 2.7, vitaminD: 0 }
   },
   {
     id: "food-135",
@@ -1860,7 +2338,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 3.3, carbs: 15, fat: 33 }
+    diet: "vegan",
+    cuisines: ["brazilian"],
+    macros: { protein: 3.3, carbs: 15, fat: 33 },
+    micronutrients: { fiber: 9, sugar: 6.2, saturatedFat: 30, sodium: 20, potassium: 356, calcium: 14, iron: 2.4, vitaminD: 0 }
   },
   {
     id: "food-136",
@@ -1870,7 +2351,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 0.1, carbs: 82, fat: 1.4 }
+    diet: "vegan",
+    macros: { protein: 0.1, carbs: 82, fat: 1.4 },
+    micronutrients: { fiber: 5.7, sugar: 65, saturatedFat: 0.1, sodium: 5, potassium: 40, calcium: 10, iron: 0.4, vitaminD: 0 }
   },
 
   // ========================================
@@ -1884,7 +2367,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 4.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 17, carbs: 12, fat: 54 }
+    diet: "vegan",
+    allergens: ["sesame"],
+    cuisines: ["mediterranean"],
+    macros: { protein: 17, carbs: 12, fat: 54 },
+    micronutrients: { fiber: 9.3, sugar: 0.5, saturatedFat: 7.5, sodium: 35, potassium: 414, calcium: 426, iron: 8.9, vitaminD: 0 }
   },
   {
     id: "food-138",
@@ -1894,7 +2381,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 21, carbs: 20, fat: 51 }
+    diet: "vegan",
+    mayContain: ["peanuts", "tree_nuts"],
+    macros: { protein: 21, carbs: 20, fat: 51 },
+    micronutrients: { fiber: 8.6, sugar: 2.6, saturatedFat: 4.5, sodium: 9, potassium: 645, calcium: 78, iron: 5.2, vitaminD: 0 }
   },
   {
     id: "food-139",
@@ -1904,7 +2394,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 30, carbs: 5, fat: 49 }
+    diet: "vegan",
+    mayContain: ["peanuts", "tree_nuts"],
+    cuisines: ["mexican"],
+    macros: { protein: 30, carbs: 5, fat: 49 },
+    micronutrients: { fiber: 6, sugar: 1.4, saturatedFat: 8.7, sodium: 7, potassium: 809, calcium: 46, iron: 8.8, vitaminD: 0 }
   },
   {
     id: "food-140",
@@ -1914,7 +2408,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 5.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 32, carbs: 2.8, fat: 49 }
+    diet: "vegan",
+    macros: { protein: 32, carbs: 2.8, fat: 49 },
+    micronutrients: { fiber: 4, sugar: 1.5, saturatedFat: 4.6, sodium: 5, potassium: 1200, calcium: 70, iron: 8, vitaminD: 0 }
   },
   {
     id: "food-141",
@@ -1924,7 +2420,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 5.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 21, carbs: 19, fat: 56 }
+    diet: "vegan",
+    allergens: ["tree_nuts"],
+    macros: { protein: 21, carbs: 19, fat: 56 },
+    micronutrients: { fiber: 10, sugar: 4.4, saturatedFat: 4.2, sodium: 7, potassium: 748, calcium: 347, iron: 3.5, vitaminD: 0 }
   },
   {
     id: "food-142",
@@ -1934,7 +2433,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 0, carbs: 0, fat: 100 }
+    diet: "vegan",
+    allergens: ["sesame"],
+    cuisines: ["asian"],
+    macros: { protein: 0, carbs: 0, fat: 100 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 14, sodium: 0, potassium: 0, calcium: 0, iron: 0, vitaminD: 0 }
   },
   {
     id: "food-143",
@@ -1944,7 +2447,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 4.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 15, carbs: 17, fat: 61 }
+    diet: "vegan",
+    allergens: ["tree_nuts"],
+    macros: { protein: 15, carbs: 17, fat: 61 },
+    micronutrients: { fiber: 9.7, sugar: 4.3, saturatedFat: 4.5, sodium: 0, potassium: 680, calcium: 114, iron: 4.7, vitaminD: 0 }
   },
 
   // ========================================
@@ -1958,7 +2464,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 8, carbs: 60, fat: 14 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    mayContain: ["tree_nuts"],
+    macros: { protein: 8, carbs: 60, fat: 14 },
+    micronutrients: { fiber: 5, sugar: 20, saturatedFat: 3, sodium: 100, potassium: 300, calcium: 40, iron: 2.5, vitaminD: 0 }
   },
   {
     id: "food-145",
@@ -1968,7 +2478,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 1.5, carbs: 78, fat: 0.6 }
+    diet: "vegan",
+    macros: { protein: 1.5, carbs: 78, fat: 0.6 },
+    micronutrients: { fiber: 2.4, sugar: 66, saturatedFat: 0.1, sodium: 10, potassium: 279, calcium: 50, iron: 0.6, vitaminD: 0 }
   },
   {
     id: "food-146",
@@ -1978,7 +2490,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 26, carbs: 16, fat: 49 }
+    diet: "vegan",
+    allergens: ["peanuts"],
+    cuisines: ["asian"],
+    macros: { protein: 26, carbs: 16, fat: 49 },
+    micronutrients: { fiber: 8.4, sugar: 4.2, saturatedFat: 6.9, sodium: 6, potassium: 634, calcium: 54, iron: 2.3, vitaminD: 0 }
   },
   {
     id: "food-147",
@@ -1988,7 +2504,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 6, carbs: 40, fat: 2 }
+    diet: "vegan",
+    mayContain: ["sesame"],
+    cuisines: ["asian"],
+    flavors: ["umami"],
+    macros: { protein: 6, carbs: 40, fat: 2 },
+    micronutrients: { fiber: 30, sugar: 1, saturatedFat: 3, sodium: 500, potassium: 700, calcium: 200, iron: 4, vitaminD: 0 }
   },
 
   // ========================================
@@ -2002,7 +2523,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 14.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 0, carbs: 0, fat: 0 }
+    diet: "vegan",
+    macros: { protein: 0, carbs: 0, fat: 0 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 0, sodium: 0, potassium: 0, calcium: 0, iron: 0, vitaminD: 0 }
   },
   {
     id: "food-149",
@@ -2012,7 +2535,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 29.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 80, carbs: 4, fat: 2 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    macros: { protein: 80, carbs: 4, fat: 2 },
+    micronutrients: { fiber: 0, sugar: 4, saturatedFat: 1, sodium: 200, potassium: 300, calcium: 1200, iron: 1, vitaminD: 0 }
   },
   {
     id: "food-150",
@@ -2022,7 +2548,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 22.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 70, carbs: 8, fat: 4 }
+    diet: "vegan",
+    mayContain: ["soy"],
+    macros: { protein: 70, carbs: 8, fat: 4 },
+    micronutrients: { fiber: 5, sugar: 2, saturatedFat: 1, sodium: 900, potassium: 200, calcium: 100, iron: 20, vitaminD: 0 }
   },
   {
     id: "food-151",
@@ -2032,7 +2561,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 19.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 0, carbs: 0, fat: 0 }
+    diet: "vegetarian",
+    macros: { protein: 0, carbs: 0, fat: 0 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 0, sodium: 0, potassium: 0, calcium: 0, iron: 0, vitaminD: 0 }
   },
 
   // ========================================
@@ -2046,7 +2577,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 8, carbs: 5, fat: 0 }
+    diet: "vegan",
+    allergens: ["gluten", "soy"],
+    cuisines: ["asian"],
+    flavors: ["umami"],
+    macros: { protein: 8, carbs: 5, fat: 0 },
+    micronutrients: { fiber: 0.8, sugar: 1.7, saturatedFat: 0, sodium: 3300, potassium: 180, calcium: 20, iron: 1.5, vitaminD: 0 }
   },
   {
     id: "food-153",
@@ -2056,7 +2592,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 0, carbs: 0.9, fat: 0 }
+    diet: "vegan",
+    macros: { protein: 0, carbs: 0.9, fat: 0 },
+    micronutrients: { fiber: 0, sugar: 0.4, saturatedFat: 0, sodium: 5, potassium: 73, calcium: 7, iron: 0.2, vitaminD: 0 }
   },
   {
     id: "food-154",
@@ -2066,7 +2604,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 4, carbs: 3.3, fat: 3.6 }
+    diet: "vegan",
+    macros: { protein: 4, carbs: 3.3, fat: 3.6 },
+    micronutrients: { fiber: 4, sugar: 1, saturatedFat: 0.5, sodium: 1135, potassium: 150, calcium: 60, iron: 1.5, vitaminD: 0 }
   },
   {
     id: "food-155",
@@ -2076,7 +2616,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 4.3, carbs: 19, fat: 0.5 }
+    diet: "vegan",
+    macros: { protein: 4.3, carbs: 19, fat: 0.5 },
+    micronutrients: { fiber: 4.1, sugar: 12, saturatedFat: 0.1, sodium: 59, potassium: 1014, calcium: 36, iron: 3, vitaminD: 0 }
   },
   {
     id: "food-156",
@@ -2086,7 +2628,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 8, carbs: 65, fat: 3.3 }
+    diet: "vegan",
+    macros: { protein: 8, carbs: 65, fat: 3.3 },
+    micronutrients: { fiber: 21, sugar: 3.2, saturatedFat: 1.8, sodium: 27, potassium: 2080, calcium: 168, iron: 55, vitaminD: 0 }
   },
   {
     id: "food-157",
@@ -2096,7 +2640,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 5.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 0.3, carbs: 82, fat: 0 }
+    diet: "vegetarian",
+    macros: { protein: 0.3, carbs: 82, fat: 0 },
+    micronutrients: { fiber: 0.2, sugar: 82, saturatedFat: 0, sodium: 4, potassium: 52, calcium: 6, iron: 0.4, vitaminD: 0 }
   },
   {
     id: "food-158",
@@ -2106,7 +2652,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 1, carbs: 6.7, fat: 1.5 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    macros: { protein: 1, carbs: 6.7, fat: 1.5 },
+    micronutrients: { fiber: 0.8, sugar: 4, saturatedFat: 0.2, sodium: 42, potassium: 150, calcium: 120, iron: 0.2, vitaminD: 1.1 }
   },
   {
     id: "food-159",
@@ -2116,7 +2665,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.79,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 3.3, carbs: 1, fat: 1.8 }
+    diet: "vegan",
+    allergens: ["soy"],
+    macros: { protein: 3.3, carbs: 1, fat: 1.8 },
+    micronutrients: { fiber: 0.5, sugar: 0.4, saturatedFat: 0.3, sodium: 50, potassium: 120, calcium: 120, iron: 0.4, vitaminD: 1.1 }
   },
   {
     id: "food-160",
@@ -2126,7 +2678,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 11, carbs: 3, fat: 13 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    cuisines: ["mediterranean"],
+    macros: { protein: 11, carbs: 3, fat: 13 },
+    micronutrients: { fiber: 0, sugar: 0.3, saturatedFat: 8, sodium: 84, potassium: 105, calcium: 207, iron: 0.4, vitaminD: 0.2 }
   },
 
   // ========================================
@@ -2140,7 +2696,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 19, carbs: 7, fat: 11 }
+    diet: "vegan",
+    allergens: ["soy"],
+    cuisines: ["asian"],
+    flavors: ["umami"],
+    macros: { protein: 19, carbs: 7, fat: 11 },
+    micronutrients: { fiber: 5, sugar: 0, saturatedFat: 2.5, sodium: 9, potassium: 412, calcium: 111, iron: 2.7, vitaminD: 0 }
   },
   {
     id: "food-162",
@@ -2150,7 +2711,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 11, carbs: 8, fat: 5 }
+    diet: "vegan",
+    allergens: ["soy"],
+    cuisines: ["asian"],
+    macros: { protein: 11, carbs: 8, fat: 5 },
+    micronutrients: { fiber: 5.2, sugar: 2.2, saturatedFat: 0.6, sodium: 6, potassium: 436, calcium: 63, iron: 2.3, vitaminD: 0 }
   },
   {
     id: "food-163",
@@ -2160,7 +2725,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 25, carbs: 14, fat: 1.9 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    cuisines: ["asian"],
+    macros: { protein: 25, carbs: 14, fat: 1.9 },
+    micronutrients: { fiber: 1, sugar: 0.5, saturatedFat: 0.1, sodium: 30, potassium: 100, calcium: 140, iron: 5.2, vitaminD: 0 }
   },
   {
     id: "food-164",
@@ -2170,7 +2739,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 9.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 22, carbs: 0, fat: 3.5 }
+    diet: "omnivore",
+    cuisines: ["brazilian", "asian", "mexican"],
+    macros: { protein: 22, carbs: 0, fat: 3.5 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 1, sodium: 53, potassium: 399, calcium: 5, iron: 1, vitaminD: 0.5 }
   },
   {
     id: "food-165",
@@ -2180,7 +2752,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 12.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 17, carbs: 0, fat: 17 }
+    diet: "omnivore",
+    cuisines: ["mediterranean"],
+    flavors: ["hearty"],
+    macros: { protein: 17, carbs: 0, fat: 17 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 9, sodium: 70, potassium: 270, calcium: 17, iron: 1.7, vitaminD: 0.1 }
   },
   {
     id: "food-166",
@@ -2190,7 +2766,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 8.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 19, carbs: 0, fat: 14 }
+    diet: "omnivore",
+    allergens: ["fish"],
+    cuisines: ["mediterranean", "asian"],
+    flavors: ["umami"],
+    macros: { protein: 19, carbs: 0, fat: 14 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 3.3, sodium: 90, potassium: 314, calcium: 12, iron: 1.6, vitaminD: 16 }
   },
   {
     id: "food-167",
@@ -2200,7 +2781,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 24, carbs: 0, fat: 11 }
+    diet: "omnivore",
+    allergens: ["fish"],
+    cuisines: ["mediterranean", "brazilian"],
+    flavors: ["umami"],
+    macros: { protein: 24, carbs: 0, fat: 11 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 1.5, sodium: 307, potassium: 397, calcium: 382, iron: 2.9, vitaminD: 4.8 }
   },
   {
     id: "food-168",
@@ -2210,7 +2796,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 8.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 20, carbs: 0, fat: 1.7 }
+    diet: "omnivore",
+    allergens: ["shellfish"],
+    cuisines: ["mediterranean", "asian", "mexican"],
+    flavors: ["umami"],
+    macros: { protein: 20, carbs: 0, fat: 1.7 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 0.1, sodium: 566, potassium: 170, calcium: 64, iron: 0.2, vitaminD: 0 }
   },
   {
     id: "food-169",
@@ -2220,7 +2811,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 15.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 19, carbs: 0, fat: 10 }
+    diet: "omnivore",
+    cuisines: ["asian"],
+    flavors: ["hearty"],
+    macros: { protein: 19, carbs: 0, fat: 10 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 3.5, sodium: 74, potassium: 271, calcium: 11, iron: 2.4, vitaminD: 0.1 }
   },
   {
     id: "food-170",
@@ -2230,7 +2825,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 8, carbs: 1.5, fat: 4 }
+    diet: "vegan",
+    allergens: ["soy"],
+    cuisines: ["asian"],
+    flavors: ["umami"],
+    macros: { protein: 8, carbs: 1.5, fat: 4 },
+    micronutrients: { fiber: 2.3, sugar: 0.6, saturatedFat: 0.7, sodium: 14, potassium: 237, calcium: 683, iron: 2.7, vitaminD: 0 }
   },
 
   // ========================================
@@ -2244,7 +2844,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 1.2, carbs: 7, fat: 0.2 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"],
+    macros: { protein: 1.2, carbs: 7, fat: 0.2 },
+    micronutrients: { fiber: 3.1, sugar: 3.9, saturatedFat: 0, sodium: 52, potassium: 414, calcium: 49, iron: 0.7, vitaminD: 0 }
   },
   {
     id: "food-172",
@@ -2254,7 +2858,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 1.7, carbs: 10, fat: 0.2 }
+    diet: "vegan",
+    macros: { protein: 1.7, carbs: 10, fat: 0.2 },
+    micronutrients: { fiber: 2.8, sugar: 6.8, saturatedFat: 0, sodium: 78, potassium: 325, calcium: 16, iron: 0.8, vitaminD: 0 }
   },
   {
     id: "food-173",
@@ -2264,7 +2870,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 1.5, carbs: 9, fat: 0.3 }
+    diet: "vegan",
+    macros: { protein: 1.5, carbs: 9, fat: 0.3 },
+    micronutrients: { fiber: 1.8, sugar: 1.6, saturatedFat: 0, sodium: 100, potassium: 300, calcium: 43, iron: 0.7, vitaminD: 0 }
   },
   {
     id: "food-174",
@@ -2274,7 +2882,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 0.89,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 1.5, carbs: 14, fat: 0.3 }
+    diet: "vegan",
+    macros: { protein: 1.5, carbs: 14, fat: 0.3 },
+    micronutrients: { fiber: 1.8, sugar: 3.9, saturatedFat: 0, sodium: 20, potassium: 180, calcium: 59, iron: 2.1, vitaminD: 0 }
   },
   {
     id: "food-175",
@@ -2284,7 +2894,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 1.5, carbs: 2, fat: 0.2 }
+    diet: "vegan",
+    cuisines: ["asian"],
+    flavors: ["fresh"],
+    macros: { protein: 1.5, carbs: 2, fat: 0.2 },
+    micronutrients: { fiber: 1, sugar: 1.2, saturatedFat: 0, sodium: 65, potassium: 252, calcium: 105, iron: 0.8, vitaminD: 0 }
   },
   {
     id: "food-176",
@@ -2294,7 +2908,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 2, carbs: 10, fat: 0.2 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    macros: { protein: 2, carbs: 10, fat: 0.2 },
+    micronutrients: { fiber: 5, sugar: 1, saturatedFat: 0, sodium: 400, potassium: 200, calcium: 20, iron: 0.7, vitaminD: 0 }
   },
   {
     id: "food-177",
@@ -2304,7 +2921,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 1.8, carbs: 3.7, fat: 0.2 }
+    diet: "vegan",
+    cuisines: ["brazilian"],
+    macros: { protein: 1.8, carbs: 3.7, fat: 0.2 },
+    micronutrients: { fiber: 1.6, sugar: 1.1, saturatedFat: 0, sodium: 213, potassium: 379, calcium: 51, iron: 1.8, vitaminD: 0 }
   },
   {
     id: "food-178",
@@ -2314,7 +2934,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 11, carbs: 10, fat: 5 }
+    diet: "vegan",
+    allergens: ["soy"],
+    cuisines: ["asian"],
+    macros: { protein: 11, carbs: 10, fat: 5 },
+    micronutrients: { fiber: 5.2, sugar: 2.2, saturatedFat: 0.6, sodium: 6, potassium: 436, calcium: 63, iron: 2.3, vitaminD: 0 }
   },
   {
     id: "food-179",
@@ -2324,7 +2948,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 5, carbs: 44, fat: 3 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    flavors: ["umami"],
+    macros: { protein: 5, carbs: 44, fat: 3 },
+    micronutrients: { fiber: 12, sugar: 38, saturatedFat: 0.3, sodium: 247, potassium: 3427, calcium: 110, iron: 9.1, vitaminD: 0 }
   },
   {
     id: "food-180",
@@ -2334,7 +2962,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 4, carbs: 35, fat: 15 }
+    diet: "vegan",
+    macros: { protein: 4, carbs: 35, fat: 15 },
+    micronutrients: { fiber: 8, sugar: 6, saturatedFat: 3, sodium: 400, potassium: 1000, calcium: 250, iron: 3, vitaminD: 0 }
   },
 
   // ========================================
@@ -2348,7 +2978,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 24, carbs: 63, fat: 1.2 }
+    diet: "vegan",
+    cuisines: ["asian"],
+    macros: { protein: 24, carbs: 63, fat: 1.2 },
+    micronutrients: { fiber: 16, sugar: 6.6, saturatedFat: 0.3, sodium: 15, potassium: 1246, calcium: 132, iron: 6.7, vitaminD: 0 }
   },
   {
     id: "food-182",
@@ -2358,7 +2991,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 7.5, carbs: 22, fat: 0.5 }
+    diet: "vegan",
+    cuisines: ["asian"],
+    macros: { protein: 7.5, carbs: 22, fat: 0.5 },
+    micronutrients: { fiber: 7, sugar: 0.3, saturatedFat: 0.1, sodium: 200, potassium: 400, calcium: 40, iron: 2, vitaminD: 0 }
   },
   {
     id: "food-183",
@@ -2368,7 +3004,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 26, carbs: 58, fat: 1.5 }
+    diet: "vegan",
+    macros: { protein: 26, carbs: 58, fat: 1.5 },
+    micronutrients: { fiber: 25, sugar: 5.7, saturatedFat: 0.3, sodium: 13, potassium: 1062, calcium: 103, iron: 6.7, vitaminD: 0 }
   },
   {
     id: "food-184",
@@ -2378,7 +3016,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 14.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 80, carbs: 5, fat: 2 }
+    diet: "vegan",
+    macros: { protein: 80, carbs: 5, fat: 2 },
+    micronutrients: { fiber: 5, sugar: 1, saturatedFat: 1, sodium: 1000, potassium: 100, calcium: 100, iron: 25, vitaminD: 0 }
   },
   {
     id: "food-185",
@@ -2388,7 +3028,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 6.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 31, carbs: 8.7, fat: 49 }
+    diet: "vegan",
+    macros: { protein: 31, carbs: 8.7, fat: 49 },
+    micronutrients: { fiber: 4, sugar: 1.5, saturatedFat: 4.6, sodium: 5, potassium: 1200, calcium: 70, iron: 8, vitaminD: 0 }
   },
 
   // ========================================
@@ -2402,7 +3044,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 12, carbs: 65, fat: 2.5 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    cuisines: ["mediterranean"],
+    macros: { protein: 12, carbs: 65, fat: 2.5 },
+    micronutrients: { fiber: 12, sugar: 1, saturatedFat: 0.3, sodium: 10, potassium: 400, calcium: 40, iron: 3.7, vitaminD: 0 }
   },
   {
     id: "food-187",
@@ -2412,7 +3058,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 4.49,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 13, carbs: 74, fat: 2.4 }
+    diet: "vegan",
+    macros: { protein: 13, carbs: 74, fat: 2.4 },
+    micronutrients: { fiber: 8, sugar: 1.8, saturatedFat: 0.4, sodium: 12, potassium: 427, calcium: 180, iron: 7.6, vitaminD: 0 }
   },
   {
     id: "food-188",
@@ -2422,7 +3070,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.29,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 7, carbs: 76, fat: 1.3 }
+    diet: "vegan",
+    macros: { protein: 7, carbs: 76, fat: 1.3 },
+    micronutrients: { fiber: 5, sugar: 0.6, saturatedFat: 0.3, sodium: 30, potassium: 200, calcium: 5, iron: 1.5, vitaminD: 0 }
   },
   {
     id: "food-189",
@@ -2432,7 +3082,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 7, carbs: 80, fat: 0.5 }
+    diet: "vegan",
+    mayContain: ["sesame"],
+    macros: { protein: 7, carbs: 80, fat: 0.5 },
+    micronutrients: { fiber: 4.2, sugar: 0.9, saturatedFat: 0.6, sodium: 30, potassium: 290, calcium: 11, iron: 1.5, vitaminD: 0 }
   },
   {
     id: "food-190",
@@ -2442,7 +3095,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 10, carbs: 62, fat: 2 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    mayContain: ["sesame"],
+    macros: { protein: 10, carbs: 62, fat: 2 },
+    micronutrients: { fiber: 16, sugar: 1.2, saturatedFat: 0.4, sodium: 265, potassium: 319, calcium: 31, iron: 2.4, vitaminD: 0 }
   },
 
   // ========================================
@@ -2456,7 +3113,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 3.4, carbs: 4.5, fat: 3.5 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    macros: { protein: 3.4, carbs: 4.5, fat: 3.5 },
+    micronutrients: { fiber: 0, sugar: 4.5, saturatedFat: 0.6, sodium: 40, potassium: 164, calcium: 130, iron: 0, vitaminD: 1.0 }
   },
   {
     id: "food-192",
@@ -2466,7 +3126,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 13, carbs: 4, fat: 0.3 }
+    diet: "vegetarian",
+    allergens: ["lactose"],
+    macros: { protein: 13, carbs: 4, fat: 0.3 },
+    micronutrients: { fiber: 0, sugar: 4, saturatedFat: 0.1, sodium: 40, potassium: 130, calcium: 90, iron: 0.1, vitaminD: 0 }
   },
   {
     id: "food-193",
@@ -2476,7 +3139,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.29,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 1, carbs: 7, fat: 1.5 }
+    diet: "vegan",
+    allergens: ["gluten"],
+    macros: { protein: 1, carbs: 7, fat: 1.5 },
+    micronutrients: { fiber: 0.8, sugar: 3.3, saturatedFat: 0.3, sodium: 40, potassium: 150, calcium: 120, iron: 0.2, vitaminD: 1.1 }
   },
   {
     id: "food-194",
@@ -2486,7 +3152,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 3.5, carbs: 2, fat: 2.5 }
+    diet: "vegan",
+    macros: { protein: 3.5, carbs: 2, fat: 2.5 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 0.2, sodium: 53, potassium: 190, calcium: 188, iron: 1.1, vitaminD: 1.0 }
   },
 
   // ========================================
@@ -2500,7 +3168,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 5.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 0, carbs: 0, fat: 100 }
+    diet: "vegan",
+    allergens: ["tree_nuts"],
+    macros: { protein: 0, carbs: 0, fat: 100 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 9.1, sodium: 0, potassium: 0, calcium: 0, iron: 0, vitaminD: 0 }
   },
   {
     id: "food-196",
@@ -2510,7 +3181,9 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 14.99,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 0, carbs: 0, fat: 100 }
+    diet: "vegan",
+    macros: { protein: 0, carbs: 0, fat: 100 },
+    micronutrients: { fiber: 0, sugar: 0, saturatedFat: 95, sodium: 0, potassium: 0, calcium: 0, iron: 0, vitaminD: 0 }
   },
   {
     id: "food-197",
@@ -2520,7 +3193,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 5.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 19, carbs: 12, fat: 56 }
+    diet: "vegan",
+    mayContain: ["peanuts", "tree_nuts"],
+    macros: { protein: 19, carbs: 12, fat: 56 },
+    micronutrients: { fiber: 5.7, sugar: 9, saturatedFat: 4, sodium: 3, potassium: 576, calcium: 64, iron: 4, vitaminD: 0 }
   },
   {
     id: "food-198",
@@ -2530,7 +3206,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 19, carbs: 17, fat: 46 }
+    diet: "vegan",
+    mayContain: ["peanuts", "tree_nuts"],
+    cuisines: ["mexican"],
+    macros: { protein: 19, carbs: 17, fat: 46 },
+    micronutrients: { fiber: 6, sugar: 1.4, saturatedFat: 8.7, sodium: 7, potassium: 809, calcium: 46, iron: 8.8, vitaminD: 0 }
   },
 
   // ========================================
@@ -2544,7 +3224,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 1.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 1.7, carbs: 19, fat: 1.2 }
+    diet: "vegan",
+    cuisines: ["mediterranean"],
+    macros: { protein: 1.7, carbs: 19, fat: 1.2 },
+    micronutrients: { fiber: 4, sugar: 13.7, saturatedFat: 0.1, sodium: 3, potassium: 236, calcium: 10, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-200",
@@ -2554,7 +3237,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 0.5, carbs: 11, fat: 0.3 }
+    diet: "vegan",
+    cuisines: ["brazilian"],
+    macros: { protein: 0.5, carbs: 11, fat: 0.3 },
+    micronutrients: { fiber: 1.7, sugar: 7.8, saturatedFat: 0.1, sodium: 8, potassium: 182, calcium: 20, iron: 0.3, vitaminD: 0 }
   },
   {
     id: "food-201",
@@ -2564,7 +3250,11 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 0.79,
     quantity: 0,
     costLevel: "low",
-    macros: { protein: 2.2, carbs: 23, fat: 0.7 }
+    diet: "vegan",
+    cuisines: ["brazilian"],
+    flavors: ["fresh"],
+    macros: { protein: 2.2, carbs: 23, fat: 0.7 },
+    micronutrients: { fiber: 10.4, sugar: 11, saturatedFat: 0.1, sodium: 28, potassium: 348, calcium: 12, iron: 1.6, vitaminD: 0 }
   },
   {
     id: "food-202",
@@ -2574,7 +3264,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.49,
     quantity: 0,
     costLevel: "high",
-    macros: { protein: 1.1, carbs: 9, fat: 0 }
+    diet: "vegan",
+    cuisines: ["asian"],
+    macros: { protein: 1.1, carbs: 9, fat: 0 },
+    micronutrients: { fiber: 3, sugar: 8, saturatedFat: 0, sodium: 0, potassium: 116, calcium: 18, iron: 0.7, vitaminD: 0 }
   },
   {
     id: "food-203",
@@ -2584,7 +3277,10 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 2.49,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 0.8, carbs: 17, fat: 0.1 }
+    diet: "vegan",
+    cuisines: ["asian"],
+    macros: { protein: 0.8, carbs: 17, fat: 0.1 },
+    micronutrients: { fiber: 0.8, sugar: 17, saturatedFat: 0, sodium: 1, potassium: 100, calcium: 5, iron: 0.3, vitaminD: 0 }
   },
 
   // ========================================
@@ -2598,7 +3294,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 3.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 10.5, carbs: 5, fat: 0 }
+    diet: "vegan",
+    allergens: ["soy"],
+    cuisines: ["asian"],
+    flavors: ["umami"],
+    macros: { protein: 10.5, carbs: 5, fat: 0 },
+    micronutrients: { fiber: 0.8, sugar: 1.7, saturatedFat: 0, sodium: 5600, potassium: 212, calcium: 20, iron: 2.4, vitaminD: 0 }
   },
   {
     id: "food-205",
@@ -2608,7 +3309,12 @@ export const mockFoods: FoodItem[] = [
     pricePerUnit: 4.99,
     quantity: 0,
     costLevel: "medium",
-    macros: { protein: 12, carbs: 25, fat: 6 }
+    diet: "vegan",
+    allergens: ["gluten", "soy"],
+    cuisines: ["asian"],
+    flavors: ["umami"],
+    macros: { protein: 12, carbs: 25, fat: 6 },
+    micronutrients: { fiber: 5.4, sugar: 6.2, saturatedFat: 1, sodium: 3728, potassium: 210, calcium: 57, iron: 2.5, vitaminD: 0 }
   }
 ];
 
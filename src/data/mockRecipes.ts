@@ -7,6 +7,8 @@ import { CATEGORIES } from "../core/constants/categories";
  * 120 recipes across all meal types and diet styles.
  * Covers breakfast (30), lunch (30), dinner (30), snack (30).
  * All ingredient IDs reference the mockFoods database (food-001 through food-160).
+ * Ingredient allergens mirror the matching mockFoods entry.
+ * cuisines / flavors tag the dishes that clearly belong to one (curries, stir-fries, burrito bowls...).
  */
 
 export const mockRecipes: Recipe[] = [
@@ -18,7 +20,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 15,
     dietStyle: ["healthy", "balanced"],
     ingredients: [
-      { foodItemId: "food-002", name: "Eggs", quantity: 4, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-002", name: "Eggs", quantity: 4, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-016", name: "Spinach", quantity: 0.05, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-018", name: "Bell peppers", quantity: 0.05, unit: "kg", category: CATEGORIES.vegetables },
@@ -41,8 +43,8 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["healthy", "balanced"],
     ingredients: [
-      { foodItemId: "food-010", name: "Oats", quantity: 0.08, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-035", name: "Milk (skim)", quantity: 0.2, unit: "L", category: CATEGORIES.dairy },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.08, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-210", name: "Milk (skim)", quantity: 0.2, unit: "L", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-024", name: "Blueberries", quantity: 0.05, unit: "kg", category: CATEGORIES.fruits },
       { foodItemId: "food-025", name: "Strawberries", quantity: 0.05, unit: "kg", category: CATEGORIES.fruits },
       { foodItemId: "food-071", name: "Chia seeds", quantity: 0.01, unit: "kg", category: CATEGORIES.fats },
@@ -62,11 +64,11 @@ export const mockRecipes: Recipe[] = [
     prepTime: 20,
     dietStyle: ["balanced", "comfort"],
     ingredients: [
-      { foodItemId: "food-010", name: "Oats", quantity: 0.06, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.06, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-022", name: "Banana", quantity: 1, unit: "un", category: CATEGORIES.fruits },
-      { foodItemId: "food-103", name: "Whey protein", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
-      { foodItemId: "food-073", name: "Butter", quantity: 0.01, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-103", name: "Whey protein", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-073", name: "Butter", quantity: 0.01, unit: "kg", category: CATEGORIES.fats, allergens: ["lactose"] },
     ],
     instructions: [
       "Blend oats, eggs, banana and protein powder until smooth",
@@ -85,9 +87,9 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-003", name: "Greek yogurt", quantity: 0.2, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-003", name: "Greek yogurt", quantity: 0.2, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-025", name: "Strawberries", quantity: 0.05, unit: "kg", category: CATEGORIES.fruits },
-      { foodItemId: "food-030", name: "Almonds", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-030", name: "Almonds", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
       { foodItemId: "food-157", name: "Honey", quantity: 0.01, unit: "kg", category: CATEGORIES.others },
     ],
     instructions: [
@@ -95,7 +97,8 @@ export const mockRecipes: Recipe[] = [
       "Add sliced strawberries",
       "Top with almonds and drizzle honey",
     ],
-    tags: ["quick", "no-cook", "high-protein"]
+    tags: ["quick", "no-cook", "high-protein"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-005",
@@ -105,9 +108,9 @@ export const mockRecipes: Recipe[] = [
     prepTime: 10,
     dietStyle: ["healthy", "balanced"],
     ingredients: [
-      { foodItemId: "food-012", name: "Whole wheat bread", quantity: 2, unit: "un", category: CATEGORIES.grains },
+      { foodItemId: "food-012", name: "Whole wheat bread", quantity: 2, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-028", name: "Avocado", quantity: 0.5, unit: "un", category: CATEGORIES.fruits },
-      { foodItemId: "food-002", name: "Eggs", quantity: 2, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-002", name: "Eggs", quantity: 2, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.005, unit: "L", category: CATEGORIES.fats },
     ],
     instructions: [
@@ -127,10 +130,10 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["balanced", "comfort"],
     ingredients: [
       { foodItemId: "food-022", name: "Banana", quantity: 1, unit: "un", category: CATEGORIES.fruits },
-      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
-      { foodItemId: "food-035", name: "Milk (skim)", quantity: 0.3, unit: "L", category: CATEGORIES.dairy },
-      { foodItemId: "food-103", name: "Whey protein", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
-      { foodItemId: "food-010", name: "Oats", quantity: 0.03, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["peanuts"] },
+      { foodItemId: "food-210", name: "Milk (skim)", quantity: 0.3, unit: "L", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-103", name: "Whey protein", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.03, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
     ],
     instructions: [
       "Add all ingredients to a blender",
@@ -147,10 +150,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 10,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-002", name: "Eggs", quantity: 4, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-002", name: "Eggs", quantity: 4, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-016", name: "Spinach", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
-      { foodItemId: "food-097", name: "Mozzarella", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-097", name: "Mozzarella", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
     ],
     instructions: [
       "Heat olive oil in a pan",
@@ -168,9 +171,9 @@ export const mockRecipes: Recipe[] = [
     prepTime: 10,
     dietStyle: ["balanced"],
     ingredients: [
-      { foodItemId: "food-046", name: "Whole wheat tortilla", quantity: 1, unit: "un", category: CATEGORIES.grains },
+      { foodItemId: "food-046", name: "Whole wheat tortilla", quantity: 1, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-031", name: "Turkey breast", quantity: 0.08, unit: "kg", category: CATEGORIES.protein },
-      { foodItemId: "food-002", name: "Eggs", quantity: 2, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-002", name: "Eggs", quantity: 2, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.05, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-021", name: "Lettuce", quantity: 0.03, unit: "kg", category: CATEGORIES.vegetables },
     ],
@@ -180,7 +183,8 @@ export const mockRecipes: Recipe[] = [
       "Layer turkey, eggs, tomatoes and lettuce",
       "Roll tightly and slice in half",
     ],
-    tags: ["portable", "high-protein", "meal-prep"]
+    tags: ["portable", "high-protein", "meal-prep"],
+    cuisines: ["mexican"]
   },
   {
     id: "recipe-009",
@@ -190,9 +194,9 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-007", name: "Cottage cheese", quantity: 0.2, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-007", name: "Cottage cheese", quantity: 0.2, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-062", name: "Pineapple", quantity: 0.08, unit: "kg", category: CATEGORIES.fruits },
-      { foodItemId: "food-030", name: "Almonds", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-030", name: "Almonds", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
       { foodItemId: "food-070", name: "Flaxseed", quantity: 0.01, unit: "kg", category: CATEGORIES.fats },
     ],
     instructions: [
@@ -210,11 +214,11 @@ export const mockRecipes: Recipe[] = [
     prepTime: 10,
     dietStyle: ["healthy", "balanced"],
     ingredients: [
-      { foodItemId: "food-010", name: "Oats", quantity: 0.08, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.08, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-022", name: "Banana", quantity: 1, unit: "un", category: CATEGORIES.fruits },
-      { foodItemId: "food-069", name: "Walnuts", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-069", name: "Walnuts", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
       { foodItemId: "food-157", name: "Honey", quantity: 0.01, unit: "kg", category: CATEGORIES.others },
-      { foodItemId: "food-035", name: "Milk (skim)", quantity: 0.2, unit: "L", category: CATEGORIES.dairy },
+      { foodItemId: "food-210", name: "Milk (skim)", quantity: 0.2, unit: "L", category: CATEGORIES.dairy, allergens: ["lactose"] },
     ],
     instructions: [
       "Cook oats with milk for 5 minutes",
@@ -231,10 +235,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 25,
     dietStyle: ["healthy", "balanced"],
     ingredients: [
-      { foodItemId: "food-002", name: "Eggs", quantity: 6, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-002", name: "Eggs", quantity: 6, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-015", name: "Broccoli", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-018", name: "Bell peppers", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-099", name: "Cheddar cheese", quantity: 0.06, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-099", name: "Cheddar cheese", quantity: 0.06, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
     ],
     instructions: [
       "Preheat oven to 180°C",
@@ -253,7 +257,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-096", name: "Skyr", quantity: 0.2, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-096", name: "Skyr", quantity: 0.2, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-131", name: "Raspberries", quantity: 0.05, unit: "kg", category: CATEGORIES.fruits },
       { foodItemId: "food-024", name: "Blueberries", quantity: 0.05, unit: "kg", category: CATEGORIES.fruits },
       { foodItemId: "food-139", name: "Pumpkin seeds", quantity: 0.015, unit: "kg", category: CATEGORIES.fats },
@@ -274,7 +278,7 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["healthy", "comfort"],
     ingredients: [
       { foodItemId: "food-011", name: "Sweet potato", quantity: 0.3, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-018", name: "Bell peppers", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.015, unit: "L", category: CATEGORIES.fats },
     ],
@@ -294,11 +298,11 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["balanced"],
     ingredients: [
-      { foodItemId: "food-103", name: "Whey protein", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-103", name: "Whey protein", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-022", name: "Banana", quantity: 1, unit: "un", category: CATEGORIES.fruits },
       { foodItemId: "food-132", name: "Blueberries (frozen)", quantity: 0.08, unit: "kg", category: CATEGORIES.fruits },
-      { foodItemId: "food-036", name: "Almond milk", quantity: 0.15, unit: "L", category: CATEGORIES.dairy },
-      { foodItemId: "food-010", name: "Oats", quantity: 0.03, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-211", name: "Almond milk", quantity: 0.15, unit: "L", category: CATEGORIES.dairy, allergens: ["tree_nuts"] },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.03, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
     ],
     instructions: [
       "Blend protein, banana, berries and almond milk until thick",
@@ -315,9 +319,9 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-045", name: "Rye bread", quantity: 2, unit: "un", category: CATEGORIES.grains },
-      { foodItemId: "food-004", name: "Salmon", quantity: 0.08, unit: "kg", category: CATEGORIES.protein },
-      { foodItemId: "food-100", name: "Cream cheese (light)", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-045", name: "Rye bread", quantity: 2, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-004", name: "Salmon", quantity: 0.08, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
+      { foodItemId: "food-100", name: "Cream cheese (light)", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-020", name: "Cucumber", quantity: 0.05, unit: "kg", category: CATEGORIES.vegetables },
     ],
     instructions: [
@@ -325,7 +329,8 @@ export const mockRecipes: Recipe[] = [
       "Spread cream cheese on each slice",
       "Top with smoked salmon and cucumber slices",
     ],
-    tags: ["omega-3", "quick", "scandinavian"]
+    tags: ["omega-3", "quick", "scandinavian"],
+    flavors: ["smoky"]
   },
   {
     id: "recipe-016",
@@ -336,7 +341,7 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["healthy"],
     ingredients: [
       { foodItemId: "food-071", name: "Chia seeds", quantity: 0.03, unit: "kg", category: CATEGORIES.fats },
-      { foodItemId: "food-036", name: "Almond milk", quantity: 0.2, unit: "L", category: CATEGORIES.dairy },
+      { foodItemId: "food-211", name: "Almond milk", quantity: 0.2, unit: "L", category: CATEGORIES.dairy, allergens: ["tree_nuts"] },
       { foodItemId: "food-065", name: "Mango", quantity: 0.1, unit: "kg", category: CATEGORIES.fruits },
       { foodItemId: "food-157", name: "Honey", quantity: 0.01, unit: "kg", category: CATEGORIES.others },
     ],
@@ -355,7 +360,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 15,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-039", name: "Tofu (firm)", quantity: 0.2, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-039", name: "Tofu (firm)", quantity: 0.2, unit: "kg", category: CATEGORIES.protein, allergens: ["soy"] },
       { foodItemId: "food-016", name: "Spinach", quantity: 0.05, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-156", name: "Turmeric", quantity: 0.003, unit: "kg", category: CATEGORIES.others },
@@ -377,10 +382,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["balanced", "comfort"],
     ingredients: [
-      { foodItemId: "food-010", name: "Oats", quantity: 0.05, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-095", name: "Natural yogurt", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.05, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-095", name: "Natural yogurt", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-022", name: "Banana", quantity: 0.5, unit: "un", category: CATEGORIES.fruits },
-      { foodItemId: "food-030", name: "Almonds", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-030", name: "Almonds", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
       { foodItemId: "food-157", name: "Honey", quantity: 0.015, unit: "kg", category: CATEGORIES.others },
     ],
     instructions: [
@@ -398,10 +403,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 10,
     dietStyle: ["comfort", "balanced"],
     ingredients: [
-      { foodItemId: "food-012", name: "Whole wheat bread", quantity: 2, unit: "un", category: CATEGORIES.grains },
-      { foodItemId: "food-002", name: "Eggs", quantity: 2, unit: "un", category: CATEGORIES.protein },
-      { foodItemId: "food-099", name: "Cheddar cheese", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
-      { foodItemId: "food-073", name: "Butter", quantity: 0.005, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-012", name: "Whole wheat bread", quantity: 2, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-002", name: "Eggs", quantity: 2, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
+      { foodItemId: "food-099", name: "Cheddar cheese", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-073", name: "Butter", quantity: 0.005, unit: "kg", category: CATEGORIES.fats, allergens: ["lactose"] },
     ],
     instructions: [
       "Butter bread and toast in a pan",
@@ -421,8 +426,8 @@ export const mockRecipes: Recipe[] = [
     ingredients: [
       { foodItemId: "food-132", name: "Blueberries (frozen)", quantity: 0.1, unit: "kg", category: CATEGORIES.fruits },
       { foodItemId: "food-022", name: "Banana", quantity: 1, unit: "un", category: CATEGORIES.fruits },
-      { foodItemId: "food-103", name: "Whey protein", quantity: 0.025, unit: "kg", category: CATEGORIES.dairy },
-      { foodItemId: "food-010", name: "Oats", quantity: 0.03, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-103", name: "Whey protein", quantity: 0.025, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.03, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-071", name: "Chia seeds", quantity: 0.01, unit: "kg", category: CATEGORIES.fats },
     ],
     instructions: [
@@ -430,7 +435,8 @@ export const mockRecipes: Recipe[] = [
       "Mix in protein powder",
       "Pour into bowl, top with oats and chia seeds",
     ],
-    tags: ["antioxidant", "high-protein", "trendy"]
+    tags: ["antioxidant", "high-protein", "trendy"],
+    cuisines: ["brazilian"]
   },
   {
     id: "recipe-021",
@@ -440,9 +446,9 @@ export const mockRecipes: Recipe[] = [
     prepTime: 12,
     dietStyle: ["healthy", "balanced"],
     ingredients: [
-      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-056", name: "Mushrooms", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-097", name: "Mozzarella", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-097", name: "Mozzarella", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.005, unit: "L", category: CATEGORIES.fats },
     ],
     instructions: [
@@ -451,7 +457,8 @@ export const mockRecipes: Recipe[] = [
       "Add mozzarella, cook until set",
       "Fold and serve",
     ],
-    tags: ["quick", "keto-friendly", "savory"]
+    tags: ["quick", "keto-friendly", "savory"],
+    flavors: ["umami"]
   },
   {
     id: "recipe-022",
@@ -462,9 +469,9 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["healthy"],
     ingredients: [
       { foodItemId: "food-013", name: "Quinoa", quantity: 0.06, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-035", name: "Milk (skim)", quantity: 0.15, unit: "L", category: CATEGORIES.dairy },
+      { foodItemId: "food-210", name: "Milk (skim)", quantity: 0.15, unit: "L", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-022", name: "Banana", quantity: 0.5, unit: "un", category: CATEGORIES.fruits },
-      { foodItemId: "food-030", name: "Almonds", quantity: 0.015, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-030", name: "Almonds", quantity: 0.015, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
       { foodItemId: "food-157", name: "Honey", quantity: 0.01, unit: "kg", category: CATEGORIES.others },
     ],
     instructions: [
@@ -482,8 +489,8 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["balanced", "comfort"],
     ingredients: [
-      { foodItemId: "food-012", name: "Whole wheat bread", quantity: 2, unit: "un", category: CATEGORIES.grains },
-      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.025, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-012", name: "Whole wheat bread", quantity: 2, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.025, unit: "kg", category: CATEGORIES.fats, allergens: ["peanuts"] },
       { foodItemId: "food-022", name: "Banana", quantity: 1, unit: "un", category: CATEGORIES.fruits },
     ],
     instructions: [
@@ -501,10 +508,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 30,
     dietStyle: ["healthy", "balanced"],
     ingredients: [
-      { foodItemId: "food-002", name: "Eggs", quantity: 6, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-002", name: "Eggs", quantity: 6, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-049", name: "Zucchini", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-018", name: "Bell peppers", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-098", name: "Parmesan cheese", quantity: 0.04, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-098", name: "Parmesan cheese", quantity: 0.04, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
     ],
     instructions: [
@@ -513,7 +520,8 @@ export const mockRecipes: Recipe[] = [
       "Pour beaten eggs with parmesan over veggies",
       "Bake 20 min until set and golden",
     ],
-    tags: ["meal-prep", "batch-cooking", "versatile"]
+    tags: ["meal-prep", "batch-cooking", "versatile"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-025",
@@ -523,10 +531,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 15,
     dietStyle: ["comfort", "balanced"],
     ingredients: [
-      { foodItemId: "food-046", name: "Whole wheat tortilla", quantity: 1, unit: "un", category: CATEGORIES.grains },
-      { foodItemId: "food-002", name: "Eggs", quantity: 2, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-046", name: "Whole wheat tortilla", quantity: 1, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-002", name: "Eggs", quantity: 2, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-086", name: "Black beans", quantity: 0.06, unit: "kg", category: CATEGORIES.legumes },
-      { foodItemId: "food-099", name: "Cheddar cheese", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-099", name: "Cheddar cheese", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.05, unit: "kg", category: CATEGORIES.vegetables },
     ],
     instructions: [
@@ -535,7 +543,9 @@ export const mockRecipes: Recipe[] = [
       "Layer eggs, beans, cheese and diced tomato",
       "Roll tightly, optionally toast seam-side down",
     ],
-    tags: ["filling", "portable", "fiber"]
+    tags: ["filling", "portable", "fiber"],
+    cuisines: ["mexican"],
+    flavors: ["spicy"]
   },
   {
     id: "recipe-026",
@@ -545,7 +555,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-102", name: "Kefir", quantity: 0.25, unit: "L", category: CATEGORIES.dairy },
+      { foodItemId: "food-102", name: "Kefir", quantity: 0.25, unit: "L", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-025", name: "Strawberries", quantity: 0.08, unit: "kg", category: CATEGORIES.fruits },
       { foodItemId: "food-022", name: "Banana", quantity: 0.5, unit: "un", category: CATEGORIES.fruits },
       { foodItemId: "food-070", name: "Flaxseed", quantity: 0.01, unit: "kg", category: CATEGORIES.fats },
@@ -565,10 +575,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 15,
     dietStyle: ["comfort"],
     ingredients: [
-      { foodItemId: "food-036", name: "White bread", quantity: 4, unit: "un", category: CATEGORIES.grains },
-      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein },
-      { foodItemId: "food-035", name: "Milk (skim)", quantity: 0.1, unit: "L", category: CATEGORIES.dairy },
-      { foodItemId: "food-073", name: "Butter", quantity: 0.01, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-036", name: "White bread", quantity: 4, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
+      { foodItemId: "food-210", name: "Milk (skim)", quantity: 0.1, unit: "L", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-073", name: "Butter", quantity: 0.01, unit: "kg", category: CATEGORIES.fats, allergens: ["lactose"] },
       { foodItemId: "food-157", name: "Honey", quantity: 0.02, unit: "kg", category: CATEGORIES.others },
     ],
     instructions: [
@@ -587,7 +597,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 20,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-108", name: "Tempeh", quantity: 0.15, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-108", name: "Tempeh", quantity: 0.15, unit: "kg", category: CATEGORIES.protein, allergens: ["soy"] },
       { foodItemId: "food-011", name: "Sweet potato", quantity: 0.2, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-018", name: "Bell peppers", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
@@ -608,9 +618,9 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["balanced"],
     ingredients: [
-      { foodItemId: "food-118", name: "Sourdough bread", quantity: 2, unit: "un", category: CATEGORIES.grains },
-      { foodItemId: "food-160", name: "Ricotta", quantity: 0.06, unit: "kg", category: CATEGORIES.dairy },
-      { foodItemId: "food-069", name: "Walnuts", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-118", name: "Sourdough bread", quantity: 2, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-160", name: "Ricotta", quantity: 0.06, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-069", name: "Walnuts", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
       { foodItemId: "food-157", name: "Honey", quantity: 0.01, unit: "kg", category: CATEGORIES.others },
     ],
     instructions: [
@@ -628,10 +638,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 10,
     dietStyle: ["balanced"],
     ingredients: [
-      { foodItemId: "food-010", name: "Oats", quantity: 0.08, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-103", name: "Whey protein", quantity: 0.025, unit: "kg", category: CATEGORIES.dairy },
-      { foodItemId: "food-035", name: "Milk (skim)", quantity: 0.25, unit: "L", category: CATEGORIES.dairy },
-      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.015, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.08, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-103", name: "Whey protein", quantity: 0.025, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-210", name: "Milk (skim)", quantity: 0.25, unit: "L", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.015, unit: "kg", category: CATEGORIES.fats, allergens: ["peanuts"] },
       { foodItemId: "food-022", name: "Banana", quantity: 0.5, unit: "un", category: CATEGORIES.fruits },
     ],
     instructions: [
@@ -660,7 +670,9 @@ export const mockRecipes: Recipe[] = [
       "Cook rice according to package",
       "Steam broccoli 5 min, drizzle olive oil",
     ],
-    tags: ["classic", "meal-prep", "high-protein"]
+    tags: ["classic", "meal-prep", "high-protein"],
+    cuisines: ["brazilian"],
+    flavors: ["smoky"]
   },
   {
     id: "recipe-032",
@@ -670,7 +682,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 25,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-004", name: "Salmon fillet", quantity: 0.25, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-004", name: "Salmon fillet", quantity: 0.25, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-013", name: "Quinoa", quantity: 0.12, unit: "kg", category: CATEGORIES.grains },
       { foodItemId: "food-050", name: "Asparagus", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
@@ -703,7 +715,8 @@ export const mockRecipes: Recipe[] = [
       "Pan-sear turkey 4 min per side",
       "Serve over fresh spinach with olive oil",
     ],
-    tags: ["lean-protein", "complex-carbs", "clean"]
+    tags: ["lean-protein", "complex-carbs", "clean"],
+    cuisines: ["brazilian"]
   },
   {
     id: "recipe-034",
@@ -713,7 +726,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 10,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-005", name: "Tuna (canned)", quantity: 0.2, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-005", name: "Tuna (canned)", quantity: 0.2, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-088", name: "White beans", quantity: 0.15, unit: "kg", category: CATEGORIES.legumes },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.015, unit: "L", category: CATEGORIES.fats },
@@ -725,7 +738,9 @@ export const mockRecipes: Recipe[] = [
       "Combine all on a bed of lettuce",
       "Dress with olive oil, salt and lemon",
     ],
-    tags: ["no-cook", "high-protein", "quick"]
+    tags: ["no-cook", "high-protein", "quick"],
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-035",
@@ -739,7 +754,7 @@ export const mockRecipes: Recipe[] = [
       { foodItemId: "food-018", name: "Bell peppers", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-015", name: "Broccoli", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-008", name: "White rice", quantity: 0.15, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
     ],
     instructions: [
       "Cook rice according to package",
@@ -747,7 +762,9 @@ export const mockRecipes: Recipe[] = [
       "Add vegetables, stir-fry 3-4 min",
       "Add soy sauce, serve over rice",
     ],
-    tags: ["quick", "asian-style", "balanced"]
+    tags: ["quick", "asian-style", "balanced"],
+    cuisines: ["asian"],
+    flavors: ["spicy"]
   },
   {
     id: "recipe-036",
@@ -769,7 +786,9 @@ export const mockRecipes: Recipe[] = [
       "Add chickpeas and sweet potato, cook 10 min",
       "Stir in spinach until wilted, serve",
     ],
-    tags: ["vegan", "fiber", "batch-cooking"]
+    tags: ["vegan", "fiber", "batch-cooking"],
+    cuisines: ["asian"],
+    flavors: ["spicy"]
   },
   {
     id: "recipe-037",
@@ -779,7 +798,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 30,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-032", name: "Cod fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-032", name: "Cod fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-049", name: "Zucchini", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.015, unit: "L", category: CATEGORIES.fats },
@@ -791,7 +810,8 @@ export const mockRecipes: Recipe[] = [
       "Add cod to the tray, bake 12 min more",
       "Serve together with lemon",
     ],
-    tags: ["low-calorie", "lean-protein", "mediterranean"]
+    tags: ["low-calorie", "lean-protein", "mediterranean"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-038",
@@ -813,7 +833,9 @@ export const mockRecipes: Recipe[] = [
       "Simmer 25 min until lentils are soft",
       "Season with cumin, salt and pepper",
     ],
-    tags: ["batch-cooking", "budget", "fiber"]
+    tags: ["batch-cooking", "budget", "fiber"],
+    cuisines: ["mediterranean"],
+    flavors: ["hearty"]
   },
   {
     id: "recipe-039",
@@ -825,8 +847,8 @@ export const mockRecipes: Recipe[] = [
     ingredients: [
       { foodItemId: "food-001", name: "Chicken breast", quantity: 0.25, unit: "kg", category: CATEGORIES.protein },
       { foodItemId: "food-059", name: "Romaine lettuce", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-098", name: "Parmesan", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
-      { foodItemId: "food-012", name: "Whole wheat bread", quantity: 1, unit: "un", category: CATEGORIES.grains },
+      { foodItemId: "food-098", name: "Parmesan", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-012", name: "Whole wheat bread", quantity: 1, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.015, unit: "L", category: CATEGORIES.fats },
     ],
     instructions: [
@@ -835,7 +857,8 @@ export const mockRecipes: Recipe[] = [
       "Toss lettuce with olive oil dressing",
       "Top with chicken, parmesan and croutons",
     ],
-    tags: ["classic", "high-protein", "popular"]
+    tags: ["classic", "high-protein", "popular"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-040",
@@ -846,7 +869,7 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["balanced"],
     ingredients: [
       { foodItemId: "food-033", name: "Pork loin", quantity: 0.25, unit: "kg", category: CATEGORIES.protein },
-      { foodItemId: "food-034", name: "Couscous", quantity: 0.12, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-034", name: "Couscous", quantity: 0.12, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-049", name: "Zucchini", quantity: 0.12, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
     ],
@@ -856,7 +879,8 @@ export const mockRecipes: Recipe[] = [
       "Pour boiling water over couscous, cover 5 min",
       "Sauté zucchini, serve alongside sliced pork",
     ],
-    tags: ["balanced", "quick", "european"]
+    tags: ["balanced", "quick", "european"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-041",
@@ -866,11 +890,11 @@ export const mockRecipes: Recipe[] = [
     prepTime: 15,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-040", name: "Shrimp", quantity: 0.2, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-040", name: "Shrimp", quantity: 0.2, unit: "kg", category: CATEGORIES.protein, allergens: ["shellfish"] },
       { foodItemId: "food-028", name: "Avocado", quantity: 1, unit: "un", category: CATEGORIES.fruits },
       { foodItemId: "food-008", name: "White rice", quantity: 0.12, unit: "kg", category: CATEGORIES.grains },
       { foodItemId: "food-020", name: "Cucumber", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.015, unit: "L", category: CATEGORIES.others },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.015, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
     ],
     instructions: [
       "Cook rice according to package",
@@ -878,7 +902,9 @@ export const mockRecipes: Recipe[] = [
       "Slice avocado and cucumber",
       "Assemble bowls with rice, shrimp, avocado, cucumber and soy sauce",
     ],
-    tags: ["light", "omega-3", "asian-inspired"]
+    tags: ["light", "omega-3", "asian-inspired"],
+    cuisines: ["mexican"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-042",
@@ -900,7 +926,9 @@ export const mockRecipes: Recipe[] = [
       "Sauté peppers",
       "Assemble bowls; top with sliced avocado",
     ],
-    tags: ["vegan-option", "fiber", "latin"]
+    tags: ["vegan-option", "fiber", "latin"],
+    cuisines: ["brazilian", "mexican"],
+    flavors: ["hearty"]
   },
   {
     id: "recipe-043",
@@ -910,7 +938,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 35,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-107", name: "Mackerel fillet", quantity: 0.25, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-107", name: "Mackerel fillet", quantity: 0.25, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-123", name: "Beetroot", quantity: 0.2, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.015, unit: "L", category: CATEGORIES.fats },
       { foodItemId: "food-016", name: "Spinach", quantity: 0.06, unit: "kg", category: CATEGORIES.vegetables },
@@ -931,11 +959,11 @@ export const mockRecipes: Recipe[] = [
     prepTime: 20,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-039", name: "Tofu (firm)", quantity: 0.25, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-039", name: "Tofu (firm)", quantity: 0.25, unit: "kg", category: CATEGORIES.protein, allergens: ["soy"] },
       { foodItemId: "food-015", name: "Broccoli", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-019", name: "Carrots", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-142", name: "Sesame oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others },
+      { foodItemId: "food-142", name: "Sesame oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats, allergens: ["sesame"] },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
     ],
     instructions: [
       "Press and cube tofu, fry until golden 5 min",
@@ -943,7 +971,9 @@ export const mockRecipes: Recipe[] = [
       "Return tofu, add soy sauce and sesame oil",
       "Serve with rice or noodles",
     ],
-    tags: ["vegan", "plant-based", "quick"]
+    tags: ["vegan", "plant-based", "quick"],
+    cuisines: ["asian"],
+    flavors: ["umami"]
   },
   {
     id: "recipe-045",
@@ -954,8 +984,8 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["balanced"],
     ingredients: [
       { foodItemId: "food-001", name: "Chicken breast", quantity: 0.2, unit: "kg", category: CATEGORIES.protein },
-      { foodItemId: "food-046", name: "Whole wheat tortilla", quantity: 2, unit: "un", category: CATEGORIES.grains },
-      { foodItemId: "food-078", name: "Hummus", quantity: 0.06, unit: "kg", category: CATEGORIES.snacks },
+      { foodItemId: "food-046", name: "Whole wheat tortilla", quantity: 2, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-078", name: "Hummus", quantity: 0.06, unit: "kg", category: CATEGORIES.snacks, allergens: ["sesame"] },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-021", name: "Lettuce", quantity: 0.05, unit: "kg", category: CATEGORIES.vegetables },
     ],
@@ -965,7 +995,9 @@ export const mockRecipes: Recipe[] = [
       "Spread hummus on each tortilla",
       "Add chicken, tomatoes, lettuce; roll tightly",
     ],
-    tags: ["portable", "quick", "mediterranean"]
+    tags: ["portable", "quick", "mediterranean"],
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-046",
@@ -976,10 +1008,10 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["comfort", "balanced"],
     ingredients: [
       { foodItemId: "food-008", name: "White rice", quantity: 0.2, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-127", name: "Peas (frozen)", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-019", name: "Carrots", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
     ],
     instructions: [
       "Cook and cool rice (day-old is best)",
@@ -987,7 +1019,9 @@ export const mockRecipes: Recipe[] = [
       "Stir-fry vegetables 2 min",
       "Add rice and soy sauce, toss with eggs",
     ],
-    tags: ["quick", "budget", "asian-style"]
+    tags: ["quick", "budget", "asian-style"],
+    cuisines: ["asian"],
+    flavors: ["umami"]
   },
   {
     id: "recipe-047",
@@ -997,7 +1031,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 20,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-037", name: "Tilapia fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-037", name: "Tilapia fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-021", name: "Lettuce", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-020", name: "Cucumber", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
@@ -1009,7 +1043,9 @@ export const mockRecipes: Recipe[] = [
       "Prepare salad with lettuce, tomatoes, cucumber",
       "Dress with olive oil and serve alongside fish",
     ],
-    tags: ["light", "low-calorie", "cutting"]
+    tags: ["light", "low-calorie", "cutting"],
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-048",
@@ -1020,7 +1056,7 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["balanced", "comfort"],
     ingredients: [
       { foodItemId: "food-001", name: "Chicken breast", quantity: 0.25, unit: "kg", category: CATEGORIES.protein },
-      { foodItemId: "food-120", name: "Whole wheat penne", quantity: 0.2, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-120", name: "Whole wheat penne", quantity: 0.2, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-049", name: "Zucchini", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-018", name: "Bell peppers", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.015, unit: "L", category: CATEGORIES.fats },
@@ -1031,7 +1067,8 @@ export const mockRecipes: Recipe[] = [
       "Sauté vegetables in olive oil 5 min",
       "Toss everything together with herbs",
     ],
-    tags: ["batch-cooking", "italian", "balanced"]
+    tags: ["batch-cooking", "italian", "balanced"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-049",
@@ -1053,7 +1090,8 @@ export const mockRecipes: Recipe[] = [
       "Simmer 35 min until peas dissolve",
       "Season with salt, pepper and cumin",
     ],
-    tags: ["batch-cooking", "budget", "filling"]
+    tags: ["batch-cooking", "budget", "filling"],
+    flavors: ["hearty"]
   },
   {
     id: "recipe-050",
@@ -1063,8 +1101,8 @@ export const mockRecipes: Recipe[] = [
     prepTime: 10,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-043", name: "Sardines (canned)", quantity: 0.12, unit: "kg", category: CATEGORIES.protein },
-      { foodItemId: "food-118", name: "Sourdough bread", quantity: 2, unit: "un", category: CATEGORIES.grains },
+      { foodItemId: "food-043", name: "Sardines (canned)", quantity: 0.12, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
+      { foodItemId: "food-118", name: "Sourdough bread", quantity: 2, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.005, unit: "L", category: CATEGORIES.fats },
     ],
@@ -1074,7 +1112,9 @@ export const mockRecipes: Recipe[] = [
       "Dice tomatoes",
       "Top toast with sardines, tomatoes, olive oil drizzle",
     ],
-    tags: ["omega-3", "quick", "budget"]
+    tags: ["omega-3", "quick", "budget"],
+    cuisines: ["mediterranean"],
+    flavors: ["umami"]
   },
   {
     id: "recipe-051",
@@ -1096,7 +1136,9 @@ export const mockRecipes: Recipe[] = [
       "Make quick salsa with diced tomatoes",
       "Assemble bowls with everything plus avocado",
     ],
-    tags: ["popular", "filling", "balanced"]
+    tags: ["popular", "filling", "balanced"],
+    cuisines: ["mexican"],
+    flavors: ["spicy"]
   },
   {
     id: "recipe-052",
@@ -1106,8 +1148,8 @@ export const mockRecipes: Recipe[] = [
     prepTime: 25,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-109", name: "Seitan", quantity: 0.2, unit: "kg", category: CATEGORIES.protein },
-      { foodItemId: "food-114", name: "Bulgur wheat", quantity: 0.12, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-109", name: "Seitan", quantity: 0.2, unit: "kg", category: CATEGORIES.protein, allergens: ["gluten"] },
+      { foodItemId: "food-114", name: "Bulgur wheat", quantity: 0.12, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-018", name: "Bell peppers", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
@@ -1118,7 +1160,9 @@ export const mockRecipes: Recipe[] = [
       "Soak bulgur in boiling water 10 min",
       "Serve kebabs over bulgur with diced tomatoes",
     ],
-    tags: ["plant-based", "high-protein", "middle-eastern"]
+    tags: ["plant-based", "high-protein", "middle-eastern"],
+    cuisines: ["mediterranean"],
+    flavors: ["smoky"]
   },
   {
     id: "recipe-053",
@@ -1129,10 +1173,10 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["healthy", "balanced"],
     ingredients: [
       { foodItemId: "food-018", name: "Bell peppers", quantity: 3, unit: "un", category: CATEGORIES.vegetables },
-      { foodItemId: "food-007", name: "Cottage cheese", quantity: 0.2, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-007", name: "Cottage cheese", quantity: 0.2, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-009", name: "Brown rice", quantity: 0.1, unit: "kg", category: CATEGORIES.grains },
       { foodItemId: "food-016", name: "Spinach", quantity: 0.06, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-098", name: "Parmesan", quantity: 0.02, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-098", name: "Parmesan", quantity: 0.02, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
     ],
     instructions: [
       "Halve peppers and remove seeds",
@@ -1150,7 +1194,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 20,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-111", name: "Trout fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-111", name: "Trout fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-050", name: "Asparagus", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
       { foodItemId: "food-026", name: "Lemon", quantity: 1, unit: "un", category: CATEGORIES.fruits },
@@ -1161,7 +1205,9 @@ export const mockRecipes: Recipe[] = [
       "Grill asparagus alongside",
       "Serve with extra lemon wedges",
     ],
-    tags: ["omega-3", "light", "european"]
+    tags: ["omega-3", "light", "european"],
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-055",
@@ -1172,7 +1218,7 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["balanced", "comfort"],
     ingredients: [
       { foodItemId: "food-041", name: "Lamb chops", quantity: 0.2, unit: "kg", category: CATEGORIES.protein },
-      { foodItemId: "food-113", name: "Couscous", quantity: 0.12, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-113", name: "Couscous", quantity: 0.12, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-019", name: "Carrots", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-049", name: "Zucchini", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
@@ -1183,7 +1229,8 @@ export const mockRecipes: Recipe[] = [
       "Prepare couscous with boiling water",
       "Sauté vegetables, serve alongside",
     ],
-    tags: ["premium-protein", "mediterranean", "filling"]
+    tags: ["premium-protein", "mediterranean", "filling"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-056",
@@ -1205,7 +1252,9 @@ export const mockRecipes: Recipe[] = [
       "Dress with olive oil and lime juice",
       "Serve cold or at room temperature",
     ],
-    tags: ["vegan", "meal-prep", "fiber"]
+    tags: ["vegan", "meal-prep", "fiber"],
+    cuisines: ["mexican"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-057",
@@ -1217,7 +1266,7 @@ export const mockRecipes: Recipe[] = [
     ingredients: [
       { foodItemId: "food-105", name: "Chicken thigh", quantity: 0.3, unit: "kg", category: CATEGORIES.protein },
       { foodItemId: "food-008", name: "White rice", quantity: 0.15, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.03, unit: "L", category: CATEGORIES.others },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.03, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
       { foodItemId: "food-157", name: "Honey", quantity: 0.02, unit: "kg", category: CATEGORIES.others },
       { foodItemId: "food-015", name: "Broccoli", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
     ],
@@ -1227,7 +1276,9 @@ export const mockRecipes: Recipe[] = [
       "Cook rice and steam broccoli",
       "Serve chicken over rice with broccoli",
     ],
-    tags: ["asian-style", "popular", "flavor"]
+    tags: ["asian-style", "popular", "flavor"],
+    cuisines: ["asian"],
+    flavors: ["umami"]
   },
   {
     id: "recipe-058",
@@ -1237,7 +1288,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 10,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-005", name: "Tuna (canned)", quantity: 0.15, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-005", name: "Tuna (canned)", quantity: 0.15, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-088", name: "White beans", quantity: 0.2, unit: "kg", category: CATEGORIES.legumes },
       { foodItemId: "food-059", name: "Romaine lettuce", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.015, unit: "L", category: CATEGORIES.fats },
@@ -1249,7 +1300,9 @@ export const mockRecipes: Recipe[] = [
       "Squeeze lemon over top",
       "Season with salt and pepper",
     ],
-    tags: ["no-cook", "quick", "italian"]
+    tags: ["no-cook", "quick", "italian"],
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-059",
@@ -1259,7 +1312,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 25,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-108", name: "Tempeh", quantity: 0.2, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-108", name: "Tempeh", quantity: 0.2, unit: "kg", category: CATEGORIES.protein, allergens: ["soy"] },
       { foodItemId: "food-009", name: "Brown rice", quantity: 0.12, unit: "kg", category: CATEGORIES.grains },
       { foodItemId: "food-028", name: "Avocado", quantity: 0.5, unit: "un", category: CATEGORIES.fruits },
       { foodItemId: "food-019", name: "Carrots", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
@@ -1271,7 +1324,8 @@ export const mockRecipes: Recipe[] = [
       "Cook rice and massage kale",
       "Assemble bowls with all components",
     ],
-    tags: ["vegan", "plant-based", "colorful"]
+    tags: ["vegan", "plant-based", "colorful"],
+    cuisines: ["asian"]
   },
   {
     id: "recipe-060",
@@ -1284,8 +1338,8 @@ export const mockRecipes: Recipe[] = [
       { foodItemId: "food-031", name: "Turkey breast", quantity: 0.25, unit: "kg", category: CATEGORIES.protein },
       { foodItemId: "food-059", name: "Romaine lettuce", quantity: 0.12, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-019", name: "Carrots", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others },
-      { foodItemId: "food-142", name: "Sesame oil", quantity: 0.005, unit: "L", category: CATEGORIES.fats },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
+      { foodItemId: "food-142", name: "Sesame oil", quantity: 0.005, unit: "L", category: CATEGORIES.fats, allergens: ["sesame"] },
     ],
     instructions: [
       "Cook ground turkey with garlic until browned",
@@ -1293,7 +1347,9 @@ export const mockRecipes: Recipe[] = [
       "Separate large lettuce leaves as cups",
       "Spoon mixture into lettuce cups",
     ],
-    tags: ["low-carb", "light", "asian-inspired"]
+    tags: ["low-carb", "light", "asian-inspired"],
+    cuisines: ["asian"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-061",
@@ -1303,7 +1359,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 30,
     dietStyle: ["healthy", "balanced"],
     ingredients: [
-      { foodItemId: "food-004", name: "Salmon fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-004", name: "Salmon fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-011", name: "Sweet potato", quantity: 0.3, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-015", name: "Broccoli", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
@@ -1336,7 +1392,9 @@ export const mockRecipes: Recipe[] = [
       "Add tomatoes and 500ml water",
       "Simmer 35 min until everything is tender",
     ],
-    tags: ["batch-cooking", "comfort", "filling"]
+    tags: ["batch-cooking", "comfort", "filling"],
+    cuisines: ["brazilian"],
+    flavors: ["hearty"]
   },
   {
     id: "recipe-063",
@@ -1349,7 +1407,7 @@ export const mockRecipes: Recipe[] = [
       { foodItemId: "food-105", name: "Chicken thigh", quantity: 0.3, unit: "kg", category: CATEGORIES.protein },
       { foodItemId: "food-051", name: "Green beans", quantity: 0.2, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
-      { foodItemId: "food-098", name: "Parmesan", quantity: 0.02, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-098", name: "Parmesan", quantity: 0.02, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
     ],
     instructions: [
       "Season chicken thighs with herbs",
@@ -1357,7 +1415,8 @@ export const mockRecipes: Recipe[] = [
       "Steam green beans until tender-crisp",
       "Toss beans with olive oil, serve with chicken",
     ],
-    tags: ["simple", "flavorful", "balanced"]
+    tags: ["simple", "flavorful", "balanced"],
+    flavors: ["smoky"]
   },
   {
     id: "recipe-064",
@@ -1367,10 +1426,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 30,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-106", name: "Cod fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-106", name: "Cod fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-011", name: "Sweet potato", quantity: 0.3, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-016", name: "Spinach", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-073", name: "Butter", quantity: 0.01, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-073", name: "Butter", quantity: 0.01, unit: "kg", category: CATEGORIES.fats, allergens: ["lactose"] },
     ],
     instructions: [
       "Boil sweet potato, mash with butter",
@@ -1389,10 +1448,10 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["comfort", "balanced"],
     ingredients: [
       { foodItemId: "food-031", name: "Turkey breast", quantity: 0.3, unit: "kg", category: CATEGORIES.protein },
-      { foodItemId: "food-120", name: "Whole wheat penne", quantity: 0.2, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-120", name: "Whole wheat penne", quantity: 0.2, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.2, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
-      { foodItemId: "food-098", name: "Parmesan", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-098", name: "Parmesan", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
     ],
     instructions: [
       "Mix ground turkey with herbs, form meatballs",
@@ -1400,7 +1459,8 @@ export const mockRecipes: Recipe[] = [
       "Simmer in crushed tomatoes 15 min",
       "Cook pasta, serve with meatballs and parmesan",
     ],
-    tags: ["batch-cooking", "crowd-pleaser", "italian"]
+    tags: ["batch-cooking", "crowd-pleaser", "italian"],
+    flavors: ["hearty"]
   },
   {
     id: "recipe-066",
@@ -1431,11 +1491,11 @@ export const mockRecipes: Recipe[] = [
     prepTime: 15,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-040", name: "Shrimp", quantity: 0.25, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-040", name: "Shrimp", quantity: 0.25, unit: "kg", category: CATEGORIES.protein, allergens: ["shellfish"] },
       { foodItemId: "food-015", name: "Broccoli", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-018", name: "Bell peppers", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-142", name: "Sesame oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others },
+      { foodItemId: "food-142", name: "Sesame oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats, allergens: ["sesame"] },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
     ],
     instructions: [
       "Heat sesame oil in a wok",
@@ -1443,7 +1503,9 @@ export const mockRecipes: Recipe[] = [
       "Add vegetables, stir-fry 3-4 min",
       "Return shrimp, add soy sauce, toss and serve",
     ],
-    tags: ["quick", "low-calorie", "asian-style"]
+    tags: ["quick", "low-calorie", "asian-style"],
+    cuisines: ["asian"],
+    flavors: ["umami"]
   },
   {
     id: "recipe-068",
@@ -1465,7 +1527,9 @@ export const mockRecipes: Recipe[] = [
       "Add cumin, paprika, chili powder",
       "Simmer 30 min, stirring occasionally",
     ],
-    tags: ["vegan", "batch-cooking", "fiber"]
+    tags: ["vegan", "batch-cooking", "fiber"],
+    cuisines: ["mexican"],
+    flavors: ["spicy", "hearty"]
   },
   {
     id: "recipe-069",
@@ -1508,7 +1572,8 @@ export const mockRecipes: Recipe[] = [
       "Simmer 25 min until lentils tender",
       "Stir in spinach, cook 2 min more",
     ],
-    tags: ["vegan", "iron", "budget"]
+    tags: ["vegan", "iron", "budget"],
+    flavors: ["hearty"]
   },
   {
     id: "recipe-071",
@@ -1522,7 +1587,7 @@ export const mockRecipes: Recipe[] = [
       { foodItemId: "food-013", name: "Quinoa", quantity: 0.12, unit: "kg", category: CATEGORIES.grains },
       { foodItemId: "food-050", name: "Asparagus", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
-      { foodItemId: "food-098", name: "Parmesan", quantity: 0.02, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-098", name: "Parmesan", quantity: 0.02, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
     ],
     instructions: [
       "Mix parmesan with herbs, press onto chicken",
@@ -1530,7 +1595,8 @@ export const mockRecipes: Recipe[] = [
       "Cook quinoa in salted water 15 min",
       "Grill asparagus, serve alongside",
     ],
-    tags: ["high-protein", "elegant", "meal-prep"]
+    tags: ["high-protein", "elegant", "meal-prep"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-072",
@@ -1540,7 +1606,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 20,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-037", name: "Tilapia fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-037", name: "Tilapia fillet", quantity: 0.3, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-048", name: "Cauliflower", quantity: 0.3, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
       { foodItemId: "food-016", name: "Spinach", quantity: 0.06, unit: "kg", category: CATEGORIES.vegetables },
@@ -1561,7 +1627,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 25,
     dietStyle: ["comfort"],
     ingredients: [
-      { foodItemId: "food-002", name: "Eggs", quantity: 4, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-002", name: "Eggs", quantity: 4, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-016", name: "Spinach", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-072", name: "Coconut oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
@@ -1573,7 +1639,9 @@ export const mockRecipes: Recipe[] = [
       "Add halved eggs and spinach to sauce",
       "Serve over cooked rice",
     ],
-    tags: ["vegetarian", "budget", "indian-style"]
+    tags: ["vegetarian", "budget", "indian-style"],
+    cuisines: ["asian"],
+    flavors: ["spicy"]
   },
   {
     id: "recipe-074",
@@ -1583,10 +1651,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 20,
     dietStyle: ["balanced"],
     ingredients: [
-      { foodItemId: "food-004", name: "Salmon fillet", quantity: 0.25, unit: "kg", category: CATEGORIES.protein },
-      { foodItemId: "food-079", name: "Edamame", quantity: 0.1, unit: "kg", category: CATEGORIES.snacks },
+      { foodItemId: "food-004", name: "Salmon fillet", quantity: 0.25, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
+      { foodItemId: "food-079", name: "Edamame", quantity: 0.1, unit: "kg", category: CATEGORIES.snacks, allergens: ["soy"] },
       { foodItemId: "food-008", name: "White rice", quantity: 0.15, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.03, unit: "L", category: CATEGORIES.others },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.03, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
       { foodItemId: "food-157", name: "Honey", quantity: 0.02, unit: "kg", category: CATEGORIES.others },
     ],
     instructions: [
@@ -1595,7 +1663,9 @@ export const mockRecipes: Recipe[] = [
       "Glaze salmon in last minute",
       "Serve with rice and steamed edamame",
     ],
-    tags: ["omega-3", "japanese-style", "popular"]
+    tags: ["omega-3", "japanese-style", "popular"],
+    cuisines: ["asian"],
+    flavors: ["umami"]
   },
   {
     id: "recipe-075",
@@ -1608,7 +1678,7 @@ export const mockRecipes: Recipe[] = [
       { foodItemId: "food-057", name: "Eggplant", quantity: 2, unit: "un", category: CATEGORIES.vegetables },
       { foodItemId: "food-082", name: "Red lentils", quantity: 0.1, unit: "kg", category: CATEGORIES.legumes },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-097", name: "Mozzarella", quantity: 0.06, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-097", name: "Mozzarella", quantity: 0.06, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
     ],
     instructions: [
@@ -1617,7 +1687,8 @@ export const mockRecipes: Recipe[] = [
       "Fill eggplant shells with lentil mixture",
       "Top with mozzarella, bake at 180°C 20 min",
     ],
-    tags: ["vegetarian", "creative", "mediterranean"]
+    tags: ["vegetarian", "creative", "mediterranean"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-076",
@@ -1638,7 +1709,9 @@ export const mockRecipes: Recipe[] = [
       "Season and sear steak 4 min per side",
       "Rest 5 min, slice and serve with wedges and spinach",
     ],
-    tags: ["high-protein", "filling", "popular"]
+    tags: ["high-protein", "filling", "popular"],
+    cuisines: ["brazilian"],
+    flavors: ["hearty", "smoky"]
   },
   {
     id: "recipe-077",
@@ -1651,7 +1724,7 @@ export const mockRecipes: Recipe[] = [
       { foodItemId: "food-001", name: "Chicken breast", quantity: 0.25, unit: "kg", category: CATEGORIES.protein },
       { foodItemId: "food-056", name: "Mushrooms", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-008", name: "White rice", quantity: 0.2, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-098", name: "Parmesan", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-098", name: "Parmesan", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
     ],
     instructions: [
@@ -1660,7 +1733,9 @@ export const mockRecipes: Recipe[] = [
       "Add warm broth gradually, stirring 18-20 min",
       "While risotto cooks, grill chicken; stir in parmesan",
     ],
-    tags: ["italian", "comfort", "crowd-pleaser"]
+    tags: ["italian", "comfort", "crowd-pleaser"],
+    cuisines: ["mediterranean"],
+    flavors: ["umami"]
   },
   {
     id: "recipe-078",
@@ -1670,7 +1745,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 30,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-043", name: "Sardines", quantity: 0.2, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-043", name: "Sardines", quantity: 0.2, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-011", name: "Sweet potato", quantity: 0.25, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.015, unit: "L", category: CATEGORIES.fats },
@@ -1681,7 +1756,8 @@ export const mockRecipes: Recipe[] = [
       "Lay sardines on top, drizzle olive oil",
       "Bake at 200°C 25 min",
     ],
-    tags: ["portuguese", "omega-3", "budget"]
+    tags: ["portuguese", "omega-3", "budget"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-079",
@@ -1703,7 +1779,9 @@ export const mockRecipes: Recipe[] = [
       "Add tomatoes to baking dish",
       "Roast at 200°C 25-30 min",
     ],
-    tags: ["vegan", "fiber", "anti-inflammatory"]
+    tags: ["vegan", "fiber", "anti-inflammatory"],
+    cuisines: ["mediterranean"],
+    flavors: ["hearty"]
   },
   {
     id: "recipe-080",
@@ -1717,7 +1795,7 @@ export const mockRecipes: Recipe[] = [
       { foodItemId: "food-015", name: "Broccoli", quantity: 0.12, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-019", name: "Carrots", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-008", name: "White rice", quantity: 0.15, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
     ],
     instructions: [
       "Slice pork thin, marinate in soy sauce",
@@ -1725,7 +1803,9 @@ export const mockRecipes: Recipe[] = [
       "Stir-fry pork 3 min, add vegetables 3 min",
       "Serve over noodles with soy sauce",
     ],
-    tags: ["quick", "asian-style", "balanced"]
+    tags: ["quick", "asian-style", "balanced"],
+    cuisines: ["asian"],
+    flavors: ["umami"]
   },
   {
     id: "recipe-081",
@@ -1735,11 +1815,11 @@ export const mockRecipes: Recipe[] = [
     prepTime: 15,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-004", name: "Salmon fillet", quantity: 0.25, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-004", name: "Salmon fillet", quantity: 0.25, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-008", name: "White rice", quantity: 0.15, unit: "kg", category: CATEGORIES.grains },
       { foodItemId: "food-028", name: "Avocado", quantity: 1, unit: "un", category: CATEGORIES.fruits },
       { foodItemId: "food-020", name: "Cucumber", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
     ],
     instructions: [
       "Cook sushi rice and cool",
@@ -1747,7 +1827,9 @@ export const mockRecipes: Recipe[] = [
       "Slice avocado and cucumber",
       "Assemble bowls with rice, fish, veggies; drizzle soy sauce",
     ],
-    tags: ["japanese", "omega-3", "trendy"]
+    tags: ["japanese", "omega-3", "trendy"],
+    cuisines: ["asian"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-082",
@@ -1769,7 +1851,9 @@ export const mockRecipes: Recipe[] = [
       "Add tomatoes, beans and herbs",
       "Cover and bake at 180°C 30 min",
     ],
-    tags: ["batch-cooking", "one-pot", "family"]
+    tags: ["batch-cooking", "one-pot", "family"],
+    cuisines: ["brazilian"],
+    flavors: ["hearty"]
   },
   {
     id: "recipe-083",
@@ -1779,11 +1863,11 @@ export const mockRecipes: Recipe[] = [
     prepTime: 25,
     dietStyle: ["healthy", "comfort"],
     ingredients: [
-      { foodItemId: "food-039", name: "Tofu (firm)", quantity: 0.2, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-039", name: "Tofu (firm)", quantity: 0.2, unit: "kg", category: CATEGORIES.protein, allergens: ["soy"] },
       { foodItemId: "food-019", name: "Carrots", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-018", name: "Bell peppers", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-146", name: "Peanuts", quantity: 0.03, unit: "kg", category: CATEGORIES.snacks },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others },
+      { foodItemId: "food-146", name: "Peanuts", quantity: 0.03, unit: "kg", category: CATEGORIES.snacks, allergens: ["peanuts"] },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.02, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
     ],
     instructions: [
       "Press and cube tofu, fry until golden",
@@ -1791,7 +1875,9 @@ export const mockRecipes: Recipe[] = [
       "Add rice noodles and soy sauce",
       "Top with crushed peanuts",
     ],
-    tags: ["vegan", "thai-style", "popular"]
+    tags: ["vegan", "thai-style", "popular"],
+    cuisines: ["asian"],
+    flavors: ["spicy"]
   },
   {
     id: "recipe-084",
@@ -1805,7 +1891,7 @@ export const mockRecipes: Recipe[] = [
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.15, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-049", name: "Zucchini", quantity: 0.12, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.015, unit: "L", category: CATEGORIES.fats },
-      { foodItemId: "food-097", name: "Mozzarella", quantity: 0.05, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-097", name: "Mozzarella", quantity: 0.05, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
     ],
     instructions: [
       "Place chicken in baking dish",
@@ -1813,7 +1899,8 @@ export const mockRecipes: Recipe[] = [
       "Drizzle olive oil, add herbs",
       "Add mozzarella, bake at 180°C 25 min",
     ],
-    tags: ["one-pan", "mediterranean", "easy"]
+    tags: ["one-pan", "mediterranean", "easy"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-085",
@@ -1835,7 +1922,9 @@ export const mockRecipes: Recipe[] = [
       "Add 200ml water, simmer 20 min",
       "Stir in spinach, serve over brown rice",
     ],
-    tags: ["vegan", "batch-cooking", "spicy"]
+    tags: ["vegan", "batch-cooking", "spicy"],
+    cuisines: ["asian"],
+    flavors: ["spicy"]
   },
   {
     id: "recipe-086",
@@ -1856,7 +1945,9 @@ export const mockRecipes: Recipe[] = [
       "Roast sweet potato wedges",
       "Serve lamb with minted peas and wedges",
     ],
-    tags: ["premium", "british", "elegant"]
+    tags: ["premium", "british", "elegant"],
+    cuisines: ["mediterranean"],
+    flavors: ["smoky"]
   },
   {
     id: "recipe-087",
@@ -1866,10 +1957,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 15,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein },
+      { foodItemId: "food-002", name: "Eggs", quantity: 3, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-016", name: "Spinach", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-019", name: "Carrots", quantity: 0.06, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.01, unit: "L", category: CATEGORIES.others },
+      { foodItemId: "food-152", name: "Soy sauce", quantity: 0.01, unit: "L", category: CATEGORIES.others, allergens: ["gluten", "soy"] },
     ],
     instructions: [
       "Bring 600ml broth to boil",
@@ -1877,7 +1968,9 @@ export const mockRecipes: Recipe[] = [
       "Slowly drizzle beaten eggs while stirring",
       "Season with soy sauce and serve",
     ],
-    tags: ["light", "quick", "low-calorie"]
+    tags: ["light", "quick", "low-calorie"],
+    cuisines: ["asian"],
+    flavors: ["umami"]
   },
   {
     id: "recipe-088",
@@ -1899,7 +1992,9 @@ export const mockRecipes: Recipe[] = [
       "Cook rice separately",
       "Assemble bowls with rice, fajita mix and avocado",
     ],
-    tags: ["mexican-style", "popular", "flavorful"]
+    tags: ["mexican-style", "popular", "flavorful"],
+    cuisines: ["mexican"],
+    flavors: ["spicy", "smoky"]
   },
   {
     id: "recipe-089",
@@ -1909,9 +2004,9 @@ export const mockRecipes: Recipe[] = [
     prepTime: 20,
     dietStyle: ["balanced", "comfort"],
     ingredients: [
-      { foodItemId: "food-112", name: "Canned salmon", quantity: 0.2, unit: "kg", category: CATEGORIES.protein },
-      { foodItemId: "food-002", name: "Eggs", quantity: 1, unit: "un", category: CATEGORIES.protein },
-      { foodItemId: "food-010", name: "Oats", quantity: 0.03, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-112", name: "Canned salmon", quantity: 0.2, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
+      { foodItemId: "food-002", name: "Eggs", quantity: 1, unit: "un", category: CATEGORIES.protein, allergens: ["eggs"] },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.03, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.01, unit: "L", category: CATEGORIES.fats },
       { foodItemId: "food-021", name: "Lettuce", quantity: 0.06, unit: "kg", category: CATEGORIES.vegetables },
     ],
@@ -1943,7 +2038,9 @@ export const mockRecipes: Recipe[] = [
       "Add 400ml broth, return chicken",
       "Cover, simmer 20 min until rice is done, add peas last 3 min",
     ],
-    tags: ["one-pot", "family", "easy"]
+    tags: ["one-pot", "family", "easy"],
+    cuisines: ["brazilian"],
+    flavors: ["hearty"]
   },
   {
     id: "recipe-091",
@@ -1953,10 +2050,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 15,
     dietStyle: ["healthy", "balanced"],
     ingredients: [
-      { foodItemId: "food-010", name: "Oats", quantity: 0.1, unit: "kg", category: CATEGORIES.grains },
-      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.06, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.1, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.06, unit: "kg", category: CATEGORIES.fats, allergens: ["peanuts"] },
       { foodItemId: "food-157", name: "Honey", quantity: 0.03, unit: "kg", category: CATEGORIES.others },
-      { foodItemId: "food-103", name: "Whey protein", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-103", name: "Whey protein", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-076", name: "Dark chocolate", quantity: 0.03, unit: "kg", category: CATEGORIES.snacks },
     ],
     instructions: [
@@ -1975,8 +2072,8 @@ export const mockRecipes: Recipe[] = [
     prepTime: 3,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-003", name: "Greek yogurt", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy },
-      { foodItemId: "food-069", name: "Walnuts", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-003", name: "Greek yogurt", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-069", name: "Walnuts", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
       { foodItemId: "food-157", name: "Honey", quantity: 0.01, unit: "kg", category: CATEGORIES.others },
     ],
     instructions: [
@@ -1984,7 +2081,8 @@ export const mockRecipes: Recipe[] = [
       "Top with walnuts",
       "Drizzle honey",
     ],
-    tags: ["quick", "no-cook", "classic"]
+    tags: ["quick", "no-cook", "classic"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-093",
@@ -1994,7 +2092,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-078", name: "Hummus", quantity: 0.1, unit: "kg", category: CATEGORIES.snacks },
+      { foodItemId: "food-078", name: "Hummus", quantity: 0.1, unit: "kg", category: CATEGORIES.snacks, allergens: ["sesame"] },
       { foodItemId: "food-019", name: "Carrots", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-020", name: "Cucumber", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-018", name: "Bell peppers", quantity: 0.08, unit: "kg", category: CATEGORIES.vegetables },
@@ -2004,7 +2102,9 @@ export const mockRecipes: Recipe[] = [
       "Portion hummus into a bowl",
       "Serve together as dip plate",
     ],
-    tags: ["no-cook", "fiber", "portable"]
+    tags: ["no-cook", "fiber", "portable"],
+    cuisines: ["mediterranean"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-094",
@@ -2015,7 +2115,7 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["balanced"],
     ingredients: [
       { foodItemId: "food-023", name: "Apple", quantity: 1, unit: "un", category: CATEGORIES.fruits },
-      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["peanuts"] },
     ],
     instructions: [
       "Core and slice apple",
@@ -2031,14 +2131,15 @@ export const mockRecipes: Recipe[] = [
     prepTime: 3,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-007", name: "Cottage cheese", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-007", name: "Cottage cheese", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-062", name: "Pineapple", quantity: 0.08, unit: "kg", category: CATEGORIES.fruits },
     ],
     instructions: [
       "Spoon cottage cheese into bowl",
       "Top with pineapple chunks",
     ],
-    tags: ["quick", "high-protein", "sweet"]
+    tags: ["quick", "high-protein", "sweet"],
+    cuisines: ["brazilian"]
   },
   {
     id: "recipe-096",
@@ -2048,7 +2149,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 2,
     dietStyle: ["balanced"],
     ingredients: [
-      { foodItemId: "food-030", name: "Almonds", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-030", name: "Almonds", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
       { foodItemId: "food-136", name: "Cranberries (dried)", quantity: 0.015, unit: "kg", category: CATEGORIES.fruits },
       { foodItemId: "food-076", name: "Dark chocolate", quantity: 0.01, unit: "kg", category: CATEGORIES.snacks },
       { foodItemId: "food-139", name: "Pumpkin seeds", quantity: 0.01, unit: "kg", category: CATEGORIES.fats },
@@ -2068,7 +2169,7 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["balanced"],
     ingredients: [
       { foodItemId: "food-075", name: "Rice cakes", quantity: 2, unit: "un", category: CATEGORIES.snacks },
-      { foodItemId: "food-141", name: "Almond butter", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-141", name: "Almond butter", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
       { foodItemId: "food-022", name: "Banana", quantity: 0.5, unit: "un", category: CATEGORIES.fruits },
     ],
     instructions: [
@@ -2085,14 +2186,15 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-079", name: "Edamame", quantity: 0.1, unit: "kg", category: CATEGORIES.snacks },
+      { foodItemId: "food-079", name: "Edamame", quantity: 0.1, unit: "kg", category: CATEGORIES.snacks, allergens: ["soy"] },
     ],
     instructions: [
       "Steam or microwave edamame 3 min",
       "Sprinkle with sea salt",
       "Eat by squeezing beans from pods",
     ],
-    tags: ["high-protein", "plant-based", "quick"]
+    tags: ["high-protein", "plant-based", "quick"],
+    cuisines: ["asian"]
   },
   {
     id: "recipe-099",
@@ -2103,7 +2205,7 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["healthy", "comfort"],
     ingredients: [
       { foodItemId: "food-022", name: "Banana", quantity: 2, unit: "un", category: CATEGORIES.fruits },
-      { foodItemId: "food-010", name: "Oats", quantity: 0.12, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.12, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-076", name: "Dark chocolate", quantity: 0.03, unit: "kg", category: CATEGORIES.snacks },
       { foodItemId: "food-071", name: "Chia seeds", quantity: 0.01, unit: "kg", category: CATEGORIES.fats },
     ],
@@ -2123,8 +2225,8 @@ export const mockRecipes: Recipe[] = [
     prepTime: 3,
     dietStyle: ["balanced"],
     ingredients: [
-      { foodItemId: "food-103", name: "Whey protein", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
-      { foodItemId: "food-035", name: "Milk (skim)", quantity: 0.3, unit: "L", category: CATEGORIES.dairy },
+      { foodItemId: "food-103", name: "Whey protein", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-210", name: "Milk (skim)", quantity: 0.3, unit: "L", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-022", name: "Banana", quantity: 0.5, unit: "un", category: CATEGORIES.fruits },
     ],
     instructions: [
@@ -2142,16 +2244,17 @@ export const mockRecipes: Recipe[] = [
     prepTime: 10,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-005", name: "Tuna (canned)", quantity: 0.1, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-005", name: "Tuna (canned)", quantity: 0.1, unit: "kg", category: CATEGORIES.protein, allergens: ["fish"] },
       { foodItemId: "food-020", name: "Cucumber", quantity: 1, unit: "un", category: CATEGORIES.vegetables },
-      { foodItemId: "food-100", name: "Cream cheese (light)", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-100", name: "Cream cheese (light)", quantity: 0.03, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
     ],
     instructions: [
       "Cut cucumber into 2cm thick rounds",
       "Mix tuna with cream cheese",
       "Spoon mixture onto cucumber rounds",
     ],
-    tags: ["low-carb", "high-protein", "finger-food"]
+    tags: ["low-carb", "high-protein", "finger-food"],
+    flavors: ["fresh"]
   },
   {
     id: "recipe-102",
@@ -2162,7 +2265,7 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["comfort"],
     ingredients: [
       { foodItemId: "food-076", name: "Dark chocolate", quantity: 0.06, unit: "kg", category: CATEGORIES.snacks },
-      { foodItemId: "food-030", name: "Almonds", quantity: 0.04, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-030", name: "Almonds", quantity: 0.04, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
     ],
     instructions: [
       "Melt dark chocolate in microwave 60 sec",
@@ -2180,7 +2283,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-102", name: "Kefir", quantity: 0.2, unit: "L", category: CATEGORIES.dairy },
+      { foodItemId: "food-102", name: "Kefir", quantity: 0.2, unit: "L", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-131", name: "Raspberries", quantity: 0.05, unit: "kg", category: CATEGORIES.fruits },
       { foodItemId: "food-132", name: "Blueberries (frozen)", quantity: 0.05, unit: "kg", category: CATEGORIES.fruits },
       { foodItemId: "food-157", name: "Honey", quantity: 0.01, unit: "kg", category: CATEGORIES.others },
@@ -2200,10 +2303,10 @@ export const mockRecipes: Recipe[] = [
     prepTime: 20,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-110", name: "Egg whites", quantity: 0.2, unit: "kg", category: CATEGORIES.protein },
+      { foodItemId: "food-110", name: "Egg whites", quantity: 0.2, unit: "kg", category: CATEGORIES.protein, allergens: ["eggs"] },
       { foodItemId: "food-016", name: "Spinach", quantity: 0.06, unit: "kg", category: CATEGORIES.vegetables },
       { foodItemId: "food-017", name: "Tomatoes", quantity: 0.06, unit: "kg", category: CATEGORIES.vegetables },
-      { foodItemId: "food-097", name: "Mozzarella", quantity: 0.04, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-097", name: "Mozzarella", quantity: 0.04, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
     ],
     instructions: [
       "Preheat oven to 180°C",
@@ -2223,7 +2326,7 @@ export const mockRecipes: Recipe[] = [
     ingredients: [
       { foodItemId: "food-022", name: "Banana", quantity: 2, unit: "un", category: CATEGORIES.fruits },
       { foodItemId: "food-076", name: "Dark chocolate", quantity: 0.05, unit: "kg", category: CATEGORIES.snacks },
-      { foodItemId: "food-068", name: "Cashews", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-068", name: "Cashews", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
     ],
     instructions: [
       "Slice bananas into rounds",
@@ -2259,9 +2362,9 @@ export const mockRecipes: Recipe[] = [
     prepTime: 3,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-096", name: "Skyr", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-096", name: "Skyr", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-133", name: "Dried dates", quantity: 0.02, unit: "kg", category: CATEGORIES.fruits },
-      { foodItemId: "food-030", name: "Almonds", quantity: 0.015, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-030", name: "Almonds", quantity: 0.015, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
     ],
     instructions: [
       "Place skyr in bowl",
@@ -2285,7 +2388,9 @@ export const mockRecipes: Recipe[] = [
       "Layer seaweed sheets on rice cake",
       "Eat as a crispy light snack",
     ],
-    tags: ["low-calorie", "mineral-rich", "asian"]
+    tags: ["low-calorie", "mineral-rich", "asian"],
+    cuisines: ["asian"],
+    flavors: ["umami"]
   },
   {
     id: "recipe-109",
@@ -2295,8 +2400,8 @@ export const mockRecipes: Recipe[] = [
     prepTime: 3,
     dietStyle: ["comfort", "balanced"],
     ingredients: [
-      { foodItemId: "food-046", name: "Whole wheat tortilla", quantity: 1, unit: "un", category: CATEGORIES.grains },
-      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-046", name: "Whole wheat tortilla", quantity: 1, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
+      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.02, unit: "kg", category: CATEGORIES.fats, allergens: ["peanuts"] },
       { foodItemId: "food-022", name: "Banana", quantity: 1, unit: "un", category: CATEGORIES.fruits },
     ],
     instructions: [
@@ -2314,7 +2419,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 3,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-101", name: "Quark", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-101", name: "Quark", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-025", name: "Strawberries", quantity: 0.04, unit: "kg", category: CATEGORIES.fruits },
       { foodItemId: "food-131", name: "Raspberries", quantity: 0.04, unit: "kg", category: CATEGORIES.fruits },
     ],
@@ -2351,9 +2456,9 @@ export const mockRecipes: Recipe[] = [
     prepTime: 15,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-137", name: "Tahini", quantity: 0.04, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-137", name: "Tahini", quantity: 0.04, unit: "kg", category: CATEGORIES.fats, allergens: ["sesame"] },
       { foodItemId: "food-133", name: "Dried dates", quantity: 0.06, unit: "kg", category: CATEGORIES.fruits },
-      { foodItemId: "food-010", name: "Oats", quantity: 0.05, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.05, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-071", name: "Chia seeds", quantity: 0.01, unit: "kg", category: CATEGORIES.fats },
     ],
     instructions: [
@@ -2362,7 +2467,8 @@ export const mockRecipes: Recipe[] = [
       "Roll into 10 small balls",
       "Refrigerate 30 min",
     ],
-    tags: ["vegan", "no-bake", "energy"]
+    tags: ["vegan", "no-bake", "energy"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-113",
@@ -2372,7 +2478,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 2,
     dietStyle: ["balanced"],
     ingredients: [
-      { foodItemId: "food-077", name: "Beef jerky", quantity: 0.04, unit: "kg", category: CATEGORIES.snacks },
+      { foodItemId: "food-077", name: "Beef jerky", quantity: 0.04, unit: "kg", category: CATEGORIES.snacks, allergens: ["soy"] },
       { foodItemId: "food-020", name: "Cucumber", quantity: 0.1, unit: "kg", category: CATEGORIES.vegetables },
     ],
     instructions: [
@@ -2390,7 +2496,7 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["healthy"],
     ingredients: [
       { foodItemId: "food-071", name: "Chia seeds", quantity: 0.025, unit: "kg", category: CATEGORIES.fats },
-      { foodItemId: "food-158", name: "Oat milk", quantity: 0.15, unit: "L", category: CATEGORIES.dairy },
+      { foodItemId: "food-158", name: "Oat milk", quantity: 0.15, unit: "L", category: CATEGORIES.dairy, allergens: ["gluten"] },
       { foodItemId: "food-065", name: "Mango", quantity: 0.06, unit: "kg", category: CATEGORIES.fruits },
     ],
     instructions: [
@@ -2408,8 +2514,8 @@ export const mockRecipes: Recipe[] = [
     prepTime: 5,
     dietStyle: ["balanced"],
     ingredients: [
-      { foodItemId: "food-074", name: "Protein bar", quantity: 0.5, unit: "un", category: CATEGORIES.snacks },
-      { foodItemId: "food-035", name: "Milk (skim)", quantity: 0.25, unit: "L", category: CATEGORIES.dairy },
+      { foodItemId: "food-074", name: "Protein bar", quantity: 0.5, unit: "un", category: CATEGORIES.snacks, allergens: ["gluten", "lactose"] },
+      { foodItemId: "food-210", name: "Milk (skim)", quantity: 0.25, unit: "L", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-022", name: "Banana", quantity: 0.5, unit: "un", category: CATEGORIES.fruits },
     ],
     instructions: [
@@ -2427,7 +2533,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 1,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-069", name: "Walnuts", quantity: 0.025, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-069", name: "Walnuts", quantity: 0.025, unit: "kg", category: CATEGORIES.fats, allergens: ["tree_nuts"] },
       { foodItemId: "food-076", name: "Dark chocolate", quantity: 0.015, unit: "kg", category: CATEGORIES.snacks },
     ],
     instructions: [
@@ -2445,7 +2551,7 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["healthy"],
     ingredients: [
       { foodItemId: "food-085", name: "Chickpeas (canned)", quantity: 0.08, unit: "kg", category: CATEGORIES.legumes },
-      { foodItemId: "food-012", name: "Whole wheat bread", quantity: 1, unit: "un", category: CATEGORIES.grains },
+      { foodItemId: "food-012", name: "Whole wheat bread", quantity: 1, unit: "un", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-027", name: "Olive oil", quantity: 0.005, unit: "L", category: CATEGORIES.fats },
     ],
     instructions: [
@@ -2453,7 +2559,8 @@ export const mockRecipes: Recipe[] = [
       "Season with olive oil, salt, pepper and lemon",
       "Spread on toasted bread",
     ],
-    tags: ["vegan", "fiber", "simple"]
+    tags: ["vegan", "fiber", "simple"],
+    cuisines: ["mediterranean"]
   },
   {
     id: "recipe-118",
@@ -2463,7 +2570,7 @@ export const mockRecipes: Recipe[] = [
     prepTime: 3,
     dietStyle: ["healthy"],
     ingredients: [
-      { foodItemId: "food-095", name: "Natural yogurt", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy },
+      { foodItemId: "food-095", name: "Natural yogurt", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
       { foodItemId: "food-140", name: "Hemp seeds", quantity: 0.015, unit: "kg", category: CATEGORIES.fats },
       { foodItemId: "food-024", name: "Blueberries", quantity: 0.04, unit: "kg", category: CATEGORIES.fruits },
     ],
@@ -2482,16 +2589,17 @@ export const mockRecipes: Recipe[] = [
     dietStyle: ["balanced", "comfort"],
     ingredients: [
       { foodItemId: "food-065", name: "Mango", quantity: 0.1, unit: "kg", category: CATEGORIES.fruits },
-      { foodItemId: "food-095", name: "Natural yogurt", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy },
-      { foodItemId: "food-103", name: "Whey protein", quantity: 0.025, unit: "kg", category: CATEGORIES.dairy },
-      { foodItemId: "food-035", name: "Milk (skim)", quantity: 0.1, unit: "L", category: CATEGORIES.dairy },
+      { foodItemId: "food-095", name: "Natural yogurt", quantity: 0.15, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-103", name: "Whey protein", quantity: 0.025, unit: "kg", category: CATEGORIES.dairy, allergens: ["lactose"] },
+      { foodItemId: "food-210", name: "Milk (skim)", quantity: 0.1, unit: "L", category: CATEGORIES.dairy, allergens: ["lactose"] },
     ],
     instructions: [
       "Blend mango, yogurt, protein powder and milk",
       "Add ice if desired",
       "Serve immediately",
     ],
-    tags: ["indian-style", "refreshing", "high-protein"]
+    tags: ["indian-style", "refreshing", "high-protein"],
+    cuisines: ["asian"]
   },
   {
     id: "recipe-120",
@@ -2501,9 +2609,9 @@ export const mockRecipes: Recipe[] = [
     prepTime: 25,
     dietStyle: ["balanced"],
     ingredients: [
-      { foodItemId: "food-010", name: "Oats", quantity: 0.15, unit: "kg", category: CATEGORIES.grains },
+      { foodItemId: "food-010", name: "Oats", quantity: 0.15, unit: "kg", category: CATEGORIES.grains, allergens: ["gluten"] },
       { foodItemId: "food-157", name: "Honey", quantity: 0.04, unit: "kg", category: CATEGORIES.others },
-      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.04, unit: "kg", category: CATEGORIES.fats },
+      { foodItemId: "food-029", name: "Peanut butter", quantity: 0.04, unit: "kg", category: CATEGORIES.fats, allergens: ["peanuts"] },
       { foodItemId: "food-138", name: "Sunflower seeds", quantity: 0.02, unit: "kg", category: CATEGORIES.fats },
       { foodItemId: "food-076", name: "Dark chocolate", quantity: 0.03, unit: "kg", category: CATEGORIES.snacks },
     ],
@@ -7,6 +7,7 @@ type ShoppingListItem = FoodItem & { purchased?: boolean };
 interface UseShoppingListStateParams {
   shoppingList: ShoppingListItem[];
   planDays: number;
+  householdSize?: number;
   toggleItemPurchased: (id: string) => void;
 }
 
@@ -17,6 +18,7 @@ function uniqueIds(ids: string[]): string[] {
 export function useShoppingListState({
   shoppingList,
   planDays,
+  householdSize = 1,
   toggleItemPurchased
 }: UseShoppingListStateParams) {
   const purchasedById = useMemo(() => {
@@ -32,18 +34,23 @@ export function useShoppingListState({
 
   const aggregatedShoppingList = useMemo(
     () =>
-      aggregateShoppingList(shoppingList, planDays).map((item) => ({
+      aggregateShoppingList(shoppingList, planDays, householdSize).map((item) => ({
         ...item,
         sourceIds: uniqueIds(item.sourceIds)
       })),
-    [shoppingList, planDays]
+    [shoppingList, planDays, householdSize]
   );
 
-  const purchasedCount = useMemo(
-    () => aggregatedShoppingList.filter((item) => item.purchased).length,
+  // Items the pantry fully covers are not part of the shopping run
+  const itemsToBuy = useMemo(
+    () => aggregatedShoppingList.filter((item) => !item.coveredByPantry),
     [aggregatedShoppingList]
   );
-  const totalCount = aggregatedShoppingList.length;
+  const purchasedCount = useMemo(
+    () => itemsToBuy.filter((item) => item.purchased).length,
+    [itemsToBuy]
+  );
+  const totalCount = itemsToBuy.length;
   const shoppingProgress = totalCount > 0 ? Math.round((purchasedCount / totalCount) * 100) : 0;
 
   const toggleAggregatedItemPurchased = useCallback(
@@ -1,6 +1,7 @@
 import { useCallback, useMemo, useState } from "react";
 import { WeeklyPlan } from "../core/models/WeeklyPlan";
 import { getStorageProvider } from "../core/storage/StorageProvider";
+import { getPlanDateRange, toISODate } from "../core/logic/planCalendar";
 
 const USER_HISTORY_KEY = "nutripilot_user_history";
 const LEGACY_USER_HISTORY_KEY = "smartmarket_user_history";
@@ -22,6 +23,8 @@ export interface WeeklyFeedbackEntry {
   adherenceLevel: "high" | "good" | "low";
   repeatedTooMuch: boolean;
   createdAt: string;
+  planStartDate?: string; // Dates the feedback covers (plans saved before dating have none)
+  planEndDate?: string;
 }
 
 export interface WeeklyFeedbackAdherence {
@@ -153,10 +156,19 @@ export function useWeeklyFeedback() {
     return history.some(entry => entry.planId === planId);
   }, [history]);
 
+  // Check-in once the plan's last day has come; undated plans are due right away
+  const isFeedbackDue = useCallback((plan: Pick<WeeklyPlan, "id" | "days" | "startDate">, today: Date = new Date()): boolean => {
+    if (history.some(entry => entry.planId === plan.id)) return false;
+
+    const planRange = getPlanDateRange(plan);
+    return !planRange || toISODate(today) >= planRange.endDate;
+  }, [history]);
+
   const submitWeeklyFeedback = useCallback(async (
     planId: string,
     response: WeeklyFeedbackResponse,
-    repeatedTooMuch: boolean
+    repeatedTooMuch: boolean,
+    planRange?: { startDate: string; endDate: string } | null
   ): Promise<{ entry: WeeklyFeedbackEntry; adherence: WeeklyFeedbackAdherence }> => {
     const adherence = mapResponseToAdherence(response);
 
@@ -168,6 +180,7 @@ export function useWeeklyFeedback() {
       adherenceLevel: adherence.level,
       repeatedTooMuch,
       createdAt: adherence.timestamp,
+      ...(planRange ? { planStartDate: planRange.startDate, planEndDate: planRange.endDate } : {}),
     };
 
     const currentHistory = loadWeeklyFeedbackHistory();
@@ -185,6 +198,7 @@ export function useWeeklyFeedback() {
     history,
     latestFeedback,
     hasFeedbackForPlan,
+    isFeedbackDue,
     submitWeeklyFeedback,
   };
 }
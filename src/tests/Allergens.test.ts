@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { generateWeeklyPlan, generateSingleMeal } from "../core/logic/generateWeeklyPlan";
+import { generateShoppingList } from "../core/logic/generateShoppingList";
+import { validateShoppingList } from "../core/logic/validateShoppingList";
+import { optimizeSavings } from "../core/logic/SmartSavingsOptimizer";
+import { suggestRecipes, isRecipeAllowed } from "../core/logic/suggestRecipes";
+import { getDayMealList } from "../core/logic/mealSlots";
+import {
+  buildAllergenSummary,
+  formatAllergenSummaryLines,
+  getCrossContaminationWarnings,
+  isFoodSafeForAllergies,
+} from "../core/logic/allergens";
+import { UserAllergiesSchema } from "../core/validation/PlanInputSchema";
+import { generatePlanFingerprint } from "../core/utils/planFingerprint";
+import { mockFoods } from "../data/mockFoods";
+import { createPlanInput } from "./factories/createPlanInput";
+import { createFoodItem } from "./factories/createFoodItem";
+import type { UserAllergy } from "../core/models/PlanInput";
+
+function findFood(foodId: string) {
+  return mockFoods.find((food) => food.id === foodId)!;
+}
+
+function planFoods(plan: ReturnType<typeof generateWeeklyPlan>) {
+  const foodIds = new Set(
+    plan.days.flatMap((day) => getDayMealList(day.meals).flatMap((meal) => meal.portions.map((p) => p.foodId)))
+  );
+  return Array.from(foodIds).map(findFood);
+}
+
+describe("Allergens", () => {
+  it("excludes contained allergens for every severity and traces only for severe", () => {
+    const bread = createFoodItem({ allergens: ["gluten"] });
+    const riceCake = createFoodItem({ mayContain: ["gluten"] });
+
+    (["mild", "moderate", "severe"] as const).forEach((severity) => {
+      expect(isFoodSafeForAllergies(bread, [{ allergen: "gluten", severity }])).toBe(false);
+    });
+    expect(isFoodSafeForAllergies(riceCake, [{ allergen: "gluten", severity: "moderate" }])).toBe(true);
+    expect(isFoodSafeForAllergies(riceCake, [{ allergen: "gluten", severity: "severe" }])).toBe(false);
+    expect(isFoodSafeForAllergies(bread, [])).toBe(true);
+  });
+
+  it.each([
+    [[{ allergen: "fish", severity: "severe" }, { allergen: "eggs", severity: "moderate" }], "medium"],
+    [[{ allergen: "lactose", severity: "mild" }, { allergen: "soy", severity: "severe" }], "low"],
+    [[{ allergen: "gluten", severity: "severe" }, { allergen: "tree_nuts", severity: "severe" }], "high"],
+  ] as const)("never puts an unsafe food in the plan, swaps or shopping list (%j, %s tier)", (allergyList, costTier) => {
+    const allergies: UserAllergy[] = allergyList.map((allergy) => ({ ...allergy }));
+    const input = createPlanInput({ allergies, costTier, mealsPerDay: 5 });
+    const plan = generateWeeklyPlan(input);
+
+    planFoods(plan).forEach((food) => expect(isFoodSafeForAllergies(food, allergies), food.name).toBe(true));
+
+    const swapped = generateSingleMeal(input, "snack", false);
+    swapped.portions.forEach((portion) => {
+      const food = findFood(portion.foodId);
+      expect(isFoodSafeForAllergies(food, allergies), food.name).toBe(true);
+    });
+
+    const list = generateShoppingList(input, plan);
+    list.items.forEach((item) => expect(isFoodSafeForAllergies(item, allergies), item.name).toBe(true));
+    expect(validateShoppingList(input, plan, list.items, list.totalProtein).issues.some(
+      (issue) => issue.code === "allergen_conflicts"
+    )).toBe(false);
+  });
+
+  it("never substitutes to an unsafe food when saving money", () => {
+    const cottage = mockFoods.find((food) => food.name === "Cottage cheese (low fat)")!;
+    const items = [{ ...cottage, quantity: 2, estimatedPrice: 30 }];
+    const lactose: UserAllergy[] = [{ allergen: "lactose", severity: "mild" }];
+
+    expect(optimizeSavings(items, items[0].estimatedPrice, 1).substitutionsApplied).toHaveLength(1);
+    expect(optimizeSavings(items, items[0].estimatedPrice, 1, [], [], lactose).substitutionsApplied).toHaveLength(0);
+  });
+
+  it("only suggests recipes without the allergen in any ingredient", () => {
+    const eggs: UserAllergy[] = [{ allergen: "eggs", severity: "severe" }];
+    const suggestions = suggestRecipes(mockFoods, [], eggs);
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    suggestions.forEach((recipe) => expect(isRecipeAllowed(recipe, [], eggs), recipe.name).toBe(true));
+    expect(suggestRecipes(mockFoods).some((recipe) => !isRecipeAllowed(recipe, [], eggs))).toBe(true);
+  });
+
+  it("summarises allergens and warns about traces kept in the list", () => {
+    const foods = [
+      createFoodItem({ name: "Whole wheat bread", allergens: ["gluten"], mayContain: ["sesame"] }),
+      createFoodItem({ name: "Rice cakes", mayContain: ["gluten"] }),
+      createFoodItem({ name: "Rice cakes", mayContain: ["gluten"] }),
+    ];
+    const allergies: UserAllergy[] = [{ allergen: "sesame", severity: "mild" }];
+
+    const summary = buildAllergenSummary(foods, allergies);
+    expect(summary.entries.map((entry) => entry.allergen)).toEqual(["gluten", "sesame"]);
+    expect(summary.entries[0]).toEqual({ allergen: "gluten", contains: ["Whole wheat bread"], mayContain: ["Rice cakes"] });
+    expect(summary.warnings).toEqual([{ foodName: "Whole wheat bread", allergens: ["sesame"] }]);
+    expect(getCrossContaminationWarnings(foods, [])).toEqual([]);
+
+    const lines = formatAllergenSummaryLines(summary, allergies);
+    expect(lines[0]).toBe("Your allergies: Sesame (mild)");
+    expect(lines[lines.length - 1]).toMatch(/Whole wheat bread may contain traces of Sesame/);
+  });
+
+  it("validates profile allergies and changes the plan fingerprint", () => {
+    expect(UserAllergiesSchema.safeParse([{ allergen: "peanuts", severity: "severe" }]).success).toBe(true);
+    expect(UserAllergiesSchema.safeParse([{ allergen: "peanuts", severity: "deadly" }]).success).toBe(false);
+    expect(UserAllergiesSchema.safeParse([
+      { allergen: "peanuts", severity: "mild" },
+      { allergen: "peanuts", severity: "severe" },
+    ]).success).toBe(false);
+
+    const input = createPlanInput();
+    expect(generatePlanFingerprint({ ...input, allergies: [] })).toBe(generatePlanFingerprint(input));
+    expect(generatePlanFingerprint({ ...input, allergies: [{ allergen: "fish", severity: "mild" }] }))
+      .not.toBe(generatePlanFingerprint(input));
+  });
+});
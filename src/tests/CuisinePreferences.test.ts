@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { getDayMealSlots } from "../core/logic/mealSlots";
+import { getRecipeById } from "../core/logic/recipePlanning";
+import { boostByCuisine, getMealCuisine } from "../core/logic/cuisines";
+import { validatePlanInput } from "../core/validation/PlanInputSchema";
+import { generatePlanFingerprint } from "../core/utils/planFingerprint";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { localizeMealName } from "../app/utils/foodLocalization";
+import { mockFoods } from "../data/mockFoods";
+import pt from "../i18n/pt.json";
+import type { Cuisine } from "../core/models/FoodItem";
+import type { WeeklyPlan } from "../core/models/WeeklyPlan";
+import { createPlanInput } from "./factories/createPlanInput";
+
+function mainMeals(plan: WeeklyPlan) {
+  return plan.days
+    .flatMap((day) => getDayMealSlots(day.meals))
+    .filter((slot) => slot.type === "lunch" || slot.type === "dinner")
+    .map((slot) => slot.meal);
+}
+
+function cuisineFoodCount(plan: WeeklyPlan, cuisine: Cuisine): number {
+  return mainMeals(plan)
+    .flatMap((meal) => meal.portions.map((portion) => mockFoods.find((food) => food.id === portion.foodId)!))
+    .filter((food) => food.cuisines?.includes(cuisine)).length;
+}
+
+describe("Cuisine and flavor preferences", () => {
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("boosts foods of the chosen cuisine and tags the meals that follow it", () => {
+    const generic = generateWeeklyPlan(createPlanInput(), { seed: "cuisine" });
+    const brazilian = generateWeeklyPlan(createPlanInput({ cuisines: ["brazilian"] }), { seed: "cuisine" });
+
+    expect(cuisineFoodCount(brazilian, "brazilian")).toBeGreaterThan(cuisineFoodCount(generic, "brazilian"));
+    expect(mainMeals(generic).some((meal) => meal.cuisine)).toBe(false);
+
+    const tagged = mainMeals(brazilian).filter((meal) => meal.cuisine === "brazilian");
+    expect(tagged.length).toBeGreaterThan(0);
+    tagged.forEach((meal) => {
+      const dishFoods = [meal.dish!.protein, meal.dish!.carb, meal.dish!.vegetable]
+        .map((name) => mockFoods.find((food) => food.name === name)!);
+      expect(getMealCuisine(dishFoods, ["brazilian"])).toBe("brazilian");
+    });
+
+    // Boosting only reorders the best candidates
+    const foods = mockFoods.slice(0, 12);
+    expect(boostByCuisine(foods, {})).toBe(foods);
+    expect(new Set(boostByCuisine(foods, { cuisines: ["asian"] }))).toEqual(new Set(foods));
+  });
+
+  it("names cuisine meals with the language's template", () => {
+    const t = (key: string, options: Record<string, string>) =>
+      (pt as Record<string, string>)[key].replace(/{{(\w+)}}/g, (_, name: string) => options[name]);
+    const meal = {
+      name: "Chicken breast + White rice + Kale",
+      cuisine: "brazilian" as const,
+      dish: { protein: "Chicken breast (skinless)", carb: "White rice", vegetable: "Kale" },
+    };
+
+    expect(localizeMealName(meal, t, "pt")).toBe("Peito de frango grelhado com arroz branco e couve");
+    expect(localizeMealName({ name: "Chicken breast + White rice + Kale" }, t, "pt")).toBe("Chicken breast + White rice + Kale");
+  });
+
+  it("prefers recipes of the chosen cuisine and validates the tags", () => {
+    const plan = generateWeeklyPlan(createPlanInput({ planMode: "recipes", cuisines: ["mexican"] }), { seed: "cuisine" });
+    const firstLunches = plan.days.slice(0, 3).map((day) => getRecipeById(day.meals.lunch.recipeId!)!);
+    firstLunches.forEach((recipe) => expect(recipe.cuisines).toContain("mexican"));
+
+    const input = createPlanInput({ cuisines: ["asian"], flavors: ["umami"] });
+    expect(validatePlanInput(input).success).toBe(true);
+    expect(validatePlanInput(createPlanInput({ cuisines: ["asian", "asian"] })).success).toBe(false);
+    expect(generatePlanFingerprint(input)).not.toBe(generatePlanFingerprint(createPlanInput()));
+  });
+});
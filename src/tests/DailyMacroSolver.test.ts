@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  caloriesForMacros,
+  getPortionBounds,
+  solveDayPortions,
+  sumIngredientMacros,
+  SolverIngredient,
+} from "../core/logic/DailyMacroSolver";
+import { calculateMealPortions } from "../core/logic/PortionCalculator";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { getDayMealList } from "../core/logic/mealSlots";
+import { mockFoods } from "../data/mockFoods";
+import { createPlanInput } from "./factories/createPlanInput";
+
+function food(name: string) {
+  return mockFoods.find((item) => item.name === name)!;
+}
+
+const target = { protein: 150, carbs: 250, fats: 70 };
+
+// Greedy per-meal portions (protein → carbs → fats) for a three-meal day
+function greedyDay(): SolverIngredient[][] {
+  const mealTarget = { protein: 50, carbs: 83, fats: 23 };
+  const meals = [
+    calculateMealPortions(mealTarget, food("Eggs (large)"), food("Oats (rolled)")),
+    calculateMealPortions(mealTarget, food("Chicken breast (skinless)"), food("White rice"), food("Extra virgin olive oil"), food("Broccoli")),
+    calculateMealPortions(mealTarget, food("Pork loin"), food("Sweet potato"), food("Extra virgin olive oil"), food("Spinach (fresh)")),
+  ];
+
+  return meals.map((portions) =>
+    portions.map((portion) => ({ food: mockFoods.find((item) => item.id === portion.foodId)!, grams: portion.gramsNeeded }))
+  );
+}
+
+describe("Daily macro solver", () => {
+  it("hits the day's calories and macros better than greedy per-meal portions", () => {
+    const greedy = greedyDay();
+    const solution = solveDayPortions(greedy, target);
+
+    const greedyError = Math.abs(sumIngredientMacros(greedy.flat()).calories - caloriesForMacros(target));
+    expect(Math.abs(solution.residual.calories)).toBeLessThan(greedyError);
+    expect(solution.residual.withinTolerance).toBe(true);
+    expect(Math.abs(solution.residual.calories)).toBeLessThanOrEqual(caloriesForMacros(target) * 0.05);
+  });
+
+  it("keeps realistic portion sizes and market units", () => {
+    const solution = solveDayPortions(greedyDay(), target);
+
+    solution.meals.flat().forEach(({ food: item, grams }) => {
+      const bounds = getPortionBounds(item);
+      expect(grams, item.name).toBeGreaterThanOrEqual(bounds.min);
+      expect(grams, item.name).toBeLessThanOrEqual(bounds.max);
+      expect(grams % bounds.step, item.name).toBe(0);
+    });
+
+    expect(getPortionBounds(food("Eggs (large)")).step).toBe(50);
+    expect(getPortionBounds(food("Extra virgin olive oil")).max).toBeLessThanOrEqual(50);
+  });
+
+  it("reports the residual when bounds make the target unreachable", () => {
+    const tiny = [[{ food: food("Broccoli"), grams: 150 }]];
+    const solution = solveDayPortions(tiny, target);
+
+    expect(solution.meals[0][0].grams).toBe(getPortionBounds(food("Broccoli")).max);
+    expect(solution.residual.protein).toBeLessThan(0);
+    expect(solution.residual.withinTolerance).toBe(false);
+  });
+
+  it("stores the residual on every day and keeps meal protein in sync", () => {
+    const plan = generateWeeklyPlan(createPlanInput({ mealsPerDay: 5 }), { macroTolerance: { calories: 1, macros: 1 } });
+
+    plan.days.forEach((day) => {
+      expect(day.macroResidual?.withinTolerance).toBe(true);
+
+      getDayMealList(day.meals).forEach((meal) => {
+        const protein = meal.portions.reduce((sum, portion) => {
+          const item = mockFoods.find((entry) => entry.id === portion.foodId)!;
+          return sum + ((item.macros?.protein ?? 0) * portion.gramsNeeded) / 100;
+        }, 0);
+        expect(Math.abs(meal.protein - protein)).toBeLessThanOrEqual(1);
+      });
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan, generateSingleMeal } from "../core/logic/generateWeeklyPlan";
+import { getDayMealList } from "../core/logic/mealSlots";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { createPlanInput } from "./factories/createPlanInput";
+
+// Learned preferences are part of the input: every generation starts from the same (empty) state
+function generate(...args: Parameters<typeof generateWeeklyPlan>) {
+  userPreferencesStore.clearAll();
+  return generateWeeklyPlan(...args);
+}
+
+function mealSequence(plan: ReturnType<typeof generateWeeklyPlan>): string[] {
+  return plan.days.flatMap((day) => getDayMealList(day.meals).map((meal) => meal.name));
+}
+
+describe("Deterministic, seedable plan generation", () => {
+  const input = createPlanInput({ mealsPerDay: 5 });
+  const referenceDate = new Date("2026-03-02T10:00:00Z");
+
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("reproduces the exact same plan for the same seed and reference date", () => {
+    const first = generate(input, { seed: "ticket-1234", referenceDate });
+    const second = generate(input, { seed: "ticket-1234", referenceDate });
+
+    expect(second.id).toBe(first.id);
+    expect(second.createdAt).toEqual(referenceDate);
+    expect(second.seed).toBe("ticket-1234");
+    expect(second.days).toEqual(first.days);
+  });
+
+  it("varies the plan with the seed", () => {
+    const seeds = ["seed-a", "seed-b", "seed-c", "seed-d"];
+    const sequences = seeds.map((seed) => mealSequence(generate(input, { seed, referenceDate })).join("|"));
+
+    expect(new Set(sequences).size).toBeGreaterThan(1);
+  });
+
+  it("derives the default seed from the reference date's week and stores it on the plan", () => {
+    const monday = generate(input, { referenceDate });
+    const friday = generate(input, { referenceDate: new Date("2026-03-06T18:00:00Z") });
+    const nextWeek = generate(input, { referenceDate: new Date("2026-03-09T10:00:00Z") });
+
+    expect(friday.seed).toBe(monday.seed);
+    expect(nextWeek.seed).not.toBe(monday.seed);
+    expect(generate(input, { seed: monday.seed, referenceDate }).days).toEqual(monday.days);
+  });
+
+  it("reproduces swaps from their seed", () => {
+    const swap = (seed: string) => {
+      userPreferencesStore.clearAll();
+      return generateSingleMeal(input, "snack", false, [], null, { seed });
+    };
+
+    expect(swap("swap-1")).toEqual(swap("swap-1"));
+
+    const names = ["swap-1", "swap-2", "swap-3", "swap-4"].map((seed) => swap(seed).name);
+    expect(new Set(names).size).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { generateWeeklyPlan, generateSingleMeal } from "../core/logic/generateWeeklyPlan";
+import { generateShoppingList } from "../core/logic/generateShoppingList";
+import { validateShoppingList } from "../core/logic/validateShoppingList";
+import { optimizeSavings } from "../core/logic/SmartSavingsOptimizer";
+import { suggestRecipes, isRecipeAllowed } from "../core/logic/suggestRecipes";
+import { buildMeal } from "../core/logic/MealBuilder";
+import { getDayMealList } from "../core/logic/mealSlots";
+import {
+  DietaryRestrictionError,
+  isFoodAllowed,
+  parseDietaryRestrictions,
+} from "../core/logic/dietaryRestrictions";
+import { mockFoods } from "../data/mockFoods";
+import { CATEGORIES } from "../core/constants/categories";
+import { createPlanInput } from "./factories/createPlanInput";
+import { createFoodItem } from "./factories/createFoodItem";
+
+function findFood(foodId: string) {
+  return mockFoods.find((food) => food.id === foodId)!;
+}
+
+function planFoods(plan: ReturnType<typeof generateWeeklyPlan>) {
+  const foodIds = new Set(
+    plan.days.flatMap((day) => getDayMealList(day.meals).flatMap((meal) => meal.portions.map((p) => p.foodId)))
+  );
+  return Array.from(foodIds).map(findFood);
+}
+
+describe("Dietary restrictions", () => {
+  it("parses free-text restrictions in English and Portuguese", () => {
+    expect(parseDietaryRestrictions(["Vegano", "sem glúten"])).toEqual(["vegan", "gluten-free"]);
+    expect(parseDietaryRestrictions(["lactose", "alergia a amendoim", "vegetarian"])).toEqual([
+      "lactose-free", "nut-free", "vegetarian",
+    ]);
+    expect(parseDietaryRestrictions(["no spicy food"])).toEqual([]);
+  });
+
+  it("matches restriction keywords on whole words only", () => {
+    expect(parseDietaryRestrictions(["coconut"])).toEqual([]);
+    expect(parseDietaryRestrictions(["almond milk", "leite de amêndoa", "oat-milk"])).toEqual([]);
+    expect(parseDietaryRestrictions(["buckwheat", "doughnut"])).toEqual([]);
+
+    expect(parseDietaryRestrictions(["Nut-free"])).toEqual(["nut-free"]);
+    expect(parseDietaryRestrictions(["no peanuts"])).toEqual(["nut-free"]);
+    expect(parseDietaryRestrictions(["dairy-free, no cow's milk"])).toEqual(["lactose-free"]);
+    expect(parseDietaryRestrictions(["almond milk only, no milk"])).toEqual(["lactose-free"]);
+    expect(parseDietaryRestrictions(["sem lacticínios"])).toEqual(["lactose-free"]);
+  });
+
+  it("checks diet and allergen tags", () => {
+    const tofu = createFoodItem({ diet: "vegan" });
+    const eggs = createFoodItem({ diet: "vegetarian" });
+    const bread = createFoodItem({ diet: "vegan", allergens: ["gluten"] });
+
+    expect(isFoodAllowed(tofu, ["vegan"])).toBe(true);
+    expect(isFoodAllowed(eggs, ["vegan"])).toBe(false);
+    expect(isFoodAllowed(eggs, ["vegetarian"])).toBe(true);
+    expect(isFoodAllowed(bread, ["gluten-free"])).toBe(false);
+    expect(isFoodAllowed(createFoodItem(), ["vegetarian"])).toBe(false);
+  });
+
+  it("tags every food in the database with a diet", () => {
+    expect(mockFoods.every((food) => food.diet !== undefined)).toBe(true);
+  });
+
+  it.each([
+    [["vegetarian"], "medium"],
+    [["vegan"], "high"],
+    [["gluten-free", "lactose-free"], "low"],
+    [["nut-free"], "medium"],
+  ] as const)("never puts a violating food in the plan (%s, %s tier)", (restrictions, costTier) => {
+    const input = createPlanInput({ restrictions: [...restrictions], costTier, mealsPerDay: 5 });
+    const parsed = parseDietaryRestrictions(input.restrictions);
+    const plan = generateWeeklyPlan(input);
+
+    planFoods(plan).forEach((food) => expect(isFoodAllowed(food, parsed), food.name).toBe(true));
+
+    const swapped = generateSingleMeal(input, "snack", false);
+    swapped.portions.forEach((portion) => {
+      const food = findFood(portion.foodId);
+      expect(isFoodAllowed(food, parsed), food.name).toBe(true);
+    });
+
+    const list = generateShoppingList(input, plan);
+    list.items.forEach((item) => expect(isFoodAllowed(item, parsed), item.name).toBe(true));
+    expect(validateShoppingList(input, plan, list.items, list.totalProtein).issues.some(
+      (issue) => issue.code === "restriction_conflicts"
+    )).toBe(false);
+  });
+
+  it("never substitutes to a violating food when saving money", () => {
+    const cottage = mockFoods.find((food) => food.name === "Cottage cheese (low fat)")!;
+    // Overpriced cottage cheese: swapping to Greek yogurt saves money, but both contain lactose
+    const items = [{ ...cottage, quantity: 2, estimatedPrice: 30 }];
+
+    expect(optimizeSavings(items, items[0].estimatedPrice, 1).substitutionsApplied).toHaveLength(1);
+    expect(optimizeSavings(items, items[0].estimatedPrice, 1, [], ["lactose-free"]).substitutionsApplied).toHaveLength(0);
+  });
+
+  it("only suggests recipes whose ingredients respect the restrictions", () => {
+    const suggestions = suggestRecipes(mockFoods, ["vegan"]);
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    suggestions.forEach((recipe) => expect(isRecipeAllowed(recipe, ["vegan"]), recipe.name).toBe(true));
+    expect(suggestRecipes(mockFoods).some((recipe) => !isRecipeAllowed(recipe, ["vegan"]))).toBe(true);
+  });
+
+  it("throws a clear error when the restrictions leave no protein source", () => {
+    const rice = mockFoods.find((food) => food.name === "White rice")!;
+    const chicken = mockFoods.find((food) => food.category === CATEGORIES.protein && food.diet === "omnivore")!;
+
+    const build = () => buildMeal({
+      macroTargetsPerMeal: { protein: 40, carbs: 60, fats: 15 },
+      availableFoods: [rice, chicken],
+      costTier: "high",
+      restrictions: ["vegetarian"],
+    });
+
+    expect(build).toThrow(DietaryRestrictionError);
+    expect(build).toThrow(/no protein source compatible with vegetarian/);
+  });
+});
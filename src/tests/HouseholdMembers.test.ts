@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { generateWeeklyPlan, generateSingleMeal } from "../core/logic/generateWeeklyPlan";
+import { generateShoppingList } from "../core/logic/generateShoppingList";
+import { validateShoppingList } from "../core/logic/validateShoppingList";
+import { generateMealPrepSummary } from "../core/logic/MealPrepSummary";
+import { getHouseholdInputs, getHouseholdPortions } from "../core/logic/householdPortions";
+import { generatePlanFingerprint } from "../core/utils/planFingerprint";
+import { PlanInputSchema } from "../core/validation/PlanInputSchema";
+import { createPlanInput } from "./factories/createPlanInput";
+
+const primary = createPlanInput({ sex: "male", weightKg: 90, heightCm: 185, fitnessGoal: "bulking" });
+const partner = createPlanInput({ sex: "female", weightKg: 58, heightCm: 163, age: 29, trains: false, fitnessGoal: "cutting" });
+
+describe("Household members with distinct profiles", () => {
+  it("keeps a single-input call backwards compatible", () => {
+    const plan = generateWeeklyPlan(primary);
+
+    expect(plan.householdMembers).toBeUndefined();
+    expect(plan.days[0].meals.lunch.plates).toBeUndefined();
+  });
+
+  it("shares the same dishes and gives every member their own plate", () => {
+    const plan = generateWeeklyPlan([primary, partner]);
+
+    expect(plan.householdMembers).toHaveLength(2);
+    expect(plan.householdSize).toBe(2);
+    expect(plan.planInput).toBe(primary);
+
+    plan.days.forEach((day) => {
+      const lunch = day.meals.lunch;
+      expect(lunch.plates).toHaveLength(2);
+
+      const [yourPlate, partnerPlate] = lunch.plates!;
+      expect(yourPlate.portions).toEqual(lunch.portions);
+      // Same dish; the partner's plate may skip added fat when the target is already met
+      const dishFoods = lunch.portions.map((p) => p.foodId);
+      partnerPlate.portions.forEach((portion) => expect(dishFoods).toContain(portion.foodId));
+    });
+  });
+
+  it("portions the partner plate from the partner's own macro targets", () => {
+    const plan = generateWeeklyPlan([primary, partner]);
+    const [you, them] = plan.householdMembers!;
+
+    expect(them.proteinTargetPerDay).toBeLessThan(you.proteinTargetPerDay);
+
+    const restDay = plan.days.find((day) => !day.trainingDay)!;
+    const [yourPlate, partnerPlate] = restDay.meals.dinner.plates!;
+    expect(partnerPlate.protein).toBeLessThan(yourPlate.protein);
+  });
+
+  it("sums every member's plate into the shopping list and prep summary", () => {
+    const plan = generateWeeklyPlan([primary, partner]);
+    const meal = plan.days[0].meals.lunch;
+    const summed = getHouseholdPortions(meal);
+    const proteinFood = meal.portions[0].foodId;
+
+    expect(summed.find((p) => p.foodId === proteinFood)?.gramsNeeded).toBe(
+      meal.plates!.reduce((sum, plate) => sum + (plate.portions.find((p) => p.foodId === proteinFood)?.gramsNeeded ?? 0), 0)
+    );
+
+    const soloPlan = {
+      ...plan,
+      householdMembers: undefined,
+      householdSize: 1,
+      days: plan.days.map((day) => ({
+        ...day,
+        meals: {
+          breakfast: { ...day.meals.breakfast, plates: undefined },
+          lunch: { ...day.meals.lunch, plates: undefined },
+          dinner: { ...day.meals.dinner, plates: undefined },
+          snack: day.meals.snack ? { ...day.meals.snack, plates: undefined } : null,
+          slots: day.meals.slots?.map((slot) => ({ ...slot, meal: { ...slot.meal, plates: undefined } })),
+        },
+      })),
+    };
+    const householdList = generateShoppingList(primary, plan);
+    const soloList = generateShoppingList(primary, soloPlan);
+    expect(householdList.totalProtein).toBeGreaterThan(soloList.totalProtein);
+
+    const summary = generateMealPrepSummary(plan);
+    expect(summary.householdSize).toBe(2);
+
+    // Coverage is measured against both members' targets, not twice the primary's
+    const householdValidation = validateShoppingList(primary, plan, householdList.items, householdList.totalProtein);
+    const doubledValidation = validateShoppingList(
+      { ...primary, householdSize: 2 },
+      soloPlan,
+      householdList.items,
+      householdList.totalProtein
+    );
+    expect(householdValidation.checks.proteinCoveragePercent).toBeGreaterThan(doubledValidation.checks.proteinCoveragePercent);
+  });
+
+  it("keeps member plates on swapped meals", () => {
+    const plan = generateWeeklyPlan([primary, partner]);
+    const swapped = generateSingleMeal(primary, "lunch", false, plan.householdMembers);
+
+    expect(swapped.plates).toHaveLength(2);
+    const dishFoods = swapped.portions.map((p) => p.foodId);
+    swapped.plates![1].portions.forEach((portion) => expect(dishFoods).toContain(portion.foodId));
+  });
+
+  it("brings the input's saved partners to the table", () => {
+    const input = createPlanInput({
+      ...primary,
+      householdSize: 2,
+      proteinTargetPerDay: 200,
+      allergies: [{ allergen: "peanuts", severity: "severe" }],
+      partners: [{ sex: "female", age: 29, weightKg: 58, heightCm: 163, trains: false, fitnessGoal: "cutting" }]
+    });
+
+    const [you, them] = getHouseholdInputs(input);
+    expect(you).toBe(input);
+    expect(them).toMatchObject({ sex: "female", weightKg: 58, fitnessGoal: "cutting", allergies: input.allergies });
+    expect(them.proteinTargetPerDay).toBeUndefined();
+    expect(them.partners).toBeUndefined();
+    expect(PlanInputSchema.safeParse(input).success).toBe(true);
+
+    const options = { seed: "partners", trackPreferences: false };
+    const plan = generateWeeklyPlan(input, options);
+    expect(plan.householdMembers).toHaveLength(2);
+    expect(plan.householdMembers![1].planInput).toEqual(them);
+    expect(plan.days).toEqual(generateWeeklyPlan([input, them], options).days);
+    expect(generatePlanFingerprint(input)).not.toBe(generatePlanFingerprint({ ...input, partners: [] }));
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { generateShoppingList } from "../core/logic/generateShoppingList";
+import { generateMealPrepSummary } from "../core/logic/MealPrepSummary";
+import { generateMealPrepGuide } from "../core/logic/MealPrepGuide";
+import { aggregateShoppingList } from "../core/logic/aggregateShoppingList";
+import { resolveHouseholdSize } from "../core/logic/calculateQuantities";
+import { validatePlanInput } from "../core/validation/PlanInputSchema";
+import { generatePlanFingerprint } from "../core/utils/planFingerprint";
+import { localizeCoverageText } from "../app/utils/foodLocalization";
+import { createPlanInput } from "./factories/createPlanInput";
+import { createFoodItem } from "./factories/createFoodItem";
+
+function totalCost(items: Array<{ estimatedPrice?: number }>): number {
+  return items.reduce((sum, item) => sum + (item.estimatedPrice || 0), 0);
+}
+
+describe("Household scaling", () => {
+  it("defaults to a single person when householdSize is missing or invalid", () => {
+    expect(resolveHouseholdSize()).toBe(1);
+    expect(resolveHouseholdSize(0)).toBe(1);
+    expect(resolveHouseholdSize(Number.NaN)).toBe(1);
+    expect(resolveHouseholdSize(3)).toBe(3);
+  });
+
+  it("validates householdSize as an optional whole number between 1 and 10", () => {
+    expect(validatePlanInput(createPlanInput({ householdSize: 4 })).success).toBe(true);
+    expect(validatePlanInput(createPlanInput()).success).toBe(true);
+
+    const invalid = validatePlanInput(createPlanInput({ householdSize: 0 }));
+    expect(invalid.success).toBe(false);
+    expect(invalid.errors?.some((error) => error.startsWith("householdSize"))).toBe(true);
+
+    expect(validatePlanInput(createPlanInput({ householdSize: 2.5 })).success).toBe(false);
+    expect(validatePlanInput(createPlanInput({ householdSize: 11 })).success).toBe(false);
+  });
+
+  it("keeps meal portions per person and stores the household on the plan", () => {
+    const single = generateWeeklyPlan(createPlanInput());
+    const couple = generateWeeklyPlan(createPlanInput({ householdSize: 2 }));
+
+    expect(single.householdSize).toBe(1);
+    expect(couple.householdSize).toBe(2);
+    expect(couple.proteinTargetPerDay).toBe(single.proteinTargetPerDay);
+  });
+
+  it("multiplies shopping quantities and cost by the household size", () => {
+    const input = createPlanInput();
+    const weeklyPlan = generateWeeklyPlan(input);
+
+    const single = generateShoppingList(input, weeklyPlan);
+    const family = generateShoppingList({ ...input, householdSize: 3 }, weeklyPlan);
+
+    expect(family.items.map((item) => item.id).sort()).toEqual(single.items.map((item) => item.id).sort());
+    // Discrete packs round up, so only weighed items scale exactly
+    single.items
+      .filter((item) => item.unit === "kg")
+      .forEach((item) => {
+        const scaled = family.items.find((candidate) => candidate.id === item.id);
+        expect(scaled?.quantity).toBeCloseTo(item.quantity * 3, 1);
+      });
+    // Weighed items triple in cost; packs round up, so the total grows less than 3×
+    const weighed = (items: typeof single.items) => items.filter((item) => item.unit === "kg" || item.unit === "g");
+    expect(totalCost(weighed(family.items))).toBeCloseTo(totalCost(weighed(single.items)) * 3, 0);
+    expect(totalCost(family.items)).toBeGreaterThan(totalCost(single.items) * 1.4);
+
+    const kgItem = family.items.find((item) => item.unit === "kg" && item.reason?.includes("×"));
+    expect(kgItem?.reason).toContain("× 3 pessoas");
+  });
+
+  it("scales meal prep batches and servings for the household", () => {
+    const single = generateWeeklyPlan(createPlanInput());
+    const couple = { ...single, householdSize: 2 };
+
+    const singleSummary = generateMealPrepSummary(single);
+    const coupleSummary = generateMealPrepSummary(couple);
+    const singleGrams = singleSummary.ingredients.reduce((sum, item) => sum + item.totalGrams, 0);
+    const coupleGrams = coupleSummary.ingredients.reduce((sum, item) => sum + item.totalGrams, 0);
+
+    expect(coupleGrams).toBeCloseTo(singleGrams * 2, 5);
+    expect(coupleSummary.householdSize).toBe(2);
+    expect(generateMealPrepGuide(couple).servingsProduced).toBe(generateMealPrepGuide(single).servingsProduced * 2);
+  });
+
+  it("mentions the household in coverage text and localizes it", () => {
+    const [item] = aggregateShoppingList(
+      [createFoodItem({ id: "chicken", name: "Chicken breast", reason: "Lunch protein for 7 meals" })],
+      7,
+      2
+    );
+
+    expect(item.coverageText).toBe("This covers 7 days of protein for 2 people");
+    expect(localizeCoverageText(item.coverageText, "pt")).toBe("Cobre 7 dias de proteína para 2 pessoas");
+  });
+
+  it("changes the plan fingerprint only for shared plans", () => {
+    const base = createPlanInput();
+
+    expect(generatePlanFingerprint({ ...base, householdSize: 1 })).toBe(generatePlanFingerprint(base));
+    expect(generatePlanFingerprint({ ...base, householdSize: 2 })).not.toBe(generatePlanFingerprint(base));
+  });
+});
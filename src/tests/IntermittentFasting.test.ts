@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan, generateSingleMeal } from "../core/logic/generateWeeklyPlan";
+import { applyFastingToLayout, FASTING_DAY_CALORIE_FACTOR, getWindowMealType } from "../core/logic/fasting";
+import { getDayMealSlots, getMealSlotLayout } from "../core/logic/mealSlots";
+import { validatePlanInput } from "../core/validation/PlanInputSchema";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { getCurrentMealSlot } from "../../app/lib/dayContext";
+import { createPlanInput } from "./factories/createPlanInput";
+
+function dayProtein(day: { meals: Parameters<typeof getDayMealSlots>[0] }): number {
+  return getDayMealSlots(day.meals).reduce((sum, slot) => sum + slot.meal.protein, 0);
+}
+
+describe("Intermittent fasting", () => {
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("drops meals outside the eating window and spreads their share over the rest", () => {
+    const eatingWindow = { start: "12:00", end: "20:00" };
+    const layout = applyFastingToLayout(getMealSlotLayout(6), { eatingWindow }, "monday");
+
+    expect(layout.map((slot) => slot.id)).toEqual(["lunch", "snack-2", "dinner"]);
+    expect(layout.reduce((sum, slot) => sum + slot.share, 0)).toBeCloseTo(1, 5);
+
+    const input = createPlanInput({ mealsPerDay: 4, eatingWindow, trains: false });
+    const plan = generateWeeklyPlan(input, { seed: "fasting" });
+    plan.days.forEach((day) => {
+      expect(getDayMealSlots(day.meals).map((slot) => slot.id)).toEqual(["lunch", "snack", "dinner"]);
+      // The first meal stands in for breakfast on older consumers
+      expect(day.meals.breakfast).toBe(day.meals.lunch);
+      // Fewer meals, same day target
+      expect(Math.abs(day.macroResidual!.calories)).toBeLessThan(200);
+    });
+
+    // Swaps respect the window's shares too
+    const swapped = generateSingleMeal(input, "dinner", "rest", [], "monday", { seed: "fasting" });
+    expect(swapped.protein).toBeGreaterThan(plan.days[0].meals.dinner.protein * 0.6);
+  });
+
+  it("scales 5:2 fasting days down to lunch and dinner", () => {
+    const input = createPlanInput({ mealsPerDay: 4, fastingDays: ["tuesday", "friday"], trains: false });
+    const plan = generateWeeklyPlan(input, { seed: "fasting", startDate: "2026-10-19" });
+    const monday = plan.days[0];
+    const tuesday = plan.days[1];
+
+    expect(tuesday.fastingDay).toBe(true);
+    expect(monday.fastingDay).toBeUndefined();
+    expect(getDayMealSlots(tuesday.meals).map((slot) => slot.id)).toEqual(["lunch", "dinner"]);
+    expect(Math.abs(tuesday.macroResidual!.calories)).toBeLessThan(150);
+    expect(dayProtein(tuesday)).toBeLessThan(plan.proteinTargetPerDay * (FASTING_DAY_CALORIE_FACTOR + 0.15));
+    expect(dayProtein(monday)).toBeGreaterThan(plan.proteinTargetPerDay * 0.8);
+
+    expect(validatePlanInput(createPlanInput({ fastingDays: ["monday", "monday"] })).success).toBe(false);
+    expect(validatePlanInput(createPlanInput({ eatingWindow: { start: "20:00", end: "12:00" } })).success).toBe(false);
+  });
+
+  it("picks the current meal from the user's window instead of fixed cut-offs", () => {
+    const eatingWindow = { start: "12:00", end: "20:00" };
+    const at = (hours: number, minutes = 0) => new Date(2026, 9, 19, hours, minutes);
+
+    expect(getCurrentMealSlot(undefined, at(9))).toBe("breakfast");
+    expect(getCurrentMealSlot(eatingWindow, at(9))).toBe("lunch");
+    expect(getCurrentMealSlot(eatingWindow, at(15, 30))).toBe("lunch");
+    expect(getCurrentMealSlot(eatingWindow, at(16, 30))).toBe("dinner");
+    expect(getCurrentMealSlot(eatingWindow, at(21))).toBeNull();
+    expect(getWindowMealType({ start: "08:00", end: "16:00" }, at(9))).toBe("breakfast");
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { generateShoppingList } from "../core/logic/generateShoppingList";
+import { generateMealPrepGuide } from "../core/logic/MealPrepGuide";
+import { findLeftoverSource, syncLeftoverBatches } from "../core/logic/leftovers";
+import { getDayMealList, replaceSlotMeal } from "../core/logic/mealSlots";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { createPlanInput } from "./factories/createPlanInput";
+
+describe("Cook once, eat twice (leftovers)", () => {
+  const input = createPlanInput({ mealsPerDay: 4, leftovers: true });
+
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("turns each dinner into the next day's lunch and cooks it double", () => {
+    const plan = generateWeeklyPlan(input, { seed: "leftovers" });
+
+    expect(plan.days[0].meals.lunch.leftoverOf).toBeUndefined();
+    plan.days.slice(1).forEach((day, index) => {
+      const previous = plan.days[index];
+      expect(day.meals.lunch.leftoverOf).toEqual({ day: previous.day, date: previous.date, slotId: "dinner" });
+      expect(day.meals.lunch.portions).toEqual(previous.meals.dinner.portions);
+      expect(findLeftoverSource(plan.days, day.meals.lunch)).toBe(previous.meals.dinner);
+      expect(previous.meals.dinner.batchServings).toBe(2);
+    });
+    expect(plan.days[6].meals.dinner.batchServings).toBeUndefined();
+
+    // The cooked meals still cover the rest of the day
+    plan.days.forEach((day) => expect(Math.abs(day.macroResidual!.calories)).toBeLessThan(200));
+  });
+
+  it("leaves plans without the option untouched", () => {
+    const plan = generateWeeklyPlan(createPlanInput({ mealsPerDay: 4 }), { seed: "leftovers" });
+
+    plan.days.forEach((day) =>
+      getDayMealList(day.meals).forEach((meal) => {
+        expect(meal.leftoverOf).toBeUndefined();
+        expect(meal.batchServings).toBeUndefined();
+      })
+    );
+  });
+
+  it("buys leftovers with their dinner and keeps them out of the cooking count", () => {
+    const plan = generateWeeklyPlan(input, { seed: "leftovers" });
+    const meals = plan.days.flatMap((day) => getDayMealList(day.meals));
+    const foodId = plan.days[0].meals.dinner.portions[0].foodId;
+    const cookedMeals = meals.filter((meal) => !meal.leftoverOf && meal.foodIds.includes(foodId)).length;
+
+    const item = generateShoppingList(input, plan).items.find((entry) => entry.id === foodId)!;
+    expect(item.reason).toContain(cookedMeals === 1 ? "1 refeição" : `${cookedMeals} refeições`);
+
+    const guide = generateMealPrepGuide(plan);
+    expect(guide.leftoverMeals).toBe(6);
+    expect(guide.tips.some((tip) => tip.includes("6 lunches are next-day leftovers"))).toBe(true);
+  });
+
+  it("unlinks the leftover when its dinner is swapped", () => {
+    const plan = generateWeeklyPlan(input, { seed: "leftovers" });
+    const [monday, tuesday] = plan.days;
+    const swappedDinner = { ...monday.meals.breakfast, batchServings: 2 };
+
+    const days = syncLeftoverBatches([
+      { ...monday, meals: replaceSlotMeal(monday.meals, "dinner", swappedDinner) },
+      ...plan.days.slice(1),
+    ]);
+
+    expect(days[0].meals.dinner.batchServings).toBeUndefined();
+    expect(days[1].meals.lunch.leftoverOf).toBeUndefined();
+    expect(days[1].meals.lunch.portions).toEqual(tuesday.meals.lunch.portions);
+    expect(days[1].meals.dinner.batchServings).toBe(2);
+  });
+});
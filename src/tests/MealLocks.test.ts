@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { getLockedMeals, isDayLocked, setDayLocked, setMealLocked } from "../core/logic/mealLocks";
+import { getDayMealList, getDayMealSlots } from "../core/logic/mealSlots";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import type { DayPlan } from "../core/models/WeeklyPlan";
+import { mockFoods } from "../data/mockFoods";
+import { createPlanInput } from "./factories/createPlanInput";
+
+function foodNames(day: DayPlan, slotIds?: string[]): string[] {
+  return getDayMealSlots(day.meals)
+    .filter((slot) => !slotIds || slotIds.includes(slot.id))
+    .flatMap((slot) => slot.meal.portions.map((portion) => mockFoods.find((food) => food.id === portion.foodId)!.name));
+}
+
+describe("Pinned meals and partial regeneration", () => {
+  const input = createPlanInput({ mealsPerDay: 4 });
+
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("pins single meals and whole days", () => {
+    const plan = generateWeeklyPlan(input, { seed: "pins" });
+    let days = setMealLocked(plan.days, 0, "lunch", true);
+    days = setDayLocked(days, 2, true);
+
+    expect(days[0].meals.lunch.locked).toBe(true);
+    expect(days[0].meals.slots!.find((slot) => slot.id === "lunch")!.meal.locked).toBe(true);
+    expect(isDayLocked(days[0])).toBe(false);
+    expect(isDayLocked(days[2])).toBe(true);
+    expect(getLockedMeals(days).map(({ day, slotId }) => `${day}:${slotId}`)).toEqual([
+      "monday:lunch",
+      ...getDayMealSlots(days[2].meals).map((slot) => `wednesday:${slot.id}`),
+    ]);
+
+    days = setDayLocked(days, 2, false);
+    expect(getLockedMeals(days)).toHaveLength(1);
+    expect(setMealLocked(days, 0, "lunch", false)[0].meals.lunch).not.toHaveProperty("locked");
+  });
+
+  it("rebuilds only the unpinned slots and keeps day totals on target", () => {
+    const plan = generateWeeklyPlan(input, { seed: "pins" });
+    const days = setDayLocked(setMealLocked(plan.days, 0, "dinner", true), 3, true);
+    const lockedMeals = getLockedMeals(days);
+
+    const regenerated = generateWeeklyPlan(input, { seed: "regen", lockedMeals });
+
+    expect(regenerated.days[0].meals.dinner).toEqual(days[0].meals.dinner);
+    expect(regenerated.days[3].meals).toEqual(days[3].meals);
+    expect(getLockedMeals(regenerated.days)).toEqual(lockedMeals);
+
+    const unpinned = regenerated.days.flatMap((day, index) =>
+      getDayMealList(day.meals).filter((meal) => !meal.locked).map((meal) => `${index}:${meal.name}`)
+    );
+    const before = plan.days.flatMap((day, index) =>
+      getDayMealList(day.meals).filter((meal) => !meal.locked).map((meal) => `${index}:${meal.name}`)
+    );
+    expect(unpinned).not.toEqual(before);
+
+    // Monday's other meals are solved around the pinned dinner
+    expect(Math.abs(regenerated.days[0].macroResidual!.calories)).toBeLessThan(200);
+  });
+
+  it("counts pinned foods in the week's rotation", () => {
+    const plan = generateWeeklyPlan(input, { seed: "pins" });
+    const sardineSlots = plan.days.flatMap((day, dayIndex) =>
+      getDayMealSlots(day.meals)
+        .filter((slot) => foodNames(day, [slot.id]).some((name) => name.startsWith("Sardines")))
+        .map((slot) => ({ dayIndex, slotId: slot.id }))
+    );
+    expect(sardineSlots).toHaveLength(2);
+
+    const days = sardineSlots.reduce((acc, { dayIndex, slotId }) => setMealLocked(acc, dayIndex, slotId, true), plan.days);
+    const regenerated = generateWeeklyPlan(input, { seed: "regen", lockedMeals: getLockedMeals(days) });
+
+    const rebuiltFoods = regenerated.days.flatMap((day) =>
+      getDayMealSlots(day.meals)
+        .filter((slot) => !slot.meal.locked)
+        .flatMap((slot) => foodNames(day, [slot.id]))
+    );
+    expect(rebuiltFoods.filter((name) => name.startsWith("Sardines"))).toEqual([]);
+  });
+});
@@ -47,8 +47,7 @@ describe("PASSO 36 - Meal Prep Guide Generator", () => {
       const plan = generateWeeklyPlan(baseInput);
       const guide = generateMealPrepGuide(plan);
 
-      // 7 days * (breakfast + lunch + dinner) = 21 servings
-      // mealsPerDay=4 includes snack, but not all days have snacks
+      // 7 days * mealsPerDay slots (breakfast + lunch + snack/pre-workout + dinner)
       expect(guide.servingsProduced).toBeGreaterThan(20);
       expect(guide.servingsProduced).toBeLessThan(30);
     });
@@ -349,8 +348,7 @@ describe("PASSO 36 - Meal Prep Guide Generator", () => {
       const plan = generateWeeklyPlan(input5Meals);
       const guide = generateMealPrepGuide(plan);
 
-      // 7 days * (breakfast + lunch + dinner + snack) = 28 servings
-      // Snacks may not appear on all days
+      // 7 days * 5 meal slots = 35 servings
       expect(guide.servingsProduced).toBeGreaterThan(25);
       expect(guide.servingsProduced).toBeLessThan(36);
       expect(guide.cookingTasks.length).toBeGreaterThan(0);
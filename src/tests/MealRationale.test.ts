@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { buildMeal } from "../core/logic/MealBuilder";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { getDayMealSlots } from "../core/logic/mealSlots";
+import { VarietyTracker } from "../core/logic/VarietyConstraints";
+import { RotationEngine } from "../core/logic/RotationEngine";
+import { FoodRotationEngine } from "../core/logic/FoodRotation";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { mockFoods } from "../data/mockFoods";
+import { createPlanInput } from "./factories/createPlanInput";
+
+const target = { protein: 40, carbs: 60, fats: 15 };
+
+describe("Meal rationale", () => {
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("explains the protein and carb picks with scores and filters", () => {
+    const meal = buildMeal({
+      macroTargetsPerMeal: target,
+      availableFoods: mockFoods,
+      costTier: "low",
+      excludedFoods: ["Chicken breast (skinless)"],
+    });
+    const { protein, carb } = meal.rationale!;
+
+    expect(meal.rationale!.costTier).toBe("low");
+    expect(protein!.candidates.filter((candidate) => candidate.chosen)).toHaveLength(1);
+    expect(protein!.candidates.find((candidate) => candidate.chosen)!.foodId).toBe(meal.skeleton!.proteinSource.id);
+    expect(carb!.candidates.find((candidate) => candidate.chosen)!.foodId).toBe(meal.skeleton!.carbSource.id);
+    expect(protein!.candidates.length).toBeLessThanOrEqual(5);
+
+    // Exclusions and the cost tier show up; excluded / premium foods are never candidates
+    expect(protein!.excluded).toEqual(["Chicken breast (skinless)"]);
+    expect(protein!.costTierFiltered.length).toBeGreaterThan(0);
+    const premium = mockFoods.filter((food) => food.costLevel === "high").map((food) => food.id);
+    protein!.candidates.forEach((candidate) => {
+      expect(candidate.name).not.toBe("Chicken breast (skinless)");
+      expect(premium).not.toContain(candidate.foodId);
+    });
+  });
+
+  it("records rotation penalties and limits as they were when picking", () => {
+    const varietyTracker = new VarietyTracker();
+    const input = { macroTargetsPerMeal: target, availableFoods: mockFoods, costTier: "medium" as const, varietyTracker, rotationEngine: new RotationEngine() };
+
+    const first = buildMeal(input);
+    const later = [buildMeal(input), buildMeal(input), buildMeal(input)];
+    first.rationale!.protein!.candidates.forEach((candidate) => {
+      expect(candidate.usageCount).toBe(0);
+      expect(candidate.rotationPenalty).toBe(0);
+    });
+
+    // Scores are calculateFoodScore: a used food is penalised quadratically
+    const reused = later
+      .flatMap((meal) => [...meal.rationale!.protein!.candidates, ...meal.rationale!.carb!.candidates])
+      .filter((candidate) => candidate.usageCount > 0);
+    expect(reused.length).toBeGreaterThan(0);
+    reused.forEach((candidate) => {
+      expect(candidate.rotationPenalty).toBe(candidate.usageCount ** 2);
+      expect(candidate.score).toBeLessThan(candidate.baseScore);
+    });
+
+    // Weekly limits (2x) and the rotation group come from FoodRotation
+    const foodRotation = new FoodRotationEngine();
+    const chicken = mockFoods.find((food) => food.name === "Chicken breast (skinless)")!;
+    foodRotation.recordFood(chicken);
+    foodRotation.recordFood(chicken);
+    const rotated = buildMeal({ ...input, varietyTracker: new VarietyTracker(), foodRotation });
+    expect(rotated.rationale!.protein!.rotationLimited).toContain(chicken.name);
+    expect(rotated.rationale!.protein!.preferredGroup).toBeDefined();
+  });
+
+  it("carries the rationale onto every built meal of the plan", () => {
+    const plan = generateWeeklyPlan(createPlanInput({ mealsPerDay: 4, restrictions: ["vegetarian"] }), { seed: "why" });
+    const meals = plan.days.flatMap((day) => getDayMealSlots(day.meals).map((slot) => slot.meal));
+
+    meals.forEach((meal) => {
+      const rationale = meal.rationale!;
+      expect(rationale.protein!.candidates.some((candidate) => candidate.chosen && meal.foodIds.includes(candidate.foodId))).toBe(true);
+      expect(rationale.carb!.candidates.some((candidate) => candidate.chosen && meal.foodIds.includes(candidate.foodId))).toBe(true);
+    });
+    // Meat and fish are ruled out by the restriction, not by the ranking
+    expect(meals.some((meal) => meal.rationale!.protein!.restrictedCount > 0)).toBe(true);
+  });
+});
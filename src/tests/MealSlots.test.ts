@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { generateWeeklyPlan, generateSingleMeal } from "../core/logic/generateWeeklyPlan";
+import { generateMealPrepGuide } from "../core/logic/MealPrepGuide";
+import { generateMealPrepSummary } from "../core/logic/MealPrepSummary";
+import {
+  getDayMealList,
+  getDayMealSlots,
+  getMealSlotLayout,
+  replaceSlotMeal,
+} from "../core/logic/mealSlots";
+import { createPlanInput } from "./factories/createPlanInput";
+
+function dayProtein(plan: ReturnType<typeof generateWeeklyPlan>, dayIndex: number): number {
+  return getDayMealList(plan.days[dayIndex].meals).reduce((sum, meal) => sum + meal.protein, 0);
+}
+
+describe("Meal slots (mealsPerDay 3-6)", () => {
+  it("lays out exactly mealsPerDay slots whose shares add up to the whole day", () => {
+    [3, 4, 5, 6].forEach((mealsPerDay) => {
+      const layout = getMealSlotLayout(mealsPerDay);
+      const ids = layout.map((slot) => slot.id);
+
+      expect(layout).toHaveLength(mealsPerDay);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(layout.reduce((sum, slot) => sum + slot.share, 0)).toBeCloseTo(1, 5);
+    });
+
+    expect(getMealSlotLayout(6).map((slot) => slot.id)).toEqual([
+      "breakfast", "snack", "lunch", "snack-2", "dinner", "snack-3",
+    ]);
+  });
+
+  it("turns the afternoon snack into a pre-workout meal on training days", () => {
+    expect(getMealSlotLayout(3, true).some((slot) => slot.type === "pre_workout")).toBe(false);
+    expect(getMealSlotLayout(4, true).map((slot) => slot.id)).toEqual(["breakfast", "lunch", "pre_workout", "dinner"]);
+    expect(getMealSlotLayout(5, true).map((slot) => slot.id)).toEqual(["breakfast", "snack", "lunch", "pre_workout", "dinner"]);
+  });
+
+  it("builds one meal per slot and keeps the fixed fields in sync", () => {
+    const plan = generateWeeklyPlan(createPlanInput({ mealsPerDay: 6, trains: true }));
+
+    plan.days.forEach((day) => {
+      const slots = getDayMealSlots(day.meals);
+      expect(slots).toHaveLength(6);
+      expect(day.meals.breakfast).toBe(slots[0].meal);
+      expect(day.meals.snack).toBe(slots[1].meal);
+      expect(slots.some((slot) => slot.type === "pre_workout")).toBe(day.trainingDay);
+    });
+  });
+
+  it("spreads the same daily macros no matter how many meals there are", () => {
+    const threeMeals = generateWeeklyPlan(createPlanInput({ mealsPerDay: 3, trains: false }));
+
+    [4, 5, 6].forEach((mealsPerDay) => {
+      const plan = generateWeeklyPlan(createPlanInput({ mealsPerDay, trains: false }));
+      expect(dayProtein(plan, 1)).toBeGreaterThan(dayProtein(threeMeals, 1) * 0.85);
+      expect(dayProtein(plan, 1)).toBeLessThan(dayProtein(threeMeals, 1) * 1.15);
+    });
+  });
+
+  it("counts every slot in prep servings and the prep summary", () => {
+    const plan = generateWeeklyPlan(createPlanInput({ mealsPerDay: 6 }));
+    const snackFood = plan.days[0].meals.slots![5].meal.portions[0].foodId;
+
+    expect(generateMealPrepGuide(plan).servingsProduced).toBe(42);
+    expect(generateMealPrepSummary(plan).ingredients.some((item) => item.foodId === snackFood)).toBe(true);
+  });
+
+  it("reads older saved plans without slots", () => {
+    const plan = generateWeeklyPlan(createPlanInput({ mealsPerDay: 5 }));
+    const { breakfast, lunch, dinner, snack } = plan.days[0].meals;
+    const legacy = { breakfast, lunch, dinner, snack };
+
+    expect(getDayMealSlots(legacy).map((slot) => slot.id)).toEqual(["breakfast", "lunch", "dinner", "snack"]);
+
+    const swapped = replaceSlotMeal(legacy, "lunch", dinner);
+    expect(swapped.lunch).toBe(dinner);
+    expect(swapped.slots).toBeUndefined();
+  });
+
+  it("swaps a single slot and keeps the snack field pointing at the first snack", () => {
+    const input = createPlanInput({ mealsPerDay: 5, trains: false });
+    const plan = generateWeeklyPlan(input);
+    const meals = plan.days[1].meals;
+
+    const newSnack = generateSingleMeal(input, "snack", false);
+    const updated = replaceSlotMeal(meals, "snack", newSnack);
+    expect(updated.snack).toBe(newSnack);
+    expect(updated.slots![1].meal).toBe(newSnack);
+    expect(updated.slots![3].meal).toBe(meals.slots![3].meal);
+
+    // Legacy "snack" id still resolves on a 4-meal training day, where the slot is pre-workout
+    const preWorkout = generateSingleMeal({ ...input, mealsPerDay: 4 }, "snack", "strength");
+    expect(preWorkout.portions.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import {
+  calculatePlanMicronutrients,
+  calculatePortionMicronutrients,
+  formatMicronutrientLines,
+  getReferenceIntakes,
+  MICRONUTRIENT_KEYS,
+} from "../core/logic/micronutrients";
+import type { DayPlan, Meal } from "../core/models/WeeklyPlan";
+import { mockFoods } from "../data/mockFoods";
+import { createPlanInput } from "./factories/createPlanInput";
+
+function foodId(name: string) {
+  return mockFoods.find((food) => food.name === name)!.id;
+}
+
+function meal(id: string, portions: Array<[string, number]> = []): Meal {
+  return {
+    id,
+    name: "Test meal",
+    foodIds: portions.map(([name]) => foodId(name)),
+    portions: portions.map(([name, gramsNeeded]) => ({ foodId: foodId(name), gramsNeeded })),
+    protein: 0,
+  };
+}
+
+function dayWith(day: DayPlan["day"], portions: Array<[string, number]>): DayPlan {
+  return {
+    day,
+    trainingDay: false,
+    meals: { breakfast: meal("breakfast"), lunch: meal("lunch", portions), dinner: meal("dinner"), snack: null },
+  };
+}
+
+describe("Micronutrients", () => {
+  it("has micronutrients for every food", () => {
+    mockFoods.forEach((food) => {
+      expect(food.micronutrients, food.name).toBeDefined();
+      MICRONUTRIENT_KEYS.forEach((key) => expect(food.micronutrients![key], `${food.name} ${key}`).toBeGreaterThanOrEqual(0));
+    });
+  });
+
+  it("scales per-100g values by the portion grams", () => {
+    const oats = mockFoods.find((food) => food.name === "Oats (rolled)")!;
+    const totals = calculatePortionMicronutrients([{ foodId: oats.id, gramsNeeded: 200 }]);
+
+    expect(totals.fiber).toBeCloseTo(oats.micronutrients!.fiber * 2);
+    expect(totals.iron).toBeCloseTo(oats.micronutrients!.iron * 2);
+  });
+
+  it("totals each day and the week, and stores them on the plan", () => {
+    const plan = generateWeeklyPlan(createPlanInput({ mealsPerDay: 4 }), { seed: "micros" });
+    const summary = plan.micronutrients!;
+
+    expect(summary.days.map((entry) => entry.day)).toEqual(plan.days.map((day) => day.day));
+    expect(summary.days.every((entry) => entry.totals.fiber > 0)).toBe(true);
+
+    const weeklyFiber = summary.days.reduce((sum, entry) => sum + entry.totals.fiber, 0);
+    expect(summary.weeklyTotals.fiber).toBeCloseTo(weeklyFiber, 0);
+    expect(summary.dailyAverage.fiber).toBeCloseTo(weeklyFiber / plan.days.length, 0);
+  });
+
+  it("warns when a day falls below references or above limits", () => {
+    const days = [
+      dayWith("monday", [["Chicken breast (skinless)", 200], ["White rice", 200]]),
+      dayWith("tuesday", [["Oats (rolled)", 150], ["Chickpeas (dried)", 150], ["Spinach (fresh)", 200], ["Broccoli", 200]]),
+    ];
+    const summary = calculatePlanMicronutrients(days, { sex: "male" }, 2200);
+
+    expect(summary.warnings).toContainEqual(expect.objectContaining({ day: "monday", nutrient: "fiber", type: "below_reference" }));
+    expect(summary.warnings.some((warning) => warning.day === "tuesday" && warning.nutrient === "fiber")).toBe(false);
+
+    const lines = formatMicronutrientLines(summary);
+    expect(lines[0]).toMatch(/^Daily average: Fiber/);
+    expect(lines.some((line) => /^Monday: Fiber .*below reference 25g/.test(line))).toBe(true);
+  });
+
+  it("adapts references to sex and calorie target", () => {
+    expect(getReferenceIntakes({ sex: "female" }, 2000).iron.amount).toBe(18);
+    expect(getReferenceIntakes({ sex: "male" }, 2000).iron.amount).toBe(8);
+    expect(getReferenceIntakes({ sex: "male" }, 2000).sugar).toEqual({ amount: 50, type: "max" });
+    expect(getReferenceIntakes({ sex: "male" }, 3000).saturatedFat.amount).toBe(33);
+  });
+});
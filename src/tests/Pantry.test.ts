@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { generateShoppingList } from "../core/logic/generateShoppingList";
+import {
+  addToPantry,
+  consumeMealFromPantry,
+  getMealPantryUsage,
+  removeFromPantry,
+  restockMealToPantry,
+} from "../core/logic/pantry";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import type { PantryItem } from "../core/models/Pantry";
+import { createPlanInput } from "./factories/createPlanInput";
+
+const today = new Date("2026-10-18T09:00:00Z");
+
+function pantryItem(overrides: Partial<PantryItem> & Pick<PantryItem, "name" | "quantity" | "unit">): PantryItem {
+  return { id: `pantry-${overrides.name}`, updatedAt: today.toISOString(), ...overrides };
+}
+
+describe("Pantry inventory", () => {
+  const input = createPlanInput({ mealsPerDay: 4 });
+
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("nets stock on hand out of the shopping list and marks covered items", () => {
+    // A household buys several packs of the same item
+    const household = { ...input, householdSize: 3 };
+    const plan = generateWeeklyPlan(household, { seed: "pantry" });
+    const { items } = generateShoppingList(household, plan);
+    const [covered, partial] = items.filter((item) => item.unit === "g" && item.quantity >= 300);
+    const packs = items.find((item) => item.unit === "pack" && item.quantity >= 2)!;
+
+    const pantry = [
+      pantryItem({ name: covered.name, quantity: 1, unit: "kg" }),
+      pantryItem({ name: partial.name.toUpperCase(), quantity: 200, unit: "g" }),
+      pantryItem({ name: packs.name, foodId: packs.id, quantity: 1, unit: "pack" }),
+    ];
+    const netted = generateShoppingList(household, plan, { pantry, today }).items;
+
+    const coveredItem = netted.find((item) => item.id === covered.id)!;
+    expect(coveredItem.coveredByPantry).toBe(true);
+    expect(coveredItem.quantity).toBe(0);
+    expect(coveredItem.estimatedPrice).toBe(0);
+
+    const partialItem = netted.find((item) => item.id === partial.id)!;
+    expect(partialItem.coveredByPantry).toBeUndefined();
+    expect(partialItem.pantryQuantity).toBe(200);
+    expect(partialItem.quantity).toBe(partial.quantity - 200);
+
+    // Discrete units stay whole: one pack on hand, the rest still bought by the pack
+    const packItem = netted.find((item) => item.id === packs.id)!;
+    expect(packItem.quantity).toBe(packs.quantity - 1);
+    expect(packItem.estimatedPrice).toBeCloseTo((packs.quantity - 1) * packs.pricePerUnit, 2);
+
+    // Untouched items keep their full quantities
+    const stocked = [covered.id, partial.id, packs.id];
+    expect(netted.filter((item) => !stocked.includes(item.id)))
+      .toEqual(items.filter((item) => !stocked.includes(item.id)));
+
+    // Expired stock no longer counts
+    const expired = [pantryItem({ name: covered.name, quantity: 5, unit: "kg", expiresAt: "2026-10-17" })];
+    expect(generateShoppingList(household, plan, { pantry: expired, today }).items.find((item) => item.id === covered.id))
+      .toEqual(items.find((item) => item.id === covered.id));
+  });
+
+  it("merges purchases into matching stock and takes soonest-expiring stock first", () => {
+    let pantry = addToPantry([], { name: "White rice", foodId: "food-008", quantity: 1, unit: "kg" }, today);
+    pantry = addToPantry(pantry, { name: "White rice", foodId: "food-008", quantity: 0.5, unit: "kg" }, today);
+    pantry = addToPantry(pantry, { name: "White rice", quantity: 500, unit: "g", expiresAt: "2026-10-20" }, today);
+
+    expect(pantry).toHaveLength(2);
+    expect(pantry[0].quantity).toBe(1.5);
+
+    pantry = removeFromPantry(pantry, { id: "food-008", name: "White rice" }, 700, today);
+    expect(pantry).toHaveLength(1);
+    expect(pantry[0]).toMatchObject({ unit: "kg", quantity: 1.3 });
+  });
+
+  it("draws cooked meals from the pantry, leftovers included in their dinner's batch", () => {
+    const plan = generateWeeklyPlan(createPlanInput({ mealsPerDay: 4, leftovers: true }), { seed: "pantry" });
+    const dinner = plan.days[0].meals.dinner;
+    const leftover = plan.days[1].meals.lunch;
+    const [usage] = getMealPantryUsage(dinner);
+
+    expect(dinner.batchServings).toBe(2);
+    expect(usage.grams).toBeCloseTo(dinner.portions.find((portion) => portion.foodId === usage.foodId)!.gramsNeeded * 2, 5);
+    expect(getMealPantryUsage(leftover)).toEqual([]);
+
+    const pantry = [pantryItem({ name: usage.name, foodId: usage.foodId, quantity: 5, unit: "kg" })];
+    const cooked = consumeMealFromPantry(pantry, dinner, 1, today);
+    expect(cooked[0].quantity).toBeCloseTo(5 - usage.grams / 1000, 2);
+    expect(consumeMealFromPantry(cooked, leftover, 1, today)).toEqual(cooked);
+
+    // Unmarking the meal puts its ingredients back
+    const restocked = restockMealToPantry(cooked, dinner, 1, today);
+    const totalGrams = restocked
+      .filter((item) => item.foodId === usage.foodId)
+      .reduce((sum, item) => sum + (item.unit === "kg" ? item.quantity * 1000 : item.quantity), 0);
+    expect(totalGrams).toBeCloseTo(5000, -1);
+  });
+});
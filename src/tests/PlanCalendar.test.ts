@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { getLockedMeals, setMealLocked } from "../core/logic/mealLocks";
+import {
+  getPlanDateRange,
+  getPlanDayIndex,
+  shiftPlanToDate,
+} from "../core/logic/planCalendar";
+import { validatePlanInput } from "../core/validation/PlanInputSchema";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { createPlanInput } from "./factories/createPlanInput";
+
+describe("Calendar-dated plans", () => {
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("anchors days to the start date, on any weekday, for 3-14 days", () => {
+    const plan = generateWeeklyPlan(
+      createPlanInput({ startDate: "2026-10-29", planDays: 10 }),
+      { seed: "calendar" }
+    );
+
+    expect(plan.startDate).toBe("2026-10-29");
+    expect(plan.days).toHaveLength(10);
+    expect(plan.days.slice(0, 4).map((day) => [day.day, day.date])).toEqual([
+      ["thursday", "2026-10-29"],
+      ["friday", "2026-10-30"],
+      ["saturday", "2026-10-31"],
+      ["sunday", "2026-11-01"],
+    ]);
+    expect(getPlanDateRange(plan)).toEqual({ startDate: "2026-10-29", endDate: "2026-11-07" });
+
+    // Thursday again on day 8: looked up by date, not weekday
+    expect(getPlanDayIndex(plan, new Date(2026, 10, 5, 12))).toBe(7);
+    expect(getPlanDayIndex(plan, new Date(2026, 10, 8, 12))).toBe(-1);
+
+    // Without a start date: the reference date's week, Monday to Sunday
+    const weekly = generateWeeklyPlan(createPlanInput(), { seed: "calendar", referenceDate: new Date(2026, 9, 22) });
+    expect(weekly.days.map((day) => day.date)).toEqual([
+      "2026-10-19", "2026-10-20", "2026-10-21", "2026-10-22", "2026-10-23", "2026-10-24", "2026-10-25",
+    ]);
+
+    expect(validatePlanInput(createPlanInput({ planDays: 15 })).success).toBe(false);
+    expect(validatePlanInput(createPlanInput({ startDate: "29/10/2026" })).success).toBe(false);
+  });
+
+  it("keeps pins on their date when a two-week plan is regenerated", () => {
+    const input = createPlanInput({ mealsPerDay: 4, startDate: "2026-10-19", planDays: 14 });
+    const plan = generateWeeklyPlan(input, { seed: "calendar" });
+    const days = setMealLocked(plan.days, 8, "lunch", true);
+
+    const regenerated = generateWeeklyPlan(input, {
+      seed: "calendar-regenerated",
+      lockedMeals: getLockedMeals(days),
+      startDate: plan.startDate,
+    });
+
+    // Day 1 and day 8 are both Tuesdays: only the pinned date keeps the meal
+    expect(regenerated.days[8].meals.lunch).toEqual(days[8].meals.lunch);
+    expect(regenerated.days[1].meals.lunch.locked).toBeUndefined();
+  });
+
+  it("moves a repeated plan by whole weeks so it covers today", () => {
+    const plan = generateWeeklyPlan(
+      createPlanInput({ startDate: "2026-10-05", planDays: 7, leftovers: true }),
+      { seed: "calendar" }
+    );
+    const shifted = shiftPlanToDate(plan, new Date(2026, 9, 22));
+
+    expect(getPlanDateRange(shifted)).toEqual({ startDate: "2026-10-19", endDate: "2026-10-25" });
+    expect(shifted.days.map((day) => day.day)).toEqual(plan.days.map((day) => day.day));
+    expect(shifted.days[1].meals.lunch.leftoverOf?.date).toBe("2026-10-19");
+    expect(shifted.micronutrients!.days[0].date).toBe("2026-10-19");
+
+    // Still running: unchanged
+    expect(shiftPlanToDate(shifted, new Date(2026, 9, 25))).toBe(shifted);
+  });
+});
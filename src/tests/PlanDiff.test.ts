@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { generateShoppingList } from "../core/logic/generateShoppingList";
+import { diffWeeklyPlans, getMealMacros, getShoppingListCost } from "../core/logic/diffWeeklyPlans";
+import { getLockedMeals, setDayLocked } from "../core/logic/mealLocks";
+import { getDayMealSlots } from "../core/logic/mealSlots";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import type { PlanInput } from "../core/models/PlanInput";
+import type { WeeklyPlan } from "../core/models/WeeklyPlan";
+import { createPlanInput } from "./factories/createPlanInput";
+
+function withShoppingList(input: PlanInput, plan: WeeklyPlan): WeeklyPlan {
+  return { ...plan, shoppingList: generateShoppingList(input, plan).items };
+}
+
+describe("Weekly plan diff", () => {
+  const input = createPlanInput({ mealsPerDay: 4, startDate: "2026-10-19" });
+
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("reports nothing for the same plan", () => {
+    const plan = withShoppingList(input, generateWeeklyPlan(input, { seed: "diff" }));
+    const diff = diffWeeklyPlans(plan, plan);
+
+    expect(diff.identical).toBe(true);
+    expect(diff.changedMeals).toBe(0);
+    expect(diff.days).toHaveLength(plan.days.length);
+    expect(diff.addedFoods).toEqual([]);
+    expect(diff.shoppingChanges).toEqual([]);
+    expect(diff.costDelta).toBe(0);
+  });
+
+  it("lists the changed meals, foods and macros of a partial regeneration", () => {
+    const plan = generateWeeklyPlan(input, { seed: "diff" });
+    const days = setDayLocked(plan.days, 0, true);
+    const regenerated = generateWeeklyPlan(input, { seed: "diff-again", lockedMeals: getLockedMeals(days), startDate: plan.startDate });
+    const diff = diffWeeklyPlans({ ...plan, days }, regenerated);
+
+    // The pinned day stays as it is
+    expect(diff.days[0].mealChanges).toEqual([]);
+    expect(diff.days[0].macroDelta).toEqual({ calories: 0, protein: 0, carbs: 0, fats: 0 });
+    expect(diff.changedMeals).toBeGreaterThan(0);
+    expect(diff.identical).toBe(false);
+
+    diff.days.forEach((day, index) => {
+      expect(day.date).toBe(regenerated.days[index].date);
+      day.mealChanges.forEach((change) => {
+        const before = getDayMealSlots(plan.days[index].meals).find((slot) => slot.id === change.slotId)!.meal;
+        const after = getDayMealSlots(regenerated.days[index].meals).find((slot) => slot.id === change.slotId)!.meal;
+        expect(change.before!.id).toBe(before.id);
+        expect(change.after!.id).toBe(after.id);
+        change.addedFoods.forEach((food) => expect(after.foodIds).toContain(food.foodId));
+        change.removedFoods.forEach((food) => expect(before.foodIds).toContain(food.foodId));
+      });
+
+      // Day delta = sum of the meals after - before
+      const dayCalories = (planDays: WeeklyPlan["days"]) =>
+        getDayMealSlots(planDays[index].meals).reduce((sum, slot) => sum + getMealMacros(slot.meal).calories, 0);
+      expect(day.macroDelta.calories).toBe(dayCalories(regenerated.days) - dayCalories(plan.days));
+    });
+
+    // Week-level foods are the ones no day had before / has anymore
+    const weekFoods = (target: WeeklyPlan) =>
+      new Set(target.days.flatMap((day) => getDayMealSlots(day.meals).flatMap((slot) => slot.meal.foodIds)));
+    diff.addedFoods.forEach((food) => expect(weekFoods(plan).has(food.foodId)).toBe(false));
+    diff.removedFoods.forEach((food) => expect(weekFoods(regenerated).has(food.foodId)).toBe(false));
+  });
+
+  it("shows added slots and shopping list quantity and cost changes", () => {
+    const before = withShoppingList(input, generateWeeklyPlan(input, { seed: "diff" }));
+    const moreMeals = { ...input, mealsPerDay: 5 };
+    const after = withShoppingList(moreMeals, generateWeeklyPlan(moreMeals, { seed: "diff" }));
+    const diff = diffWeeklyPlans(before, after);
+
+    // The extra snack slot appears on every day
+    diff.days.forEach((day) => {
+      const added = day.mealChanges.filter((change) => change.before === null);
+      expect(added.length).toBeGreaterThan(0);
+      added.forEach((change) => expect(change.after).not.toBeNull());
+    });
+
+    expect(diff.shoppingChanges.length).toBeGreaterThan(0);
+    diff.shoppingChanges.forEach((change) => expect(change.before).not.toBe(change.after));
+    const itemCostDeltas = diff.shoppingChanges.reduce((sum, change) => sum + change.costDelta, 0);
+    expect(diff.costDelta).toBeCloseTo(getShoppingListCost(after.shoppingList) - getShoppingListCost(before.shoppingList), 2);
+    expect(itemCostDeltas).toBeCloseTo(diff.costDelta, 1);
+  });
+});
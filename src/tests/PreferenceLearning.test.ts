@@ -15,8 +15,10 @@ import { describe, it, expect, beforeEach } from "vitest";
 import { CATEGORIES } from "../core/constants/categories";
 import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
 import { buildMeal } from "../core/logic/MealBuilder";
+import { generateWeeklyPlan, trackPlanFoodSelections } from "../core/logic/generateWeeklyPlan";
 import { mockFoods } from "../data/mockFoods";
 import { CostTier } from "../core/models/PlanInput";
+import { createPlanInput } from "./factories/createPlanInput";
 
 describe("PASSO 26 - Preference Learning System", () => {
   beforeEach(() => {
@@ -351,6 +353,24 @@ describe("PASSO 26 - Preference Learning System", () => {
       
       expect(meal1Protein?.foodName).toBe(meal2Protein?.foodName);
     });
+
+    it("learns a generated plan's picks once, and nothing from a preview", () => {
+      const input = createPlanInput({ startDate: "2026-10-19" });
+
+      const preview = generateWeeklyPlan(input, { seed: "learn", trackPreferences: false });
+      expect(userPreferencesStore.exportPreferences().selectionHistory).toEqual({});
+
+      // Same picks as the preview: nothing learned mid-generation
+      const plan = generateWeeklyPlan(input, { seed: "learn" });
+      expect(plan.days).toEqual(preview.days);
+      const learned = userPreferencesStore.exportPreferences().selectionHistory;
+      expect(Object.keys(learned).length).toBeGreaterThan(0);
+
+      // A preview applied later is learned the same way
+      userPreferencesStore.clearAll();
+      trackPlanFoodSelections(preview);
+      expect(userPreferencesStore.exportPreferences().selectionHistory).toEqual(learned);
+    });
   });
 
   describe("7. Edge Cases & Robustness", () => {
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDefaultPhases,
+  createProgram,
+  getProgramLength,
+  getProgramStatus,
+  getProgramWeekInput,
+  getProgramWeeks,
+} from "../core/logic/programs";
+import { calculateNutritionTargets } from "../core/logic/calculateNutritionTargets";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { ProgramSchema } from "../core/validation/ProgramSchema";
+import { generatePlanFingerprint } from "../core/utils/planFingerprint";
+import { createPlanInput } from "./factories/createPlanInput";
+
+const input = createPlanInput({ weightKg: 85, fitnessGoal: "maintenance" });
+const referenceDate = new Date("2026-03-01T10:00:00Z");
+
+function cut(weeks = 12) {
+  // Wednesday → snapped to Monday 2026-03-02
+  return createProgram(input, { goal: "cutting", weeks, startDate: "2026-03-04", referenceDate });
+}
+
+describe("Periodized programs", () => {
+  it("builds cuts with refeeds and diet breaks, ending on a deficit week", () => {
+    const phases = buildDefaultPhases("cutting", 12);
+
+    expect(phases.map((phase) => phase.type)).toEqual([
+      "deficit", "refeed", "deficit", "diet_break", "deficit", "refeed", "deficit",
+    ]);
+    expect(phases.reduce((sum, phase) => sum + phase.weeks, 0)).toBe(12);
+    expect(buildDefaultPhases("bulking", 8)).toEqual([{ type: "surplus", weeks: 8 }]);
+  });
+
+  it("derives each week's PlanInput from the phase and the projected weight", () => {
+    const program = cut();
+    const weeks = getProgramWeeks(program);
+
+    expect(program.startDate).toBe("2026-03-02");
+    expect(weeks).toHaveLength(getProgramLength(program));
+    expect(weeks[1].startDate).toBe("2026-03-09");
+
+    const [first, second, refeed, , , dietBreak] = weeks;
+    expect(first.projectedWeightKg).toBe(85);
+    expect(second.projectedWeightKg).toBeCloseTo(85 * (1 - 0.0075), 1);
+    expect(first.calorieMultiplier).toBeLessThan(1);
+    expect(refeed.calorieMultiplier).toBeGreaterThan(1);
+    expect(dietBreak.phase).toBe("diet_break");
+    expect(dietBreak.calorieMultiplier).toBe(1);
+    // No weight change during refeeds / diet breaks
+    expect(weeks[3].projectedWeightKg).toBe(refeed.projectedWeightKg);
+
+    const calories = (week: number) => calculateNutritionTargets(getProgramWeekInput(program, week)!).caloriesPerDay;
+    expect(calories(1)).toBeLessThan(calories(6));
+    expect(calories(3)).toBeGreaterThan(calories(6));
+    expect(getProgramWeekInput(program, 13)).toBeNull();
+  });
+
+  it("keeps the deficit within safe limits and scales it with the rate", () => {
+    const gentle = createProgram(input, { goal: "cutting", weeks: 4, startDate: "2026-03-02", targetRatePerWeek: 0.5 });
+    const aggressive = createProgram(input, { goal: "cutting", weeks: 4, startDate: "2026-03-02", targetRatePerWeek: 1.5 });
+
+    expect(getProgramWeeks(gentle)[0].calorieMultiplier).toBeGreaterThan(getProgramWeeks(aggressive)[0].calorieMultiplier);
+    expect(getProgramWeeks(aggressive)[0].calorieMultiplier).toBeGreaterThanOrEqual(0.7);
+
+    const bulk = createProgram(input, { goal: "bulking", weeks: 4, startDate: "2026-03-02" });
+    const bulkWeeks = getProgramWeeks(bulk);
+    expect(bulkWeeks[0].calorieMultiplier).toBeGreaterThan(1);
+    expect(bulkWeeks[3].projectedWeightKg).toBeGreaterThan(85);
+  });
+
+  it("reports the current week and the next phase change", () => {
+    const program = cut();
+
+    expect(getProgramStatus(program, new Date(2026, 1, 20)).state).toBe("upcoming");
+    expect(getProgramStatus(program, new Date(2026, 5, 1)).state).toBe("completed");
+
+    const status = getProgramStatus(program, new Date(2026, 2, 10)); // Tuesday of week 2
+    expect(status.state).toBe("active");
+    expect(status.currentWeek?.weekNumber).toBe(2);
+    expect(status.nextChange?.weekNumber).toBe(3);
+    expect(status.nextChange?.phase).toBe("refeed");
+    expect(status.weeksRemaining).toBe(10);
+  });
+
+  it("generates valid plans from week inputs and validates stored programs", () => {
+    const program = cut();
+    const weekInput = getProgramWeekInput(program, 1)!;
+    const plan = generateWeeklyPlan(weekInput, { seed: "program-week-1", referenceDate });
+
+    expect(plan.caloriesTargetPerDay).toBe(calculateNutritionTargets(weekInput).caloriesPerDay);
+    expect(generatePlanFingerprint(weekInput)).not.toBe(generatePlanFingerprint(getProgramWeekInput(program, 3)!));
+
+    const stored = JSON.parse(JSON.stringify(program));
+    expect(ProgramSchema.safeParse(stored).success).toBe(true);
+    expect(ProgramSchema.safeParse({ ...stored, targetRatePerWeek: 3 }).success).toBe(false);
+    expect(ProgramSchema.safeParse({ ...stored, phases: [{ type: "deficit", weeks: 60 }] }).success).toBe(false);
+  });
+});
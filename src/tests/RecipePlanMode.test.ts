@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan, generateSingleMeal } from "../core/logic/generateWeeklyPlan";
+import { generateShoppingList } from "../core/logic/generateShoppingList";
+import { getDayMealSlots } from "../core/logic/mealSlots";
+import { isFoodAllowed } from "../core/logic/dietaryRestrictions";
+import { isFoodSafeForAllergies } from "../core/logic/allergens";
+import { caloriesForMacros, sumIngredientMacros } from "../core/logic/DailyMacroSolver";
+import {
+  getIngredientGramsPerServing,
+  getRecipeById,
+  getRecipeMealType,
+  resolveRecipeFood,
+  scaleRecipeToTarget,
+} from "../core/logic/recipePlanning";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { CATEGORIES } from "../core/constants/categories";
+import { mockFoods } from "../data/mockFoods";
+import { createPlanInput } from "./factories/createPlanInput";
+
+function foodById(id: string) {
+  return mockFoods.find((food) => food.id === id)!;
+}
+
+describe("Recipe plan mode", () => {
+  const input = createPlanInput({ mealsPerDay: 4, planMode: "recipes" });
+
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("resolves ingredients to the matching food and converts quantities to grams", () => {
+    expect(resolveRecipeFood({ foodItemId: "food-210", name: "Milk (skim)", quantity: 0.25, unit: "L", category: CATEGORIES.dairy })?.name)
+      .toMatch(/milk/i);
+    expect(resolveRecipeFood({ foodItemId: "food-001", name: "Lemon", quantity: 1, unit: "un", category: CATEGORIES.fruits })).toBeUndefined();
+
+    expect(getIngredientGramsPerServing({ foodItemId: "food-010", name: "Eggs", quantity: 4, unit: "un", category: CATEGORIES.protein }, 2)).toBe(100);
+    expect(getIngredientGramsPerServing({ foodItemId: "food-001", name: "Chicken", quantity: 0.25, unit: "kg", category: CATEGORIES.protein }, 2)).toBe(125);
+  });
+
+  it("schedules a recipe for every slot, scaled whole to the slot's calories", () => {
+    const plan = generateWeeklyPlan(input, { seed: "recipes" });
+
+    plan.days.forEach((day) => {
+      getDayMealSlots(day.meals).forEach((slot) => {
+        const recipe = getRecipeById(slot.meal!.recipeId!);
+        expect(recipe, `${day.day} ${slot.id}`).toBeDefined();
+        expect(recipe!.mealType).toBe(getRecipeMealType(slot.type));
+      });
+      expect(Math.abs(day.macroResidual!.calories)).toBeLessThan(150);
+    });
+
+    const recipe = getRecipeById("recipe-088")!;
+    const target = { protein: 45, carbs: 80, fats: 20 };
+    const scaled = scaleRecipeToTarget(recipe, target);
+    const totals = sumIngredientMacros(scaled.ingredients.map((ing) => ({ food: foodById(ing.foodId), grams: ing.grams })));
+    expect(Math.abs(totals.calories - caloriesForMacros(target))).toBeLessThan(50);
+
+    // One factor for every ingredient: the dish keeps its proportions
+    const [chicken, , rice] = scaled.ingredients;
+    expect(chicken.grams / rice.grams).toBeCloseTo(0.25 / 0.12, 0);
+  });
+
+  it("rotates recipes across the week and reproduces them from the seed", () => {
+    const plan = generateWeeklyPlan(input, { seed: "recipes" });
+    const lunches = plan.days.map((day) => day.meals.lunch.recipeId);
+
+    expect(new Set(lunches).size).toBe(lunches.length);
+    expect(generateWeeklyPlan(input, { seed: "recipes" }).days.map((day) => day.meals.lunch.recipeId)).toEqual(lunches);
+  });
+
+  it("only schedules recipes whose ingredients fit restrictions and allergies", () => {
+    const allergies = [{ allergen: "lactose" as const, severity: "severe" as const }];
+    const plan = generateWeeklyPlan(
+      createPlanInput({ mealsPerDay: 4, planMode: "recipes", restrictions: ["vegetarian"], allergies }),
+      { seed: "veg" }
+    );
+
+    plan.days.forEach((day) => {
+      getDayMealSlots(day.meals).forEach((slot) => {
+        expect(slot.meal!.recipeId).toBeDefined();
+        slot.meal!.portions!.forEach(({ foodId }) => {
+          const food = foodById(foodId);
+          expect(isFoodAllowed(food, ["vegetarian"]), food.name).toBe(true);
+          expect(isFoodSafeForAllergies(food, allergies), food.name).toBe(true);
+        });
+      });
+    });
+  });
+
+  it("derives the shopping list from recipe ingredients and swaps in another recipe", () => {
+    const plan = generateWeeklyPlan(input, { seed: "recipes" });
+    const planFoods = new Set(
+      plan.days.flatMap((day) => getDayMealSlots(day.meals).flatMap((slot) => slot.meal!.foodIds))
+    );
+    const { items } = generateShoppingList(input, plan);
+
+    expect(items.length).toBeGreaterThan(0);
+    items.forEach((item) => expect(planFoods.has(item.id), item.name).toBe(true));
+
+    const swapped = generateSingleMeal(input, "lunch", false, [], "monday", { seed: "swap-1" });
+    expect(getRecipeById(swapped.recipeId!)?.mealType).toBe("lunch");
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectRegion,
+  formatConverted,
+  formatCurrency,
+  formatMoney,
+  getRegionCatalogs,
+  REGIONS
+} from "../core/logic/regions";
+import { BUILT_IN_STORE_CATALOGS } from "../core/logic/storeCatalogs";
+import { convertCurrency, EUR_EXCHANGE_RATES, fromEur, toEur } from "../core/utils/currency";
+
+// Intl separates the amount and the symbol with a no-break space
+const normalize = (text: string) => text.replace(/[\u00a0\u202f]/g, " ");
+
+describe("Pricing regions", () => {
+  it("detects the region of a browser locale", () => {
+    expect(detectRegion("pt-BR")).toBe("BR");
+    expect(detectRegion("en-US")).toBe("US");
+    expect(detectRegion("en_us")).toBe("US");
+    expect(detectRegion("pt-PT")).toBe("PT");
+    expect(detectRegion("fr")).toBe("PT");
+    expect(detectRegion(undefined)).toBe("PT");
+  });
+
+  it("converts through the local rate table", () => {
+    expect(fromEur(10, "BRL")).toBeCloseTo(10 * EUR_EXCHANGE_RATES.BRL, 6);
+    expect(toEur(fromEur(12.5, "USD"), "USD")).toBeCloseTo(12.5, 6);
+    expect(convertCurrency(59, "BRL", "BRL")).toBe(59);
+    expect(convertCurrency(EUR_EXCHANGE_RATES.USD, "USD", "BRL")).toBeCloseTo(EUR_EXCHANGE_RATES.BRL, 6);
+  });
+
+  it("formats EUR costs in the region's currency and locale", () => {
+    expect(normalize(formatMoney(12.5, "PT"))).toBe("12,50 €");
+    expect(normalize(formatMoney(10, "BR"))).toBe(normalize(formatCurrency(10 * EUR_EXCHANGE_RATES.BRL, "BRL", "BR")));
+    expect(normalize(formatCurrency(1234.5, "BRL", "BR"))).toBe("R$ 1.234,50");
+    expect(formatCurrency(1234.5, "USD", "US")).toBe("$1,234.50");
+    expect(formatMoney(-2, "US", { signed: true })).toBe(`-${formatMoney(2, "US")}`);
+    expect(formatMoney(2, "US", { signed: true })).toBe(`+${formatMoney(2, "US")}`);
+    // A budget in dollars shown to a Brazilian user
+    expect(formatConverted(10, "USD", "BR")).toBe(formatCurrency(convertCurrency(10, "USD", "BRL"), "BRL", "BR"));
+  });
+
+  it("offers each region the stores priced in its currency", () => {
+    (Object.keys(REGIONS) as Array<keyof typeof REGIONS>).forEach((region) => {
+      const catalogs = getRegionCatalogs(BUILT_IN_STORE_CATALOGS, region);
+      expect(catalogs.length).toBeGreaterThanOrEqual(2);
+      catalogs.forEach((catalog) => expect(catalog.currency).toBe(REGIONS[region].currency));
+    });
+    expect(getRegionCatalogs(BUILT_IN_STORE_CATALOGS, "BR").map((catalog) => catalog.id)).toEqual(["pao-de-acucar", "atacadao"]);
+  });
+});
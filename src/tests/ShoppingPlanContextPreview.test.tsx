@@ -0,0 +1,69 @@
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ShoppingPlanProvider, useShoppingPlan } from "../contexts/ShoppingPlanContext";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { createPlanInput } from "./factories/createPlanInput";
+
+type ContextValue = ReturnType<typeof useShoppingPlan>;
+
+function ContextProbe({ onRender }: { onRender: (value: ContextValue) => void }) {
+  onRender(useShoppingPlan());
+  return null;
+}
+
+describe("ShoppingPlanContext previews", () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+    localStorage.clear();
+    userPreferencesStore.clearAll();
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  it("previews a household plan without side effects and applies it as shown", async () => {
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+
+    let root: Root | null = null;
+    let context: ContextValue | null = null;
+
+    await act(async () => {
+      root = createRoot(container);
+      root.render(
+        <ShoppingPlanProvider>
+          <ContextProbe onRender={(value) => { context = value; }} />
+        </ShoppingPlanProvider>,
+      );
+    });
+
+    const input = createPlanInput({
+      startDate: "2026-10-19",
+      partners: [{ sex: "female", age: 29, weightKg: 58, heightCm: 163, trains: false }]
+    });
+    const preview = context!.previewPlan(input);
+
+    expect(preview.householdMembers).toHaveLength(2);
+    expect(userPreferencesStore.exportPreferences().selectionHistory).toEqual({});
+    expect(context!.weeklyPlan).toBeNull();
+
+    await act(async () => {
+      context!.applyPreviewedPlan(preview);
+    });
+
+    expect(context!.weeklyPlan).toBe(preview);
+    expect(context!.currentInput).toEqual(preview.planInput);
+    expect(Object.keys(userPreferencesStore.exportPreferences().selectionHistory).length).toBeGreaterThan(0);
+
+    await act(async () => {
+      root?.unmount();
+    });
+
+    document.body.removeChild(container);
+  });
+});
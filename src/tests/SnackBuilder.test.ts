@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { getDayMealSlots } from "../core/logic/mealSlots";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { CATEGORIES } from "../core/constants/categories";
+import { mockFoods } from "../data/mockFoods";
+import type { Meal } from "../core/models/WeeklyPlan";
+import { createPlanInput } from "./factories/createPlanInput";
+
+const SNACK_CATEGORIES: string[] = [CATEGORIES.snacks, CATEGORIES.dairy, CATEGORIES.fruits, CATEGORIES.fats, CATEGORIES.supplements];
+
+function snackMeals(plan: ReturnType<typeof generateWeeklyPlan>): Meal[] {
+  return plan.days.flatMap((day) =>
+    getDayMealSlots(day.meals).filter((slot) => slot.type === "snack" || slot.type === "pre_workout").map((slot) => slot.meal)
+  );
+}
+
+function mealFoods(meal: Meal) {
+  return meal.portions.map((portion) => mockFoods.find((food) => food.id === portion.foodId)!);
+}
+
+describe("Snack builder", () => {
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("varies snacks through the week from snack, dairy, fruit and fat foods", () => {
+    const plan = generateWeeklyPlan(createPlanInput({ mealsPerDay: 5, trains: false }), { seed: "snack-week" });
+    const snacks = snackMeals(plan);
+
+    expect(snacks.length).toBe(14);
+    expect(new Set(snacks.map((meal) => meal.name)).size).toBeGreaterThan(3);
+    snacks.forEach((meal) => {
+      mealFoods(meal).forEach((food) => expect(SNACK_CATEGORIES).toContain(food.category));
+    });
+
+    // Sized with the rest of the day: totals still hit the target
+    plan.days.forEach((day) => {
+      expect(Math.abs(day.macroResidual!.calories)).toBeLessThan(200);
+    });
+  });
+
+  it("skips excluded foods and respects restrictions", () => {
+    const base = generateWeeklyPlan(createPlanInput({ mealsPerDay: 5, trains: false }), { seed: "snack-week" });
+    const excluded = Array.from(new Set(snackMeals(base).flatMap((meal) => mealFoods(meal).map((food) => food.name)))).slice(0, 2);
+
+    const plan = generateWeeklyPlan(createPlanInput({ mealsPerDay: 5, trains: false, excludedFoods: excluded }), { seed: "snack-week" });
+    snackMeals(plan).forEach((meal) => {
+      mealFoods(meal).forEach((food) => expect(excluded).not.toContain(food.name));
+    });
+
+    const vegan = generateWeeklyPlan(createPlanInput({ mealsPerDay: 5, trains: false, restrictions: ["vegan"] }), { seed: "snack-week" });
+    snackMeals(vegan).forEach((meal) => {
+      mealFoods(meal).forEach((food) => expect(food.category).not.toBe(CATEGORIES.dairy));
+    });
+  });
+});
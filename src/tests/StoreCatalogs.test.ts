@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { generateShoppingList } from "../core/logic/generateShoppingList";
+import {
+  BUILT_IN_STORE_CATALOGS,
+  compareStores,
+  getStoreCatalogs,
+  parseStoreCatalogFile,
+  priceWithStore,
+  suggestSplitBasket
+} from "../core/logic/storeCatalogs";
+import { getRegionCatalogs } from "../core/logic/regions";
+import { StoreCatalogSchema } from "../core/validation/StoreCatalogSchema";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { CATEGORIES } from "../core/constants/categories";
+import { marketQuantityToGrams } from "../core/utils/marketUnits";
+import { mockFoods } from "../data/mockFoods";
+import type { FoodItem } from "../core/models/FoodItem";
+import type { StoreCatalog } from "../core/models/StoreCatalog";
+import { createPlanInput } from "./factories/createPlanInput";
+
+function catalog(id: string, prices: Array<[string, number, number]>): StoreCatalog {
+  return { id, name: id, currency: "EUR", prices: prices.map(([foodId, price, packageGrams]) => ({ foodId, price, packageGrams })) };
+}
+
+function item(foodId: string, quantity: number): FoodItem {
+  return { ...mockFoods.find((food) => food.id === foodId)!, quantity };
+}
+
+describe("Store price catalogs", () => {
+  const input = createPlanInput({ mealsPerDay: 4, startDate: "2026-10-19" });
+
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("prices the shopping list in whole packages of the chosen store", () => {
+    const plan = generateWeeklyPlan(input, { seed: "stores" });
+    const reference = generateShoppingList(input, plan).items;
+    const lidl = BUILT_IN_STORE_CATALOGS.find((entry) => entry.id === "lidl")!;
+    const priced = generateShoppingList(input, plan, { store: lidl }).items;
+
+    expect(priced.map((entry) => entry.quantity)).toEqual(reference.map((entry) => entry.quantity));
+    priced.forEach((entry, index) => {
+      const price = lidl.prices.find((row) => row.foodId === entry.id);
+      if (!price) {
+        // Not sold there: reference price, no store packages
+        expect(entry.storeId).toBeUndefined();
+        expect(entry.estimatedPrice).toBe(reference[index].estimatedPrice);
+        return;
+      }
+
+      expect(entry.storeId).toBe("lidl");
+      if (price.loose) {
+        // Loose produce: exactly what the list needs, by weight
+        expect(entry.storePackages).toBeUndefined();
+        expect(entry.estimatedPrice).toBeCloseTo((marketQuantityToGrams(entry.quantity, entry.unit) / price.packageGrams) * price.price, 2);
+        return;
+      }
+      expect(entry.storePackageGrams).toBe(price.packageGrams);
+      expect(entry.storePackages! * price.packageGrams).toBeGreaterThanOrEqual(marketQuantityToGrams(entry.quantity, entry.unit) - 0.01);
+      expect(entry.estimatedPrice).toBeCloseTo(entry.storePackages! * price.price, 2);
+    });
+  });
+
+  it("compares the same list's total at every store, cheapest first", () => {
+    const plan = generateWeeklyPlan(input, { seed: "stores" });
+    const items = generateShoppingList(input, plan).items;
+    const portugal = getRegionCatalogs(BUILT_IN_STORE_CATALOGS, "PT");
+    const comparisons = compareStores(items, portugal);
+
+    expect(comparisons.map((comparison) => comparison.storeId).sort()).toEqual(["continente", "lidl", "pingo-doce"]);
+    comparisons.slice(1).forEach((comparison, index) => expect(comparison.total).toBeGreaterThanOrEqual(comparisons[index].total));
+    comparisons.forEach((comparison) => {
+      const store = portugal.find((entry) => entry.id === comparison.storeId)!;
+      const listTotal = priceWithStore(items, store)
+        .filter((entry) => entry.quantity > 0)
+        .reduce((sum, entry) => sum + entry.estimatedPrice!, 0);
+      expect(comparison.total).toBeCloseTo(listTotal, 1);
+      comparison.unlistedItems.forEach((name) => {
+        const food = items.find((entry) => entry.name === name)!;
+        expect(store.prices.some((row) => row.foodId === food.id)).toBe(false);
+      });
+    });
+  });
+
+  it("splits the basket only when a second store saves enough", () => {
+    const chicken = mockFoods.find((food) => food.name === "Chicken breast (skinless)")!;
+    const broccoli = mockFoods.find((food) => food.category === CATEGORIES.vegetables && food.unit === "kg")!;
+    const items = [item(chicken.id, 2), item(broccoli.id, 2)];
+    const butcher = catalog("butcher", [[chicken.id, 2, 500], [broccoli.id, 6, 1000]]);
+    const greengrocer = catalog("greengrocer", [[chicken.id, 6, 500], [broccoli.id, 1, 1000]]);
+
+    const split = suggestSplitBasket(items, [butcher, greengrocer])!;
+    expect(split.stores.find((store) => store.storeId === "butcher")!.categories).toEqual([CATEGORIES.protein]);
+    expect(split.stores.find((store) => store.storeId === "greengrocer")!.categories).toEqual([CATEGORIES.vegetables]);
+    // 4 packs × 2 + 2 × 1 vs the cheaper single store (butcher: 8 + 12)
+    expect(split.total).toBe(10);
+    expect(split.savings).toBe(10);
+
+    const everythingCheaper = catalog("discount", [[chicken.id, 1.9, 500], [broccoli.id, 0.9, 1000]]);
+    expect(suggestSplitBasket(items, [butcher, everythingCheaper])).toBeNull();
+    expect(suggestSplitBasket(items, [butcher])).toBeNull();
+  });
+
+  it("imports catalogs from CSV and JSON files", () => {
+    const csv = [
+      "foodId;name;price;packageGrams;loose",
+      "food-001;\"Chicken; breast\";4,29;500;",
+      "food-015;Broccoli;2,49;1000;yes"
+    ].join("\n");
+    const imported = parseStoreCatalogFile("Mercado Município.csv", csv);
+
+    expect(imported).toMatchObject({ id: "mercado-municipio", name: "Mercado Município", currency: "EUR" });
+    expect(imported.prices).toEqual([
+      { foodId: "food-001", name: "Chicken; breast", price: 4.29, packageGrams: 500, loose: false },
+      { foodId: "food-015", name: "Broccoli", price: 2.49, packageGrams: 1000, loose: true }
+    ]);
+
+    const json = JSON.stringify(catalog("lidl", [["food-001", 3.99, 1000]]));
+    const override = parseStoreCatalogFile("lidl.json", json);
+    const catalogs = getStoreCatalogs([override]);
+    expect(catalogs.filter((entry) => entry.id === "lidl")).toEqual([override]);
+
+    expect(() => parseStoreCatalogFile("bad.csv", "foodId,price,packageGrams\nfood-001,-1,500")).toThrow(/price/);
+    expect(() => parseStoreCatalogFile("empty.csv", "")).toThrow();
+  });
+
+  it("ships valid built-in catalogs of known foods", () => {
+    const foodNames = new Map(mockFoods.map((food) => [food.id, food.name]));
+    expect(foodNames.size).toBe(mockFoods.length);
+
+    BUILT_IN_STORE_CATALOGS.forEach((store) => {
+      expect(StoreCatalogSchema.safeParse(store).success).toBe(true);
+      store.prices.forEach((price) => {
+        expect(foodNames.has(price.foodId)).toBe(true);
+        // The row prices the food it names (no id shared by two foods)
+        expect(foodNames.get(price.foodId), `${store.id} ${price.foodId}`).toBe(price.name ?? foodNames.get(price.foodId));
+      });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { generateShoppingList } from "../core/logic/generateShoppingList";
+import {
+  BUILT_IN_STORE_LAYOUTS,
+  getAisleIndex,
+  getStoreLayouts,
+  groupByAisle,
+  moveAisle,
+  sortByStoreLayout
+} from "../core/logic/storeLayouts";
+import { StoreLayoutSchema } from "../core/validation/StoreLayoutSchema";
+import { CATEGORIES } from "../core/constants/categories";
+import { mockFoods } from "../data/mockFoods";
+import type { StoreLayout } from "../core/models/StoreLayout";
+import { createPlanInput } from "./factories/createPlanInput";
+
+const layout: StoreLayout = {
+  id: "corner-shop",
+  name: "Corner shop",
+  aisles: [
+    { id: "fresh", name: "Fresh", categories: [CATEGORIES.vegetables, CATEGORIES.fruits] },
+    { id: "fridge", name: "Fridge", categories: [CATEGORIES.dairy], foodIds: ["food-002"] },
+    { id: "butcher", name: "Butcher", categories: [CATEGORIES.protein] }
+  ]
+};
+
+function food(id: string) {
+  return mockFoods.find((entry) => entry.id === id)!;
+}
+
+describe("Store layouts", () => {
+  it("shelves specific foods ahead of their category", () => {
+    const eggs = food("food-002");
+    const chicken = food("food-001");
+
+    expect(eggs.category).toBe(CATEGORIES.protein);
+    expect(getAisleIndex(eggs, layout)).toBe(1);
+    expect(getAisleIndex(chicken, layout)).toBe(2);
+    expect(getAisleIndex({ id: "food-x", category: CATEGORIES.snacks }, layout)).toBe(-1);
+  });
+
+  it("sorts the list in walking order, unshelved foods last", () => {
+    const items = [
+      { id: "a", name: "Crisps", category: CATEGORIES.snacks },
+      { id: "b", name: "Chicken", category: CATEGORIES.protein },
+      { id: "food-002", name: "Eggs", category: CATEGORIES.protein },
+      { id: "c", name: "Apples", category: CATEGORIES.fruits },
+      { id: "d", name: "Milk", category: CATEGORIES.dairy },
+      { id: "e", name: "Spinach", category: CATEGORIES.vegetables }
+    ];
+
+    expect(sortByStoreLayout(items, layout).map((item) => item.name))
+      .toEqual(["Apples", "Spinach", "Eggs", "Milk", "Chicken", "Crisps"]);
+
+    const groups = groupByAisle(items, layout);
+    expect(groups.map((group) => [group.aisle?.id ?? null, group.position, group.items.length]))
+      .toEqual([["fresh", 1, 2], ["fridge", 2, 2], ["butcher", 3, 1], [null, 0, 1]]);
+  });
+
+  it("reorders aisles and lets an edited preset replace the built-in one", () => {
+    const moved = moveAisle(layout, "butcher", -5);
+    expect(moved.aisles.map((aisle) => aisle.id)).toEqual(["butcher", "fresh", "fridge"]);
+    expect(moveAisle(layout, "fresh", 1).aisles.map((aisle) => aisle.id)).toEqual(["fridge", "fresh", "butcher"]);
+    expect(moveAisle(layout, "missing", 1)).toBe(layout);
+
+    const [preset] = BUILT_IN_STORE_LAYOUTS;
+    const edited = moveAisle(preset, preset.aisles[0].id, 1);
+    const layouts = getStoreLayouts([edited, layout]);
+    expect(layouts.map((entry) => entry.id)).toEqual([...BUILT_IN_STORE_LAYOUTS.map((entry) => entry.id), "corner-shop"]);
+    expect(layouts[0]).toBe(edited);
+  });
+
+  it("ships presets that shelve every item of a generated list", () => {
+    const input = createPlanInput({ mealsPerDay: 4, startDate: "2026-10-19" });
+    const items = generateShoppingList(input, generateWeeklyPlan(input, { seed: "aisles" })).items;
+    const foodIds = new Set(mockFoods.map((entry) => entry.id));
+
+    BUILT_IN_STORE_LAYOUTS.forEach((preset) => {
+      expect(StoreLayoutSchema.safeParse(preset).success).toBe(true);
+      preset.aisles.forEach((aisle) => aisle.foodIds?.forEach((id) => expect(foodIds.has(id)).toBe(true)));
+      items.forEach((item) => expect(getAisleIndex(item, preset)).toBeGreaterThanOrEqual(0));
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { generateWeeklyPlan, generateSingleMeal } from "../core/logic/generateWeeklyPlan";
+import {
+  applyTrainingSessionAdjustment,
+  getSessionForDay,
+  resolveTrainingSchedule,
+  DEFAULT_TRAINING_SCHEDULE,
+} from "../core/logic/TrainingSessions";
+import { validatePlanInput } from "../core/validation/PlanInputSchema";
+import { generatePlanFingerprint } from "../core/utils/planFingerprint";
+import { mockFoods } from "../data/mockFoods";
+import { createPlanInput } from "./factories/createPlanInput";
+
+const baseTarget = { protein: 40, carbs: 60, fats: 15 };
+
+describe("User-defined training schedule", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("falls back to the Mon/Wed/Thu/Sat strength split", () => {
+    expect(resolveTrainingSchedule(createPlanInput({ trains: true }))).toEqual(DEFAULT_TRAINING_SCHEDULE);
+    expect(resolveTrainingSchedule(createPlanInput({ trains: false }))).toEqual([]);
+  });
+
+  it("trains exactly on the days the user picked", () => {
+    const plan = generateWeeklyPlan(createPlanInput({
+      trains: true,
+      trainingSchedule: [
+        { day: "tuesday", session: "endurance" },
+        { day: "friday", session: "strength" },
+        { day: "sunday", session: "rest" },
+      ],
+    }));
+
+    expect(plan.days.filter((day) => day.trainingDay).map((day) => day.day)).toEqual(["tuesday", "friday"]);
+    expect(plan.days.find((day) => day.day === "tuesday")?.sessionType).toBe("endurance");
+    expect(plan.days.find((day) => day.day === "sunday")?.sessionType).toBe("rest");
+  });
+
+  it("ignores the schedule when the user does not train", () => {
+    const input = createPlanInput({ trains: false, trainingSchedule: [{ day: "monday", session: "strength" }] });
+
+    expect(getSessionForDay(input, "monday")).toBe("rest");
+    expect(generateWeeklyPlan(input).days.every((day) => !day.trainingDay)).toBe(true);
+  });
+
+  it("maps each session type to its own macro adjustment", () => {
+    const strength = applyTrainingSessionAdjustment(baseTarget, "strength");
+    const endurance = applyTrainingSessionAdjustment(baseTarget, "endurance");
+    const recovery = applyTrainingSessionAdjustment(baseTarget, "active_recovery");
+
+    expect(applyTrainingSessionAdjustment(baseTarget, "rest")).toEqual(baseTarget);
+    expect(strength.carbs).toBe(69);
+    expect(endurance.carbs).toBeGreaterThan(strength.carbs);
+    expect(recovery.carbs).toBeGreaterThan(baseTarget.carbs);
+    expect(recovery.carbs).toBeLessThan(strength.carbs);
+    [strength, endurance, recovery].forEach((target) => expect(target.protein).toBe(baseTarget.protein));
+  });
+
+  it("uses the session type when swapping a single meal", () => {
+    // Freeze the swap seed so every call picks the same foods
+    vi.spyOn(Math, "random").mockReturnValue(0.123456);
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-20T12:00:00.000Z"));
+
+    // Rice cakes cap at 12 per meal (market units), use a weighed carb so both portions can move
+    const input = createPlanInput({
+      trains: true,
+      trainingSchedule: [{ day: "tuesday", session: "endurance" }],
+      excludedFoods: ["Puffed rice cakes"],
+    });
+
+    const rest = generateSingleMeal(input, "lunch", "rest");
+    const endurance = generateSingleMeal(input, "lunch", "endurance");
+    const legacyFlag = generateSingleMeal(input, "lunch", true, [], "tuesday");
+
+    const carbGrams = (meal: typeof rest) => meal.portions.reduce((sum, portion) => {
+      const food = mockFoods.find((item) => item.id === portion.foodId);
+      return sum + ((food?.macros?.carbs ?? 0) * portion.gramsNeeded) / 100;
+    }, 0);
+
+    expect(endurance.foodIds).toEqual(rest.foodIds);
+    expect(carbGrams(endurance)).toBeGreaterThan(carbGrams(rest));
+    expect(legacyFlag.portions).toEqual(endurance.portions);
+  });
+
+  it("validates days and session types", () => {
+    expect(validatePlanInput(createPlanInput({
+      trainingSchedule: [{ day: "monday", session: "active_recovery" }],
+    })).success).toBe(true);
+
+    const unknownSession = validatePlanInput({
+      ...createPlanInput(),
+      trainingSchedule: [{ day: "monday", session: "yoga" }],
+    });
+    expect(unknownSession.success).toBe(false);
+    expect(unknownSession.errors?.some((error) => error.startsWith("trainingSchedule"))).toBe(true);
+
+    expect(validatePlanInput(createPlanInput({
+      trainingSchedule: [
+        { day: "monday", session: "strength" },
+        { day: "monday", session: "endurance" },
+      ],
+    })).success).toBe(false);
+  });
+
+  it("changes the plan fingerprint only for custom schedules", () => {
+    const base = createPlanInput({ trains: true });
+
+    expect(generatePlanFingerprint(base)).toBe(generatePlanFingerprint({ ...base }));
+    expect(generatePlanFingerprint({
+      ...base,
+      trainingSchedule: [{ day: "tuesday", session: "strength" }],
+    })).not.toBe(generatePlanFingerprint(base));
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan } from "../core/logic/generateWeeklyPlan";
+import { generateShoppingList } from "../core/logic/generateShoppingList";
+import { getShoppingListCost } from "../core/logic/diffWeeklyPlans";
+import { getDayMealSlots } from "../core/logic/mealSlots";
+import { filterAffordableFoods, getMealCost, getPackagedCost, withPlanCosts } from "../core/logic/weeklyBudget";
+import { EUR_EXCHANGE_RATES } from "../core/utils/currency";
+import { validatePlanInput } from "../core/validation/PlanInputSchema";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { CATEGORIES } from "../core/constants/categories";
+import { mockFoods } from "../data/mockFoods";
+import { createPlanInput } from "./factories/createPlanInput";
+
+describe("Weekly budget", () => {
+  const input = createPlanInput({ mealsPerDay: 4, costTier: "low", startDate: "2026-10-19" });
+
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("breaks every plan's cost down per day and meal", () => {
+    const plan = generateWeeklyPlan({ ...input, householdSize: 2 }, { seed: "budget" });
+    const breakdown = plan.costBreakdown!;
+
+    expect(breakdown.currency).toBe("EUR");
+    expect(breakdown.days).toHaveLength(plan.days.length);
+    expect(plan.budget).toBeUndefined();
+
+    breakdown.days.forEach((day, index) => {
+      const slots = getDayMealSlots(plan.days[index].meals);
+      expect(day.date).toBe(plan.days[index].date);
+      expect(day.meals.map((meal) => meal.slotId)).toEqual(slots.map((slot) => slot.id));
+      day.meals.forEach((meal, slotIndex) => {
+        // Whole household: two plates of the same portions
+        expect(meal.cost).toBeCloseTo(getMealCost(slots[slotIndex].meal, 2), 1);
+        expect(meal.cost).toBeGreaterThan(0);
+      });
+      expect(day.cost).toBeCloseTo(day.meals.reduce((sum, meal) => sum + meal.cost, 0), 2);
+    });
+    expect(breakdown.totalCost).toBeCloseTo(breakdown.days.reduce((sum, day) => sum + day.cost, 0), 2);
+  });
+
+  it("fits the shopping list, whole packages included, to the budget", () => {
+    const unconstrained = generateWeeklyPlan(input, { seed: "budget" });
+    const unconstrainedCost = getShoppingListCost(generateShoppingList(input, unconstrained).items);
+    userPreferencesStore.clearAll();
+    const budget = Math.round(unconstrainedCost * 0.5);
+    const budgetInput = { ...input, weeklyBudget: budget };
+    const plan = generateWeeklyPlan(budgetInput, { seed: "budget" });
+    const listCost = getShoppingListCost(generateShoppingList(budgetInput, plan).items);
+
+    // The verdict is the list's total, not the (lower) cost of the food eaten
+    expect(plan.budget).toMatchObject({ weeklyBudget: budget, currency: "EUR", status: "within_budget" });
+    expect(plan.budget!.totalCost).toBeCloseTo(listCost, 2);
+    expect(plan.budget!.totalCost).toBeLessThanOrEqual(budget);
+    expect(plan.budget!.totalCost).toBeGreaterThan(plan.costBreakdown!.totalCost);
+    expect(plan.budget!.remaining).toBeCloseTo(budget - plan.budget!.totalCost, 2);
+
+    // Built meals say which candidates the budget left out
+    const meals = plan.days.flatMap((day) => getDayMealSlots(day.meals).map((slot) => slot.meal));
+    meals.forEach((meal) => expect(meal.rationale!.protein!.budgetFiltered).toBeDefined());
+    expect(meals.some((meal) => meal.rationale!.protein!.budgetFiltered!.length > 0)).toBe(true);
+  });
+
+  it("charges whole packages and re-derives the verdict for a changed list", () => {
+    const peanutButter = mockFoods.find((food) => food.unit === "jar")!;
+    expect(getPackagedCost(peanutButter, 20)).toBe(peanutButter.pricePerUnit);
+    expect(getPackagedCost(peanutButter, 400)).toBe(peanutButter.pricePerUnit * 2);
+
+    const budgetInput = { ...input, weeklyBudget: 60 };
+    const plan = generateWeeklyPlan(budgetInput, { seed: "budget" });
+    const items = generateShoppingList(budgetInput, plan).items;
+    // Everything already in the pantry: nothing left to buy
+    const covered = items.map((item) => ({ ...item, estimatedPrice: 0, coveredByPantry: true }));
+    const rederived = withPlanCosts(budgetInput, plan, covered);
+
+    expect(rederived.budget).toMatchObject({ totalCost: 0, remaining: 60, status: "within_budget" });
+    expect(rederived.costBreakdown).toEqual(plan.costBreakdown);
+    expect(withPlanCosts(input, plan, items).budget).toBeUndefined();
+  });
+
+  it("flags a budget that can't buy the protein target", () => {
+    const plan = generateWeeklyPlan({ ...input, weeklyBudget: 5 }, { seed: "budget" });
+
+    expect(plan.budget!.status).toBe("infeasible_protein");
+    expect(plan.budget!.minimumProteinCost).toBeGreaterThan(5);
+    expect(plan.budget!.remaining).toBeLessThan(0);
+    // Still a full plan, from the cheapest foods
+    expect(plan.days).toHaveLength(7);
+  });
+
+  it("works in the budget's currency", () => {
+    const inEur = generateWeeklyPlan({ ...input, weeklyBudget: 60 }, { seed: "budget" });
+    userPreferencesStore.clearAll();
+    const inUsd = generateWeeklyPlan(
+      { ...input, weeklyBudget: Math.round(60 * EUR_EXCHANGE_RATES.USD * 100) / 100, budgetCurrency: "USD" },
+      { seed: "budget" }
+    );
+
+    expect(inUsd.costBreakdown!.currency).toBe("USD");
+    expect(inUsd.budget!.currency).toBe("USD");
+    expect(inUsd.costBreakdown!.totalCost).toBeCloseTo(inEur.costBreakdown!.totalCost * EUR_EXCHANGE_RATES.USD, 0);
+    expect(inUsd.budget!.status).toBe(inEur.budget!.status);
+  });
+
+  it("drops foods over the meal allowance, never a whole category", () => {
+    const target = { protein: 40, carbs: 60, fats: 15 };
+    const affordable = filterAffordableFoods(mockFoods, { allowance: 0.5 }, target);
+    const salmon = mockFoods.find((food) => food.name === "Salmon fillet")!;
+
+    expect(affordable).not.toContain(salmon);
+    expect(filterAffordableFoods(mockFoods, undefined, target)).toEqual(mockFoods);
+    [CATEGORIES.protein, CATEGORIES.grains, CATEGORIES.fats].forEach((category) => {
+      expect(affordable.some((food) => food.category === category)).toBe(true);
+    });
+    // Side vegetables are never costed out
+    expect(affordable.filter((food) => food.category === CATEGORIES.vegetables))
+      .toHaveLength(mockFoods.filter((food) => food.category === CATEGORIES.vegetables).length);
+  });
+
+  it("validates the budget and currency", () => {
+    expect(validatePlanInput({ ...input, weeklyBudget: 50, budgetCurrency: "BRL" }).success).toBe(true);
+    expect(validatePlanInput({ ...input, weeklyBudget: -10 }).success).toBe(false);
+    expect(validatePlanInput({ ...input, weeklyBudget: 50, budgetCurrency: "JPY" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { generateWeeklyPlan, generateSingleMeal } from "../core/logic/generateWeeklyPlan";
+import { getDayMealSlots, getMealSlotLayout } from "../core/logic/mealSlots";
+import { applyWorkoutTimingToLayout } from "../core/logic/workoutTiming";
+import { generateMealPrepGuide } from "../core/logic/MealPrepGuide";
+import { validatePlanInput } from "../core/validation/PlanInputSchema";
+import { generatePlanFingerprint } from "../core/utils/planFingerprint";
+import { userPreferencesStore } from "../core/stores/UserPreferencesStore";
+import { CATEGORIES } from "../core/constants/categories";
+import { mockFoods } from "../data/mockFoods";
+import type { Meal } from "../core/models/WeeklyPlan";
+import { createPlanInput } from "./factories/createPlanInput";
+
+function mealFoods(meal: Meal) {
+  return meal.portions.map((portion) => mockFoods.find((food) => food.id === portion.foodId)!);
+}
+
+function mealCarbs(meal: Meal): number {
+  return meal.portions.reduce((sum, portion, index) => sum + (mealFoods(meal)[index].macros?.carbs ?? 0) * portion.gramsNeeded / 100, 0);
+}
+
+describe("Workout-timed meals", () => {
+  beforeEach(() => {
+    userPreferencesStore.clearAll();
+  });
+
+  it("tags the meals right before and after the workout", () => {
+    const evening = applyWorkoutTimingToLayout(getMealSlotLayout(4), { trains: true, workoutTime: "18:00" }, true);
+    expect(evening.map((slot) => [slot.id, slot.workoutTiming])).toEqual([
+      ["breakfast", undefined],
+      ["lunch", undefined],
+      ["snack", "pre"],
+      ["dinner", "post"],
+    ]);
+
+    // Fasted morning session: breakfast is the recovery meal, nothing before it
+    const morning = applyWorkoutTimingToLayout(getMealSlotLayout(3), { trains: true, workoutTime: "07:00" }, true);
+    expect(morning.map((slot) => slot.workoutTiming)).toEqual(["post", undefined, undefined]);
+
+    // Rest days and users who don't train keep the plain layout
+    expect(applyWorkoutTimingToLayout(getMealSlotLayout(4), { trains: true, workoutTime: "18:00" }, false))
+      .toEqual(getMealSlotLayout(4));
+    expect(applyWorkoutTimingToLayout(getMealSlotLayout(4), { trains: false, workoutTime: "18:00" }, true))
+      .toEqual(getMealSlotLayout(4));
+  });
+
+  it("builds a carb-forward pre-workout meal and moves the session carbs around the workout", () => {
+    const base = createPlanInput({
+      mealsPerDay: 4,
+      trainingSchedule: [{ day: "monday", session: "endurance" }],
+      startDate: "2026-10-19",
+    });
+    const timed = generateWeeklyPlan({ ...base, workoutTime: "18:00" }, { seed: "workout" });
+    const even = generateWeeklyPlan(base, { seed: "workout" });
+    const monday = getDayMealSlots(timed.days[0].meals);
+    const pre = monday.find((slot) => slot.workoutTiming === "pre")!;
+    const post = monday.find((slot) => slot.workoutTiming === "post")!;
+
+    expect(timed.days[0].workoutTime).toBe("18:00");
+    expect(timed.days[1].workoutTime).toBeUndefined();
+    expect([pre.id, post.id]).toEqual(["snack", "dinner"]);
+
+    // Pre-workout: protein + grains/fruit, no added fat or side vegetable
+    const preCategories = mealFoods(pre.meal).map((food) => food.category);
+    expect(preCategories).not.toContain(CATEGORIES.fats);
+    expect(preCategories.some((category) => category === CATEGORIES.grains || category === CATEGORIES.fruits)).toBe(true);
+    expect(mealFoods(post.meal).map((food) => food.category)).toContain(CATEGORIES.grains);
+
+    // Same day total, but the extra carbs sit on the workout meals (more than their share of the day)
+    const carbsOf = (slots: typeof monday) => slots.reduce((sum, slot) => sum + mealCarbs(slot.meal), 0);
+    const shareOf = (slots: typeof monday) => slots.reduce((sum, slot) => sum + slot.share, 0);
+    const timedSlots = monday.filter((slot) => slot.workoutTiming);
+    expect(carbsOf(timedSlots) / carbsOf(monday)).toBeGreaterThan(shareOf(timedSlots));
+    expect(getDayMealSlots(even.days[0].meals).some((slot) => slot.workoutTiming)).toBe(false);
+    expect(Math.abs(timed.days[0].macroResidual!.calories)).toBeLessThan(200);
+
+    // Swaps keep the slot's timing
+    const swapped = generateSingleMeal({ ...base, workoutTime: "18:00" }, "snack", "endurance", [], "monday", { seed: "workout" });
+    expect(mealFoods(swapped).map((food) => food.category)).not.toContain(CATEGORIES.fats);
+  });
+
+  it("shows the timing in the prep guide and validates the time", () => {
+    const input = createPlanInput({ mealsPerDay: 4, workoutTime: "18:00", startDate: "2026-10-19" });
+    const guide = generateMealPrepGuide(generateWeeklyPlan(input, { seed: "workout" }));
+
+    // Default schedule: four training days, pre + post each
+    expect(guide.workoutMeals).toBe(8);
+    expect(guide.workoutTime).toBe("18:00");
+    expect(guide.tips.some((tip) => tip.includes("18:00"))).toBe(true);
+
+    expect(validatePlanInput(createPlanInput({ workoutTime: "25:00" })).success).toBe(false);
+    expect(generatePlanFingerprint(input)).not.toBe(generatePlanFingerprint({ ...input, workoutTime: "07:00" }));
+  });
+});
@@ -59,6 +59,64 @@ export type DietaryRestriction =
   | "lactose-free"
   | "nut-free";
 
+// Food diet classification (most permissive diet that can eat the food)
+export type FoodDiet =
+  | "vegan"        // No animal products
+  | "vegetarian"   // Dairy, eggs, honey
+  | "omnivore";    // Meat, fish, seafood
+
+// Food allergens / intolerances tracked per food
+export type FoodAllergen =
+  | "gluten"
+  | "lactose"
+  | "tree_nuts"
+  | "peanuts"
+  | "soy"
+  | "sesame"
+  | "shellfish"
+  | "fish"
+  | "eggs";
+
+// Allergy severity (severe also excludes cross-contamination traces)
+export type AllergySeverity =
+  | "mild"
+  | "moderate"
+  | "severe";
+
+// Cuisines users can favor (foods and recipes are tagged with the ones they belong to)
+export type Cuisine =
+  | "mediterranean"
+  | "brazilian"
+  | "asian"
+  | "mexican";
+
+// Flavor profile tags
+export type FlavorTag =
+  | "fresh"        // Raw greens, citrus, herbs
+  | "hearty"       // Stews, red meat, beans, roots
+  | "spicy"        // Chili, curry, peppers
+  | "smoky"        // Grilled / smoked
+  | "umami";       // Soy, mushrooms, fish, aged cheese
+
+// Currencies a weekly budget can be set in (food prices are in EUR)
+export type Currency =
+  | "EUR"
+  | "USD"
+  | "GBP"
+  | "BRL";
+
+// Pricing region: display currency, number format and store catalogs
+export type Region =
+  | "PT"   // Portugal: EUR, pt-PT
+  | "BR"   // Brazil: BRL, pt-BR
+  | "US";  // United States: USD, en-US
+
+// Weekly budget outcome (PlanInput.weeklyBudget)
+export type WeeklyBudgetStatus =
+  | "within_budget"         // Plan costs at most the budget
+  | "over_budget"           // Protein target affordable, the whole plan is not
+  | "infeasible_protein";   // Not even the cheapest protein reaches the target
+
 // Savings Status
 export type SavingsStatus = 
   | "within_savings"        // Under budget target
@@ -1,6 +1,11 @@
 import jsPDF from 'jspdf';
 import { FoodItem } from '../core/models/FoodItem';
 import { CostTier } from '../core/models/CostTier';
+import { UserAllergy } from '../core/models/PlanInput';
+import { buildAllergenSummary, formatAllergenSummaryLines } from '../core/logic/allergens';
+import { DEFAULT_REGION, formatMoney, type Region } from '../core/logic/regions';
+import { groupByAisle } from '../core/logic/storeLayouts';
+import { StoreLayout } from '../core/models/StoreLayout';
 
 /**
  * Export Shopping List to PDF
@@ -16,6 +21,7 @@ import { CostTier } from '../core/models/CostTier';
  * - Quantities and costs
  * - Total cost and savings
  * - Protein totals
+ * - Allergen summary (contains / may contain, user allergy warnings)
  * - Formatted for easy scanning
  * 
  * Source: PDF/print usability
@@ -33,6 +39,10 @@ interface ExportPdfOptions {
     savings: number;
   }>;
   fitnessGoal?: string;
+  householdSize?: number;
+  allergies?: UserAllergy[];
+  region?: Region; // Currency and number format of the prices
+  storeLayout?: StoreLayout; // Market mode: items in the layout's walking order, one section per aisle
 }
 
 /**
@@ -69,6 +79,21 @@ function formatCategoryName(category: string): string {
   return names[category] || category;
 }
 
+/**
+ * PDF sections: one per aisle in walking order with a store layout,
+ * one per category otherwise
+ */
+function buildSections(items: FoodItem[], storeLayout?: StoreLayout): Array<[string, FoodItem[]]> {
+  if (!storeLayout) {
+    return Array.from(groupByCategory(items), ([category, categoryItems]) => [formatCategoryName(category), categoryItems]);
+  }
+
+  return groupByAisle(items, storeLayout).map((group) => [
+    group.aisle ? `${group.position}. ${group.aisle.name}` : '📦 Other',
+    group.items
+  ]);
+}
+
 /**
  * Generate and download PDF shopping list
  */
@@ -79,7 +104,11 @@ export function exportShoppingListToPdf(options: ExportPdfOptions): void {
     totalProtein = 0,
     savingsStatus = 'unknown',
     substitutionsApplied = [],
-    fitnessGoal = 'maintenance'
+    fitnessGoal = 'maintenance',
+    householdSize = 1,
+    allergies = [],
+    region = DEFAULT_REGION,
+    storeLayout
   } = options;
 
   const costTierLabelMap = {
@@ -107,6 +136,11 @@ export function exportShoppingListToPdf(options: ExportPdfOptions): void {
   doc.text(`Fitness Goal: ${fitnessGoal.charAt(0).toUpperCase() + fitnessGoal.slice(1)}`, leftMargin, yPosition);
   doc.text(`Generated: ${new Date().toLocaleDateString()}`, rightMargin, yPosition, { align: 'right' });
   
+  if (householdSize > 1) {
+    yPosition += 5;
+    doc.text(`Household: ${householdSize} people`, leftMargin, yPosition);
+  }
+  
   yPosition += 15;
   
   // SUMMARY BOX
@@ -143,17 +177,38 @@ export function exportShoppingListToPdf(options: ExportPdfOptions): void {
     doc.setTextColor(60, 60, 60);
     
     for (const sub of substitutionsApplied.slice(0, 3)) {
-      doc.text(`• ${sub.from} → ${sub.to} (saved €${sub.savings.toFixed(2)})`, leftMargin + 3, yPosition);
+      doc.text(`• ${sub.from} → ${sub.to} (saved ${formatMoney(sub.savings, region)})`, leftMargin + 3, yPosition);
       yPosition += 5;
     }
     
     yPosition += 5;
   }
   
-  // ITEMS BY CATEGORY
-  const grouped = groupByCategory(items);
+  // ALLERGEN SUMMARY
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(0, 0, 0);
+  doc.text('⚠️ Allergen Summary:', leftMargin, yPosition);
+  yPosition += 7;
+  
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(60, 60, 60);
+  
+  for (const line of formatAllergenSummaryLines(buildAllergenSummary(items, allergies), allergies)) {
+    const wrapped = doc.splitTextToSize(`• ${line}`, rightMargin - leftMargin - 3);
+    if (yPosition + wrapped.length * 5 > 270) {
+      doc.addPage();
+      yPosition = 20;
+    }
+    doc.text(wrapped, leftMargin + 3, yPosition);
+    yPosition += wrapped.length * 5;
+  }
+  
+  yPosition += 5;
   
-  for (const [category, categoryItems] of grouped) {
+  // ITEMS BY CATEGORY (or by aisle, market mode)
+  for (const [sectionTitle, categoryItems] of buildSections(items, storeLayout)) {
     // Check if we need a new page
     if (yPosition > 250) {
       doc.addPage();
@@ -167,7 +222,7 @@ export function exportShoppingListToPdf(options: ExportPdfOptions): void {
     doc.setFontSize(11);
     doc.setFont('helvetica', 'bold');
     doc.setTextColor(0, 0, 0);
-    doc.text(formatCategoryName(category), leftMargin + 2, yPosition + 2);
+    doc.text(sectionTitle, leftMargin + 2, yPosition + 2);
     
     yPosition += 10;
     
@@ -183,7 +238,7 @@ export function exportShoppingListToPdf(options: ExportPdfOptions): void {
       
       const itemName = item.name;
       const quantity = `${item.quantity}${item.unit}`;
-      const price = `€${(item.estimatedPrice || 0).toFixed(2)}`;
+      const price = formatMoney(item.estimatedPrice || 0, region);
       
       // Item name
       doc.text(`• ${itemName}`, leftMargin + 3, yPosition);